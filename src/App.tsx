@@ -11,11 +11,17 @@ import { About } from './pages/About'
 import { Services } from './pages/Services'
 import { Testimonials } from './pages/Testimonials'
 import { BookClass } from './pages/BookClass'
+import { CheckoutComplete } from './pages/CheckoutComplete'
+import { FakeCheckout } from './pages/FakeCheckout'
+import { FakeClassroom } from './pages/FakeClassroom'
+import { QuestionThread } from './pages/QuestionThread'
 import { Contact } from './pages/Contact'
 import { Learning } from './pages/Learning'
 import { ArticleView } from './pages/ArticleView'
 import { Login } from './pages/Login'
 import { Profile } from './pages/Profile'
+import { InstructorDashboard } from './pages/InstructorDashboard'
+import { CompanyDashboard } from './pages/CompanyDashboard'
 import { AdminLogin } from './pages/AdminLogin'
 import { AdminDashboard } from './pages/AdminDashboard'
 import { NotFound } from './pages/NotFound'
@@ -50,11 +56,18 @@ function App() {
                         <Route path="/services" element={<Services />} />
                         <Route path="/testimonials" element={<Testimonials />} />
                         <Route path="/book-class" element={<BookClass />} />
+                        <Route path="/checkout/complete" element={<CheckoutComplete />} />
+                        {/* The fake payment provider is for local development only */}
+                        {import.meta.env.DEV && <Route path="/checkout/fake" element={<FakeCheckout />} />}
+                        <Route path="/classroom/fake" element={<FakeClassroom />} />
                         <Route path="/contact" element={<Contact />} />
+                        <Route path="/questions/:token" element={<QuestionThread />} />
                         <Route path="/learning" element={<Learning />} />
-                        <Route path="/learning/:id" element={<ArticleView />} />
+                        <Route path="/learning/:slug" element={<ArticleView />} />
                         <Route path="/login" element={<Login />} />
                         <Route path="/profile" element={<Profile />} />
+                        <Route path="/instructor" element={<InstructorDashboard />} />
+                        <Route path="/company" element={<CompanyDashboard />} />
                         <Route path="*" element={<NotFound />} />
                       </Routes>
                     </main>
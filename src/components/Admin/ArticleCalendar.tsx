@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { Article } from '../../types/article'
+import { getLocalDateKey } from '../../utils/timezone'
+
+interface ArticleCalendarProps {
+  articles: Article[]
+  onSelect: (article: Article) => void
+}
+
+interface PipelineEvent {
+  article: Article
+  kind: 'publish' | 'expire'
+  at: Date
+}
+
+// Upcoming publish and unpublish times; what already happened is in the list view
+function getUpcomingEvents(articles: Article[]): PipelineEvent[] {
+  const now = Date.now()
+  const events: PipelineEvent[] = []
+
+  articles.forEach(article => {
+    if (article.status === 'scheduled' && article.publish_at) {
+      events.push({ article, kind: 'publish', at: new Date(article.publish_at) })
+    }
+    if (article.status !== 'draft' && article.expires_at && new Date(article.expires_at).getTime() > now) {
+      events.push({ article, kind: 'expire', at: new Date(article.expires_at) })
+    }
+  })
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime())
+}
+
+export function ArticleCalendar({ articles, onSelect }: ArticleCalendarProps) {
+  const [currentMonth, setCurrentMonth] = useState(new Date())
+
+  const events = getUpcomingEvents(articles)
+  const eventsByDay = events.reduce<Record<string, PipelineEvent[]>>((days, event) => {
+    const key = getLocalDateKey(event.at)
+    days[key] = [...(days[key] || []), event]
+    return days
+  }, {})
+
+  const getDaysInMonth = (date: Date) => {
+    const year = date.getFullYear()
+    const month = date.getMonth()
+    const startingDayOfWeek = new Date(year, month, 1).getDay()
+    const daysInMonth = new Date(year, month + 1, 0).getDate()
+
+    const days: (Date | null)[] = []
+    for (let i = 0; i < startingDayOfWeek; i++) {
+      days.push(null)
+    }
+    for (let day = 1; day <= daysInMonth; day++) {
+      days.push(new Date(year, month, day))
+    }
+    return days
+  }
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+  }
+
+  const todayKey = getLocalDateKey(new Date())
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-semibold text-gray-900">
+          {currentMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </h3>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1))}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1))}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-4 mb-4 text-xs text-gray-600">
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-blue-100 mr-1" />Goes live</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-gray-200 mr-1" />Unpublished</span>
+      </div>
+
+      {events.length === 0 && (
+        <p className="text-sm text-gray-500 mb-4">Nothing is scheduled. Set an article's status to Scheduled to plan it here.</p>
+      )}
+
+      <div className="grid grid-cols-7 gap-2 mb-2">
+        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+          <div key={day} className="text-center text-sm font-medium text-gray-500 py-2">
+            {day}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-2">
+        {getDaysInMonth(currentMonth).map((date, index) => {
+          const key = date ? getLocalDateKey(date) : ''
+          return (
+            <div
+              key={index}
+              className={`min-h-[6rem] rounded-lg p-1 ${
+                date ? (key === todayKey ? 'border-2 border-blue-400' : 'border border-gray-200') : ''
+              }`}
+            >
+              {date && (
+                <>
+                  <div className="text-xs font-medium text-gray-500 mb-1">{date.getDate()}</div>
+                  <div className="space-y-1">
+                    {(eventsByDay[key] || []).map(event => (
+                      <button
+                        key={`${event.article.id}-${event.kind}`}
+                        onClick={() => onSelect(event.article)}
+                        title={`${event.kind === 'publish' ? 'Goes live' : 'Unpublished'} at ${formatTime(event.at)}`}
+                        className={`w-full text-left text-xs px-1 py-0.5 rounded truncate ${
+                          event.kind === 'publish'
+                            ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                            : 'bg-gray-200 text-gray-700 line-through hover:bg-gray-300'
+                        }`}
+                      >
+                        {formatTime(event.at)} {event.article.title}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,43 +1,60 @@
 import { useState, useEffect } from 'react'
-import { Save, Image, Video, Tag, X } from 'lucide-react'
+import { Save, Image, Video, Tag, X, History, CalendarClock } from 'lucide-react'
 import ReactQuill from 'react-quill'
 import 'react-quill/dist/quill.snow.css'
 import { Button } from '../UI/Button'
-import { Article } from '../../types/article'
+import { ArticleHistory } from './ArticleHistory'
+import { Article, ArticleStatus } from '../../types/article'
+import { slugify } from '../../utils/slug'
+import { detectTimeZone, getLocalDateKey, getTimeZoneAbbreviation } from '../../utils/timezone'
 
 interface ArticleEditorProps {
   article?: Article
   onSave: (articleData: Partial<Article>) => Promise<void>
   onCancel: () => void
+  // Called with the article as it is after a revision was restored
+  onRestored?: (article: Article) => void
   loading?: boolean
 }
 
-export function ArticleEditor({ article, onSave, onCancel, loading = false }: ArticleEditorProps) {
+export function ArticleEditor({ article, onSave, onCancel, onRestored, loading = false }: ArticleEditorProps) {
   const [formData, setFormData] = useState({
     title: '',
+    slug: '',
     content: '',
     preview_text: '',
     image_url: '',
     video_url: '',
     category: 'general',
     tags: [] as string[],
-    status: 'draft' as 'draft' | 'published'
+    status: 'draft' as ArticleStatus,
+    // datetime-local values in the editor's own time zone
+    publish_at: '',
+    expires_at: ''
   })
+  // New articles take their slug from the title until it is edited by hand;
+  // existing ones keep theirs so shared links don't move
+  const [slugEdited, setSlugEdited] = useState(false)
   const [newTag, setNewTag] = useState('')
+  const [showHistory, setShowHistory] = useState(false)
   const [errors, setErrors] = useState<any>({})
 
   useEffect(() => {
     if (article) {
       setFormData({
         title: article.title,
+        slug: article.slug,
         content: article.content,
         preview_text: article.preview_text,
         image_url: article.image_url || '',
         video_url: article.video_url || '',
         category: article.category,
         tags: article.tags || [],
-        status: article.status
+        status: article.status,
+        publish_at: article.publish_at ? toLocalInputValue(article.publish_at) : '',
+        expires_at: article.expires_at ? toLocalInputValue(article.expires_at) : ''
       })
+      setSlugEdited(true)
     }
   }, [article])
 
@@ -62,6 +79,12 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
     ],
   }
 
+  const toLocalInputValue = (dateString: string) => {
+    const date = new Date(dateString)
+    const time = date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    return `${getLocalDateKey(date)}T${time}`
+  }
+
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }))
     if (errors[field]) {
@@ -69,6 +92,18 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
     }
   }
 
+  const handleTitleChange = (title: string) => {
+    handleInputChange('title', title)
+    if (!slugEdited) {
+      handleInputChange('slug', slugify(title))
+    }
+  }
+
+  const handleSlugChange = (slug: string) => {
+    setSlugEdited(true)
+    handleInputChange('slug', slug.toLowerCase().replace(/[^a-z0-9-]/g, '-'))
+  }
+
   const handleAddTag = () => {
     if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
       setFormData(prev => ({
@@ -92,6 +127,11 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
     if (!formData.title.trim()) newErrors.title = 'Title is required'
     else if (formData.title.length > 60) newErrors.title = 'Title must be 60 characters or less'
 
+    if (!formData.slug) newErrors.slug = 'URL slug is required'
+    else if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(formData.slug)) {
+      newErrors.slug = 'Use lowercase letters and numbers separated by single hyphens'
+    }
+
     if (!formData.content.trim()) newErrors.content = 'Content is required'
 
     if (!formData.preview_text.trim()) newErrors.preview_text = 'Preview text is required'
@@ -105,6 +145,22 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
       newErrors.video_url = 'Please enter a valid YouTube or Vimeo URL'
     }
 
+    const now = Date.now()
+    const publishAt = formData.publish_at ? new Date(formData.publish_at).getTime() : null
+    const expiresAt = formData.expires_at ? new Date(formData.expires_at).getTime() : null
+
+    if (formData.status === 'scheduled') {
+      if (publishAt === null) newErrors.publish_at = 'Choose when the article should go live'
+      else if (publishAt <= now) newErrors.publish_at = 'The publish time must be in the future'
+    }
+
+    if (expiresAt !== null && formData.status !== 'draft') {
+      if (expiresAt <= now) newErrors.expires_at = 'The expiry time must be in the future'
+      else if (formData.status === 'scheduled' && publishAt !== null && expiresAt <= publishAt) {
+        newErrors.expires_at = 'The expiry time must be after the publish time'
+      }
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -130,20 +186,48 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
     if (!validateForm()) return
 
     try {
-      await onSave(formData)
-    } catch (error) {
+      await onSave({
+        ...formData,
+        // The publish time only matters while scheduled; published_at records when it went live
+        publish_at: formData.status === 'scheduled' ? new Date(formData.publish_at).toISOString() : null,
+        expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : null
+      })
+    } catch (error: any) {
       console.error('Failed to save article:', error)
+      if (error?.code === '23505') {
+        setErrors({ slug: 'Another article already uses this URL slug' })
+      } else if (error?.message) {
+        alert(error.message)
+      }
     }
   }
 
   return (
     <div className="bg-white rounded-xl shadow-lg">
-      <div className="p-6 border-b border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">
           {article ? 'Edit Article' : 'Create New Article'}
         </h2>
+        {article && onRestored && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setShowHistory(!showHistory)}
+            className="flex items-center"
+          >
+            <History className="w-4 h-4 mr-2" />
+            {showHistory ? 'Hide History' : 'History'}
+          </Button>
+        )}
       </div>
 
+      {article && onRestored && showHistory && (
+        <div className="px-6 pt-6">
+          <ArticleHistory articleId={article.id} onRestored={onRestored} />
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="p-6 space-y-6">
         {/* Title */}
         <div>
@@ -154,7 +238,7 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
             type="text"
             id="title"
             value={formData.title}
-            onChange={(e) => handleInputChange('title', e.target.value)}
+            onChange={(e) => handleTitleChange(e.target.value)}
             className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
               errors.title ? 'border-red-500' : 'border-gray-300'
             }`}
@@ -167,6 +251,30 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
           </div>
         </div>
 
+        {/* Slug */}
+        <div>
+          <label htmlFor="slug" className="block text-sm font-medium text-gray-700 mb-1">
+            URL Slug *
+          </label>
+          <div className="flex items-center">
+            <span className="text-gray-500 text-sm mr-1">/learning/</span>
+            <input
+              type="text"
+              id="slug"
+              value={formData.slug}
+              onChange={(e) => handleSlugChange(e.target.value)}
+              className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                errors.slug ? 'border-red-500' : 'border-gray-300'
+              }`}
+              maxLength={80}
+            />
+          </div>
+          {errors.slug && <p className="text-red-500 text-sm mt-1">{errors.slug}</p>}
+          {article && formData.slug !== article.slug && (
+            <p className="text-gray-500 text-sm mt-1">Links to /learning/{article.slug} will redirect to the new URL.</p>
+          )}
+        </div>
+
         {/* Preview Text */}
         <div>
           <label htmlFor="preview_text" className="block text-sm font-medium text-gray-700 mb-1">
@@ -220,11 +328,56 @@ export function ArticleEditor({ article, onSave, onCancel, loading = false }: Ar
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="draft">Draft</option>
+              <option value="scheduled">Scheduled</option>
               <option value="published">Published</option>
             </select>
           </div>
         </div>
 
+        {/* Schedule */}
+        {formData.status !== 'draft' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {formData.status === 'scheduled' && (
+              <div>
+                <label htmlFor="publish_at" className="block text-sm font-medium text-gray-700 mb-1">
+                  <CalendarClock className="w-4 h-4 inline mr-1" />
+                  Publish At *
+                </label>
+                <input
+                  type="datetime-local"
+                  id="publish_at"
+                  value={formData.publish_at}
+                  onChange={(e) => handleInputChange('publish_at', e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.publish_at ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.publish_at && <p className="text-red-500 text-sm mt-1">{errors.publish_at}</p>}
+              </div>
+            )}
+            <div>
+              <label htmlFor="expires_at" className="block text-sm font-medium text-gray-700 mb-1">
+                <CalendarClock className="w-4 h-4 inline mr-1" />
+                Unpublish At
+              </label>
+              <input
+                type="datetime-local"
+                id="expires_at"
+                value={formData.expires_at}
+                onChange={(e) => handleInputChange('expires_at', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.expires_at ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.expires_at && <p className="text-red-500 text-sm mt-1">{errors.expires_at}</p>}
+            </div>
+            <p className="text-gray-500 text-sm md:col-span-2">
+              Times are in your time zone ({getTimeZoneAbbreviation(new Date(), detectTimeZone())}). Leave Unpublish At
+              empty to keep the article up. It goes back to draft when the time comes.
+            </p>
+          </div>
+        )}
+
         {/* Image URL */}
         <div>
           <label htmlFor="image_url" className="block text-sm font-medium text-gray-700 mb-1">
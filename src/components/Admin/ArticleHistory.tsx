@@ -0,0 +1,225 @@
+import { useState, useEffect, useMemo } from 'react'
+import { History, RotateCcw } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { Article, ArticleRevision } from '../../types/article'
+import { StaffMember } from '../../types/contact'
+import { DiffPart, diffWords, htmlToText } from '../../utils/diff'
+
+interface ArticleHistoryProps {
+  articleId: string
+  onRestored: (article: Article) => void
+}
+
+const comparedFields: { field: keyof ArticleRevision; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'slug', label: 'URL slug' },
+  { field: 'status', label: 'Status' },
+  { field: 'category', label: 'Category' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'preview_text', label: 'Preview text' },
+  { field: 'image_url', label: 'Image URL' },
+  { field: 'video_url', label: 'Video URL' },
+  { field: 'content', label: 'Content' }
+]
+
+function fieldText(revision: ArticleRevision, field: keyof ArticleRevision): string {
+  const value = revision[field]
+  if (field === 'content') return htmlToText(String(value || ''))
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value || '')
+}
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+      {parts.map((part, index) => (
+        part.type === 'same' ? (
+          <span key={index}>{part.text}</span>
+        ) : part.type === 'added' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+        ) : (
+          <del key={index} className="bg-red-100 text-red-900">{part.text}</del>
+        )
+      ))}
+    </p>
+  )
+}
+
+export function ArticleHistory({ articleId, onRestored }: ArticleHistoryProps) {
+  const [revisions, setRevisions] = useState<ArticleRevision[]>([])
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState<string | null>(null)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRevisions()
+    fetchStaff()
+  }, [articleId])
+
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('article_revisions')
+        .select('*')
+        .eq('article_id', articleId)
+        .order('revision_number', { ascending: false })
+
+      if (error) throw error
+      const list = data || []
+      setRevisions(list)
+      // Start with the latest change
+      setToId(list[0]?.id || null)
+      setFromId(list[1]?.id || list[0]?.id || null)
+    } catch (error) {
+      console.error('Error fetching article revisions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_staff_members')
+
+      if (error) throw error
+      setStaff(data || [])
+    } catch (error) {
+      console.error('Error fetching staff members:', error)
+    }
+  }
+
+  const handleRestore = async (revision: ArticleRevision) => {
+    if (!confirm(`Restore revision ${revision.revision_number}? The current text is kept in the history.`)) return
+
+    try {
+      setRestoring(revision.id)
+      const { data, error } = await supabase.rpc('restore_article_revision', { p_revision_id: revision.id })
+
+      if (error) throw error
+      await fetchRevisions()
+      onRestored(data)
+    } catch (error: any) {
+      console.error('Error restoring revision:', error)
+      alert(error.message || 'Failed to restore revision')
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  const getAuthorName = (authorId?: string | null) => {
+    if (!authorId) return 'Unknown'
+    const member = staff.find(s => s.user_id === authorId)
+    return member?.full_name || member?.email || 'A team member'
+  }
+
+  const from = revisions.find(r => r.id === fromId)
+  const to = revisions.find(r => r.id === toId)
+
+  const changes = useMemo(() => {
+    if (!from || !to) return []
+    return comparedFields
+      .map(({ field, label }) => ({
+        label,
+        before: fieldText(from, field),
+        after: fieldText(to, field)
+      }))
+      .filter(change => change.before !== change.after)
+      .map(change => ({ label: change.label, parts: diffWords(change.before, change.after) }))
+  }, [from, to])
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <History className="w-5 h-5 mr-2" />
+        Revision History
+      </h3>
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">No revisions yet.</p>
+      ) : (
+        <>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="text-left pb-2">From</th>
+                <th className="text-left pb-2">To</th>
+                <th className="text-left pb-2">Revision</th>
+                <th className="text-left pb-2">Saved</th>
+                <th className="text-left pb-2">By</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {revisions.map((revision, index) => (
+                <tr key={revision.id}>
+                  <td className="py-2">
+                    <input type="radio" checked={fromId === revision.id} onChange={() => setFromId(revision.id)} />
+                  </td>
+                  <td className="py-2">
+                    <input type="radio" checked={toId === revision.id} onChange={() => setToId(revision.id)} />
+                  </td>
+                  <td className="py-2 text-gray-900">
+                    #{revision.revision_number}
+                    {index === 0 && <span className="ml-2 text-xs text-emerald-600">current</span>}
+                    {revision.restored_from && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        restored from #{revisions.find(r => r.id === revision.restored_from)?.revision_number ?? '?'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 text-gray-600">{new Date(revision.created_at).toLocaleString()}</td>
+                  <td className="py-2 text-gray-600">{getAuthorName(revision.author_id)}</td>
+                  <td className="py-2 text-right">
+                    {index > 0 && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRestore(revision)}
+                        loading={restoring === revision.id}
+                        disabled={restoring !== null}
+                        className="flex items-center ml-auto"
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {from && to && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Changes from #{from.revision_number} to #{to.revision_number}
+                <span className="ml-2">
+                  <del className="bg-red-100 text-red-900 px-1">removed</del>{' '}
+                  <ins className="bg-green-100 text-green-900 no-underline px-1">added</ins>
+                </span>
+              </p>
+              {changes.length === 0 ? (
+                <p className="text-sm text-gray-500">No differences.</p>
+              ) : (
+                changes.map(change => (
+                  <div key={change.label} className="bg-gray-50 rounded-lg p-3">
+                    <p className="text-xs font-medium text-gray-500 mb-1">{change.label}</p>
+                    <DiffText parts={change.parts} />
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react'
-import { Plus, Edit, Trash2, Eye, BarChart3 } from 'lucide-react'
+import { Plus, Edit, Trash2, Eye, BarChart3, List, Calendar } from 'lucide-react'
 import { Button } from '../UI/Button'
 import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { ArticleCalendar } from './ArticleCalendar'
 import { ArticleEditor } from './ArticleEditor'
 import { supabase } from '../../lib/supabase'
 import { Article } from '../../types/article'
@@ -12,6 +13,7 @@ export function ArticleManagement() {
   const [showEditor, setShowEditor] = useState(false)
   const [editingArticle, setEditingArticle] = useState<Article | null>(null)
   const [saving, setSaving] = useState(false)
+  const [view, setView] = useState<'list' | 'calendar'>('list')
 
   useEffect(() => {
     fetchArticles()
@@ -100,6 +102,21 @@ export function ArticleManagement() {
     })
   }
 
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  const statusStyles: Record<Article['status'], string> = {
+    published: 'bg-green-100 text-green-800',
+    scheduled: 'bg-blue-100 text-blue-800',
+    draft: 'bg-yellow-100 text-yellow-800'
+  }
+
   if (showEditor) {
     return (
       <ArticleEditor
@@ -109,6 +126,10 @@ export function ArticleManagement() {
           setShowEditor(false)
           setEditingArticle(null)
         }}
+        onRestored={(article) => {
+          setEditingArticle(article)
+          fetchArticles()
+        }}
         loading={saving}
       />
     )
@@ -118,16 +139,36 @@ export function ArticleManagement() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Article Management</h2>
-        <Button onClick={handleCreateNew} className="flex items-center">
-          <Plus className="w-4 h-4 mr-2" />
-          Create New Article
-        </Button>
+        <div className="flex items-center space-x-2">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => setView('list')}
+              className={`px-3 py-2 text-sm flex items-center ${view === 'list' ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <List className="w-4 h-4 mr-1" />
+              List
+            </button>
+            <button
+              onClick={() => setView('calendar')}
+              className={`px-3 py-2 text-sm flex items-center ${view === 'calendar' ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <Calendar className="w-4 h-4 mr-1" />
+              Calendar
+            </button>
+          </div>
+          <Button onClick={handleCreateNew} className="flex items-center">
+            <Plus className="w-4 h-4 mr-2" />
+            Create New Article
+          </Button>
+        </div>
       </div>
 
       {loading ? (
         <div className="flex justify-center py-12">
           <LoadingSpinner size="lg" />
         </div>
+      ) : view === 'calendar' ? (
+        <ArticleCalendar articles={articles} onSelect={handleEditArticle} />
       ) : (
         <div className="bg-white rounded-xl shadow-lg overflow-hidden">
           <div className="overflow-x-auto">
@@ -182,13 +223,18 @@ export function ArticleManagement() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 rounded text-xs font-medium ${
-                        article.status === 'published'
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-yellow-100 text-yellow-800'
-                      }`}>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[article.status]}`}>
                         {article.status}
                       </span>
+                      {article.status === 'scheduled' && article.publish_at && (
+                        <div className="text-xs text-gray-500 mt-1">Live {formatDateTime(article.publish_at)}</div>
+                      )}
+                      {article.status !== 'draft' && article.expires_at && (
+                        <div className="text-xs text-gray-500 mt-1">Until {formatDateTime(article.expires_at)}</div>
+                      )}
+                      {article.status === 'draft' && article.expires_at && new Date(article.expires_at) <= new Date() && (
+                        <div className="text-xs text-gray-500 mt-1">Expired {formatDateTime(article.expires_at)}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       <div className="flex items-center">
@@ -203,7 +249,7 @@ export function ArticleManagement() {
                       <div className="flex space-x-2">
                         {article.status === 'published' && (
                           <a
-                            href={`/learning/${article.id}`}
+                            href={`/learning/${article.slug}`}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-600 hover:text-blue-900"
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react'
+import { Users, Calendar } from 'lucide-react'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { useTimeZone } from '../../hooks/useTimeZone'
+import { ClassTurnout, StudentAttendance } from '../../types/booking'
+import { formatDateInZone, formatTimeInZone } from '../../utils/timezone'
+
+export function AttendanceReport() {
+  const timeZone = useTimeZone()
+  const [rangeDays, setRangeDays] = useState(30)
+  const [students, setStudents] = useState<StudentAttendance[]>([])
+  const [turnout, setTurnout] = useState<ClassTurnout[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchReport()
+  }, [rangeDays])
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const range = {
+        p_from: new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString(),
+        p_to: new Date().toISOString()
+      }
+
+      const [studentsResult, turnoutResult] = await Promise.all([
+        supabase.rpc('get_student_attendance', range),
+        supabase.rpc('get_class_turnout', range)
+      ])
+
+      if (studentsResult.error) throw studentsResult.error
+      if (turnoutResult.error) throw turnoutResult.error
+
+      setStudents(studentsResult.data || [])
+      setTurnout(turnoutResult.data || [])
+    } catch (err: any) {
+      console.error('Error fetching attendance report:', err)
+      setError(err.message || 'Failed to load attendance report')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getRateColor = (rate: number | null) => {
+    if (rate === null) return 'text-gray-500'
+    if (rate >= 80) return 'text-green-700'
+    if (rate >= 50) return 'text-yellow-700'
+    return 'text-red-700'
+  }
+
+  const getTurnoutRate = (session: ClassTurnout) => {
+    const marked = session.attended + session.late + session.no_show
+    if (marked === 0) return null
+    return Math.round((session.attended + session.late) / marked * 100)
+  }
+
+  const totals = turnout.reduce((sum, session) => ({
+    booked: sum.booked + session.booked,
+    present: sum.present + session.attended + session.late,
+    noShow: sum.noShow + session.no_show
+  }), { booked: 0, present: 0, noShow: 0 })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Attendance</h2>
+          <p className="text-gray-600">Late arrivals count as attended in the rates below.</p>
+        </div>
+        <select
+          value={rangeDays}
+          onChange={(e) => setRangeDays(parseInt(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+          <option value={365}>Last year</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <p className="text-sm font-medium text-gray-600">Classes held</p>
+              <p className="text-3xl font-bold text-gray-900">{turnout.length}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <p className="text-sm font-medium text-gray-600">Students present</p>
+              <p className="text-3xl font-bold text-gray-900">{totals.present} / {totals.booked}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <p className="text-sm font-medium text-gray-600">No-shows</p>
+              <p className="text-3xl font-bold text-gray-900">{totals.noShow}</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+            <h3 className="text-lg font-semibold text-gray-900 p-6 pb-4 flex items-center">
+              <Users className="w-5 h-5 mr-2" />
+              Students
+            </h3>
+            {students.length > 0 ? (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Student</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Booked</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attended</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Late</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">No-show</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attendance Rate</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {students.map((student) => (
+                    <tr key={student.email} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{student.student_name}</div>
+                        <div className="text-sm text-gray-500">{student.email}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{student.classes_booked}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{student.attended}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{student.late}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{student.no_show}</td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${getRateColor(student.attendance_rate)}`}>
+                        {student.attendance_rate === null ? 'Not marked' : `${student.attendance_rate}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="px-6 pb-6 text-gray-600">No bookings in this period.</p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+            <h3 className="text-lg font-semibold text-gray-900 p-6 pb-4 flex items-center">
+              <Calendar className="w-5 h-5 mr-2" />
+              Class Turnout
+            </h3>
+            {turnout.length > 0 ? (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Class</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Booked</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Present</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">No-show</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Turnout</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {turnout.map((session) => {
+                    const rate = getTurnoutRate(session)
+                    return (
+                      <tr key={session.session_id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">{session.class_type}</div>
+                          <div className="text-sm text-gray-500">{session.instructor}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDateInZone(session.starts_at, timeZone, { month: 'short' })}, {formatTimeInZone(session.starts_at, timeZone)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{session.booked} / {session.capacity}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {session.attended + session.late}
+                          {session.late > 0 && <span className="text-gray-500"> ({session.late} late)</span>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{session.no_show}</td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${getRateColor(rate)}`}>
+                          {rate === null ? 'Not marked' : `${rate}%`}
+                          {rate !== null && session.unmarked > 0 && (
+                            <span className="text-gray-500 font-normal"> ({session.unmarked} unmarked)</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="px-6 pb-6 text-gray-600">No classes were held in this period.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
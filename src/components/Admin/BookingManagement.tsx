@@ -1,30 +1,16 @@
 import { useState, useEffect } from 'react'
-import { Calendar, User, Clock, Phone, Mail, Search, Filter, CheckCircle, X, AlertCircle } from 'lucide-react'
+import { Calendar, User, Clock, Phone, Mail, Search, Filter, CheckCircle, X, AlertCircle, ListOrdered, UserX, History, Timer, CreditCard, Tag } from 'lucide-react'
 import { Button } from '../UI/Button'
 import { LoadingSpinner } from '../UI/LoadingSpinner'
 import { supabase } from '../../lib/supabase'
-
-interface Booking {
-  id: string
-  user_id?: string
-  class_name: string
-  instructor: string
-  class_date: string
-  class_time: string
-  first_name: string
-  last_name: string
-  email: string
-  phone: string
-  experience_level: string
-  special_requests?: string
-  emergency_contact: string
-  emergency_phone: string
-  status: string
-  created_at: string
-  updated_at: string
-}
+import { Booking, BookingEvent, BookingStatus, BookingStatusTransition } from '../../types/booking'
+import { Payment } from '../../types/payment'
+import { useTimeZone } from '../../hooks/useTimeZone'
+import { formatPrice } from '../../utils/payments'
+import { formatDateInZone, formatTimeInZone, getTimeZoneAbbreviation } from '../../utils/timezone'
 
 export function BookingManagement() {
+  const timeZone = useTimeZone()
   const [bookings, setBookings] = useState<Booking[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
@@ -32,9 +18,14 @@ export function BookingManagement() {
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
   const [showBookingDetails, setShowBookingDetails] = useState(false)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [transitions, setTransitions] = useState<BookingStatusTransition[]>([])
+  const [bookingEvents, setBookingEvents] = useState<BookingEvent[]>([])
+  const [eventsLoading, setEventsLoading] = useState(false)
+  const [bookingPayments, setBookingPayments] = useState<Payment[]>([])
 
   useEffect(() => {
     fetchBookings()
+    fetchTransitions()
   }, [])
 
   const fetchBookings = async () => {
@@ -42,7 +33,7 @@ export function BookingManagement() {
       setLoading(true)
       const { data, error } = await supabase
         .from('bookings')
-        .select('*')
+        .select('*, class_sessions(*)')
         .order('created_at', { ascending: false })
 
       if (error) throw error
@@ -54,21 +45,108 @@ export function BookingManagement() {
     }
   }
 
-  const handleStatusUpdate = async (bookingId: string, newStatus: string) => {
+  const fetchTransitions = async () => {
     try {
-      setActionLoading(bookingId)
+      const { data, error } = await supabase
+        .from('booking_status_transitions')
+        .select('*')
+
+      if (error) throw error
+      setTransitions(data || [])
+    } catch (error) {
+      console.error('Error fetching booking status transitions:', error)
+    }
+  }
+
+  const fetchBookingEvents = async (bookingId: string) => {
+    try {
+      setEventsLoading(true)
+      const { data, error } = await supabase
+        .from('booking_events')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      setBookingEvents(data || [])
+    } catch (error) {
+      console.error('Error fetching booking events:', error)
+      setBookingEvents([])
+    } finally {
+      setEventsLoading(false)
+    }
+  }
+
+  const fetchBookingPayments = async (bookingId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      setBookingPayments(data || [])
+    } catch (error) {
+      console.error('Error fetching payments:', error)
+      setBookingPayments([])
+    }
+  }
+
+  // Refunds are issued in the provider's dashboard; this only records it
+  const handleMarkRefunded = async (payment: Payment) => {
+    if (!confirm(`Mark ${formatPrice(payment.amount_cents, payment.currency)} as refunded?`)) return
+
+    try {
+      setActionLoading(payment.id)
       const { error } = await supabase
+        .from('payments')
+        .update({ status: 'refunded' })
+        .eq('id', payment.id)
+
+      if (error) throw error
+      if (payment.booking_id) await fetchBookingPayments(payment.booking_id)
+    } catch (error) {
+      console.error('Error updating payment:', error)
+      alert('Failed to update payment')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleViewDetails = (booking: Booking) => {
+    setSelectedBooking(booking)
+    setShowBookingDetails(true)
+    fetchBookingEvents(booking.id)
+    fetchBookingPayments(booking.id)
+  }
+
+  // The database rejects changes booking_status_transitions does not allow admins to make
+  const canTransition = (from: BookingStatus, to: BookingStatus) => {
+    return transitions.some(t => t.from_status === from && t.to_status === to && t.actors.includes('admin'))
+  }
+
+  const handleStatusUpdate = async (bookingId: string, newStatus: BookingStatus) => {
+    try {
+      setActionLoading(bookingId)
+      const { data, error } = await supabase
         .from('bookings')
         .update({ status: newStatus, updated_at: new Date().toISOString() })
         .eq('id', bookingId)
+        .select('*, class_sessions(*)')
+        .single()
 
       if (error) throw error
 
       await fetchBookings()
-      alert(`Booking status updated to ${newStatus}`)
-    } catch (error) {
+      if (selectedBooking?.id === bookingId) {
+        setSelectedBooking(data)
+        await fetchBookingEvents(bookingId)
+      }
+      alert(`Booking status updated to ${getStatusLabel(newStatus)}`)
+    } catch (error: any) {
       console.error('Error updating booking status:', error)
-      alert('Failed to update booking status')
+      alert(error.message || 'Failed to update booking status')
     } finally {
       setActionLoading(null)
     }
@@ -96,42 +174,122 @@ export function BookingManagement() {
     }
   }
 
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  // Bookings made before class sessions existed only carry the free-text columns
+  const getClassName = (booking: Booking) => {
+    return booking.class_sessions?.class_type || booking.class_name || ''
+  }
+
+  const getInstructor = (booking: Booking) => {
+    return booking.class_sessions?.instructor || booking.instructor || ''
+  }
+
+  const getClassDate = (booking: Booking) => {
+    if (booking.class_sessions) {
+      return formatDateInZone(booking.class_sessions.starts_at, timeZone, { month: 'short' })
+    }
+    // Legacy rows hold a bare calendar date; keep it as recorded
+    return booking.class_date ? formatDateInZone(booking.class_date, 'UTC', { month: 'short' }) : ''
+  }
+
+  const getClassTime = (booking: Booking) => {
+    if (booking.class_sessions) {
+      const startsAt = booking.class_sessions.starts_at
+      return `${formatTimeInZone(startsAt, timeZone)} ${getTimeZoneAbbreviation(startsAt, timeZone)}`
+    }
+    return booking.class_time || ''
+  }
+
+  // The same start time in another zone (instructor's or student's)
+  const getClassTimeIn = (booking: Booking, zone?: string) => {
+    if (!booking.class_sessions || !zone || zone === timeZone) return null
+    const startsAt = booking.class_sessions.starts_at
+    return `${formatDateInZone(startsAt, zone, { month: 'short' })}, ${formatTimeInZone(startsAt, zone)} ${getTimeZoneAbbreviation(startsAt, zone)}`
+  }
+
   const filteredBookings = bookings.filter(booking => {
     const matchesSearch = searchTerm === '' || 
       booking.first_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       booking.last_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       booking.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      booking.class_name.toLowerCase().includes(searchTerm.toLowerCase())
+      getClassName(booking).toLowerCase().includes(searchTerm.toLowerCase())
     
     const matchesStatus = statusFilter === 'all' || booking.status === statusFilter
     
     return matchesSearch && matchesStatus
   })
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric'
-    })
+  // Waitlisted bookings grouped per session, in the order they will be promoted
+  const waitlistsBySession = bookings
+    .filter(booking => booking.status === 'waitlisted' && booking.session_id)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .reduce((groups, booking) => {
+      const sessionId = booking.session_id as string
+      if (!groups.has(sessionId)) {
+        groups.set(sessionId, [])
+      }
+      groups.get(sessionId)?.push(booking)
+      return groups
+    }, new Map<string, Booking[]>())
+
+  const getWaitlistPosition = (booking: Booking) => {
+    if (!booking.session_id) return 0
+    const waitlist = waitlistsBySession.get(booking.session_id) || []
+    return waitlist.findIndex(b => b.id === booking.id) + 1
   }
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800'
       case 'pending': return 'bg-yellow-100 text-yellow-800'
+      case 'pending_payment': return 'bg-yellow-100 text-yellow-800'
+      case 'waitlisted': return 'bg-orange-100 text-orange-800'
       case 'cancelled': return 'bg-red-100 text-red-800'
-      case 'completed': return 'bg-blue-100 text-blue-800'
+      case 'attended': return 'bg-blue-100 text-blue-800'
+      case 'late': return 'bg-purple-100 text-purple-800'
+      case 'no_show': return 'bg-gray-200 text-gray-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
 
+  const getStatusLabel = (status?: string | null) => {
+    switch (status) {
+      case 'no_show': return 'no-show'
+      case 'pending_payment': return 'awaiting payment'
+      default: return status || ''
+    }
+  }
+
+  const describeEvent = (event: BookingEvent) => {
+    switch (event.event_type) {
+      case 'created': return `Booked as ${getStatusLabel(event.to_status)}`
+      case 'rescheduled': return 'Moved to another session'
+      default: return `Changed from ${getStatusLabel(event.from_status)} to ${getStatusLabel(event.to_status)}`
+    }
+  }
+
+  const getEventActor = (event: BookingEvent, booking: Booking) => {
+    if (!event.actor_id) return 'System'
+    return event.actor_id === booking.user_id ? 'Student' : 'Staff'
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'confirmed': return <CheckCircle className="w-4 h-4" />
       case 'pending': return <Clock className="w-4 h-4" />
+      case 'pending_payment': return <CreditCard className="w-4 h-4" />
+      case 'waitlisted': return <ListOrdered className="w-4 h-4" />
       case 'cancelled': return <X className="w-4 h-4" />
-      case 'completed': return <CheckCircle className="w-4 h-4" />
+      case 'attended': return <CheckCircle className="w-4 h-4" />
+      case 'late': return <Timer className="w-4 h-4" />
+      case 'no_show': return <UserX className="w-4 h-4" />
       default: return <AlertCircle className="w-4 h-4" />
     }
   }
@@ -156,20 +314,32 @@ export function BookingManagement() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
               <div>
                 <span className="font-medium text-blue-800">Class:</span>
-                <p className="text-blue-700">{booking.class_name}</p>
+                <p className="text-blue-700">{getClassName(booking)}</p>
               </div>
               <div>
                 <span className="font-medium text-blue-800">Instructor:</span>
-                <p className="text-blue-700">{booking.instructor}</p>
+                <p className="text-blue-700">{getInstructor(booking)}</p>
               </div>
               <div>
                 <span className="font-medium text-blue-800">Date:</span>
-                <p className="text-blue-700">{formatDate(booking.class_date)}</p>
+                <p className="text-blue-700">{getClassDate(booking)}</p>
               </div>
               <div>
                 <span className="font-medium text-blue-800">Time:</span>
-                <p className="text-blue-700">{booking.class_time}</p>
+                <p className="text-blue-700">{getClassTime(booking)}</p>
               </div>
+              {getClassTimeIn(booking, booking.class_sessions?.timezone) && (
+                <div>
+                  <span className="font-medium text-blue-800">Instructor's time:</span>
+                  <p className="text-blue-700">{getClassTimeIn(booking, booking.class_sessions?.timezone)}</p>
+                </div>
+              )}
+              {getClassTimeIn(booking, booking.timezone) && (
+                <div>
+                  <span className="font-medium text-blue-800">Student's time:</span>
+                  <p className="text-blue-700">{getClassTimeIn(booking, booking.timezone)}</p>
+                </div>
+              )}
             </div>
           </div>
 
@@ -219,14 +389,108 @@ export function BookingManagement() {
             </div>
           )}
 
+          {/* Timeline */}
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
+              <History className="w-4 h-4 mr-2" />
+              Timeline
+            </h4>
+            {eventsLoading ? (
+              <LoadingSpinner size="sm" />
+            ) : bookingEvents.length > 0 ? (
+              <ol className="space-y-3 border-l-2 border-gray-200 pl-4">
+                {bookingEvents.map((event) => (
+                  <li key={event.id} className="text-sm">
+                    <p className="text-gray-900">{describeEvent(event)}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDateInZone(event.created_at, timeZone, { month: 'short' })}, {formatTimeInZone(event.created_at, timeZone)}
+                      {' · '}{getEventActor(event, booking)}
+                      {event.note && ` · ${event.note}`}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-gray-500">No history recorded for this booking.</p>
+            )}
+          </div>
+
+          {/* Paid with a pack, membership or company allotment */}
+          {(booking.payment_method === 'credit' || booking.payment_method === 'membership' || booking.payment_method === 'organization') && (
+            <div className="bg-gray-50 p-4 rounded-lg text-sm text-gray-900 flex items-center">
+              <CreditCard className="w-4 h-4 mr-2" />
+              {booking.payment_method === 'credit'
+                ? 'Booked with a class credit'
+                : booking.payment_method === 'membership' ? 'Included in the student\'s membership' : 'Uses one of the company\'s sessions'}
+            </div>
+          )}
+
+          {(booking.discount_cents || 0) > 0 && (
+            <div className="bg-gray-50 p-4 rounded-lg text-sm text-gray-900 flex items-center">
+              <Tag className="w-4 h-4 mr-2" />
+              Promo code discount of {formatPrice(booking.discount_cents || 0, 'USD')}
+            </div>
+          )}
+
+          {/* Payments */}
+          {bookingPayments.length > 0 && (
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
+                <CreditCard className="w-4 h-4 mr-2" />
+                Payments
+              </h4>
+              <div className="space-y-2">
+                {bookingPayments.map((payment) => (
+                  <div key={payment.id} className="flex justify-between items-center text-sm">
+                    <div>
+                      <p className="text-gray-900">
+                        {formatPrice(payment.amount_cents, payment.currency)} via {payment.provider}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDateInZone(payment.created_at, timeZone, { month: 'short' })}, {formatTimeInZone(payment.created_at, timeZone)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        payment.status === 'paid' ? 'bg-green-100 text-green-800'
+                          : payment.status === 'refund_required' ? 'bg-red-100 text-red-800'
+                          : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {payment.status.replace('_', ' ')}
+                      </span>
+                      {payment.status === 'refund_required' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleMarkRefunded(payment)}
+                          loading={actionLoading === payment.id}
+                        >
+                          Mark Refunded
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Booking Status and Actions */}
           <div className="bg-gray-50 p-4 rounded-lg">
             <div className="flex justify-between items-center mb-4">
               <div>
                 <span className="font-medium text-gray-700">Current Status:</span>
                 <span className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}>
-                  {booking.status}
+                  {getStatusLabel(booking.status)}
                 </span>
+                {booking.status === 'waitlisted' && (
+                  <span className="ml-2 text-sm text-gray-600">
+                    #{getWaitlistPosition(booking)} on the waitlist
+                  </span>
+                )}
+                {booking.late_cancellation && (
+                  <span className="ml-2 text-sm text-orange-600">Late cancellation</span>
+                )}
               </div>
               <div className="text-sm text-gray-500">
                 Booked on {formatDate(booking.created_at)}
@@ -234,7 +498,7 @@ export function BookingManagement() {
             </div>
             
             <div className="flex flex-wrap gap-2">
-              {booking.status !== 'confirmed' && (
+              {canTransition(booking.status, 'confirmed') && (
                 <Button
                   onClick={() => handleStatusUpdate(booking.id, 'confirmed')}
                   loading={actionLoading === booking.id}
@@ -244,17 +508,37 @@ export function BookingManagement() {
                   Confirm
                 </Button>
               )}
-              {booking.status !== 'completed' && (
+              {canTransition(booking.status, 'attended') && (
                 <Button
-                  onClick={() => handleStatusUpdate(booking.id, 'completed')}
+                  onClick={() => handleStatusUpdate(booking.id, 'attended')}
                   loading={actionLoading === booking.id}
                   size="sm"
                   className="bg-blue-600 hover:bg-blue-700"
                 >
-                  Mark Complete
+                  Mark Attended
+                </Button>
+              )}
+              {canTransition(booking.status, 'late') && (
+                <Button
+                  onClick={() => handleStatusUpdate(booking.id, 'late')}
+                  loading={actionLoading === booking.id}
+                  size="sm"
+                  variant="outline"
+                >
+                  Mark Late
                 </Button>
               )}
-              {booking.status !== 'cancelled' && (
+              {canTransition(booking.status, 'no_show') && (
+                <Button
+                  onClick={() => handleStatusUpdate(booking.id, 'no_show')}
+                  loading={actionLoading === booking.id}
+                  size="sm"
+                  variant="outline"
+                >
+                  Mark No-show
+                </Button>
+              )}
+              {canTransition(booking.status, 'cancelled') && (
                 <Button
                   onClick={() => handleStatusUpdate(booking.id, 'cancelled')}
                   loading={actionLoading === booking.id}
@@ -316,7 +600,11 @@ export function BookingManagement() {
                 <option value="all">All Status</option>
                 <option value="confirmed">Confirmed</option>
                 <option value="pending">Pending</option>
-                <option value="completed">Completed</option>
+                <option value="pending_payment">Awaiting payment</option>
+                <option value="waitlisted">Waitlisted</option>
+                <option value="attended">Attended</option>
+                <option value="late">Late</option>
+                <option value="no_show">No-show</option>
                 <option value="cancelled">Cancelled</option>
               </select>
             </div>
@@ -324,6 +612,34 @@ export function BookingManagement() {
         </div>
       </div>
 
+      {/* Waitlists */}
+      {!loading && waitlistsBySession.size > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <ListOrdered className="w-5 h-5 mr-2 text-orange-600" />
+            Waitlists
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {Array.from(waitlistsBySession.values()).map((waitlist) => (
+              <div key={waitlist[0].session_id} className="bg-orange-50 rounded-lg p-3">
+                <p className="font-medium text-gray-900">{getClassName(waitlist[0])}</p>
+                <p className="text-sm text-gray-600 mb-2">
+                  {getClassDate(waitlist[0])} at {getClassTime(waitlist[0])}
+                </p>
+                <ol className="text-sm text-gray-700 space-y-1">
+                  {waitlist.map((booking, index) => (
+                    <li key={booking.id}>
+                      {index + 1}. {booking.first_name} {booking.last_name}
+                      <span className="text-gray-500"> ({booking.email})</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {loading ? (
         <div className="flex justify-center py-12">
           <LoadingSpinner size="lg" />
@@ -375,38 +691,41 @@ export function BookingManagement() {
                       </div>
                     </td>
                     <td className="px-6 py-4">
-                      <div className="text-sm font-medium text-gray-900">{booking.class_name}</div>
-                      <div className="text-sm text-gray-500">Instructor: {booking.instructor}</div>
+                      <div className="text-sm font-medium text-gray-900">{getClassName(booking)}</div>
+                      <div className="text-sm text-gray-500">Instructor: {getInstructor(booking)}</div>
                       <div className="text-sm text-gray-500 capitalize">Level: {booking.experience_level}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900 flex items-center">
                         <Calendar className="w-4 h-4 mr-1" />
-                        {formatDate(booking.class_date)}
+                        {getClassDate(booking)}
                       </div>
                       <div className="text-sm text-gray-500 flex items-center">
                         <Clock className="w-4 h-4 mr-1" />
-                        {booking.class_time}
+                        {getClassTime(booking)}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium flex items-center w-fit ${getStatusColor(booking.status)}`}>
                         {getStatusIcon(booking.status)}
-                        <span className="ml-1 capitalize">{booking.status}</span>
+                        <span className="ml-1 capitalize">{getStatusLabel(booking.status)}</span>
+                        {booking.status === 'waitlisted' && (
+                          <span className="ml-1">#{getWaitlistPosition(booking)}</span>
+                        )}
                       </span>
+                      {booking.late_cancellation && (
+                        <span className="text-xs text-orange-600">Late</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex space-x-2">
                         <button
-                          onClick={() => {
-                            setSelectedBooking(booking)
-                            setShowBookingDetails(true)
-                          }}
+                          onClick={() => handleViewDetails(booking)}
                           className="text-blue-600 hover:text-blue-900"
                         >
                           View Details
                         </button>
-                        {booking.status === 'pending' && (
+                        {booking.status === 'pending' && canTransition(booking.status, 'confirmed') && (
                           <Button
                             onClick={() => handleStatusUpdate(booking.id, 'confirmed')}
                             loading={actionLoading === booking.id}
@@ -416,14 +735,14 @@ export function BookingManagement() {
                             Confirm
                           </Button>
                         )}
-                        {booking.status === 'confirmed' && (
+                        {booking.status === 'confirmed' && canTransition(booking.status, 'attended') && (
                           <Button
-                            onClick={() => handleStatusUpdate(booking.id, 'completed')}
+                            onClick={() => handleStatusUpdate(booking.id, 'attended')}
                             loading={actionLoading === booking.id}
                             size="sm"
                             className="bg-blue-600 hover:bg-blue-700"
                           >
-                            Complete
+                            Attended
                           </Button>
                         )}
                       </div>
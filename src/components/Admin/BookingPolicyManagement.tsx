@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react'
+import { Save } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { BookingPolicy } from '../../types/booking'
+
+export function BookingPolicyManagement() {
+  const [policies, setPolicies] = useState<BookingPolicy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  const services = [
+    { value: '1on1', label: '1-on-1 Coaching' },
+    { value: 'group', label: 'Group Classes' },
+    { value: 'corporate', label: 'Corporate Programs' }
+  ]
+
+  useEffect(() => {
+    fetchPolicies()
+  }, [])
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('booking_policies')
+        .select('*')
+
+      if (error) throw error
+      setPolicies(data || [])
+    } catch (error) {
+      console.error('Error fetching booking policies:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePolicyChange = (service: string, field: keyof BookingPolicy, value: any) => {
+    setPolicies(prev => prev.map(policy =>
+      policy.service === service ? { ...policy, [field]: value } : policy
+    ))
+  }
+
+  const handleSavePolicy = async (policy: BookingPolicy) => {
+    try {
+      setActionLoading(policy.service)
+      const { error } = await supabase
+        .from('booking_policies')
+        .update({
+          cancel_window_hours: policy.cancel_window_hours,
+          allow_late_cancellation: policy.allow_late_cancellation,
+          reschedule_window_hours: policy.reschedule_window_hours,
+          price_cents: policy.price_cents,
+          payment_hold_minutes: policy.payment_hold_minutes
+        })
+        .eq('service', policy.service)
+
+      if (error) throw error
+      await fetchPolicies()
+    } catch (error) {
+      console.error('Error saving booking policy:', error)
+      alert('Failed to save booking policy')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Booking Policy</h2>
+        <p className="text-gray-600">
+          Students can cancel and reschedule from their profile within these windows.
+          Paid bookings hold their seat for the payment window, then the seat is released.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Service</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment window (minutes)</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Free cancellation (hours before)</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Allow late cancellation</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reschedule until (hours before)</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {policies.map((policy) => (
+              <tr key={policy.service}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {services.find(s => s.value === policy.service)?.label || policy.service}
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex items-center">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={policy.price_cents / 100}
+                      onChange={(e) => handlePolicyChange(policy.service, 'price_cents', Math.round((parseFloat(e.target.value) || 0) * 100))}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-500">{policy.currency}</span>
+                  </div>
+                  {policy.price_cents === 0 && <p className="text-xs text-gray-500 mt-1">Free to book</p>}
+                </td>
+                <td className="px-6 py-4">
+                  <input
+                    type="number"
+                    min={1}
+                    value={policy.payment_hold_minutes}
+                    onChange={(e) => handlePolicyChange(policy.service, 'payment_hold_minutes', parseInt(e.target.value) || 1)}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <input
+                    type="number"
+                    min={0}
+                    value={policy.cancel_window_hours}
+                    onChange={(e) => handlePolicyChange(policy.service, 'cancel_window_hours', parseInt(e.target.value) || 0)}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <input
+                    type="checkbox"
+                    checked={policy.allow_late_cancellation}
+                    onChange={(e) => handlePolicyChange(policy.service, 'allow_late_cancellation', e.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <input
+                    type="number"
+                    min={0}
+                    value={policy.reschedule_window_hours}
+                    onChange={(e) => handlePolicyChange(policy.service, 'reschedule_window_hours', parseInt(e.target.value) || 0)}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <Button
+                    size="sm"
+                    onClick={() => handleSavePolicy(policy)}
+                    loading={actionLoading === policy.service}
+                    className="flex items-center"
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    Save
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
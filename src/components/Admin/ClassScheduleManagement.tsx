@@ -0,0 +1,514 @@
+import { useState, useEffect } from 'react'
+import { Plus, Calendar, Clock, Users, X } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { MeetingLinkControls } from '../Classroom/MeetingLinkControls'
+import { supabase } from '../../lib/supabase'
+import { ClassSession, SessionMeeting, SessionSeats } from '../../types/booking'
+import { Organization } from '../../types/organization'
+import { useTimeZone } from '../../hooks/useTimeZone'
+import { useInstructors } from '../../hooks/useInstructors'
+import { COMMON_TIME_ZONES, detectTimeZone, formatTimeInZone, getTimeZoneAbbreviation, zonedTimeToUtc } from '../../utils/timezone'
+
+export function ClassScheduleManagement() {
+  const timeZone = useTimeZone()
+  const { instructors } = useInstructors()
+  const [sessions, setSessions] = useState<ClassSession[]>([])
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [meetings, setMeetings] = useState<SessionMeeting[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [errors, setErrors] = useState<any>({})
+  const [formData, setFormData] = useState({
+    service: 'group',
+    class_type: 'Hatha Yoga',
+    instructor_id: '',
+    date: '',
+    time: '07:00',
+    timezone: detectTimeZone(),
+    duration: 60,
+    capacity: 8,
+    organization_id: ''
+  })
+
+  const services = [
+    { value: '1on1', label: '1-on-1 Coaching' },
+    { value: 'group', label: 'Group Classes' },
+    { value: 'corporate', label: 'Corporate Programs' }
+  ]
+
+  const classTypes = [
+    'Hatha Yoga', 'Vinyasa Flow', 'Power Yoga', 'Restorative Yoga',
+    'Meditation', 'Breathwork', 'Corporate Wellness', 'Beginner Friendly'
+  ]
+
+  useEffect(() => {
+    fetchSessions()
+    fetchOrganizations()
+  }, [])
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('class_sessions')
+        .select('*')
+        .gte('starts_at', new Date().toISOString())
+        .order('starts_at', { ascending: true })
+
+      if (error) throw error
+
+      const { data: seats, error: seatsError } = await supabase
+        .from('class_session_seats')
+        .select('*')
+
+      if (seatsError) throw seatsError
+
+      await fetchMeetings((data || []).map(session => session.id))
+
+      setSessions((data || []).map(session => {
+        const sessionSeats = seats?.find((s: SessionSeats) => s.session_id === session.id)
+        return {
+          ...session,
+          seats_taken: sessionSeats?.seats_taken || 0,
+          waitlist_count: sessionSeats?.waitlist_count || 0
+        }
+      }))
+    } catch (error) {
+      console.error('Error fetching class sessions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchMeetings = async (sessionIds: string[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('session_meetings')
+        .select('*')
+        .in('session_id', sessionIds)
+
+      if (error) throw error
+      setMeetings(data || [])
+    } catch (error) {
+      console.error('Error fetching class links:', error)
+    }
+  }
+
+  const fetchOrganizations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*')
+        .eq('is_active', true)
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      setOrganizations(data || [])
+    } catch (error) {
+      console.error('Error fetching organizations:', error)
+    }
+  }
+
+  // Sessions default to the zone the chosen instructor teaches in
+  const handleInstructorChange = (instructorId: string) => {
+    const instructor = instructors.find(i => i.id === instructorId)
+    handleInputChange('instructor_id', instructorId)
+    if (instructor) {
+      handleInputChange('timezone', instructor.timezone)
+    }
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validateForm = () => {
+    const newErrors: any = {}
+
+    if (!formData.class_type.trim()) newErrors.class_type = 'Class type is required'
+    if (!formData.instructor_id) newErrors.instructor_id = 'Instructor is required'
+    if (!formData.date) newErrors.date = 'Date is required'
+    if (!formData.time) newErrors.time = 'Start time is required'
+    if (formData.duration <= 0) newErrors.duration = 'Duration must be positive'
+    if (formData.capacity <= 0) newErrors.capacity = 'Capacity must be at least 1'
+
+    if (formData.date && formData.time && zonedTimeToUtc(formData.date, formData.time, formData.timezone) <= new Date()) {
+      newErrors.date = 'Sessions must be scheduled in the future'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  // Group classes and company sessions seat several people, other services are private
+  const hasCapacity = formData.service === 'group' || (formData.service === 'corporate' && !!formData.organization_id)
+
+  const handleCreateSession = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) return
+
+    try {
+      setSaving(true)
+
+      // Date and time are entered as the instructor's wall clock
+      const startsAt = zonedTimeToUtc(formData.date, formData.time, formData.timezone)
+      const endsAt = new Date(startsAt.getTime() + formData.duration * 60 * 1000)
+      const organizationId = formData.service === 'corporate' ? formData.organization_id || null : null
+
+      const { error } = await supabase
+        .from('class_sessions')
+        .insert([{
+          service: formData.service,
+          class_type: formData.class_type,
+          instructor_id: formData.instructor_id,
+          timezone: formData.timezone,
+          starts_at: startsAt.toISOString(),
+          ends_at: endsAt.toISOString(),
+          capacity: hasCapacity ? formData.capacity : 1,
+          organization_id: organizationId
+        }])
+
+      if (error) throw error
+
+      await fetchSessions()
+      setShowForm(false)
+      setFormData(prev => ({ ...prev, date: '' }))
+    } catch (error: any) {
+      console.error('Error creating class session:', error)
+      setErrors({ general: error.message || 'Failed to create class session' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancelSession = async (sessionId: string) => {
+    if (!confirm('Cancel this class session? It will no longer be bookable.')) return
+
+    try {
+      setActionLoading(sessionId)
+      const { error } = await supabase
+        .from('class_sessions')
+        .update({ status: 'cancelled' })
+        .eq('id', sessionId)
+
+      if (error) throw error
+      await fetchSessions()
+    } catch (error) {
+      console.error('Error cancelling class session:', error)
+      alert('Failed to cancel class session')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      timeZone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    })
+  }
+
+  const formatInstructorTime = (session: ClassSession) => {
+    if (!session.timezone || session.timezone === timeZone) return null
+    return `${formatTimeInZone(session.starts_at, session.timezone)} ${getTimeZoneAbbreviation(session.starts_at, session.timezone)} for the instructor`
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'scheduled': return 'bg-green-100 text-green-800'
+      case 'cancelled': return 'bg-red-100 text-red-800'
+      case 'completed': return 'bg-blue-100 text-blue-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Class Schedule</h2>
+        <Button onClick={() => setShowForm(!showForm)} className="flex items-center">
+          {showForm ? <X className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {showForm ? 'Close' : 'New Session'}
+        </Button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreateSession} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="service" className="block text-sm font-medium text-gray-700 mb-1">Service</label>
+              <select
+                id="service"
+                value={formData.service}
+                onChange={(e) => handleInputChange('service', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {services.map(service => (
+                  <option key={service.value} value={service.value}>{service.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="class_type" className="block text-sm font-medium text-gray-700 mb-1">Class Type</label>
+              <select
+                id="class_type"
+                value={formData.class_type}
+                onChange={(e) => handleInputChange('class_type', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {classTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="instructor" className="block text-sm font-medium text-gray-700 mb-1">Instructor</label>
+              <select
+                id="instructor"
+                value={formData.instructor_id}
+                onChange={(e) => handleInstructorChange(e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.instructor_id ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                <option value="">Select an instructor</option>
+                {instructors.map(instructor => (
+                  <option key={instructor.id} value={instructor.id}>{instructor.display_name}</option>
+                ))}
+              </select>
+              {errors.instructor_id && <p className="text-red-500 text-sm mt-1">{errors.instructor_id}</p>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input
+                type="date"
+                id="date"
+                value={formData.date}
+                onChange={(e) => handleInputChange('date', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.date ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.date && <p className="text-red-500 text-sm mt-1">{errors.date}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="time" className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+              <input
+                type="time"
+                id="time"
+                value={formData.time}
+                onChange={(e) => handleInputChange('time', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.time ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.time && <p className="text-red-500 text-sm mt-1">{errors.time}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+              <select
+                id="timezone"
+                value={formData.timezone}
+                onChange={(e) => handleInputChange('timezone', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {!COMMON_TIME_ZONES.includes(formData.timezone) && (
+                  <option value={formData.timezone}>{formData.timezone}</option>
+                )}
+                {COMMON_TIME_ZONES.map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="duration" className="block text-sm font-medium text-gray-700 mb-1">Duration (minutes)</label>
+              <input
+                type="number"
+                id="duration"
+                min={15}
+                step={15}
+                value={formData.duration}
+                onChange={(e) => handleInputChange('duration', parseInt(e.target.value) || 0)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.duration ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.duration && <p className="text-red-500 text-sm mt-1">{errors.duration}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="capacity" className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+              <input
+                type="number"
+                id="capacity"
+                min={1}
+                value={hasCapacity ? formData.capacity : 1}
+                disabled={!hasCapacity}
+                onChange={(e) => handleInputChange('capacity', parseInt(e.target.value) || 0)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 ${
+                  errors.capacity ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.capacity && <p className="text-red-500 text-sm mt-1">{errors.capacity}</p>}
+            </div>
+
+            {formData.service === 'corporate' && (
+              <div>
+                <label htmlFor="organization_id" className="block text-sm font-medium text-gray-700 mb-1">Company</label>
+                <select
+                  id="organization_id"
+                  value={formData.organization_id}
+                  onChange={(e) => handleInputChange('organization_id', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Open to everyone</option>
+                  {organizations.map(organization => (
+                    <option key={organization.id} value={organization.id}>{organization.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Only the company's employees see the session; each booking uses one of its sessions</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={saving}>
+              Create Session
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Session
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Schedule
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Capacity
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Class Link
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sessions.map((session) => (
+                  <tr key={session.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{session.class_type}</div>
+                      <div className="text-sm text-gray-500">
+                        {services.find(s => s.value === session.service)?.label} · {session.instructor}
+                        {session.organization_id && ` · ${organizations.find(o => o.id === session.organization_id)?.name || 'Company session'}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900 flex items-center">
+                        <Calendar className="w-4 h-4 mr-1" />
+                        {formatDateTime(session.starts_at)}
+                      </div>
+                      {formatInstructorTime(session) && (
+                        <div className="text-xs text-gray-500">{formatInstructorTime(session)}</div>
+                      )}
+                      <div className="text-sm text-gray-500 flex items-center">
+                        <Clock className="w-4 h-4 mr-1" />
+                        {Math.round((new Date(session.ends_at).getTime() - new Date(session.starts_at).getTime()) / 60000)} minutes
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="flex items-center">
+                        <Users className="w-4 h-4 mr-1 text-gray-400" />
+                        {session.seats_taken || 0} / {session.capacity}
+                      </div>
+                      {(session.waitlist_count || 0) > 0 && (
+                        <div className="text-xs text-orange-600">{session.waitlist_count} waitlisted</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(session.status)}`}>
+                        {session.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 max-w-xs">
+                      {session.status === 'scheduled' && (
+                        <MeetingLinkControls
+                          sessionId={session.id}
+                          meeting={meetings.find(meeting => meeting.session_id === session.id)}
+                          onChange={() => fetchMeetings(sessions.map(s => s.id))}
+                        />
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {session.status === 'scheduled' && (
+                        <Button
+                          onClick={() => handleCancelSession(session.id)}
+                          loading={actionLoading === session.id}
+                          size="sm"
+                          variant="outline"
+                          className="border-red-300 text-red-600 hover:bg-red-50"
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {sessions.length === 0 && (
+            <div className="text-center py-12">
+              <Calendar className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No upcoming sessions</h3>
+              <p className="text-gray-600">Create a session to open it for booking.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,715 @@
+import { useState, useEffect } from 'react'
+import { Plus, Repeat, Edit, X, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { ClassSeries, ClassSeriesException, ClassSession } from '../../types/booking'
+import { useTimeZone } from '../../hooks/useTimeZone'
+import { useInstructors } from '../../hooks/useInstructors'
+import { COMMON_TIME_ZONES, detectTimeZone, getDateKey, formatTimeInZone, zonedTimeToUtc } from '../../utils/timezone'
+
+const emptyForm = {
+  service: 'group',
+  class_type: 'Hatha Yoga',
+  instructor_id: '',
+  capacity: 8,
+  start_time: '07:00',
+  duration_minutes: 60,
+  timezone: detectTimeZone(),
+  by_weekday: [1] as number[],
+  interval_weeks: 1,
+  starts_on: '',
+  end_type: 'until' as 'until' | 'count',
+  until_date: '',
+  occurrence_count: 10
+}
+
+export function ClassSeriesManagement() {
+  const timeZone = useTimeZone()
+  const { instructors } = useInstructors()
+  const [series, setSeries] = useState<ClassSeries[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [editingSeries, setEditingSeries] = useState<ClassSeries | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [errors, setErrors] = useState<any>({})
+  const [expandedSeriesId, setExpandedSeriesId] = useState<string | null>(null)
+  const [occurrences, setOccurrences] = useState<ClassSession[]>([])
+  const [exceptions, setExceptions] = useState<ClassSeriesException[]>([])
+  const [occurrencesLoading, setOccurrencesLoading] = useState(false)
+  const [editingOccurrence, setEditingOccurrence] = useState<{ date: string, startsAt: string, instructorId: string } | null>(null)
+
+  const services = [
+    { value: '1on1', label: '1-on-1 Coaching' },
+    { value: 'group', label: 'Group Classes' },
+    { value: 'corporate', label: 'Corporate Programs' }
+  ]
+
+  const classTypes = [
+    'Hatha Yoga', 'Vinyasa Flow', 'Power Yoga', 'Restorative Yoga',
+    'Meditation', 'Breathwork', 'Corporate Wellness', 'Beginner Friendly'
+  ]
+
+  const weekdays = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 7, label: 'Sun' }
+  ]
+
+  useEffect(() => {
+    fetchSeries()
+  }, [])
+
+  const fetchSeries = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('class_series')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setSeries(data || [])
+    } catch (error) {
+      console.error('Error fetching class series:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOccurrences = async (seriesId: string) => {
+    try {
+      setOccurrencesLoading(true)
+      const [sessionsRes, exceptionsRes] = await Promise.all([
+        supabase
+          .from('class_sessions')
+          .select('*')
+          .eq('series_id', seriesId)
+          .gte('starts_at', new Date().toISOString())
+          .order('starts_at', { ascending: true }),
+        supabase
+          .from('class_series_exceptions')
+          .select('*')
+          .eq('series_id', seriesId)
+      ])
+
+      if (sessionsRes.error) throw sessionsRes.error
+      if (exceptionsRes.error) throw exceptionsRes.error
+
+      setOccurrences(sessionsRes.data || [])
+      setExceptions(exceptionsRes.data || [])
+    } catch (error) {
+      console.error('Error fetching series occurrences:', error)
+    } finally {
+      setOccurrencesLoading(false)
+    }
+  }
+
+  const handleToggleExpand = (seriesId: string) => {
+    setEditingOccurrence(null)
+    if (expandedSeriesId === seriesId) {
+      setExpandedSeriesId(null)
+      return
+    }
+    setExpandedSeriesId(seriesId)
+    fetchOccurrences(seriesId)
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleToggleWeekday = (day: number) => {
+    setFormData(prev => ({
+      ...prev,
+      by_weekday: prev.by_weekday.includes(day)
+        ? prev.by_weekday.filter(d => d !== day)
+        : [...prev.by_weekday, day].sort()
+    }))
+  }
+
+  const handleCreateNew = () => {
+    setEditingSeries(null)
+    setFormData(emptyForm)
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleEditSeries = (item: ClassSeries) => {
+    setEditingSeries(item)
+    setFormData({
+      service: item.service,
+      class_type: item.class_type,
+      instructor_id: item.instructor_id || '',
+      capacity: item.capacity,
+      start_time: item.start_time.slice(0, 5),
+      duration_minutes: item.duration_minutes,
+      timezone: item.timezone,
+      by_weekday: item.by_weekday,
+      interval_weeks: item.interval_weeks,
+      starts_on: item.starts_on,
+      end_type: item.until_date ? 'until' : 'count',
+      until_date: item.until_date || '',
+      occurrence_count: item.occurrence_count || 10
+    })
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const validateForm = () => {
+    const newErrors: any = {}
+
+    if (!formData.instructor_id) newErrors.instructor_id = 'Instructor is required'
+    if (!formData.starts_on) newErrors.starts_on = 'Start date is required'
+    if (formData.by_weekday.length === 0) newErrors.by_weekday = 'Pick at least one weekday'
+    if (formData.end_type === 'until' && !formData.until_date) newErrors.until_date = 'End date is required'
+    if (formData.end_type === 'until' && formData.until_date && formData.until_date < formData.starts_on) {
+      newErrors.until_date = 'End date must be after the start date'
+    }
+    if (formData.end_type === 'count' && formData.occurrence_count <= 0) {
+      newErrors.occurrence_count = 'Number of classes must be at least 1'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSaveSeries = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) return
+
+    try {
+      setSaving(true)
+
+      const seriesData = {
+        service: formData.service,
+        class_type: formData.class_type,
+        instructor_id: formData.instructor_id,
+        capacity: formData.service === 'group' ? formData.capacity : 1,
+        start_time: formData.start_time,
+        duration_minutes: formData.duration_minutes,
+        timezone: formData.timezone,
+        by_weekday: formData.by_weekday,
+        interval_weeks: formData.interval_weeks,
+        starts_on: formData.starts_on,
+        until_date: formData.end_type === 'until' ? formData.until_date : null,
+        occurrence_count: formData.end_type === 'count' ? formData.occurrence_count : null
+      }
+
+      // Saving triggers a server-side sync of the series' future sessions
+      if (editingSeries) {
+        const { error } = await supabase
+          .from('class_series')
+          .update(seriesData)
+          .eq('id', editingSeries.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('class_series')
+          .insert([seriesData])
+
+        if (error) throw error
+      }
+
+      await fetchSeries()
+      if (editingSeries && expandedSeriesId === editingSeries.id) {
+        await fetchOccurrences(editingSeries.id)
+      }
+      setShowForm(false)
+      setEditingSeries(null)
+    } catch (error: any) {
+      console.error('Error saving class series:', error)
+      setErrors({ general: error.message || 'Failed to save class series' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEndSeries = async (item: ClassSeries) => {
+    if (!confirm('End this series? All of its future classes will be cancelled.')) return
+
+    try {
+      const { error } = await supabase
+        .from('class_series')
+        .update({ status: 'ended' })
+        .eq('id', item.id)
+
+      if (error) throw error
+      await fetchSeries()
+      if (expandedSeriesId === item.id) {
+        await fetchOccurrences(item.id)
+      }
+    } catch (error) {
+      console.error('Error ending class series:', error)
+      alert('Failed to end class series')
+    }
+  }
+
+  const saveException = async (seriesId: string, occurrenceDate: string, changes: Partial<ClassSeriesException>) => {
+    try {
+      const existing = exceptions.find(ex => ex.occurrence_date === occurrenceDate)
+      const { error } = await supabase
+        .from('class_series_exceptions')
+        .upsert([{
+          series_id: seriesId,
+          occurrence_date: occurrenceDate,
+          is_cancelled: existing?.is_cancelled || false,
+          new_starts_at: existing?.new_starts_at || null,
+          new_instructor: existing?.new_instructor || null,
+          new_instructor_id: existing?.new_instructor_id || null,
+          ...changes
+        }], {
+          onConflict: 'series_id,occurrence_date'
+        })
+
+      if (error) throw error
+      await fetchOccurrences(seriesId)
+    } catch (error) {
+      console.error('Error saving series exception:', error)
+      alert('Failed to update this occurrence')
+    }
+  }
+
+  const handleRestoreOccurrence = async (seriesId: string, occurrenceDate: string) => {
+    try {
+      const { error } = await supabase
+        .from('class_series_exceptions')
+        .delete()
+        .eq('series_id', seriesId)
+        .eq('occurrence_date', occurrenceDate)
+
+      if (error) throw error
+      await fetchOccurrences(seriesId)
+    } catch (error) {
+      console.error('Error restoring occurrence:', error)
+      alert('Failed to restore this occurrence')
+    }
+  }
+
+  const handleSaveOccurrenceEdit = async (item: ClassSeries) => {
+    if (!editingOccurrence) return
+
+    // The new start is entered in the series' zone, like its regular start time
+    const [date, time] = editingOccurrence.startsAt.split('T')
+    await saveException(item.id, editingOccurrence.date, {
+      new_starts_at: editingOccurrence.startsAt ? zonedTimeToUtc(date, time, item.timezone).toISOString() : null,
+      new_instructor: null,
+      new_instructor_id: editingOccurrence.instructorId || null
+    })
+    setEditingOccurrence(null)
+  }
+
+  const toZonedInputValue = (dateString: string, zone: string) => {
+    const time = new Date(dateString).toLocaleTimeString('en-GB', {
+      timeZone: zone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    })
+    return `${getDateKey(dateString, zone)}T${time}`
+  }
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      timeZone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    })
+  }
+
+  const describeRule = (item: ClassSeries) => {
+    const days = item.by_weekday.map(day => weekdays.find(w => w.value === day)?.label).join(', ')
+    const every = item.interval_weeks > 1 ? `Every ${item.interval_weeks} weeks` : 'Weekly'
+    const end = item.until_date
+      ? `until ${new Date(`${item.until_date}T00:00`).toLocaleDateString()}`
+      : `for ${item.occurrence_count} classes`
+    return `${every} on ${days} at ${item.start_time.slice(0, 5)} (${item.timezone}), ${end}`
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Recurring Classes</h2>
+        <Button onClick={handleCreateNew} className="flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          New Series
+        </Button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSaveSeries} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingSeries ? 'Edit Series' : 'New Series'}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {editingSeries && (
+            <p className="text-sm text-gray-600">
+              Changes apply to future classes only. Classes that already took place are left untouched.
+            </p>
+          )}
+
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Service</label>
+              <select
+                value={formData.service}
+                onChange={(e) => handleInputChange('service', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {services.map(service => (
+                  <option key={service.value} value={service.value}>{service.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Class Type</label>
+              <select
+                value={formData.class_type}
+                onChange={(e) => handleInputChange('class_type', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {classTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Instructor</label>
+              <select
+                value={formData.instructor_id}
+                onChange={(e) => handleInputChange('instructor_id', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.instructor_id ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                <option value="">Select an instructor</option>
+                {instructors.map(instructor => (
+                  <option key={instructor.id} value={instructor.id}>{instructor.display_name}</option>
+                ))}
+              </select>
+              {errors.instructor_id && <p className="text-red-500 text-sm mt-1">{errors.instructor_id}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+              <input
+                type="number"
+                min={1}
+                value={formData.service === 'group' ? formData.capacity : 1}
+                disabled={formData.service !== 'group'}
+                onChange={(e) => handleInputChange('capacity', parseInt(e.target.value) || 1)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+              <input
+                type="time"
+                value={formData.start_time}
+                onChange={(e) => handleInputChange('start_time', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Duration (minutes)</label>
+              <input
+                type="number"
+                min={15}
+                step={15}
+                value={formData.duration_minutes}
+                onChange={(e) => handleInputChange('duration_minutes', parseInt(e.target.value) || 60)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+              <select
+                value={formData.timezone}
+                onChange={(e) => handleInputChange('timezone', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {!COMMON_TIME_ZONES.includes(formData.timezone) && (
+                  <option value={formData.timezone}>{formData.timezone}</option>
+                )}
+                {COMMON_TIME_ZONES.map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Repeat every (weeks)</label>
+              <input
+                type="number"
+                min={1}
+                value={formData.interval_weeks}
+                onChange={(e) => handleInputChange('interval_weeks', parseInt(e.target.value) || 1)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Repeat on</label>
+            <div className="flex flex-wrap gap-2">
+              {weekdays.map(day => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => handleToggleWeekday(day.value)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                    formData.by_weekday.includes(day.value)
+                      ? 'bg-blue-500 text-white border-blue-500'
+                      : 'bg-white text-gray-700 border-gray-300 hover:border-blue-300'
+                  }`}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+            {errors.by_weekday && <p className="text-red-500 text-sm mt-1">{errors.by_weekday}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starts On</label>
+              <input
+                type="date"
+                value={formData.starts_on}
+                onChange={(e) => handleInputChange('starts_on', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.starts_on ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.starts_on && <p className="text-red-500 text-sm mt-1">{errors.starts_on}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+              <select
+                value={formData.end_type}
+                onChange={(e) => handleInputChange('end_type', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="until">On a date</option>
+                <option value="count">After a number of classes</option>
+              </select>
+            </div>
+            <div>
+              {formData.end_type === 'until' ? (
+                <>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+                  <input
+                    type="date"
+                    value={formData.until_date}
+                    onChange={(e) => handleInputChange('until_date', e.target.value)}
+                    className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors.until_date ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.until_date && <p className="text-red-500 text-sm mt-1">{errors.until_date}</p>}
+                </>
+              ) : (
+                <>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Number of classes</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={formData.occurrence_count}
+                    onChange={(e) => handleInputChange('occurrence_count', parseInt(e.target.value) || 0)}
+                    className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors.occurrence_count ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.occurrence_count && <p className="text-red-500 text-sm mt-1">{errors.occurrence_count}</p>}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={saving}>
+              {editingSeries ? 'Update Series' : 'Create Series'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : series.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg text-center py-12">
+          <Repeat className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No recurring classes yet</h3>
+          <p className="text-gray-600">Create a series to generate weekly classes automatically.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {series.map((item) => (
+            <div key={item.id} className="bg-white rounded-xl shadow-lg">
+              <div className="p-4 flex justify-between items-start">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-semibold text-gray-900">{item.class_type}</h3>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      item.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {item.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {services.find(s => s.value === item.service)?.label} · {item.instructor} · {item.duration_minutes} minutes
+                  </p>
+                  <p className="text-sm text-gray-500">{describeRule(item)}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {item.status === 'active' && (
+                    <>
+                      <button onClick={() => handleEditSeries(item)} className="text-indigo-600 hover:text-indigo-900">
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleEndSeries(item)}
+                        className="border-red-300 text-red-600 hover:bg-red-50"
+                      >
+                        End Series
+                      </Button>
+                    </>
+                  )}
+                  <button onClick={() => handleToggleExpand(item.id)} className="text-gray-500 hover:text-gray-700">
+                    {expandedSeriesId === item.id ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+                  </button>
+                </div>
+              </div>
+
+              {expandedSeriesId === item.id && (
+                <div className="border-t border-gray-200 p-4">
+                  {occurrencesLoading ? (
+                    <LoadingSpinner size="md" />
+                  ) : occurrences.length === 0 ? (
+                    <p className="text-sm text-gray-500">No upcoming classes in this series.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {occurrences.map((occurrence) => {
+                        const occurrenceDate = occurrence.occurrence_date as string
+                        const exception = exceptions.find(ex => ex.occurrence_date === occurrenceDate)
+                        const isEditing = editingOccurrence?.date === occurrenceDate
+
+                        return (
+                          <div key={occurrence.id} className="flex flex-col md:flex-row md:items-center md:justify-between p-3 bg-gray-50 rounded-lg">
+                            <div>
+                              <p className={`text-sm font-medium ${occurrence.status === 'cancelled' ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                                {formatDateTime(occurrence.starts_at)} · {occurrence.instructor}
+                              </p>
+                              {item.timezone !== timeZone && (
+                                <p className="text-xs text-gray-500">
+                                  {formatTimeInZone(occurrence.starts_at, item.timezone)} in {item.timezone}
+                                </p>
+                              )}
+                              {exception && (
+                                <p className="text-xs text-orange-600">
+                                  {exception.is_cancelled && 'Cancelled'}
+                                  {exception.new_starts_at && 'Moved'}
+                                  {(exception.new_instructor_id || exception.new_instructor) && `${exception.new_starts_at ? ', ' : ''}Substitute instructor`}
+                                </p>
+                              )}
+                            </div>
+
+                            {isEditing ? (
+                              <div className="flex flex-wrap items-center gap-2 mt-2 md:mt-0">
+                                <input
+                                  type="datetime-local"
+                                  value={editingOccurrence.startsAt}
+                                  onChange={(e) => setEditingOccurrence({ ...editingOccurrence, startsAt: e.target.value })}
+                                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                                />
+                                <select
+                                  value={editingOccurrence.instructorId}
+                                  onChange={(e) => setEditingOccurrence({ ...editingOccurrence, instructorId: e.target.value })}
+                                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                                >
+                                  <option value="">Regular instructor</option>
+                                  {instructors.map(instructor => (
+                                    <option key={instructor.id} value={instructor.id}>{instructor.display_name}</option>
+                                  ))}
+                                </select>
+                                <span className="text-xs text-gray-500">{item.timezone}</span>
+                                <Button size="sm" onClick={() => handleSaveOccurrenceEdit(item)}>Save</Button>
+                                <Button size="sm" variant="outline" onClick={() => setEditingOccurrence(null)}>Close</Button>
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-3 mt-2 md:mt-0 text-sm">
+                                {occurrence.status !== 'cancelled' && (
+                                  <>
+                                    <button
+                                      onClick={() => setEditingOccurrence({
+                                        date: occurrenceDate,
+                                        startsAt: toZonedInputValue(occurrence.starts_at, item.timezone),
+                                        instructorId: exception?.new_instructor_id || ''
+                                      })}
+                                      className="text-indigo-600 hover:text-indigo-900"
+                                    >
+                                      Move / substitute
+                                    </button>
+                                    <button
+                                      onClick={() => saveException(item.id, occurrenceDate, { is_cancelled: true })}
+                                      className="text-red-600 hover:text-red-900"
+                                    >
+                                      Cancel date
+                                    </button>
+                                  </>
+                                )}
+                                {exception && (
+                                  <button
+                                    onClick={() => handleRestoreOccurrence(item.id, occurrenceDate)}
+                                    className="text-gray-600 hover:text-gray-900 flex items-center"
+                                  >
+                                    <RotateCcw className="w-3 h-3 mr-1" />
+                                    Restore
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
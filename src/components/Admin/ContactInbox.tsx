@@ -0,0 +1,494 @@
+import { useState, useEffect } from 'react'
+import { Clock, Filter, GitMerge, Lock, Mail, Search, Send, Tag, User, X } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { ReplyTemplatePicker } from './ReplyTemplatePicker'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import { ContactMessage, ContactNoteKind, ContactStatus, StaffMember } from '../../types/contact'
+
+// Every message should get a first response within this many hours
+const SLA_HOURS = 48
+const SLA_WARNING_HOURS = 36
+
+const statusStyles: Record<ContactStatus, string> = {
+  new: 'bg-purple-100 text-purple-800',
+  open: 'bg-blue-100 text-blue-800',
+  waiting: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-gray-100 text-gray-800'
+}
+
+const statusLabels: Record<ContactStatus, string> = {
+  new: 'New',
+  open: 'Open',
+  waiting: 'Waiting on sender',
+  resolved: 'Resolved'
+}
+
+// Hours left until the first response is due, or null once the clock has stopped
+function getSlaHoursLeft(message: ContactMessage, now: number): number | null {
+  if (message.first_response_at || message.status === 'resolved') return null
+  const ageHours = (now - new Date(message.created_at).getTime()) / 3600000
+  return SLA_HOURS - ageHours
+}
+
+function SlaBadge({ hoursLeft }: { hoursLeft: number | null }) {
+  if (hoursLeft === null) return null
+
+  const style = hoursLeft <= 0
+    ? 'bg-red-100 text-red-800'
+    : hoursLeft <= SLA_HOURS - SLA_WARNING_HOURS
+      ? 'bg-orange-100 text-orange-800'
+      : 'bg-green-100 text-green-800'
+  const label = hoursLeft <= 0
+    ? `Overdue by ${Math.ceil(-hoursLeft)}h`
+    : hoursLeft < 1
+      ? `${Math.ceil(hoursLeft * 60)}m left`
+      : `${Math.floor(hoursLeft)}h left`
+
+  return (
+    <span className={`px-2 py-1 text-xs rounded-full flex items-center ${style}`}>
+      <Clock className="w-3 h-3 mr-1" />
+      {label}
+    </span>
+  )
+}
+
+export function ContactInbox() {
+  const { user } = useAuth()
+  const [messages, setMessages] = useState<ContactMessage[]>([])
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState('active')
+  const [assigneeFilter, setAssigneeFilter] = useState('all')
+  const [expandedMessage, setExpandedMessage] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [draftKind, setDraftKind] = useState<ContactNoteKind>('reply')
+  const [tagDraft, setTagDraft] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    fetchMessages()
+    fetchStaff()
+
+    // Keeps the SLA timers current while the inbox is open
+    const timer = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const fetchMessages = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setLoading(true)
+      const { data, error } = await supabase
+        .from('contact_messages')
+        .select('*, contact_message_notes(*)')
+        .is('merged_into', null)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setMessages((data || []).map(message => ({
+        ...message,
+        contact_message_notes: [...(message.contact_message_notes || [])].sort(
+          (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        )
+      })))
+    } catch (error) {
+      console.error('Error fetching contact messages:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_staff_members')
+
+      if (error) throw error
+      setStaff(data || [])
+    } catch (error) {
+      console.error('Error fetching staff members:', error)
+    }
+  }
+
+  const updateMessage = async (message: ContactMessage, changes: Partial<ContactMessage>) => {
+    try {
+      setSaving(true)
+      const { error } = await supabase
+        .from('contact_messages')
+        .update(changes)
+        .eq('id', message.id)
+
+      if (error) throw error
+      await fetchMessages(false)
+    } catch (error: any) {
+      console.error('Error updating contact message:', error)
+      alert(error.message || 'Failed to update message')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleExpand = (message: ContactMessage) => {
+    if (expandedMessage === message.id) {
+      setExpandedMessage(null)
+      return
+    }
+
+    setExpandedMessage(message.id)
+    setDraft('')
+    setDraftKind('reply')
+    setTagDraft('')
+    if (message.status === 'new') {
+      updateMessage(message, { status: 'open' })
+    }
+  }
+
+  const handleAddTag = (message: ContactMessage) => {
+    const tag = tagDraft.trim().toLowerCase()
+    if (!tag || message.tags.includes(tag)) {
+      setTagDraft('')
+      return
+    }
+
+    setTagDraft('')
+    updateMessage(message, { tags: [...message.tags, tag] })
+  }
+
+  const handleSubmitNote = async (e: React.FormEvent, message: ContactMessage) => {
+    e.preventDefault()
+    if (!user || !draft.trim()) return
+
+    try {
+      setSaving(true)
+      const { error } = await supabase
+        .from('contact_message_notes')
+        .insert([{ contact_message_id: message.id, kind: draftKind, author_id: user.id, body: draft.trim() }])
+
+      if (error) throw error
+      setDraft('')
+      await fetchMessages(false)
+    } catch (error: any) {
+      console.error('Error saving note:', error)
+      alert(error.message || 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMerge = async (message: ContactMessage, duplicates: ContactMessage[]) => {
+    if (!confirm(`Merge ${duplicates.length} other message(s) from ${message.email} into this one? Their text and notes will be kept here.`)) return
+
+    try {
+      setSaving(true)
+      const { error } = await supabase.rpc('merge_contact_messages', {
+        p_primary_id: message.id,
+        p_duplicate_ids: duplicates.map(duplicate => duplicate.id)
+      })
+
+      if (error) throw error
+      await fetchMessages(false)
+    } catch (error: any) {
+      console.error('Error merging messages:', error)
+      alert(error.message || 'Failed to merge messages')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const getStaffName = (userId?: string | null) => {
+    if (!userId) return 'Someone'
+    if (userId === user?.id) return 'You'
+    const member = staff.find(s => s.user_id === userId)
+    return member?.full_name || member?.email || 'A team member'
+  }
+
+  const filteredMessages = messages.filter(message => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = message.subject.toLowerCase().includes(term) ||
+      message.name.toLowerCase().includes(term) ||
+      message.email.toLowerCase().includes(term) ||
+      message.tags.some(tag => tag.includes(term))
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'active' ? message.status !== 'resolved' : message.status === statusFilter)
+    const matchesAssignee = assigneeFilter === 'all' ||
+      (assigneeFilter === 'me' ? message.assigned_to === user?.id : !message.assigned_to)
+    return matchesSearch && matchesStatus && matchesAssignee
+  })
+
+  const urgentCount = messages.filter(message => {
+    const hoursLeft = getSlaHoursLeft(message, now)
+    return hoursLeft !== null && hoursLeft <= SLA_HOURS - SLA_WARNING_HOURS
+  }).length
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Contact Inbox</h2>
+        <p className="text-gray-600">
+          Replies are emailed to the sender; notes stay with the team. Every message should get a first reply within {SLA_HOURS} hours.
+          {urgentCount > 0 && (
+            <span className="text-red-600 font-medium"> {urgentCount} due soon or overdue.</span>
+          )}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by subject, name, email or tag..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="lg:w-48">
+            <div className="relative">
+              <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+              >
+                <option value="active">Not resolved</option>
+                <option value="all">All Status</option>
+                <option value="new">New</option>
+                <option value="open">Open</option>
+                <option value="waiting">Waiting on sender</option>
+                <option value="resolved">Resolved</option>
+              </select>
+            </div>
+          </div>
+          <div className="lg:w-48">
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <select
+                value={assigneeFilter}
+                onChange={(e) => setAssigneeFilter(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+              >
+                <option value="all">Everyone</option>
+                <option value="me">Assigned to me</option>
+                <option value="unassigned">Unassigned</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredMessages.map((message) => {
+            const isExpanded = expandedMessage === message.id
+            const duplicates = messages.filter(other =>
+              other.id !== message.id && other.email.toLowerCase() === message.email.toLowerCase()
+            )
+
+            return (
+              <div key={message.id} className="bg-white rounded-xl shadow-lg p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{message.subject}</h3>
+                    <p className="text-sm text-gray-600">From: {message.name} ({message.email})</p>
+                    {message.phone && <p className="text-sm text-gray-600">Phone: {message.phone}</p>}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(message.created_at).toLocaleString()} · {message.assigned_to ? `Assigned to ${getStaffName(message.assigned_to)}` : 'Unassigned'}
+                      {duplicates.length > 0 && ` · ${duplicates.length} more from this sender`}
+                    </p>
+                    {message.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {message.tags.map(tag => (
+                          <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <SlaBadge hoursLeft={getSlaHoursLeft(message, now)} />
+                    <span className={`px-2 py-1 text-xs rounded-full ${statusStyles[message.status]}`}>
+                      {statusLabels[message.status]}
+                    </span>
+                    <button
+                      onClick={() => handleExpand(message)}
+                      className="text-blue-600 hover:text-blue-800 text-sm flex items-center"
+                    >
+                      <Mail className="w-4 h-4 mr-1" />
+                      {isExpanded ? 'Hide' : 'Open'}
+                      {(message.contact_message_notes?.length || 0) > 0 && ` (${message.contact_message_notes?.length})`}
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded ? (
+                  <div className="mt-4 space-y-4">
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Status</label>
+                        <select
+                          value={message.status}
+                          onChange={(e) => updateMessage(message, { status: e.target.value as ContactStatus })}
+                          disabled={saving}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {(Object.keys(statusLabels) as ContactStatus[]).map(status => (
+                            <option key={status} value={status}>{statusLabels[status]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Assigned to</label>
+                        <select
+                          value={message.assigned_to || ''}
+                          onChange={(e) => updateMessage(message, { assigned_to: e.target.value || null })}
+                          disabled={saving}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Unassigned</option>
+                          {staff.map(member => (
+                            <option key={member.user_id} value={member.user_id}>
+                              {member.full_name || member.email}{member.user_id === user?.id ? ' (me)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Tags</label>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {message.tags.map(tag => (
+                          <span key={tag} className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700 flex items-center">
+                            {tag}
+                            <button
+                              onClick={() => updateMessage(message, { tags: message.tags.filter(t => t !== tag) })}
+                              className="ml-1 text-gray-500 hover:text-gray-800"
+                              title="Remove tag"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                        <div className="relative">
+                          <Tag className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400 w-3 h-3" />
+                          <input
+                            type="text"
+                            value={tagDraft}
+                            onChange={(e) => setTagDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault()
+                                handleAddTag(message)
+                              }
+                            }}
+                            placeholder="Add tag"
+                            className="pl-6 pr-2 py-1 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-3">
+                      <div className="p-3 rounded-lg bg-gray-50 mr-6">
+                        <div className="flex justify-between text-xs mb-1">
+                          <span className="font-medium text-gray-900">{message.name}</span>
+                          <span className="text-gray-500">{new Date(message.created_at).toLocaleString()}</span>
+                        </div>
+                        <p className="text-sm text-gray-700 whitespace-pre-line">{message.message}</p>
+                      </div>
+                      {(message.contact_message_notes || []).map(note => (
+                        <div
+                          key={note.id}
+                          className={`p-3 rounded-lg ml-6 ${note.kind === 'reply' ? 'bg-blue-50' : 'bg-yellow-50 border border-yellow-200'}`}
+                        >
+                          <div className="flex justify-between text-xs mb-1">
+                            <span className={`font-medium flex items-center ${note.kind === 'reply' ? 'text-blue-900' : 'text-yellow-900'}`}>
+                              {note.kind === 'note' && <Lock className="w-3 h-3 mr-1" />}
+                              {getStaffName(note.author_id)} {note.kind === 'reply' ? 'replied' : 'noted'}
+                            </span>
+                            <span className="text-gray-500">{new Date(note.created_at).toLocaleString()}</span>
+                          </div>
+                          <p className={`text-sm whitespace-pre-line ${note.kind === 'reply' ? 'text-blue-800' : 'text-yellow-900'}`}>
+                            {note.body}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+
+                    <form onSubmit={(e) => handleSubmitNote(e, message)} className="space-y-2">
+                      <div className="flex space-x-4 text-sm">
+                        <label className="flex items-center text-gray-700">
+                          <input
+                            type="radio"
+                            checked={draftKind === 'reply'}
+                            onChange={() => setDraftKind('reply')}
+                            className="mr-1"
+                          />
+                          Email reply
+                        </label>
+                        <label className="flex items-center text-gray-700">
+                          <input
+                            type="radio"
+                            checked={draftKind === 'note'}
+                            onChange={() => setDraftKind('note')}
+                            className="mr-1"
+                          />
+                          Internal note
+                        </label>
+                      </div>
+                      {draftKind === 'reply' && (
+                        <ReplyTemplatePicker
+                          recipientName={message.name}
+                          onInsert={(text) => setDraft(prev => prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text)}
+                        />
+                      )}
+                      <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={3}
+                        maxLength={5000}
+                        placeholder={draftKind === 'reply' ? `Reply to ${message.name}...` : 'Only the team can see this'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <div className="flex justify-between items-center">
+                        {duplicates.length > 0 ? (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMerge(message, duplicates)}
+                            disabled={saving}
+                            className="flex items-center"
+                          >
+                            <GitMerge className="w-3 h-3 mr-1" />
+                            Merge {duplicates.length} from this sender
+                          </Button>
+                        ) : <span />}
+                        <Button type="submit" size="sm" loading={saving} disabled={!draft.trim()} className="flex items-center">
+                          <Send className="w-3 h-3 mr-1" />
+                          {draftKind === 'reply' ? 'Send reply' : 'Add note'}
+                        </Button>
+                      </div>
+                    </form>
+                  </div>
+                ) : (
+                  <p className="text-gray-700 mt-3 line-clamp-2">{message.message}</p>
+                )}
+              </div>
+            )
+          })}
+          {filteredMessages.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No contact messages found.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+import { useState, Fragment } from 'react'
+import { Plus, UserCheck, Link as LinkIcon, X } from 'lucide-react'
+import { AvailabilityEditor } from '../Instructor/AvailabilityEditor'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { useInstructors } from '../../hooks/useInstructors'
+import { Instructor } from '../../types/instructor'
+import { COMMON_TIME_ZONES, detectTimeZone } from '../../utils/timezone'
+
+export function InstructorManagement() {
+  const { instructors, loading, refetch } = useInstructors(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingInstructor, setEditingInstructor] = useState<Instructor | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [availabilityInstructorId, setAvailabilityInstructorId] = useState<string | null>(null)
+  const [errors, setErrors] = useState<any>({})
+  const [formData, setFormData] = useState({
+    display_name: '',
+    bio: '',
+    timezone: detectTimeZone()
+  })
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleCreateNew = () => {
+    setEditingInstructor(null)
+    setFormData({ display_name: '', bio: '', timezone: detectTimeZone() })
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleEdit = (instructor: Instructor) => {
+    setEditingInstructor(instructor)
+    setFormData({
+      display_name: instructor.display_name,
+      bio: instructor.bio || '',
+      timezone: instructor.timezone
+    })
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.display_name.trim()) {
+      setErrors({ display_name: 'Name is required' })
+      return
+    }
+
+    try {
+      setSaving(true)
+
+      if (editingInstructor) {
+        const { error } = await supabase
+          .from('instructors')
+          .update(formData)
+          .eq('id', editingInstructor.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('instructors')
+          .insert([formData])
+
+        if (error) throw error
+      }
+
+      await refetch()
+      setShowForm(false)
+      setEditingInstructor(null)
+    } catch (error: any) {
+      console.error('Error saving instructor:', error)
+      setErrors({ general: error.message || 'Failed to save instructor' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (instructor: Instructor) => {
+    try {
+      setActionLoading(instructor.id)
+      const { error } = await supabase
+        .from('instructors')
+        .update({ is_active: !instructor.is_active })
+        .eq('id', instructor.id)
+
+      if (error) throw error
+      await refetch()
+    } catch (error) {
+      console.error('Error updating instructor:', error)
+      alert('Failed to update instructor')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleLinkAccount = async (instructor: Instructor) => {
+    const email = prompt(`Email of the account ${instructor.display_name} signs in with:`)
+    if (!email) return
+
+    try {
+      setActionLoading(instructor.id)
+      const { error } = await supabase.rpc('link_instructor_user', {
+        p_instructor_id: instructor.id,
+        p_email: email
+      })
+
+      if (error) throw error
+      await refetch()
+      alert(`${instructor.display_name} can now use the instructor dashboard.`)
+    } catch (error: any) {
+      console.error('Error linking instructor account:', error)
+      alert(error.message || 'Failed to link account')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Instructors</h2>
+        <Button onClick={handleCreateNew} className="flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          New Instructor
+        </Button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingInstructor ? 'Edit Instructor' : 'New Instructor'}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.display_name}
+                onChange={(e) => handleInputChange('display_name', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.display_name ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.display_name && <p className="text-red-500 text-sm mt-1">{errors.display_name}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+              <select
+                value={formData.timezone}
+                onChange={(e) => handleInputChange('timezone', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {!COMMON_TIME_ZONES.includes(formData.timezone) && (
+                  <option value={formData.timezone}>{formData.timezone}</option>
+                )}
+                {COMMON_TIME_ZONES.map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Bio</label>
+            <textarea
+              rows={3}
+              value={formData.bio}
+              onChange={(e) => handleInputChange('bio', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={saving}>
+              {editingInstructor ? 'Update Instructor' : 'Create Instructor'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Instructor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time Zone</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {instructors.map((instructor) => (
+                <Fragment key={instructor.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{instructor.display_name}</div>
+                      {!instructor.is_active && <div className="text-xs text-gray-500">Inactive</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{instructor.timezone}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {instructor.user_id ? (
+                        <span className="flex items-center text-green-700">
+                          <UserCheck className="w-4 h-4 mr-1" />
+                          Linked
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => handleLinkAccount(instructor)}
+                          disabled={actionLoading === instructor.id}
+                          className="flex items-center text-blue-600 hover:text-blue-900"
+                        >
+                          <LinkIcon className="w-4 h-4 mr-1" />
+                          Link account
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-3">
+                        <button onClick={() => handleEdit(instructor)} className="text-indigo-600 hover:text-indigo-900">
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setAvailabilityInstructorId(
+                            availabilityInstructorId === instructor.id ? null : instructor.id
+                          )}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          Availability
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(instructor)}
+                          disabled={actionLoading === instructor.id}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {instructor.is_active ? 'Deactivate' : 'Activate'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {availabilityInstructorId === instructor.id && (
+                    <tr>
+                      <td colSpan={4} className="px-6 py-4 bg-gray-50">
+                        <AvailabilityEditor instructor={instructor} onSaved={refetch} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
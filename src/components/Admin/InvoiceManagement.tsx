@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react'
+import { Download, FileSpreadsheet, Save, Search } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { Invoice, InvoiceSettings } from '../../types/invoice'
+import { downloadInvoicePdf, exportInvoicesCsv } from '../../utils/invoices'
+import { formatPrice } from '../../utils/payments'
+import { getLocalDateKey } from '../../utils/timezone'
+
+export function InvoiceManagement() {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingSettings, setSavingSettings] = useState(false)
+  const [downloading, setDownloading] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [fromDate, setFromDate] = useState(() => {
+    const now = new Date()
+    return getLocalDateKey(new Date(now.getFullYear(), now.getMonth(), 1))
+  })
+  const [toDate, setToDate] = useState(() => getLocalDateKey(new Date()))
+
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [fromDate, toDate])
+
+  const fetchInvoices = async () => {
+    try {
+      setLoading(true)
+      const until = new Date(`${toDate}T00:00:00`)
+      until.setDate(until.getDate() + 1)
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, invoice_lines(*)')
+        .gte('issued_at', new Date(`${fromDate}T00:00:00`).toISOString())
+        .lt('issued_at', until.toISOString())
+        .order('issued_at', { ascending: false })
+
+      if (error) throw error
+      setInvoices(data || [])
+    } catch (error) {
+      console.error('Error fetching invoices:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_settings')
+        .select('*')
+        .single()
+
+      if (error) throw error
+      setSettings(data)
+    } catch (error) {
+      console.error('Error fetching invoice settings:', error)
+    }
+  }
+
+  const handleSettingsChange = (field: keyof InvoiceSettings, value: any) => {
+    setSettings(prev => prev ? { ...prev, [field]: value } : prev)
+  }
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!settings) return
+
+    try {
+      setSavingSettings(true)
+      const { error } = await supabase
+        .from('invoice_settings')
+        .update({
+          seller_name: settings.seller_name,
+          seller_address: settings.seller_address,
+          seller_tax_id: settings.seller_tax_id,
+          tax_label: settings.tax_label,
+          tax_rate: settings.tax_rate,
+          number_prefix: settings.number_prefix
+        })
+        .eq('id', true)
+
+      if (error) throw error
+      await fetchSettings()
+    } catch (error) {
+      console.error('Error saving invoice settings:', error)
+      alert('Failed to save invoice settings')
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      setDownloading(invoice.id)
+      await downloadInvoicePdf(invoice)
+    } catch (error) {
+      console.error('Error creating invoice PDF:', error)
+      alert('Failed to create the invoice PDF')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  const filteredInvoices = invoices.filter(invoice => {
+    const term = searchTerm.toLowerCase()
+    return invoice.invoice_number.toLowerCase().includes(term) ||
+      invoice.billing_name.toLowerCase().includes(term) ||
+      invoice.billing_email.toLowerCase().includes(term)
+  })
+
+  // Totals per currency, in case prices were ever set in more than one
+  const totals = filteredInvoices.reduce<Record<string, number>>((sums, invoice) => {
+    sums[invoice.currency] = (sums[invoice.currency] || 0) + invoice.total_cents
+    return sums
+  }, {})
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Invoices</h2>
+          <p className="text-gray-600">An invoice is issued automatically for every payment received.</p>
+        </div>
+        <Button
+          onClick={() => exportInvoicesCsv(filteredInvoices, `invoices-${fromDate}-to-${toDate}.csv`)}
+          disabled={filteredInvoices.length === 0}
+          className="flex items-center"
+        >
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by number, name or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {Object.keys(totals).length > 0 && (
+          <p className="text-sm text-gray-600 mt-4">
+            {filteredInvoices.length} invoices, total {Object.entries(totals).map(([currency, cents]) => formatPrice(cents, currency)).join(' + ')}
+          </p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredInvoices.map((invoice) => (
+                <tr key={invoice.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{invoice.invoice_number}</div>
+                    <div className="text-xs text-gray-500">{new Date(invoice.issued_at).toLocaleDateString()}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-gray-900">{invoice.billing_name}</div>
+                    <div className="text-xs text-gray-500">{invoice.billing_email}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {(invoice.invoice_lines || []).map(line => line.description).join(', ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatPrice(invoice.total_cents, invoice.currency)}
+                    {invoice.tax_cents > 0 && (
+                      <div className="text-xs text-gray-500">incl. {formatPrice(invoice.tax_cents, invoice.currency)} {invoice.tax_label}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDownload(invoice)}
+                      loading={downloading === invoice.id}
+                      className="flex items-center"
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      PDF
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {filteredInvoices.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No invoices in this period.</p>
+          )}
+        </div>
+      )}
+
+      {settings && (
+        <form onSubmit={handleSaveSettings} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Invoice Details</h3>
+            <p className="text-sm text-gray-600">
+              Printed on new invoices. Prices include tax; the tax part is shown separately.
+              The next invoice number is {settings.number_prefix}{new Date().getFullYear()}-{String(settings.next_number).padStart(5, '0')}.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Business name</label>
+              <input
+                type="text"
+                value={settings.seller_name}
+                onChange={(e) => handleSettingsChange('seller_name', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tax ID</label>
+              <input
+                type="text"
+                value={settings.seller_tax_id}
+                onChange={(e) => handleSettingsChange('seller_tax_id', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Business address</label>
+            <textarea
+              rows={3}
+              value={settings.seller_address}
+              onChange={(e) => handleSettingsChange('seller_address', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tax name</label>
+              <input
+                type="text"
+                value={settings.tax_label}
+                onChange={(e) => handleSettingsChange('tax_label', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tax rate (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={99}
+                step="0.01"
+                value={settings.tax_rate}
+                onChange={(e) => handleSettingsChange('tax_rate', parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Number prefix</label>
+              <input
+                type="text"
+                value={settings.number_prefix}
+                onChange={(e) => handleSettingsChange('number_prefix', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" loading={savingSettings} className="flex items-center">
+              <Save className="w-4 h-4 mr-2" />
+              Save Details
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
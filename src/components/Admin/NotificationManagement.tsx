@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react'
+import { Filter, RefreshCw, Search } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { NotificationChannel, NotificationTemplate, OutboxMessage } from '../../types/notification'
+
+const templateLabels: Record<NotificationTemplate, string> = {
+  booking_confirmed: 'Booking confirmation',
+  class_reminder: 'Class reminder',
+  booking_cancelled: 'Cancellation',
+  waitlist_promoted: 'Waitlist spot',
+  query_answered: 'Query answer',
+  contact_reply: 'Contact reply'
+}
+
+const channelLabels: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp'
+}
+
+export function NotificationManagement() {
+  const [messages, setMessages] = useState<OutboxMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [resending, setResending] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState('all')
+
+  useEffect(() => {
+    fetchMessages()
+  }, [statusFilter])
+
+  const fetchMessages = async () => {
+    try {
+      setLoading(true)
+      let query = supabase
+        .from('notification_outbox')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200)
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter)
+      }
+
+      const { data, error } = await query
+
+      if (error) throw error
+      setMessages(data || [])
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleResend = async (message: OutboxMessage) => {
+    try {
+      setResending(message.id)
+      const { error } = await supabase.rpc('resend_notification', { p_notification_id: message.id })
+
+      if (error) throw error
+      await fetchMessages()
+    } catch (error: any) {
+      console.error('Error resending notification:', error)
+      alert(error.message || 'Failed to resend notification')
+    } finally {
+      setResending(null)
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'sent': return 'bg-green-100 text-green-800'
+      case 'queued': return 'bg-yellow-100 text-yellow-800'
+      case 'sending': return 'bg-blue-100 text-blue-800'
+      case 'failed': return 'bg-red-100 text-red-800'
+      case 'cancelled': return 'bg-gray-200 text-gray-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const filteredMessages = messages.filter(message => {
+    const term = searchTerm.toLowerCase()
+    return message.recipient.toLowerCase().includes(term) ||
+      message.subject.toLowerCase().includes(term) ||
+      templateLabels[message.template].toLowerCase().includes(term)
+  })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Notifications</h2>
+          <p className="text-gray-600">
+            Booking emails, text messages and class reminders are queued here and sent when due. Failed messages are retried a few times before giving up.
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchMessages} className="flex items-center">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by recipient or subject..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="lg:w-48">
+            <div className="relative">
+              <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+              >
+                <option value="all">All Status</option>
+                <option value="queued">Queued</option>
+                <option value="sending">Sending</option>
+                <option value="sent">Sent</option>
+                <option value="failed">Failed</option>
+                <option value="skipped">Skipped</option>
+                <option value="cancelled">Cancelled</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredMessages.map((message) => (
+                <tr key={message.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">
+                      {templateLabels[message.template]}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{channelLabels[message.channel]}</span>
+                    </div>
+                    {message.subject && <div className="text-xs text-gray-500">{message.subject}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{message.recipient}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(message.status)}`}>
+                      {message.status.charAt(0).toUpperCase() + message.status.slice(1)}
+                    </span>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {message.status === 'sent' && message.sent_at
+                        ? `${new Date(message.sent_at).toLocaleString()} via ${message.provider}`
+                        : `${message.attempts} ${message.attempts === 1 ? 'attempt' : 'attempts'}`}
+                    </div>
+                    {message.last_error && message.status !== 'sent' && (
+                      <div className="text-xs text-red-600 mt-1 max-w-xs break-words">{message.last_error}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(message.send_after).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    {['sent', 'failed', 'skipped'].includes(message.status) && (
+                      <button
+                        onClick={() => handleResend(message)}
+                        disabled={resending === message.id}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Resend
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {filteredMessages.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No notifications found.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
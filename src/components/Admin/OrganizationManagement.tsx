@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react'
+import { Plus, X, Building2 } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { Organization } from '../../types/organization'
+
+const emptyForm = {
+  name: '',
+  email_domains: '',
+  seat_limit: '',
+  is_active: true
+}
+
+export function OrganizationManagement() {
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingOrganization, setEditingOrganization] = useState<Organization | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [errors, setErrors] = useState<any>({})
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetchOrganizations()
+  }, [])
+
+  const fetchOrganizations = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*, organization_members(*), organization_allotments(sessions)')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      setOrganizations(data || [])
+    } catch (error) {
+      console.error('Error fetching organizations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleCreateNew = () => {
+    setEditingOrganization(null)
+    setFormData(emptyForm)
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleEdit = (organization: Organization) => {
+    setEditingOrganization(organization)
+    setFormData({
+      name: organization.name,
+      email_domains: organization.email_domains.join(', '),
+      seat_limit: organization.seat_limit ? String(organization.seat_limit) : '',
+      is_active: organization.is_active
+    })
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const domains = formData.email_domains
+      .split(/[\s,]+/)
+      .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+      .filter(Boolean)
+
+    const newErrors: any = {}
+    if (!formData.name.trim()) newErrors.name = 'Name is required'
+    if (domains.some(domain => !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain))) {
+      newErrors.email_domains = 'Enter domains like example.com'
+    }
+    if (formData.seat_limit && !(parseInt(formData.seat_limit) > 0)) {
+      newErrors.seat_limit = 'Leave empty for no limit'
+    }
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+
+    const organizationData = {
+      name: formData.name.trim(),
+      email_domains: domains,
+      seat_limit: formData.seat_limit ? parseInt(formData.seat_limit) : null,
+      is_active: formData.is_active
+    }
+
+    try {
+      setSaving(true)
+
+      if (editingOrganization) {
+        const { error } = await supabase
+          .from('organizations')
+          .update(organizationData)
+          .eq('id', editingOrganization.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('organizations')
+          .insert([organizationData])
+
+        if (error) throw error
+      }
+
+      await fetchOrganizations()
+      setShowForm(false)
+      setEditingOrganization(null)
+    } catch (error: any) {
+      console.error('Error saving organization:', error)
+      setErrors({ general: error.message || 'Failed to save organization' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Custom-priced contracts are invoiced separately, so sessions are recorded here by hand
+  const handleAddSessions = async (organization: Organization) => {
+    const input = prompt(`How many sessions should be added for ${organization.name}? Use a negative number to correct the balance.`)
+    const sessions = parseInt(input || '')
+    if (!sessions) return
+
+    const note = prompt('Note for the company, e.g. the contract or invoice number') || ''
+
+    try {
+      setActionLoading(organization.id)
+      const { error } = await supabase
+        .from('organization_allotments')
+        .insert([{
+          organization_id: organization.id,
+          entry_type: sessions > 0 ? 'purchase' : 'adjustment',
+          sessions,
+          note: note.trim()
+        }])
+
+      if (error) throw error
+      await fetchOrganizations()
+    } catch (error) {
+      console.error('Error adding sessions:', error)
+      alert('Failed to add sessions')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleInviteAdmin = async (organization: Organization) => {
+    const email = prompt(`Email address of the company admin for ${organization.name}`)
+    if (!email?.trim()) return
+
+    try {
+      setActionLoading(organization.id)
+      const { error } = await supabase.rpc('invite_organization_members', {
+        p_organization_id: organization.id,
+        p_emails: [email.trim()],
+        p_role: 'admin'
+      })
+
+      if (error) throw error
+      await fetchOrganizations()
+    } catch (error: any) {
+      console.error('Error inviting company admin:', error)
+      alert(error.message || 'Failed to invite company admin')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const getSessionsLeft = (organization: Organization) => {
+    return (organization.organization_allotments || []).reduce((total, entry) => total + entry.sessions, 0)
+  }
+
+  const getSeatsUsed = (organization: Organization) => {
+    return (organization.organization_members || []).filter(member => member.status !== 'removed').length
+  }
+
+  const getAdmins = (organization: Organization) => {
+    return (organization.organization_members || [])
+      .filter(member => member.role === 'admin' && member.status !== 'removed')
+      .map(member => member.status === 'invited' ? `${member.email} (invited)` : member.email)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Corporate Accounts</h2>
+          <p className="text-gray-600">
+            Companies book sessions for their employees from an allotment. Pick the company when scheduling a corporate session.
+          </p>
+        </div>
+        <Button onClick={handleCreateNew} className="flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          New Company
+        </Button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingOrganization ? 'Edit Company' : 'New Company'}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.name ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.name && <p className="text-red-500 text-sm mt-1">{errors.name}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email domains</label>
+              <input
+                type="text"
+                value={formData.email_domains}
+                onChange={(e) => handleInputChange('email_domains', e.target.value)}
+                placeholder="example.com"
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.email_domains ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.email_domains && <p className="text-red-500 text-sm mt-1">{errors.email_domains}</p>}
+              <p className="text-xs text-gray-500 mt-1">Employees with these addresses join on their own</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Seats</label>
+              <input
+                type="number"
+                min={1}
+                value={formData.seat_limit}
+                onChange={(e) => handleInputChange('seat_limit', e.target.value)}
+                placeholder="No limit"
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.seat_limit ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.seat_limit && <p className="text-red-500 text-sm mt-1">{errors.seat_limit}</p>}
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.is_active}
+              onChange={(e) => handleInputChange('is_active', e.target.checked)}
+              className="mr-2"
+            />
+            Active (employees can join and book)
+          </label>
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={saving}>
+              {editingOrganization ? 'Update Company' : 'Create Company'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Company</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Seats</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sessions left</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Company admin</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {organizations.map((organization) => (
+                <tr key={organization.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900 flex items-center">
+                      <Building2 className="w-4 h-4 mr-1 text-gray-400" />
+                      {organization.name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {organization.email_domains.map(domain => `@${domain}`).join(', ')}
+                      {!organization.is_active && ' · Inactive'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {getSeatsUsed(organization)}{organization.seat_limit ? ` / ${organization.seat_limit}` : ''}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getSessionsLeft(organization)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {getAdmins(organization).join(', ') || <span className="text-gray-500">None yet</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-3">
+                      <button onClick={() => handleEdit(organization)} className="text-indigo-600 hover:text-indigo-900">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleAddSessions(organization)}
+                        disabled={actionLoading === organization.id}
+                        className="text-green-600 hover:text-green-900"
+                      >
+                        Add sessions
+                      </button>
+                      <button
+                        onClick={() => handleInviteAdmin(organization)}
+                        disabled={actionLoading === organization.id}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        Invite admin
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {organizations.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No corporate accounts yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,339 @@
+import { useState, useEffect } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { Product, ProductKind } from '../../types/credits'
+import { formatPrice } from '../../utils/payments'
+
+const emptyForm = {
+  name: '',
+  description: '',
+  kind: 'pack' as ProductKind,
+  service: 'group',
+  credits: 10,
+  duration_days: 90,
+  price_cents: 0,
+  currency: 'USD'
+}
+
+export function ProductManagement() {
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [errors, setErrors] = useState<any>({})
+  const [formData, setFormData] = useState(emptyForm)
+
+  const services = [
+    { value: 'group', label: 'Group Classes' },
+    { value: '1on1', label: '1-on-1 Coaching' },
+    { value: 'corporate', label: 'Corporate Programs' }
+  ]
+
+  useEffect(() => {
+    fetchProducts()
+  }, [])
+
+  const fetchProducts = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('products')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      setProducts(data || [])
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleCreateNew = () => {
+    setEditingProduct(null)
+    setFormData(emptyForm)
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleEdit = (product: Product) => {
+    setEditingProduct(product)
+    setFormData({
+      name: product.name,
+      description: product.description,
+      kind: product.kind,
+      service: product.service,
+      credits: product.credits ?? 10,
+      duration_days: product.duration_days,
+      price_cents: product.price_cents,
+      currency: product.currency
+    })
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const newErrors: any = {}
+    if (!formData.name.trim()) newErrors.name = 'Name is required'
+    if (formData.kind === 'pack' && formData.credits < 1) newErrors.credits = 'A pack needs at least one credit'
+    if (formData.duration_days < 1) newErrors.duration_days = 'Must be at least one day'
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+
+    const productData = {
+      ...formData,
+      credits: formData.kind === 'pack' ? formData.credits : null
+    }
+
+    try {
+      setSaving(true)
+
+      if (editingProduct) {
+        const { error } = await supabase
+          .from('products')
+          .update(productData)
+          .eq('id', editingProduct.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('products')
+          .insert([productData])
+
+        if (error) throw error
+      }
+
+      await fetchProducts()
+      setShowForm(false)
+      setEditingProduct(null)
+    } catch (error: any) {
+      console.error('Error saving product:', error)
+      setErrors({ general: error.message || 'Failed to save product' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (product: Product) => {
+    try {
+      setActionLoading(product.id)
+      const { error } = await supabase
+        .from('products')
+        .update({ is_active: !product.is_active })
+        .eq('id', product.id)
+
+      if (error) throw error
+      await fetchProducts()
+    } catch (error) {
+      console.error('Error updating product:', error)
+      alert('Failed to update product')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const describeProduct = (product: Product) => {
+    const service = services.find(s => s.value === product.service)?.label || product.service
+    return product.kind === 'pack'
+      ? `${product.credits} ${service.toLowerCase()}, valid ${product.duration_days} days`
+      : `Unlimited ${service.toLowerCase()} for ${product.duration_days} days`
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Class Packs & Memberships</h2>
+          <p className="text-gray-600">Students buy these from their profile. Bookings use a membership first, then credits.</p>
+        </div>
+        <Button onClick={handleCreateNew} className="flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          New Product
+        </Button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingProduct ? 'Edit Product' : 'New Product'}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.name ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.name && <p className="text-red-500 text-sm mt-1">{errors.name}</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={formData.kind}
+                  onChange={(e) => handleInputChange('kind', e.target.value)}
+                  disabled={!!editingProduct}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="pack">Class pack</option>
+                  <option value="membership">Membership</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Service</label>
+                <select
+                  value={formData.service}
+                  onChange={(e) => handleInputChange('service', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {services.map(service => (
+                    <option key={service.value} value={service.value}>{service.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {formData.kind === 'pack' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Credits</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.credits}
+                  onChange={(e) => handleInputChange('credits', parseInt(e.target.value) || 0)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.credits ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.credits && <p className="text-red-500 text-sm mt-1">{errors.credits}</p>}
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {formData.kind === 'pack' ? 'Valid for (days)' : 'Runs for (days)'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={formData.duration_days}
+                onChange={(e) => handleInputChange('duration_days', parseInt(e.target.value) || 0)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.duration_days ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.duration_days && <p className="text-red-500 text-sm mt-1">{errors.duration_days}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Price ({formData.currency})</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.price_cents / 100}
+                onChange={(e) => handleInputChange('price_cents', Math.round((parseFloat(e.target.value) || 0) * 100))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              rows={2}
+              value={formData.description}
+              onChange={(e) => handleInputChange('description', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={saving}>
+              {editingProduct ? 'Update Product' : 'Create Product'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Includes</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {products.map((product) => (
+                <tr key={product.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                    {!product.is_active && <div className="text-xs text-gray-500">Not on sale</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{describeProduct(product)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatPrice(product.price_cents, product.currency)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-3">
+                      <button onClick={() => handleEdit(product)} className="text-indigo-600 hover:text-indigo-900">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(product)}
+                        disabled={actionLoading === product.id}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        {product.is_active ? 'Stop selling' : 'Start selling'}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,467 @@
+import { useState, useEffect } from 'react'
+import { Plus, X, Tag } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { DiscountType, PromoCode } from '../../types/promo'
+import { formatPrice } from '../../utils/payments'
+import { getLocalDateKey } from '../../utils/timezone'
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discount_type: 'percent' as DiscountType,
+  discount_value: 10,
+  services: [] as string[],
+  first_time_only: false,
+  max_redemptions: '',
+  max_per_customer: '1',
+  starts_on: '',
+  ends_on: ''
+}
+
+export function PromoCodeManagement() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingCode, setEditingCode] = useState<PromoCode | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [errors, setErrors] = useState<any>({})
+  const [formData, setFormData] = useState(emptyForm)
+
+  const services = [
+    { value: '1on1', label: '1-on-1 Coaching' },
+    { value: 'group', label: 'Group Classes' },
+    { value: 'corporate', label: 'Corporate Programs' }
+  ]
+
+  useEffect(() => {
+    fetchPromoCodes()
+  }, [])
+
+  const fetchPromoCodes = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('promo_codes')
+        .select('*, promo_redemptions(*)')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setPromoCodes(data || [])
+    } catch (error) {
+      console.error('Error fetching promo codes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleServiceToggle = (service: string) => {
+    setFormData(prev => ({
+      ...prev,
+      services: prev.services.includes(service)
+        ? prev.services.filter(s => s !== service)
+        : [...prev.services, service]
+    }))
+  }
+
+  const handleCreateNew = () => {
+    setEditingCode(null)
+    setFormData(emptyForm)
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleEdit = (promo: PromoCode) => {
+    setEditingCode(promo)
+    setFormData({
+      code: promo.code,
+      description: promo.description,
+      discount_type: promo.discount_type,
+      discount_value: promo.discount_type === 'fixed' ? promo.discount_value / 100 : promo.discount_value,
+      services: promo.services || [],
+      first_time_only: promo.first_time_only,
+      max_redemptions: promo.max_redemptions?.toString() || '',
+      max_per_customer: promo.max_per_customer?.toString() || '',
+      starts_on: promo.starts_at ? getLocalDateKey(new Date(promo.starts_at)) : '',
+      // Stored as the start of the day after the last valid day
+      ends_on: promo.ends_at ? getLocalDateKey(new Date(new Date(promo.ends_at).getTime() - 1)) : ''
+    })
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const code = formData.code.trim().toUpperCase()
+    const newErrors: any = {}
+    if (!/^[A-Z0-9_-]+$/.test(code)) newErrors.code = 'Use letters, numbers, - and _ only'
+    if (formData.discount_value <= 0) newErrors.discount_value = 'Discount must be more than zero'
+    if (formData.discount_type === 'percent' && formData.discount_value > 100) newErrors.discount_value = 'At most 100%'
+    if (formData.starts_on && formData.ends_on && formData.ends_on < formData.starts_on) newErrors.ends_on = 'Ends before it starts'
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+
+    let endsAt: string | null = null
+    if (formData.ends_on) {
+      const end = new Date(`${formData.ends_on}T00:00:00`)
+      end.setDate(end.getDate() + 1)
+      endsAt = end.toISOString()
+    }
+
+    const promoData = {
+      code,
+      description: formData.description,
+      discount_type: formData.discount_type,
+      discount_value: formData.discount_type === 'fixed'
+        ? Math.round(formData.discount_value * 100)
+        : Math.round(formData.discount_value),
+      services: formData.services.length > 0 ? formData.services : null,
+      first_time_only: formData.first_time_only,
+      max_redemptions: formData.max_redemptions ? parseInt(formData.max_redemptions) : null,
+      max_per_customer: formData.max_per_customer ? parseInt(formData.max_per_customer) : null,
+      starts_at: formData.starts_on ? new Date(`${formData.starts_on}T00:00:00`).toISOString() : null,
+      ends_at: endsAt
+    }
+
+    try {
+      setSaving(true)
+
+      if (editingCode) {
+        const { error } = await supabase
+          .from('promo_codes')
+          .update(promoData)
+          .eq('id', editingCode.id)
+
+        if (error) throw error
+      } else {
+        const { data: { user } } = await supabase.auth.getUser()
+        const { error } = await supabase
+          .from('promo_codes')
+          .insert([{ ...promoData, created_by: user?.id }])
+
+        if (error) throw error
+      }
+
+      await fetchPromoCodes()
+      setShowForm(false)
+      setEditingCode(null)
+    } catch (error: any) {
+      console.error('Error saving promo code:', error)
+      setErrors({
+        general: error.code === '23505' ? 'A promo code with this name already exists' : error.message || 'Failed to save promo code'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    try {
+      setActionLoading(promo.id)
+      const { error } = await supabase
+        .from('promo_codes')
+        .update({ is_active: !promo.is_active })
+        .eq('id', promo.id)
+
+      if (error) throw error
+      await fetchPromoCodes()
+    } catch (error) {
+      console.error('Error updating promo code:', error)
+      alert('Failed to update promo code')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const formatDiscount = (promo: PromoCode) => {
+    return promo.discount_type === 'percent'
+      ? `${promo.discount_value}% off`
+      : `${formatPrice(promo.discount_value, promo.currency)} off`
+  }
+
+  const getRestrictions = (promo: PromoCode) => {
+    const restrictions = [
+      promo.services ? promo.services.map(s => services.find(option => option.value === s)?.label || s).join(', ') : 'All services'
+    ]
+    if (promo.first_time_only) restrictions.push('First class only')
+    if (promo.max_per_customer) restrictions.push(`${promo.max_per_customer} per customer`)
+    return restrictions.join(' · ')
+  }
+
+  const getValidity = (promo: PromoCode) => {
+    if (!promo.starts_at && !promo.ends_at) return 'No end date'
+    const from = promo.starts_at ? new Date(promo.starts_at).toLocaleDateString() : 'now'
+    const until = promo.ends_at ? new Date(new Date(promo.ends_at).getTime() - 1).toLocaleDateString() : 'no end date'
+    return `${from} – ${until}`
+  }
+
+  const isExpired = (promo: PromoCode) => !!promo.ends_at && new Date(promo.ends_at) <= new Date()
+
+  const totalRedemptions = promoCodes.reduce((sum, promo) => sum + (promo.promo_redemptions?.length || 0), 0)
+  const totalDiscount = promoCodes.reduce((sum, promo) =>
+    sum + (promo.promo_redemptions || []).reduce((codeSum, redemption) => codeSum + redemption.discount_cents, 0), 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Promo Codes</h2>
+          <p className="text-gray-600">Students enter codes when booking. Unpaid bookings that are released give their code back.</p>
+        </div>
+        <Button onClick={handleCreateNew} className="flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          New Code
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <p className="text-sm text-gray-600">Active codes</p>
+          <p className="text-3xl font-bold text-gray-900">{promoCodes.filter(p => p.is_active && !isExpired(p)).length}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <p className="text-sm text-gray-600">Redemptions</p>
+          <p className="text-3xl font-bold text-gray-900">{totalRedemptions}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <p className="text-sm text-gray-600">Discount given</p>
+          <p className="text-3xl font-bold text-gray-900">{formatPrice(totalDiscount, 'USD')}</p>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingCode ? 'Edit Promo Code' : 'New Promo Code'}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => handleInputChange('code', e.target.value.toUpperCase())}
+                placeholder="FIRSTFREE"
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.code ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.code && <p className="text-red-500 text-sm mt-1">{errors.code}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount</label>
+              <select
+                value={formData.discount_type}
+                onChange={(e) => handleInputChange('discount_type', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="percent">Percentage</option>
+                <option value="fixed">Fixed amount (USD)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {formData.discount_type === 'percent' ? 'Percent off' : 'Amount off'}
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={formData.discount_type === 'percent' ? '1' : '0.01'}
+                value={formData.discount_value}
+                onChange={(e) => handleInputChange('discount_value', parseFloat(e.target.value) || 0)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.discount_value ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.discount_value && <p className="text-red-500 text-sm mt-1">{errors.discount_value}</p>}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => handleInputChange('description', e.target.value)}
+              placeholder="Intro offer, partner referral..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Services (none selected: all)</label>
+            <div className="flex flex-wrap gap-4">
+              {services.map(service => (
+                <label key={service.value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.services.includes(service.value)}
+                    onChange={() => handleServiceToggle(service.value)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                  />
+                  {service.label}
+                </label>
+              ))}
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.first_time_only}
+                  onChange={(e) => handleInputChange('first_time_only', e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                First-time customers only
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Total uses</label>
+              <input
+                type="number"
+                min={1}
+                value={formData.max_redemptions}
+                onChange={(e) => handleInputChange('max_redemptions', e.target.value)}
+                placeholder="Unlimited"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Uses per customer</label>
+              <input
+                type="number"
+                min={1}
+                value={formData.max_per_customer}
+                onChange={(e) => handleInputChange('max_per_customer', e.target.value)}
+                placeholder="Unlimited"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valid from</label>
+              <input
+                type="date"
+                value={formData.starts_on}
+                onChange={(e) => handleInputChange('starts_on', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valid until</label>
+              <input
+                type="date"
+                value={formData.ends_on}
+                onChange={(e) => handleInputChange('ends_on', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.ends_on ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.ends_on && <p className="text-red-500 text-sm mt-1">{errors.ends_on}</p>}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={saving}>
+              {editingCode ? 'Update Code' : 'Create Code'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies to</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redeemed</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {promoCodes.map((promo) => {
+                const redemptions = promo.promo_redemptions || []
+                const discountGiven = redemptions.reduce((sum, redemption) => sum + redemption.discount_cents, 0)
+
+                return (
+                  <tr key={promo.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        <Tag className="w-4 h-4 mr-2 text-gray-400" />
+                        {promo.code}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatDiscount(promo)}
+                        {promo.description && ` · ${promo.description}`}
+                      </div>
+                      {(!promo.is_active || isExpired(promo)) && (
+                        <div className="text-xs text-gray-500">{promo.is_active ? 'Expired' : 'Disabled'}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{getRestrictions(promo)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getValidity(promo)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {redemptions.length}{promo.max_redemptions ? ` / ${promo.max_redemptions}` : ''}
+                      </div>
+                      {discountGiven > 0 && (
+                        <div className="text-xs text-gray-500">{formatPrice(discountGiven, 'USD')} discounted</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-3">
+                        <button onClick={() => handleEdit(promo)} className="text-indigo-600 hover:text-indigo-900">
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(promo)}
+                          disabled={actionLoading === promo.id}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {promo.is_active ? 'Disable' : 'Enable'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          {promoCodes.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No promo codes yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
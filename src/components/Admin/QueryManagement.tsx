@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react'
+import { Filter, MessageCircle, Search } from 'lucide-react'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { QueryConversation } from '../Queries/QueryConversation'
+import { ReplyTemplatePicker } from './ReplyTemplatePicker'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import { YogaQuery } from '../../types/query'
+
+export function QueryManagement() {
+  const { user } = useAuth()
+  const [queries, setQueries] = useState<YogaQuery[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState('pending')
+  const [expandedQuery, setExpandedQuery] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchQueries()
+  }, [])
+
+  // Refreshing after a reply keeps the list on screen so the open thread stays put
+  const fetchQueries = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setLoading(true)
+      const { data, error } = await supabase
+        .from('yoga_queries')
+        .select('*, yoga_query_messages(*)')
+        .order('last_message_at', { ascending: false })
+
+      if (error) throw error
+      setQueries((data || []).map(query => ({
+        ...query,
+        yoga_query_messages: [...(query.yoga_query_messages || [])].sort(
+          (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        )
+      })))
+    } catch (error) {
+      console.error('Error fetching queries:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReply = async (query: YogaQuery, body: string) => {
+    if (!user) throw new Error('Please sign in again to reply')
+
+    const { error } = await supabase
+      .from('yoga_query_messages')
+      .insert([{ query_id: query.id, sender: 'staff', author_id: user.id, body }])
+
+    if (error) throw error
+    await fetchQueries(false)
+  }
+
+  const filteredQueries = queries.filter(query => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = query.subject.toLowerCase().includes(term) ||
+      query.name.toLowerCase().includes(term) ||
+      query.email.toLowerCase().includes(term)
+    const matchesStatus = statusFilter === 'all' || query.status === statusFilter
+    return matchesSearch && matchesStatus
+  })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Yoga Queries</h2>
+        <p className="text-gray-600">
+          Replies are emailed to the person who asked, with a link to answer back. Their follow-ups show up here as pending.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by subject, name or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="lg:w-48">
+            <div className="relative">
+              <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none bg-white"
+              >
+                <option value="all">All Status</option>
+                <option value="pending">Waiting for us</option>
+                <option value="responded">Answered</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredQueries.map((query) => (
+            <div key={query.id} className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{query.subject}</h3>
+                  <p className="text-sm text-gray-600">From: {query.name} ({query.email})</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Category: {query.category} · Experience: {query.experience_level} · {new Date(query.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`px-2 py-1 text-xs rounded-full ${
+                    query.status === 'pending' ? 'bg-orange-100 text-orange-800' : 'bg-green-100 text-green-800'
+                  }`}>
+                    {query.status}
+                  </span>
+                  <button
+                    onClick={() => setExpandedQuery(expandedQuery === query.id ? null : query.id)}
+                    className="text-blue-600 hover:text-blue-800 text-sm flex items-center"
+                  >
+                    <MessageCircle className="w-4 h-4 mr-1" />
+                    {expandedQuery === query.id ? 'Hide' : query.status === 'pending' ? 'Reply' : 'View'}
+                    {(query.yoga_query_messages?.length || 0) > 0 && ` (${query.yoga_query_messages?.length})`}
+                  </button>
+                </div>
+              </div>
+
+              {expandedQuery === query.id ? (
+                <div className="mt-4">
+                  <QueryConversation
+                    askerName={query.name}
+                    question={query.message}
+                    askedAt={query.created_at}
+                    messages={query.yoga_query_messages || []}
+                    viewer="staff"
+                    onReply={(body) => handleReply(query, body)}
+                    replyPlaceholder={`Reply to ${query.name}...`}
+                    renderReplyTools={(insert) => (
+                      <ReplyTemplatePicker recipientName={query.name} category={query.category} onInsert={insert} />
+                    )}
+                  />
+                </div>
+              ) : (
+                <p className="text-gray-700 mt-3 line-clamp-2">{query.message}</p>
+              )}
+            </div>
+          ))}
+          {filteredQueries.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No yoga queries found.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
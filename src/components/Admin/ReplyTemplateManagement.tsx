@@ -0,0 +1,251 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import { useReplyTemplates } from '../../hooks/useReplyTemplates'
+import { QueryCategory, ReplyTemplate } from '../../types/replyTemplate'
+import { queryCategoryLabels, replyPlaceholders } from '../../utils/replyTemplates'
+
+const emptyForm = {
+  title: '',
+  body: '',
+  category: '' as QueryCategory | ''
+}
+
+export function ReplyTemplateManagement() {
+  const { user } = useAuth()
+  const { templates, loading, refetch } = useReplyTemplates(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<ReplyTemplate | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [errors, setErrors] = useState<any>({})
+  const [formData, setFormData] = useState(emptyForm)
+
+  const handleInputChange = (field: keyof typeof emptyForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleCreateNew = () => {
+    setEditingTemplate(null)
+    setFormData(emptyForm)
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleEdit = (template: ReplyTemplate) => {
+    setEditingTemplate(template)
+    setFormData({
+      title: template.title,
+      body: template.body,
+      category: template.category || ''
+    })
+    setErrors({})
+    setShowForm(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const newErrors: any = {}
+    if (!formData.title.trim()) newErrors.title = 'Title is required'
+    if (!formData.body.trim()) newErrors.body = 'Template text is required'
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+
+    const values = {
+      title: formData.title.trim(),
+      body: formData.body,
+      category: formData.category || null
+    }
+
+    try {
+      setSaving(true)
+
+      if (editingTemplate) {
+        const { error } = await supabase
+          .from('reply_templates')
+          .update(values)
+          .eq('id', editingTemplate.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('reply_templates')
+          .insert([{ ...values, created_by: user?.id }])
+
+        if (error) throw error
+      }
+
+      await refetch()
+      setShowForm(false)
+      setEditingTemplate(null)
+    } catch (error: any) {
+      console.error('Error saving reply template:', error)
+      setErrors({ general: error.message || 'Failed to save template' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (template: ReplyTemplate) => {
+    try {
+      setActionLoading(template.id)
+      const { error } = await supabase
+        .from('reply_templates')
+        .update({ is_active: !template.is_active })
+        .eq('id', template.id)
+
+      if (error) throw error
+      await refetch()
+    } catch (error) {
+      console.error('Error updating reply template:', error)
+      alert('Failed to update template')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Reply Templates</h2>
+          <p className="text-gray-600">Canned answers for yoga queries and contact messages. Templates with a category are suggested for queries in it.</p>
+        </div>
+        <Button onClick={handleCreateNew} className="flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingTemplate ? 'Edit Template' : 'New Template'}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => handleInputChange('title', e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.title ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors.title && <p className="text-red-500 text-sm mt-1">{errors.title}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Suggest for</label>
+              <select
+                value={formData.category}
+                onChange={(e) => handleInputChange('category', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Any message</option>
+                {(Object.keys(queryCategoryLabels) as QueryCategory[]).map(category => (
+                  <option key={category} value={category}>{queryCategoryLabels[category]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+            <textarea
+              rows={8}
+              maxLength={5000}
+              value={formData.body}
+              onChange={(e) => handleInputChange('body', e.target.value)}
+              className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                errors.body ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {errors.body && <p className="text-red-500 text-sm mt-1">{errors.body}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+              Placeholders: {replyPlaceholders.map(placeholder => `{{${placeholder}}}`).join(', ')}
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" loading={saving}>
+              {editingTemplate ? 'Update Template' : 'Create Template'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Template</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Suggested For</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.map((template) => (
+                <tr key={template.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{template.title}</div>
+                    <div className="text-xs text-gray-500 line-clamp-2 max-w-xl">{template.body}</div>
+                    {!template.is_active && <div className="text-xs text-gray-500">Inactive</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {template.category ? queryCategoryLabels[template.category] : 'Any message'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-3">
+                      <button onClick={() => handleEdit(template)} className="text-indigo-600 hover:text-indigo-900">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(template)}
+                        disabled={actionLoading === template.id}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        {template.is_active ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {templates.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-6 py-8 text-center text-gray-500">No reply templates yet.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { FileText } from 'lucide-react'
+import { useReplyTemplates } from '../../hooks/useReplyTemplates'
+import { ReplyTemplate } from '../../types/replyTemplate'
+import { fillReplyTemplate, getReplyTemplateValues } from '../../utils/replyTemplates'
+
+interface ReplyTemplatePickerProps {
+  recipientName: string
+  // Templates for this yoga query category are suggested first
+  category?: string
+  onInsert: (text: string) => void
+}
+
+export function ReplyTemplatePicker({ recipientName, category, onInsert }: ReplyTemplatePickerProps) {
+  const { templates, loading } = useReplyTemplates()
+  const [inserting, setInserting] = useState(false)
+
+  const handleInsert = async (template: ReplyTemplate) => {
+    try {
+      setInserting(true)
+      const values = await getReplyTemplateValues(recipientName)
+      onInsert(fillReplyTemplate(template.body, values))
+    } catch (error: any) {
+      console.error('Error filling reply template:', error)
+      alert(error.message || 'Failed to insert template')
+    } finally {
+      setInserting(false)
+    }
+  }
+
+  if (loading || templates.length === 0) return null
+
+  const suggested = category ? templates.filter(template => template.category === category) : []
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <FileText className="w-4 h-4 text-gray-400" />
+      {suggested.map(template => (
+        <button
+          key={template.id}
+          type="button"
+          onClick={() => handleInsert(template)}
+          disabled={inserting}
+          className="px-2 py-1 rounded-full bg-emerald-50 text-emerald-700 hover:bg-emerald-100 disabled:opacity-50"
+          title="Suggested for this category"
+        >
+          {template.title}
+        </button>
+      ))}
+      <select
+        value=""
+        onChange={(e) => {
+          const template = templates.find(t => t.id === e.target.value)
+          if (template) handleInsert(template)
+        }}
+        disabled={inserting}
+        className="px-2 py-1 border border-gray-300 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{suggested.length > 0 ? 'Other templates...' : 'Insert a template...'}</option>
+        {templates.filter(template => !suggested.includes(template)).map(template => (
+          <option key={template.id} value={template.id}>{template.title}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react'
+import { FileText, Download, Edit2 } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { useAuth } from '../../contexts/AuthContext'
+import { supabase } from '../../lib/supabase'
+import { BillingAddress, Invoice } from '../../types/invoice'
+import { downloadInvoicePdf } from '../../utils/invoices'
+import { formatPrice } from '../../utils/payments'
+
+const emptyAddress = {
+  full_name: '',
+  company: '',
+  address_line1: '',
+  address_line2: '',
+  city: '',
+  postal_code: '',
+  region: '',
+  country: '',
+  tax_id: ''
+}
+
+const addressFields: { field: keyof typeof emptyAddress; label: string }[] = [
+  { field: 'full_name', label: 'Name' },
+  { field: 'company', label: 'Company' },
+  { field: 'address_line1', label: 'Address' },
+  { field: 'address_line2', label: 'Address line 2' },
+  { field: 'postal_code', label: 'Postal code' },
+  { field: 'city', label: 'City' },
+  { field: 'region', label: 'State / Region' },
+  { field: 'country', label: 'Country' },
+  { field: 'tax_id', label: 'Tax ID' }
+]
+
+export function InvoicesCard() {
+  const { user } = useAuth()
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [address, setAddress] = useState(emptyAddress)
+  const [loading, setLoading] = useState(true)
+  const [editingAddress, setEditingAddress] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [downloading, setDownloading] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (user) fetchBilling()
+  }, [user])
+
+  const fetchBilling = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+
+      const { data: invoiceData, error: invoicesError } = await supabase
+        .from('invoices')
+        .select('*, invoice_lines(*)')
+        .eq('user_id', user.id)
+        .order('issued_at', { ascending: false })
+
+      if (invoicesError) throw invoicesError
+
+      const { data: addressData, error: addressError } = await supabase
+        .from('billing_addresses')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (addressError) throw addressError
+
+      setInvoices(invoiceData || [])
+      if (addressData) {
+        const { user_id, updated_at, ...fields } = addressData as BillingAddress
+        setAddress(fields)
+      }
+    } catch (error) {
+      console.error('Error fetching invoices:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveAddress = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    try {
+      setSaving(true)
+      const { error } = await supabase
+        .from('billing_addresses')
+        .upsert({ user_id: user.id, ...address })
+
+      if (error) throw error
+      setEditingAddress(false)
+    } catch (error) {
+      console.error('Error saving billing address:', error)
+      alert('Failed to save billing address')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      setDownloading(invoice.id)
+      await downloadInvoicePdf(invoice)
+    } catch (error) {
+      console.error('Error creating invoice PDF:', error)
+      alert('Failed to create the invoice PDF')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  const addressSummary = [address.full_name, address.company, address.address_line1, [address.postal_code, address.city].filter(Boolean).join(' '), address.country]
+    .filter(Boolean)
+    .join(', ')
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+        <FileText className="w-5 h-5 mr-2" />
+        Invoices
+      </h2>
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <h3 className="text-sm font-medium text-gray-900">Billing address</h3>
+              {!editingAddress && (
+                <button onClick={() => setEditingAddress(true)} className="text-blue-600 hover:text-blue-900 text-sm flex items-center">
+                  <Edit2 className="w-3 h-3 mr-1" />
+                  Edit
+                </button>
+              )}
+            </div>
+            {editingAddress ? (
+              <form onSubmit={handleSaveAddress} className="space-y-2">
+                {addressFields.map(({ field, label }) => (
+                  <input
+                    key={field}
+                    type="text"
+                    placeholder={label}
+                    value={address[field]}
+                    onChange={(e) => setAddress(prev => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                ))}
+                <p className="text-xs text-gray-500">Used for new invoices. Invoices already issued keep their address.</p>
+                <div className="flex space-x-2">
+                  <Button type="submit" size="sm" loading={saving}>Save</Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setEditingAddress(false)}>Cancel</Button>
+                </div>
+              </form>
+            ) : (
+              <p className="text-sm text-gray-600">{addressSummary || 'Add your address to have it printed on invoices.'}</p>
+            )}
+          </div>
+
+          {invoices.length > 0 ? (
+            <div className="divide-y divide-gray-100">
+              {invoices.map((invoice) => (
+                <div key={invoice.id} className="flex justify-between items-center py-2">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">{invoice.invoice_number}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(invoice.issued_at).toLocaleDateString()} · {formatPrice(invoice.total_cents, invoice.currency)}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDownload(invoice)}
+                    loading={downloading === invoice.id}
+                    className="flex items-center"
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    PDF
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Invoices for your payments will appear here.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react'
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { getCalendarFeedUrl, getCalendarSubscribeUrl } from '../../utils/calendar'
+
+interface CalendarFeedCardProps {
+  description: string
+}
+
+export function CalendarFeedCard({ description }: CalendarFeedCardProps) {
+  const [token, setToken] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [resetting, setResetting] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    fetchToken()
+  }, [])
+
+  const fetchToken = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase.rpc('get_my_calendar_feed_token')
+
+      if (error) throw error
+      setToken(data)
+    } catch (error) {
+      console.error('Error fetching calendar feed:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!token) return
+
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(token))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying feed URL:', error)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!confirm('Calendars subscribed to the current link will stop updating. Create a new link?')) return
+
+    try {
+      setResetting(true)
+      const { data, error } = await supabase.rpc('reset_my_calendar_feed_token')
+
+      if (error) throw error
+      setToken(data)
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error)
+      alert('Failed to reset calendar link')
+    } finally {
+      setResetting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
+        <CalendarPlus className="w-5 h-5 mr-2" />
+        Calendar Feed
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">{description} Keep this link private.</p>
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : token ? (
+        <div className="space-y-3">
+          <input
+            type="text"
+            readOnly
+            value={getCalendarFeedUrl(token)}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs text-gray-700 bg-gray-50"
+          />
+          <div className="flex flex-wrap gap-2">
+            <a href={getCalendarSubscribeUrl(token)}>
+              <Button size="sm" className="flex items-center">
+                <CalendarPlus className="w-3 h-3 mr-1" />
+                Subscribe
+              </Button>
+            </a>
+            <Button size="sm" variant="outline" onClick={handleCopy} className="flex items-center">
+              <Copy className="w-3 h-3 mr-1" />
+              {copied ? 'Copied' : 'Copy Link'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleReset} loading={resetting} className="flex items-center">
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Reset
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">The calendar feed is not available right now.</p>
+      )}
+    </div>
+  )
+}
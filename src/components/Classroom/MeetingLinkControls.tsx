@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { Video, RefreshCw, Link as LinkIcon } from 'lucide-react'
+import { SessionMeeting } from '../../types/booking'
+import { createMeetingLink, setMeetingLink } from '../../utils/classroom'
+
+interface MeetingLinkControlsProps {
+  sessionId: string
+  meeting?: SessionMeeting | null
+  onChange: () => void
+}
+
+// For admins and the session's instructor. Attendees only see the link shortly
+// before class, so replacing it here is enough to shut out anyone it leaked to.
+export function MeetingLinkControls({ sessionId, meeting, onChange }: MeetingLinkControlsProps) {
+  const [loading, setLoading] = useState(false)
+
+  const handleGenerate = async () => {
+    if (meeting && !confirm('Replace the class link? The current link will stop being handed out.')) return
+
+    try {
+      setLoading(true)
+      await createMeetingLink(sessionId)
+      onChange()
+    } catch (error: any) {
+      console.error('Error creating class link:', error)
+      alert(error.message || 'Failed to create the class link')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSetManually = async () => {
+    const url = prompt('Paste the meeting link for this class:', meeting?.provider === 'manual' ? meeting.meeting_url : '')
+    if (!url?.trim()) return
+
+    if (!/^https?:\/\//.test(url.trim())) {
+      alert('The link must start with https://')
+      return
+    }
+
+    try {
+      setLoading(true)
+      await setMeetingLink(sessionId, url.trim())
+      onChange()
+    } catch (error: any) {
+      console.error('Error saving class link:', error)
+      alert(error.message || 'Failed to save the class link')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="text-sm">
+      {meeting ? (
+        <a
+          href={meeting.meeting_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 hover:text-blue-800 flex items-center break-all"
+        >
+          <Video className="w-4 h-4 mr-1 flex-shrink-0" />
+          {meeting.meeting_url}
+        </a>
+      ) : (
+        <p className="text-gray-500 flex items-center">
+          <Video className="w-4 h-4 mr-1" />
+          No class link yet; one is created when the first student joins.
+        </p>
+      )}
+      <div className="flex space-x-3 mt-1">
+        <button
+          onClick={handleGenerate}
+          disabled={loading}
+          className="text-indigo-600 hover:text-indigo-900 flex items-center"
+        >
+          <RefreshCw className="w-3 h-3 mr-1" />
+          {meeting ? 'New link' : 'Create link'}
+        </button>
+        <button
+          onClick={handleSetManually}
+          disabled={loading}
+          className="text-gray-600 hover:text-gray-900 flex items-center"
+        >
+          <LinkIcon className="w-3 h-3 mr-1" />
+          Set link
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Ticket, ShoppingBag } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { useTimeZone } from '../../hooks/useTimeZone'
+import { CreditLedgerEntry, CreditLot, Membership, Product } from '../../types/credits'
+import { formatPrice, startProductCheckout } from '../../utils/payments'
+import { formatDateInZone } from '../../utils/timezone'
+
+// The webhook usually lands within seconds of the redirect back
+const PURCHASE_REFRESH_MS = 3000
+
+interface CreditsCardProps {
+  lots: CreditLot[]
+  history: CreditLedgerEntry[]
+  memberships: Membership[]
+  products: Product[]
+  balance: number
+  loading: boolean
+  onRefresh: () => void
+}
+
+export function CreditsCard({ lots, history, memberships, products, balance, loading, onRefresh }: CreditsCardProps) {
+  const [searchParams] = useSearchParams()
+  const purchaseResult = searchParams.get('purchase')
+  const timeZone = useTimeZone()
+  const [buying, setBuying] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (purchaseResult !== 'success') return
+
+    const timer = setTimeout(onRefresh, PURCHASE_REFRESH_MS)
+    return () => clearTimeout(timer)
+  }, [purchaseResult])
+
+  const handleBuy = async (product: Product) => {
+    try {
+      setBuying(product.id)
+      await startProductCheckout(product.id)
+    } catch (error: any) {
+      console.error('Error starting checkout:', error)
+      alert(error.message || 'Failed to start checkout')
+      setBuying(null)
+    }
+  }
+
+  const formatDate = (value: string) => formatDateInZone(value, timeZone, { month: 'short' })
+
+  const describeEntry = (entry: CreditLedgerEntry) => {
+    switch (entry.entry_type) {
+      case 'purchase': return entry.note || 'Class pack'
+      case 'redeem': return 'Booked a class'
+      case 'refund': return 'Returned for a cancelled class'
+      case 'expiry': return 'Credits expired'
+      default: return entry.note || 'Adjustment'
+    }
+  }
+
+  const activeMembership = memberships.find(membership => new Date(membership.starts_at) <= new Date())
+  const lastMembershipEnd = memberships.length > 0 ? memberships[memberships.length - 1].ends_at : null
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+        <Ticket className="w-5 h-5 mr-2" />
+        Class Packs & Membership
+      </h2>
+
+      {purchaseResult === 'success' && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4">
+          <p className="text-green-800 text-sm">Thank you! Your purchase shows up here as soon as the payment is confirmed.</p>
+        </div>
+      )}
+      {purchaseResult === 'cancelled' && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
+          <p className="text-yellow-800 text-sm">The payment was not completed, nothing was charged.</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-3xl font-bold text-gray-900">{balance}</p>
+              <p className="text-sm text-gray-600">Class credits</p>
+              {lots.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {lots[0].remaining} expire on {formatDate(lots[0].expires_at)}
+                </p>
+              )}
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              {activeMembership && lastMembershipEnd ? (
+                <>
+                  <p className="text-lg font-semibold text-green-700">Unlimited</p>
+                  <p className="text-sm text-gray-600">Group classes until {formatDate(lastMembershipEnd)}</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-lg font-semibold text-gray-900">No membership</p>
+                  <p className="text-sm text-gray-600">Group classes are paid per session</p>
+                </>
+              )}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Group classes you book use your membership first, then your credits. Cancel in time and the credit is returned.
+          </p>
+
+          {products.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-3">Buy</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {products.map((product) => (
+                  <div key={product.id} className="border border-gray-200 rounded-lg p-4 flex flex-col">
+                    <p className="font-semibold text-gray-900">{product.name}</p>
+                    <p className="text-sm text-gray-600 flex-1">{product.description}</p>
+                    <div className="flex items-center justify-between mt-3">
+                      <span className="font-semibold text-gray-900">{formatPrice(product.price_cents, product.currency)}</span>
+                      <Button
+                        size="sm"
+                        onClick={() => handleBuy(product)}
+                        loading={buying === product.id}
+                        disabled={buying !== null}
+                        className="flex items-center"
+                      >
+                        <ShoppingBag className="w-3 h-3 mr-1" />
+                        {product.kind === 'membership' && activeMembership ? 'Extend' : 'Buy'}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {history.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-3">Credit History</h3>
+              <div className="divide-y divide-gray-100">
+                {history.map((entry) => (
+                  <div key={entry.id} className="flex justify-between py-2 text-sm">
+                    <div>
+                      <p className="text-gray-900">{describeEntry(entry)}</p>
+                      <p className="text-xs text-gray-500">{formatDate(entry.created_at)}</p>
+                    </div>
+                    <span className={`font-medium ${entry.credits > 0 ? 'text-green-600' : 'text-gray-600'}`}>
+                      {entry.credits > 0 ? `+${entry.credits}` : entry.credits}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, Save } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { supabase } from '../../lib/supabase'
+import { Instructor, InstructorAvailability, InstructorBlackout } from '../../types/instructor'
+
+interface AvailabilityEditorProps {
+  instructor: Instructor
+  onSaved?: () => void
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 7, label: 'Sunday' }
+]
+
+export function AvailabilityEditor({ instructor, onSaved }: AvailabilityEditorProps) {
+  const [windows, setWindows] = useState<InstructorAvailability[]>([])
+  const [blackouts, setBlackouts] = useState<InstructorBlackout[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [settings, setSettings] = useState({
+    private_session_minutes: instructor.private_session_minutes,
+    buffer_minutes: instructor.buffer_minutes
+  })
+  const [newWindow, setNewWindow] = useState({ weekday: 1, start_time: '09:00', end_time: '12:00' })
+  const [newBlackout, setNewBlackout] = useState({ starts_on: '', ends_on: '', reason: '' })
+
+  useEffect(() => {
+    fetchAvailability()
+  }, [instructor.id])
+
+  const fetchAvailability = async () => {
+    try {
+      setLoading(true)
+
+      const [windowsResult, blackoutsResult] = await Promise.all([
+        supabase
+          .from('instructor_availability')
+          .select('*')
+          .eq('instructor_id', instructor.id)
+          .order('weekday', { ascending: true })
+          .order('start_time', { ascending: true }),
+        supabase
+          .from('instructor_blackouts')
+          .select('*')
+          .eq('instructor_id', instructor.id)
+          .gte('ends_on', new Date().toISOString().split('T')[0])
+          .order('starts_on', { ascending: true })
+      ])
+
+      if (windowsResult.error) throw windowsResult.error
+      if (blackoutsResult.error) throw blackoutsResult.error
+
+      setWindows(windowsResult.data || [])
+      setBlackouts(blackoutsResult.data || [])
+    } catch (error) {
+      console.error('Error fetching availability:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    try {
+      setActionLoading('settings')
+      const { error } = await supabase
+        .from('instructors')
+        .update(settings)
+        .eq('id', instructor.id)
+
+      if (error) throw error
+      onSaved?.()
+    } catch (error) {
+      console.error('Error saving session settings:', error)
+      alert('Failed to save session settings')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleAddWindow = async () => {
+    if (newWindow.end_time <= newWindow.start_time) {
+      alert('End time must be after start time')
+      return
+    }
+
+    try {
+      setActionLoading('window')
+      const { error } = await supabase
+        .from('instructor_availability')
+        .insert([{ ...newWindow, instructor_id: instructor.id }])
+
+      if (error) throw error
+      await fetchAvailability()
+    } catch (error) {
+      console.error('Error adding availability:', error)
+      alert('Failed to add availability')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleAddBlackout = async () => {
+    if (!newBlackout.starts_on) {
+      alert('Please choose a start date')
+      return
+    }
+
+    const blackout = {
+      ...newBlackout,
+      ends_on: newBlackout.ends_on || newBlackout.starts_on,
+      instructor_id: instructor.id
+    }
+    if (blackout.ends_on < blackout.starts_on) {
+      alert('End date must not be before start date')
+      return
+    }
+
+    try {
+      setActionLoading('blackout')
+      const { error } = await supabase
+        .from('instructor_blackouts')
+        .insert([blackout])
+
+      if (error) throw error
+      setNewBlackout({ starts_on: '', ends_on: '', reason: '' })
+      await fetchAvailability()
+    } catch (error) {
+      console.error('Error adding blackout:', error)
+      alert('Failed to add blackout dates')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleDelete = async (table: 'instructor_availability' | 'instructor_blackouts', id: string) => {
+    try {
+      setActionLoading(id)
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      await fetchAvailability()
+    } catch (error) {
+      console.error('Error deleting availability:', error)
+      alert('Failed to delete')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const formatTime = (time: string) => time.slice(0, 5)
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="md" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Times are in {instructor.timezone}. Students can book 1-on-1 sessions in these windows,
+        except around classes you already teach.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Session length (minutes)</label>
+          <input
+            type="number"
+            min={15}
+            step={5}
+            value={settings.private_session_minutes}
+            onChange={(e) => setSettings(prev => ({ ...prev, private_session_minutes: parseInt(e.target.value) || 60 }))}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Buffer between sessions (minutes)</label>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={settings.buffer_minutes}
+            onChange={(e) => setSettings(prev => ({ ...prev, buffer_minutes: parseInt(e.target.value) || 0 }))}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <Button size="sm" onClick={handleSaveSettings} loading={actionLoading === 'settings'} className="flex items-center">
+          <Save className="w-4 h-4 mr-1" />
+          Save
+        </Button>
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-gray-900 mb-3">Weekly Availability</h4>
+        {windows.length > 0 ? (
+          <div className="space-y-2 mb-4">
+            {windows.map(window => (
+              <div key={window.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="text-gray-900">
+                  {WEEKDAYS.find(day => day.value === window.weekday)?.label} · {formatTime(window.start_time)} - {formatTime(window.end_time)}
+                </span>
+                <button
+                  onClick={() => handleDelete('instructor_availability', window.id)}
+                  disabled={actionLoading === window.id}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-4">No availability yet. Students can't book 1-on-1 sessions with you.</p>
+        )}
+        <div className="flex flex-wrap items-end gap-3">
+          <select
+            value={newWindow.weekday}
+            onChange={(e) => setNewWindow(prev => ({ ...prev, weekday: parseInt(e.target.value) }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {WEEKDAYS.map(day => (
+              <option key={day.value} value={day.value}>{day.label}</option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={newWindow.start_time}
+            onChange={(e) => setNewWindow(prev => ({ ...prev, start_time: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="time"
+            value={newWindow.end_time}
+            onChange={(e) => setNewWindow(prev => ({ ...prev, end_time: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Button size="sm" variant="outline" onClick={handleAddWindow} loading={actionLoading === 'window'} className="flex items-center">
+            <Plus className="w-4 h-4 mr-1" />
+            Add Window
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-gray-900 mb-3">Blackout Dates</h4>
+        {blackouts.length > 0 ? (
+          <div className="space-y-2 mb-4">
+            {blackouts.map(blackout => (
+              <div key={blackout.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="text-gray-900">
+                  {blackout.starts_on === blackout.ends_on ? blackout.starts_on : `${blackout.starts_on} to ${blackout.ends_on}`}
+                  {blackout.reason && <span className="text-gray-500"> · {blackout.reason}</span>}
+                </span>
+                <button
+                  onClick={() => handleDelete('instructor_blackouts', blackout.id)}
+                  disabled={actionLoading === blackout.id}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 mb-4">No upcoming blackout dates.</p>
+        )}
+        <div className="flex flex-wrap items-end gap-3">
+          <input
+            type="date"
+            value={newBlackout.starts_on}
+            onChange={(e) => setNewBlackout(prev => ({ ...prev, starts_on: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="date"
+            value={newBlackout.ends_on}
+            min={newBlackout.starts_on}
+            onChange={(e) => setNewBlackout(prev => ({ ...prev, ends_on: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            placeholder="Reason (optional)"
+            value={newBlackout.reason}
+            onChange={(e) => setNewBlackout(prev => ({ ...prev, reason: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Button size="sm" variant="outline" onClick={handleAddBlackout} loading={actionLoading === 'blackout'} className="flex items-center">
+            <Plus className="w-4 h-4 mr-1" />
+            Add Blackout
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
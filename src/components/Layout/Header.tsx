@@ -1,8 +1,10 @@
 import { useState, useRef, useEffect } from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { Menu, X, User, LogOut, ChevronDown, ChevronUp, LayoutDashboard, UserCircle } from 'lucide-react'
+import { Menu, X, User, LogOut, ChevronDown, ChevronUp, LayoutDashboard, UserCircle, ClipboardList, Building2 } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
 import { useAdmin } from '../../contexts/AdminContext'
+import { useRoles } from '../../contexts/RoleContext'
+import { useMyOrganization } from '../../hooks/useMyOrganization'
 import { Button } from '../UI/Button'
 
 export function Header() {
@@ -10,6 +12,8 @@ export function Header() {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false)
   const { user, signOut } = useAuth()
   const { isAdmin } = useAdmin()
+  const { hasRole } = useRoles()
+  const { isCompanyAdmin } = useMyOrganization()
   const location = useLocation()
   const dropdownRef = useRef<HTMLDivElement>(null)
 
@@ -116,6 +120,28 @@ export function Header() {
                       <UserCircle size={16} className="mr-2" />
                       Profile
                     </Link>
+
+                    {hasRole('yoga_acharya') && (
+                      <Link
+                        to="/instructor"
+                        onClick={() => setIsDropdownOpen(false)}
+                        className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
+                        <ClipboardList size={16} className="mr-2" />
+                        Instructor Dashboard
+                      </Link>
+                    )}
+
+                    {isCompanyAdmin && (
+                      <Link
+                        to="/company"
+                        onClick={() => setIsDropdownOpen(false)}
+                        className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                      >
+                        <Building2 size={16} className="mr-2" />
+                        Company Dashboard
+                      </Link>
+                    )}
                     
                     {isAdmin && (
                       <Link
@@ -193,6 +219,28 @@ export function Header() {
                       <UserCircle size={16} />
                       <span>Profile</span>
                     </Link>
+
+                    {hasRole('yoga_acharya') && (
+                      <Link
+                        to="/instructor"
+                        onClick={() => setIsMenuOpen(false)}
+                        className="flex items-center space-x-2 text-gray-700 hover:text-blue-600 transition-colors py-2"
+                      >
+                        <ClipboardList size={16} />
+                        <span>Instructor Dashboard</span>
+                      </Link>
+                    )}
+
+                    {isCompanyAdmin && (
+                      <Link
+                        to="/company"
+                        onClick={() => setIsMenuOpen(false)}
+                        className="flex items-center space-x-2 text-gray-700 hover:text-blue-600 transition-colors py-2"
+                      >
+                        <Building2 size={16} />
+                        <span>Company Dashboard</span>
+                      </Link>
+                    )}
                     
                     {isAdmin && (
                       <Link
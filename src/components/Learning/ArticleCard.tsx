@@ -1,9 +1,9 @@
 import { Link } from 'react-router-dom'
 import { Star, Eye, Calendar } from 'lucide-react'
-import { ArticleWithStats } from '../../types/article'
+import { ArticleSearchResult } from '../../types/article'
 
 interface ArticleCardProps {
-  article: ArticleWithStats
+  article: ArticleSearchResult
 }
 
 export function ArticleCard({ article }: ArticleCardProps) {
@@ -43,9 +43,18 @@ export function ArticleCard({ article }: ArticleCardProps) {
     return stars
   }
 
+  // The snippet is plain text with <mark> around the search hits
+  const renderSnippet = (snippet: string) => {
+    return snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith('<mark>')
+        ? <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{part.slice(6, -7)}</mark>
+        : part
+    )
+  }
+
   return (
     <article className="card overflow-hidden group">
-      <Link to={`/learning/${article.id}`}>
+      <Link to={`/learning/${article.slug}`}>
         <div className="relative">
           {article.image_url && (
             <img
@@ -71,7 +80,7 @@ export function ArticleCard({ article }: ArticleCardProps) {
           </h3>
           
           <p className="text-gray-600 mb-4 line-clamp-3">
-            {article.preview_text}
+            {article.snippet ? renderSnippet(article.snippet) : article.preview_text}
           </p>
           
           <div className="flex items-center justify-between mb-4">
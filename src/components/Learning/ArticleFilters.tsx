@@ -1,12 +1,13 @@
 import { Search, Filter } from 'lucide-react'
+import { ArticleSort } from '../../types/article'
 
 interface ArticleFiltersProps {
   searchTerm: string
   onSearchChange: (term: string) => void
   selectedCategory: string
   onCategoryChange: (category: string) => void
-  sortBy: 'latest' | 'popular' | 'highest_rated'
-  onSortChange: (sort: 'latest' | 'popular' | 'highest_rated') => void
+  sortBy: ArticleSort
+  onSortChange: (sort: ArticleSort) => void
 }
 
 export function ArticleFilters({
@@ -27,7 +28,9 @@ export function ArticleFilters({
     { value: 'nutrition', label: 'Nutrition' }
   ]
 
+  // Best match only means something while searching
   const sortOptions = [
+    ...(searchTerm.trim() ? [{ value: 'relevance', label: 'Best Match' }] : []),
     { value: 'latest', label: 'Latest' },
     { value: 'popular', label: 'Most Popular' },
     { value: 'highest_rated', label: 'Highest Rated' }
@@ -76,7 +79,7 @@ export function ArticleFilters({
         <div className="lg:w-48">
           <select
             value={sortBy}
-            onChange={(e) => onSortChange(e.target.value as any)}
+            onChange={(e) => onSortChange(e.target.value as ArticleSort)}
             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 appearance-none bg-white"
             id="sort-filter"
             name="sort-filter"
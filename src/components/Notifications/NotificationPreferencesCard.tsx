@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react'
+import { Bell, Moon } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { useAuth } from '../../contexts/AuthContext'
+import { useTimeZone } from '../../hooks/useTimeZone'
+import { supabase } from '../../lib/supabase'
+import { NotificationChannel } from '../../types/notification'
+
+const defaultPreferences = {
+  booking_updates_email: true,
+  booking_updates_sms: false,
+  booking_updates_whatsapp: false,
+  reminders_email: true,
+  reminders_sms: false,
+  reminders_whatsapp: false,
+  remind_day_before: true,
+  remind_hour_before: true,
+  phone: '',
+  quiet_hours_start: null as string | null,
+  quiet_hours_end: null as string | null
+}
+
+type Preferences = typeof defaultPreferences
+type PreferenceKind = 'booking_updates' | 'reminders'
+
+const channels: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'email', label: 'Email' },
+  { channel: 'sms', label: 'SMS' },
+  { channel: 'whatsapp', label: 'WhatsApp' }
+]
+
+const kinds: { kind: PreferenceKind; label: string }[] = [
+  { kind: 'booking_updates', label: 'Booking updates' },
+  { kind: 'reminders', label: 'Class reminders' }
+]
+
+export function NotificationPreferencesCard() {
+  const { user } = useAuth()
+  const timeZone = useTimeZone()
+  const [preferences, setPreferences] = useState(defaultPreferences)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [errors, setErrors] = useState<any>({})
+
+  useEffect(() => {
+    if (user) fetchPreferences()
+  }, [user])
+
+  const fetchPreferences = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (error) throw error
+      if (data) {
+        const { user_id, timezone, created_at, updated_at, ...fields } = data
+        setPreferences({
+          ...fields,
+          quiet_hours_start: fields.quiet_hours_start?.slice(0, 5) || null,
+          quiet_hours_end: fields.quiet_hours_end?.slice(0, 5) || null
+        })
+      } else {
+        setPreferences({ ...defaultPreferences, phone: user.user_metadata?.phone || '' })
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleChange = (field: keyof Preferences, value: any) => {
+    setPreferences(prev => ({ ...prev, [field]: value }))
+    setSaved(false)
+    if (errors[field]) {
+      setErrors((prev: any) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleQuietHoursToggle = (enabled: boolean) => {
+    setPreferences(prev => ({
+      ...prev,
+      quiet_hours_start: enabled ? '21:00' : null,
+      quiet_hours_end: enabled ? '07:00' : null
+    }))
+    setSaved(false)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    const phone = preferences.phone.replace(/[\s()-]/g, '')
+    const usesPhone = preferences.booking_updates_sms || preferences.booking_updates_whatsapp ||
+      preferences.reminders_sms || preferences.reminders_whatsapp
+
+    const newErrors: any = {}
+    if (phone && !/^\+[1-9]\d{6,14}$/.test(phone)) {
+      newErrors.phone = 'Use the international format, e.g. +14155550123'
+    } else if (usesPhone && !phone) {
+      newErrors.phone = 'A phone number is needed for SMS and WhatsApp'
+    }
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+
+    try {
+      setSaving(true)
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: user.id, ...preferences, phone, timezone: timeZone })
+
+      if (error) throw error
+      setPreferences(prev => ({ ...prev, phone }))
+      setSaved(true)
+    } catch (error: any) {
+      console.error('Error saving notification preferences:', error)
+      setErrors({ general: error.message || 'Failed to save notification preferences' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const quietHoursEnabled = preferences.quiet_hours_start !== null
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
+        <Bell className="w-5 h-5 mr-2" />
+        Notifications
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">Choose how we reach you about your bookings and upcoming classes.</p>
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <form onSubmit={handleSave} className="space-y-4">
+          {errors.general && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{errors.general}</p>
+            </div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th />
+                {channels.map(({ channel, label }) => (
+                  <th key={channel} className="text-xs font-medium text-gray-500 pb-2">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {kinds.map(({ kind, label }) => (
+                <tr key={kind}>
+                  <td className="text-gray-700 py-1">{label}</td>
+                  {channels.map(({ channel }) => {
+                    const field = `${kind}_${channel}` as keyof Preferences
+                    return (
+                      <td key={channel} className="text-center">
+                        <input
+                          type="checkbox"
+                          checked={preferences[field] as boolean}
+                          onChange={(e) => handleChange(field, e.target.checked)}
+                        />
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Phone for SMS and WhatsApp</label>
+            <input
+              type="tel"
+              value={preferences.phone}
+              onChange={(e) => handleChange('phone', e.target.value)}
+              placeholder="+14155550123"
+              className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                errors.phone ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {errors.phone && <p className="text-red-500 text-sm mt-1">{errors.phone}</p>}
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-gray-700">Remind me</p>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences.remind_day_before}
+                onChange={(e) => handleChange('remind_day_before', e.target.checked)}
+                className="mr-2"
+              />
+              24 hours before class
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences.remind_hour_before}
+                onChange={(e) => handleChange('remind_hour_before', e.target.checked)}
+                className="mr-2"
+              />
+              1 hour before class
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={quietHoursEnabled}
+                onChange={(e) => handleQuietHoursToggle(e.target.checked)}
+                className="mr-2"
+              />
+              <Moon className="w-4 h-4 mr-1" />
+              Quiet hours
+            </label>
+            {quietHoursEnabled && (
+              <>
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="time"
+                    value={preferences.quiet_hours_start || ''}
+                    onChange={(e) => handleChange('quiet_hours_start', e.target.value || '21:00')}
+                    className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span>to</span>
+                  <input
+                    type="time"
+                    value={preferences.quiet_hours_end || ''}
+                    onChange={(e) => handleChange('quiet_hours_end', e.target.value || '07:00')}
+                    className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Reminders due in this window ({timeZone}) wait until it ends, or are skipped if your class starts first.
+                </p>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-3">
+            {saved && <span className="text-sm text-green-600">Saved</span>}
+            <Button type="submit" size="sm" loading={saving}>
+              Save
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { Send } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { QueryMessageSender, YogaQueryMessage } from '../../types/query'
+
+interface QueryConversationProps {
+  askerName: string
+  question: string
+  askedAt: string
+  messages: YogaQueryMessage[]
+  // Whose side the conversation is shown from
+  viewer: QueryMessageSender
+  onReply?: (body: string) => Promise<void>
+  replyPlaceholder?: string
+  // Extra controls above the reply box; insert adds text to the draft
+  renderReplyTools?: (insert: (text: string) => void) => React.ReactNode
+}
+
+export function QueryConversation({
+  askerName,
+  question,
+  askedAt,
+  messages,
+  viewer,
+  onReply,
+  replyPlaceholder = 'Write a reply...',
+  renderReplyTools
+}: QueryConversationProps) {
+  const [reply, setReply] = useState('')
+  const [sending, setSending] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!onReply || !reply.trim()) return
+
+    try {
+      setSending(true)
+      await onReply(reply.trim())
+      setReply('')
+    } catch (error: any) {
+      console.error('Error sending reply:', error)
+      alert(error.message || 'Failed to send reply')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const insertIntoReply = (text: string) => {
+    setReply(prev => prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text)
+  }
+
+  const getSenderLabel = (sender: QueryMessageSender) => {
+    if (sender === viewer) return 'You'
+    return sender === 'staff' ? 'Yogodyaan team' : askerName
+  }
+
+  const thread = [
+    { id: 'question', sender: 'asker' as QueryMessageSender, body: question, created_at: askedAt },
+    ...messages
+  ]
+
+  return (
+    <div className="space-y-3">
+      {thread.map((message) => (
+        <div
+          key={message.id}
+          className={`p-3 rounded-lg ${message.sender === 'staff' ? 'bg-blue-50 ml-6' : 'bg-gray-50 mr-6'}`}
+        >
+          <div className="flex justify-between text-xs mb-1">
+            <span className={`font-medium ${message.sender === 'staff' ? 'text-blue-900' : 'text-gray-900'}`}>
+              {getSenderLabel(message.sender)}
+            </span>
+            <span className="text-gray-500">{new Date(message.created_at).toLocaleString()}</span>
+          </div>
+          <p className={`text-sm whitespace-pre-line ${message.sender === 'staff' ? 'text-blue-800' : 'text-gray-700'}`}>
+            {message.body}
+          </p>
+        </div>
+      ))}
+
+      {onReply && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          {renderReplyTools?.(insertIntoReply)}
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            rows={3}
+            maxLength={5000}
+            placeholder={replyPlaceholder}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" loading={sending} disabled={!reply.trim()} className="flex items-center">
+              <Send className="w-3 h-3 mr-1" />
+              Send
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
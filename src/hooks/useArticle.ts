@@ -3,7 +3,11 @@ import { supabase } from '../lib/supabase'
 import { Article, Rating } from '../types/article'
 import { getFingerprint } from '../utils/fingerprint'
 
-export function useArticle(id: string) {
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Takes the slug from the URL. Old UUID links and slugs the article was
+// renamed from still find it; article.slug is then the canonical one.
+export function useArticle(slug: string) {
   const [article, setArticle] = useState<Article | null>(null)
   const [ratings, setRatings] = useState<Rating[]>([])
   const [userRating, setUserRating] = useState<number | null>(null)
@@ -16,15 +20,31 @@ export function useArticle(id: string) {
       setError(null)
 
       // Fetch article
-      const { data: articleData, error: articleError } = await supabase
+      const isUuid = UUID_PATTERN.test(slug)
+      const { data, error: articleError } = await supabase
         .from('articles')
         .select('*')
-        .eq('id', id)
+        .eq(isUuid ? 'id' : 'slug', slug)
         .eq('status', 'published')
-        .single()
+        .maybeSingle()
 
       if (articleError) throw articleError
+      let articleData: Article | null = data
+
+      if (!articleData && !isUuid) {
+        const { data: redirect, error: redirectError } = await supabase
+          .from('article_slug_redirects')
+          .select('articles(*)')
+          .eq('old_slug', slug)
+          .maybeSingle()
+
+        if (redirectError) throw redirectError
+        articleData = (redirect?.articles as unknown as Article | null) || null
+      }
+
+      if (!articleData || articleData.status !== 'published') throw new Error('Article not found')
       setArticle(articleData)
+      const id = articleData.id
 
       // Fetch ratings
       const { data: ratingsData, error: ratingsError } = await supabase
@@ -71,7 +91,7 @@ export function useArticle(id: string) {
       const { error } = await supabase
         .from('ratings')
         .upsert([{
-          article_id: id,
+          article_id: article?.id,
           rating: rating,
           fingerprint: fingerprint
         }], {
@@ -89,10 +109,11 @@ export function useArticle(id: string) {
   }
 
   useEffect(() => {
-    if (id) {
+    // Moving to the canonical slug of the article already shown is not a new visit
+    if (slug && slug !== article?.slug) {
       fetchArticle()
     }
-  }, [id])
+  }, [slug])
 
   const averageRating = ratings.length > 0 
     ? ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length 
@@ -1,93 +1,65 @@
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
-import { ArticleWithStats } from '../types/article'
+import { ArticleSearchResult, ArticleSort } from '../types/article'
+
+export const ARTICLES_PAGE_SIZE = 12
+
+export interface ArticleQuery {
+  search?: string
+  category?: string
+  sortBy?: ArticleSort
+  limit?: number
+  // Anything past zero loads the next page onto the articles already shown
+  offset?: number
+}
 
 export function useArticles() {
-  const [articles, setArticles] = useState<ArticleWithStats[]>([])
+  const [articles, setArticles] = useState<ArticleSearchResult[]>([])
+  const [totalCount, setTotalCount] = useState(0)
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchArticles = useCallback(async (filters?: {
-    category?: string
-    sortBy?: 'latest' | 'popular' | 'highest_rated'
-    limit?: number
-  }) => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      console.log('Fetching articles with filters:', filters)
-
-      let query = supabase
-        .from('articles')
-        .select(`
-          *,
-          ratings(rating)
-        `)
-        .eq('status', 'published')
-
-      // Apply category filter
-      if (filters?.category && filters.category !== 'all') {
-        query = query.eq('category', filters.category)
-      }
+  const fetchArticles = useCallback(async (filters?: ArticleQuery) => {
+    const offset = filters?.offset || 0
 
-      // Apply sorting
-      switch (filters?.sortBy) {
-        case 'popular':
-          query = query.order('view_count', { ascending: false })
-          break
-        case 'latest':
-        default:
-          query = query.order('published_at', { ascending: false })
-          break
-      }
-
-      // Apply limit
-      if (filters?.limit) {
-        query = query.limit(filters.limit)
+    try {
+      if (offset > 0) {
+        setLoadingMore(true)
+      } else {
+        setLoading(true)
       }
+      setError(null)
 
-      const { data, error: fetchError } = await query
+      // Searching, filtering, sorting and paging all happen in search_articles
+      const { data, error: fetchError } = await supabase.rpc('search_articles', {
+        p_query: filters?.search?.trim() || '',
+        p_category: filters?.category && filters.category !== 'all' ? filters.category : null,
+        p_sort: filters?.sortBy || 'latest',
+        p_limit: filters?.limit || ARTICLES_PAGE_SIZE,
+        p_offset: offset
+      })
 
       if (fetchError) {
         console.error('Supabase error:', fetchError)
         throw fetchError
       }
 
-      console.log('Raw articles data:', data)
+      const results: ArticleSearchResult[] = (data || []).map((article: any) => ({
+        ...article,
+        average_rating: Number(article.average_rating)
+      }))
 
-      // Calculate ratings for each article
-      const articlesWithStats: ArticleWithStats[] = data?.map(article => {
-        const ratings = article.ratings || []
-        const totalRatings = ratings.length
-        const averageRating = totalRatings > 0 
-          ? ratings.reduce((sum: number, r: any) => sum + r.rating, 0) / totalRatings 
-          : 0
-
-        return {
-          ...article,
-          average_rating: Math.round(averageRating * 10) / 10,
-          total_ratings: totalRatings
-        }
-      }) || []
-
-      // Sort by highest rated if requested
-      if (filters?.sortBy === 'highest_rated') {
-        articlesWithStats.sort((a, b) => {
-          if (a.average_rating === b.average_rating) {
-            return b.total_ratings - a.total_ratings
-          }
-          return b.average_rating - a.average_rating
-        })
+      setArticles(prev => offset > 0 ? [...prev, ...results] : results)
+      if (results.length > 0 || offset === 0) {
+        setTotalCount(results[0]?.total_count || 0)
       }
-
-      console.log('Processed articles:', articlesWithStats)
-      setArticles(articlesWithStats)
     } catch (err: any) {
       console.error('Error in fetchArticles:', err)
       setError(err.message)
     } finally {
       setLoading(false)
+      setLoadingMore(false)
     }
   }, [])
 
@@ -97,8 +69,10 @@ export function useArticles() {
 
   return {
     articles,
+    totalCount,
     loading,
+    loadingMore,
     error,
     refetch: fetchArticles
   }
-}
\ No newline at end of file
+}
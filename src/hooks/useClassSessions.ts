@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { ClassSession, SessionSeats } from '../types/booking'
+
+export function useClassSessions(service: string, month: Date) {
+  const [sessions, setSessions] = useState<ClassSession[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSessions = useCallback(async () => {
+    if (!service) {
+      setSessions([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      // Pad by a day on each side: the viewer's zone may differ from the browser's
+      const monthStart = new Date(month.getFullYear(), month.getMonth(), 0)
+      const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 2)
+      const now = new Date()
+
+      const { data, error: fetchError } = await supabase
+        .from('class_sessions')
+        .select('*')
+        .eq('service', service)
+        .eq('status', 'scheduled')
+        .gte('starts_at', (monthStart > now ? monthStart : now).toISOString())
+        .lt('starts_at', monthEnd.toISOString())
+        .order('starts_at', { ascending: true })
+
+      if (fetchError) throw fetchError
+
+      // Attach seat counts so full sessions can be offered as waitlist-only
+      const sessionIds = (data || []).map(session => session.id)
+      let seats: SessionSeats[] = []
+      if (sessionIds.length > 0) {
+        const { data: seatsData, error: seatsError } = await supabase
+          .from('class_session_seats')
+          .select('*')
+          .in('session_id', sessionIds)
+
+        if (seatsError) throw seatsError
+        seats = seatsData || []
+      }
+
+      setSessions((data || []).map(session => {
+        const sessionSeats = seats.find(s => s.session_id === session.id)
+        return {
+          ...session,
+          seats_taken: sessionSeats?.seats_taken || 0,
+          waitlist_count: sessionSeats?.waitlist_count || 0
+        }
+      }))
+    } catch (err: any) {
+      console.error('Error fetching class sessions:', err)
+      setError(err.message)
+      setSessions([])
+    } finally {
+      setLoading(false)
+    }
+  }, [service, month])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  return {
+    sessions,
+    loading,
+    error,
+    refetch: fetchSessions
+  }
+}
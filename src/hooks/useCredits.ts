@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { CreditLedgerEntry, CreditLot, Membership, Product } from '../types/credits'
+
+const HISTORY_LIMIT = 20
+
+export function useCredits(userId: string | undefined) {
+  const [lots, setLots] = useState<CreditLot[]>([])
+  const [history, setHistory] = useState<CreditLedgerEntry[]>([])
+  const [memberships, setMemberships] = useState<Membership[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchCredits = useCallback(async () => {
+    if (!userId) return
+
+    try {
+      setLoading(true)
+      const now = new Date().toISOString()
+
+      const [lotsResult, historyResult, membershipsResult, productsResult] = await Promise.all([
+        supabase
+          .from('credit_lots')
+          .select('*')
+          .eq('user_id', userId)
+          .gt('remaining', 0)
+          .gt('expires_at', now)
+          .order('expires_at', { ascending: true }),
+        supabase
+          .from('credit_ledger')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT),
+        supabase
+          .from('memberships')
+          .select('*')
+          .eq('user_id', userId)
+          .gt('ends_at', now)
+          .order('ends_at', { ascending: true }),
+        supabase
+          .from('products')
+          .select('*')
+          .eq('is_active', true)
+          .order('price_cents', { ascending: true })
+      ])
+
+      if (lotsResult.error) throw lotsResult.error
+      if (historyResult.error) throw historyResult.error
+      if (membershipsResult.error) throw membershipsResult.error
+      if (productsResult.error) throw productsResult.error
+
+      setLots(lotsResult.data || [])
+      setHistory(historyResult.data || [])
+      setMemberships(membershipsResult.data || [])
+      setProducts(productsResult.data || [])
+    } catch (error) {
+      console.error('Error fetching credits:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchCredits()
+  }, [fetchCredits])
+
+  return {
+    lots,
+    history,
+    memberships,
+    products,
+    balance: lots.reduce((total, lot) => total + lot.remaining, 0),
+    loading,
+    refetch: fetchCredits
+  }
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { Instructor } from '../types/instructor'
+
+export function useInstructors(includeInactive = false) {
+  const [instructors, setInstructors] = useState<Instructor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchInstructors = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      let query = supabase
+        .from('instructors')
+        .select('*')
+        .order('display_name', { ascending: true })
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true)
+      }
+
+      const { data, error: fetchError } = await query
+
+      if (fetchError) throw fetchError
+      setInstructors(data || [])
+    } catch (err: any) {
+      console.error('Error fetching instructors:', err)
+      setError(err.message)
+      setInstructors([])
+    } finally {
+      setLoading(false)
+    }
+  }, [includeInactive])
+
+  useEffect(() => {
+    fetchInstructors()
+  }, [fetchInstructors])
+
+  return {
+    instructors,
+    loading,
+    error,
+    refetch: fetchInstructors
+  }
+}
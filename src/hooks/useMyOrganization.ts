@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { OrganizationMember } from '../types/organization'
+
+// Accepts a pending invitation or a matching email domain on the way in,
+// so employees don't have to do anything to join their company
+export function useMyOrganization() {
+  const { user } = useAuth()
+  const [membership, setMembership] = useState<OrganizationMember | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchMembership = useCallback(async () => {
+    if (!user) {
+      setMembership(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+
+      const { error: joinError } = await supabase.rpc('join_my_organization')
+      if (joinError) throw joinError
+
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('*, organizations(*)')
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .maybeSingle()
+
+      if (error) throw error
+      setMembership(data)
+    } catch (error) {
+      console.error('Error fetching organization:', error)
+      setMembership(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchMembership()
+  }, [fetchMembership])
+
+  return {
+    membership,
+    organization: membership?.organizations || null,
+    isCompanyAdmin: membership?.role === 'admin',
+    loading,
+    refetch: fetchMembership
+  }
+}
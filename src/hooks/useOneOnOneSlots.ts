@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { OneOnOneSlot } from '../types/instructor'
+import { getLocalDateKey } from '../utils/timezone'
+
+export function useOneOnOneSlots(enabled: boolean, month: Date) {
+  const [slots, setSlots] = useState<OneOnOneSlot[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSlots = useCallback(async () => {
+    if (!enabled) {
+      setSlots([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const monthStart = new Date(month.getFullYear(), month.getMonth(), 1)
+      const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0)
+
+      // Slots are generated server-side from availability, blackouts and existing classes
+      const { data, error: fetchError } = await supabase
+        .rpc('get_one_on_one_slots', {
+          p_from: getLocalDateKey(monthStart),
+          p_to: getLocalDateKey(monthEnd)
+        })
+
+      if (fetchError) throw fetchError
+      setSlots(data || [])
+    } catch (err: any) {
+      console.error('Error fetching 1-on-1 slots:', err)
+      setError(err.message)
+      setSlots([])
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled, month])
+
+  useEffect(() => {
+    fetchSlots()
+  }, [fetchSlots])
+
+  return {
+    slots,
+    loading,
+    error,
+    refetch: fetchSlots
+  }
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import { ReplyTemplate } from '../types/replyTemplate'
+
+export function useReplyTemplates(includeInactive = false) {
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      let query = supabase
+        .from('reply_templates')
+        .select('*')
+        .order('title', { ascending: true })
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true)
+      }
+
+      const { data, error: fetchError } = await query
+
+      if (fetchError) throw fetchError
+      setTemplates(data || [])
+    } catch (err: any) {
+      console.error('Error fetching reply templates:', err)
+      setError(err.message)
+      setTemplates([])
+    } finally {
+      setLoading(false)
+    }
+  }, [includeInactive])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  return {
+    templates,
+    loading,
+    error,
+    refetch: fetchTemplates
+  }
+}
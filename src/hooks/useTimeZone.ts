@@ -0,0 +1,10 @@
+import { useAuth } from '../contexts/AuthContext'
+import { detectTimeZone, isValidTimeZone } from '../utils/timezone'
+
+// The viewer's zone: the Profile override when set, otherwise the browser's
+export function useTimeZone() {
+  const { user } = useAuth()
+  const override = user?.user_metadata?.timezone
+
+  return isValidTimeZone(override) ? override : detectTimeZone()
+}
@@ -12,6 +12,19 @@ import { Button } from '../components/UI/Button'
 import { LoadingSpinner } from '../components/UI/LoadingSpinner'
 import { ArticleManagement } from '../components/Admin/ArticleManagement'
 import { BookingManagement } from '../components/Admin/BookingManagement'
+import { AttendanceReport } from '../components/Admin/AttendanceReport'
+import { ClassScheduleManagement } from '../components/Admin/ClassScheduleManagement'
+import { ClassSeriesManagement } from '../components/Admin/ClassSeriesManagement'
+import { BookingPolicyManagement } from '../components/Admin/BookingPolicyManagement'
+import { ProductManagement } from '../components/Admin/ProductManagement'
+import { InvoiceManagement } from '../components/Admin/InvoiceManagement'
+import { PromoCodeManagement } from '../components/Admin/PromoCodeManagement'
+import { OrganizationManagement } from '../components/Admin/OrganizationManagement'
+import { NotificationManagement } from '../components/Admin/NotificationManagement'
+import { ContactInbox } from '../components/Admin/ContactInbox'
+import { InstructorManagement } from '../components/Admin/InstructorManagement'
+import { QueryManagement } from '../components/Admin/QueryManagement'
+import { ReplyTemplateManagement } from '../components/Admin/ReplyTemplateManagement'
 import { UserManagement } from '../components/Admin/UserManagement'
 import { useAdmin } from '../contexts/AdminContext'
 import { supabase } from '../lib/supabase'
@@ -27,8 +40,6 @@ interface DashboardStats {
   recentBookings: any[]
   pendingQueries: any[]
   newContacts: any[]
-  allQueries: any[]
-  allContacts: any[]
   allBookings: any[]
 }
 
@@ -56,7 +67,7 @@ export function AdminDashboard() {
       
       // Fetch all data in parallel with proper error handling
       const [bookingsRes, queriesRes, contactsRes, articlesRes, viewsRes] = await Promise.allSettled([
-        supabase.from('bookings').select('*').order('created_at', { ascending: false }),
+        supabase.from('bookings').select('*, class_sessions(*)').order('created_at', { ascending: false }),
         supabase.from('yoga_queries').select('*').order('created_at', { ascending: false }),
         supabase.from('contact_messages').select('*').order('created_at', { ascending: false }),
         supabase.from('articles').select('*').order('created_at', { ascending: false }),
@@ -122,8 +133,6 @@ export function AdminDashboard() {
         recentBookings: bookings.slice(0, 5),
         pendingQueries: pendingQueries.slice(0, 10),
         newContacts: newContacts.slice(0, 10),
-        allQueries: queries,
-        allContacts: contacts,
         allBookings: bookings
       })
     } catch (error) {
@@ -138,48 +147,6 @@ export function AdminDashboard() {
     navigate('/')
   }
 
-  const handleUpdateQueryStatus = async (queryId: string, status: string, response?: string) => {
-    try {
-      const updateData: any = { status }
-      if (response) {
-        updateData.response = response
-        updateData.responded_at = new Date().toISOString()
-      }
-
-      const { error } = await supabase
-        .from('yoga_queries')
-        .update(updateData)
-        .eq('id', queryId)
-
-      if (error) throw error
-
-      // Refresh data
-      await fetchDashboardData()
-      alert('Query updated successfully!')
-    } catch (error) {
-      console.error('Error updating query:', error)
-      alert('Failed to update query')
-    }
-  }
-
-  const handleUpdateContactStatus = async (contactId: string, status: string) => {
-    try {
-      const { error } = await supabase
-        .from('contact_messages')
-        .update({ status })
-        .eq('id', contactId)
-
-      if (error) throw error
-
-      // Refresh data
-      await fetchDashboardData()
-      alert('Contact status updated successfully!')
-    } catch (error) {
-      console.error('Error updating contact:', error)
-      alert('Failed to update contact status')
-    }
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -278,9 +245,20 @@ export function AdminDashboard() {
               { id: 'overview', label: 'Overview' },
               { id: 'users', label: 'Users' },
               { id: 'bookings', label: 'Bookings' },
+              { id: 'attendance', label: 'Attendance' },
+              { id: 'schedule', label: 'Schedule' },
+              { id: 'series', label: 'Recurring Classes' },
+              { id: 'policy', label: 'Booking Policy' },
+              { id: 'products', label: 'Packs & Memberships' },
+              { id: 'invoices', label: 'Invoices' },
+              { id: 'promos', label: 'Promo Codes' },
+              { id: 'organizations', label: 'Corporate Accounts' },
+              { id: 'notifications', label: 'Notifications' },
+              { id: 'instructors', label: 'Instructors' },
               { id: 'articles', label: 'Articles' },
               { id: 'queries', label: 'Yoga Queries' },
-              { id: 'contacts', label: 'Contact Messages' }
+              { id: 'contacts', label: 'Contact Inbox' },
+              { id: 'templates', label: 'Reply Templates' }
             ].map((tab) => (
               <button
                 key={tab.id}
@@ -338,7 +316,7 @@ export function AdminDashboard() {
                       <div key={booking.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                         <div>
                           <p className="font-medium text-gray-900">{booking.first_name} {booking.last_name}</p>
-                          <p className="text-sm text-gray-600">{booking.class_name}</p>
+                          <p className="text-sm text-gray-600">{booking.class_sessions?.class_type || booking.class_name}</p>
                         </div>
                         <span className={`px-2 py-1 text-xs rounded-full ${
                           booking.status === 'confirmed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
@@ -422,108 +400,22 @@ export function AdminDashboard() {
 
         {activeTab === 'users' && <UserManagement />}
         {activeTab === 'bookings' && <BookingManagement />}
+        {activeTab === 'attendance' && <AttendanceReport />}
+        {activeTab === 'schedule' && <ClassScheduleManagement />}
+        {activeTab === 'series' && <ClassSeriesManagement />}
+        {activeTab === 'policy' && <BookingPolicyManagement />}
+        {activeTab === 'products' && <ProductManagement />}
+        {activeTab === 'invoices' && <InvoiceManagement />}
+        {activeTab === 'promos' && <PromoCodeManagement />}
+        {activeTab === 'organizations' && <OrganizationManagement />}
+        {activeTab === 'notifications' && <NotificationManagement />}
+        {activeTab === 'instructors' && <InstructorManagement />}
         {activeTab === 'articles' && <ArticleManagement />}
 
-        {activeTab === 'queries' && (
-          <div className="card p-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-6">
-              Yoga Queries ({stats.allQueries.length} total)
-            </h2>
-            <div className="space-y-4">
-              {stats.allQueries.length > 0 ? (
-                stats.allQueries.map((query) => (
-                  <div key={query.id} className="border border-gray-200 rounded-lg p-4">
-                    <div className="flex justify-between items-start mb-2">
-                      <div>
-                        <h3 className="font-semibold text-gray-900">{query.subject}</h3>
-                        <p className="text-sm text-gray-600">From: {query.name} ({query.email})</p>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`px-2 py-1 text-xs rounded-full ${
-                          query.status === 'pending' ? 'bg-orange-100 text-orange-800' : 'bg-green-100 text-green-800'
-                        }`}>
-                          {query.status}
-                        </span>
-                        {query.status === 'pending' && (
-                          <Button
-                            size="sm"
-                            onClick={() => {
-                              const response = prompt('Enter your response:')
-                              if (response) {
-                                handleUpdateQueryStatus(query.id, 'responded', response)
-                              }
-                            }}
-                          >
-                            Respond
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                    <p className="text-gray-700 mb-2">{query.message}</p>
-                    {query.response && (
-                      <div className="mt-3 p-3 bg-blue-50 rounded-lg">
-                        <p className="text-sm text-blue-900 font-medium">Response:</p>
-                        <p className="text-sm text-blue-800">{query.response}</p>
-                      </div>
-                    )}
-                    <div className="flex justify-between items-center text-sm text-gray-500 mt-2">
-                      <span>Category: {query.category}</span>
-                      <span>Experience: {query.experience_level}</span>
-                      <span>{new Date(query.created_at).toLocaleDateString()}</span>
-                    </div>
-                  </div>
-                ))
-              ) : (
-                <p className="text-gray-500">No yoga queries found</p>
-              )}
-            </div>
-          </div>
-        )}
+        {activeTab === 'queries' && <QueryManagement />}
 
-        {activeTab === 'contacts' && (
-          <div className="card p-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-6">
-              Contact Messages ({stats.allContacts.length} total)
-            </h2>
-            <div className="space-y-4">
-              {stats.allContacts.length > 0 ? (
-                stats.allContacts.map((contact) => (
-                  <div key={contact.id} className="border border-gray-200 rounded-lg p-4">
-                    <div className="flex justify-between items-start mb-2">
-                      <div>
-                        <h3 className="font-semibold text-gray-900">{contact.subject}</h3>
-                        <p className="text-sm text-gray-600">From: {contact.name} ({contact.email})</p>
-                        {contact.phone && <p className="text-sm text-gray-600">Phone: {contact.phone}</p>}
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`px-2 py-1 text-xs rounded-full ${
-                          contact.status === 'new' ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-800'
-                        }`}>
-                          {contact.status}
-                        </span>
-                        {contact.status === 'new' && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleUpdateContactStatus(contact.id, 'read')}
-                          >
-                            Mark as Read
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                    <p className="text-gray-700 mb-2">{contact.message}</p>
-                    <div className="text-sm text-gray-500">
-                      {new Date(contact.created_at).toLocaleDateString()}
-                    </div>
-                  </div>
-                ))
-              ) : (
-                <p className="text-gray-500">No contact messages found</p>
-              )}
-            </div>
-          </div>
-        )}
+        {activeTab === 'contacts' && <ContactInbox />}
+        {activeTab === 'templates' && <ReplyTemplateManagement />}
       </main>
     </div>
   )
@@ -1,4 +1,5 @@
-import { useParams, Link } from 'react-router-dom'
+import { useEffect } from 'react'
+import { useParams, Link, Navigate } from 'react-router-dom'
 import { ArrowLeft, Calendar, Eye, User, Clock } from 'lucide-react'
 import { RatingModule } from '../components/Learning/RatingModule'
 import { ShareButtons } from '../components/Learning/ShareButtons'
@@ -6,7 +7,7 @@ import { LoadingSpinner } from '../components/UI/LoadingSpinner'
 import { useArticle } from '../hooks/useArticle'
 
 export function ArticleView() {
-  const { id } = useParams<{ id: string }>()
+  const { slug } = useParams<{ slug: string }>()
   const { 
     article, 
     averageRating, 
@@ -15,7 +16,21 @@ export function ArticleView() {
     loading, 
     error, 
     submitRating 
-  } = useArticle(id!)
+  } = useArticle(slug!)
+
+  // Tell search engines which URL is the article's own
+  useEffect(() => {
+    if (!article) return
+
+    const link = document.createElement('link')
+    link.rel = 'canonical'
+    link.href = `${window.location.origin}/learning/${article.slug}`
+    document.head.appendChild(link)
+
+    return () => {
+      link.remove()
+    }
+  }, [article?.slug])
 
   if (loading) {
     return (
@@ -41,6 +56,11 @@ export function ArticleView() {
     )
   }
 
+  // Old UUID links and renamed slugs land on the canonical URL
+  if (article.slug !== slug) {
+    return <Navigate to={`/learning/${article.slug}`} replace />
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -168,7 +188,7 @@ export function ArticleView() {
               {/* Share Buttons */}
               <ShareButtons
                 title={article.title}
-                url={`/learning/${article.id}`}
+                url={`/learning/${article.slug}`}
               />
 
               {/* Quick Navigation */}
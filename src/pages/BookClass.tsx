@@ -1,24 +1,41 @@
-import { useState } from 'react'
-import { Users, MapPin, Globe, ChevronLeft, ChevronRight } from 'lucide-react'
+import { useState, useMemo } from 'react'
+import { Users, MapPin, Globe, ChevronLeft, ChevronRight, CheckCircle, CalendarPlus, X } from 'lucide-react'
 import { Button } from '../components/UI/Button'
+import { LoadingSpinner } from '../components/UI/LoadingSpinner'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useClassSessions } from '../hooks/useClassSessions'
+import { useMyOrganization } from '../hooks/useMyOrganization'
+import { useOneOnOneSlots } from '../hooks/useOneOnOneSlots'
+import { useTimeZone } from '../hooks/useTimeZone'
+import { ClassSession, BookingResult } from '../types/booking'
+import { OneOnOneSlot } from '../types/instructor'
+import { PromoQuote } from '../types/promo'
+import { downloadBookingCalendar } from '../utils/calendar'
+import { formatPrice, startCheckout } from '../utils/payments'
+import { getDateKey, getLocalDateKey, formatTimeInZone, formatDateInZone, getTimeZoneAbbreviation } from '../utils/timezone'
 
 export function BookClass() {
   const { user } = useAuth()
+  const timeZone = useTimeZone()
+  const { organization } = useMyOrganization()
   const [selectedService, setSelectedService] = useState('')
   const [selectedDate, setSelectedDate] = useState('')
-  const [selectedTime, setSelectedTime] = useState('')
+  const [selectedSessionId, setSelectedSessionId] = useState('')
   const [currentMonth, setCurrentMonth] = useState(new Date())
   const [showBookingForm, setShowBookingForm] = useState(false)
   const [loading, setLoading] = useState(false)
   const [errors, setErrors] = useState<any>({})
+  const [confirmedBookingId, setConfirmedBookingId] = useState<string | null>(null)
+  const [calendarLoading, setCalendarLoading] = useState(false)
+  const [promoCode, setPromoCode] = useState('')
+  const [appliedPromo, setAppliedPromo] = useState<PromoQuote | null>(null)
+  const [promoLoading, setPromoLoading] = useState(false)
   
   const [formData, setFormData] = useState({
-    fullName: '',
-    email: '',
+    fullName: user?.user_metadata?.full_name || '',
+    email: user?.email || '',
     country: '',
-    classType: '',
     message: ''
   })
 
@@ -43,17 +60,38 @@ export function BookClass() {
       id: 'corporate',
       name: 'Corporate Programs',
       description: 'Workplace wellness solutions for teams',
-      price: 'Custom pricing',
+      price: organization ? `Sponsored by ${organization.name}` : 'Custom pricing',
       duration: '30-90 minutes',
       icon: <MapPin className="w-6 h-6" />
     }
   ]
 
-  const timeSlots = [
-    '06:00 AM', '07:00 AM', '08:00 AM', '09:00 AM', '10:00 AM',
-    '11:00 AM', '12:00 PM', '01:00 PM', '02:00 PM', '03:00 PM',
-    '04:00 PM', '05:00 PM', '06:00 PM', '07:00 PM', '08:00 PM'
-  ]
+  const isOneOnOne = selectedService === '1on1'
+  const { sessions: classSessions, loading: classSessionsLoading } = useClassSessions(isOneOnOne ? '' : selectedService, currentMonth)
+  const { slots, loading: slotsLoading, refetch: refetchSlots } = useOneOnOneSlots(isOneOnOne, currentMonth)
+
+  // Private slots only become sessions once reserved, so present them in the same shape
+  const toSlotSession = (slot: OneOnOneSlot): ClassSession => ({
+    id: `${slot.instructor_id}|${slot.starts_at}`,
+    service: '1on1',
+    class_type: '1-on-1 Coaching',
+    instructor: slot.instructor_name,
+    instructor_id: slot.instructor_id,
+    starts_at: slot.starts_at,
+    ends_at: slot.ends_at,
+    timezone: slot.timezone,
+    capacity: 1,
+    status: 'scheduled',
+    created_at: '',
+    updated_at: '',
+    seats_taken: 0,
+    waitlist_count: 0
+  })
+
+  const sessions = useMemo(() => {
+    return isOneOnOne ? slots.map(toSlotSession) : classSessions
+  }, [isOneOnOne, slots, classSessions])
+  const sessionsLoading = isOneOnOne ? slotsLoading : classSessionsLoading
 
   const countries = [
     'United States', 'Canada', 'United Kingdom', 'Australia', 'Germany',
@@ -61,11 +99,6 @@ export function BookClass() {
     'South Africa', 'Nigeria', 'Other'
   ]
 
-  const classTypes = [
-    'Hatha Yoga', 'Vinyasa Flow', 'Power Yoga', 'Restorative Yoga',
-    'Meditation', 'Breathwork', 'Corporate Wellness', 'Beginner Friendly'
-  ]
-
   // Calendar functionality
   const getDaysInMonth = (date: Date) => {
     const year = date.getFullYear()
@@ -91,13 +124,62 @@ export function BookClass() {
   }
 
   const formatDate = (date: Date) => {
-    return date.toISOString().split('T')[0]
+    return getLocalDateKey(date)
   }
 
+  const formatTime = (dateString: string) => {
+    return formatTimeInZone(dateString, timeZone)
+  }
+
+  // The instructor's local start time, shown when it differs from the viewer's zone
+  const getInstructorTime = (session: ClassSession) => {
+    if (!session.timezone || session.timezone === timeZone) return null
+    return `${formatTimeInZone(session.starts_at, session.timezone)} ${getTimeZoneAbbreviation(session.starts_at, session.timezone)}`
+  }
+
+  // Group open sessions by calendar day so only days with real classes are selectable
+  const sessionsByDate = useMemo(() => {
+    const grouped = new Map<string, ClassSession[]>()
+    sessions.forEach(session => {
+      const key = getDateKey(session.starts_at, timeZone)
+      if (!grouped.has(key)) {
+        grouped.set(key, [])
+      }
+      grouped.get(key)?.push(session)
+    })
+    return grouped
+  }, [sessions, timeZone])
+
   const isDateAvailable = (date: Date) => {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    return date >= today
+    return sessionsByDate.has(formatDate(date))
+  }
+
+  const sessionsForSelectedDate = sessionsByDate.get(selectedDate) || []
+  const selectedSession = sessions.find(s => s.id === selectedSessionId)
+  // Company sessions are only visible to the company's own employees
+  const isSponsored = !!selectedSession?.organization_id
+
+  const isSessionFull = (session: ClassSession) => {
+    return (session.seats_taken || 0) >= session.capacity
+  }
+
+  const getAvailabilityLabel = (session: ClassSession) => {
+    if (isSessionFull(session)) {
+      return `Full · join waitlist${session.waitlist_count ? ` (${session.waitlist_count} waiting)` : ''}`
+    }
+    const spotsLeft = session.capacity - (session.seats_taken || 0)
+    return `${spotsLeft} spot${spotsLeft !== 1 ? 's' : ''} left`
+  }
+
+  const handleServiceSelect = (serviceId: string) => {
+    setSelectedService(serviceId)
+    setSelectedDate('')
+    setSelectedSessionId('')
+  }
+
+  const handleDateSelect = (date: Date) => {
+    setSelectedDate(formatDate(date))
+    setSelectedSessionId('')
   }
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -115,10 +197,9 @@ export function BookClass() {
     if (!formData.email.trim()) newErrors.email = 'Email is required'
     else if (!/\S+@\S+\.\S+/.test(formData.email)) newErrors.email = 'Email is invalid'
     if (!formData.country) newErrors.country = 'Country is required'
-    if (!formData.classType) newErrors.classType = 'Class type is required'
     if (!selectedService) newErrors.service = 'Please select a service'
     if (!selectedDate) newErrors.date = 'Please select a date'
-    if (!selectedTime) newErrors.time = 'Please select a time'
+    if (!selectedSessionId) newErrors.time = 'Please select a class time'
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -132,47 +213,72 @@ export function BookClass() {
     setLoading(true)
     
     try {
-      const selectedServiceData = services.find(s => s.id === selectedService)
-      
-      const bookingData = {
-        user_id: user?.id || null,
-        class_name: selectedServiceData?.name || '',
-        instructor: 'Yogodaan Instructor',
-        class_date: selectedDate,
-        class_time: selectedTime,
-        first_name: formData.fullName.split(' ')[0] || '',
-        last_name: formData.fullName.split(' ').slice(1).join(' ') || '',
-        email: formData.email,
-        phone: '', // We'll add this field if needed
-        experience_level: 'beginner',
-        special_requests: formData.message,
-        emergency_contact: '',
-        emergency_phone: '',
-        status: 'confirmed'
+      const bookingDetails = {
+        p_first_name: formData.fullName.split(' ')[0] || '',
+        p_last_name: formData.fullName.split(' ').slice(1).join(' ') || '',
+        p_email: formData.email,
+        p_phone: '', // We'll add this field if needed
+        p_experience_level: 'beginner',
+        p_special_requests: formData.message,
+        p_timezone: timeZone,
+        p_promo_code: isSponsored ? null : promoCode.trim() || null
       }
 
-      const { error } = await supabase
-        .from('bookings')
-        .insert([bookingData])
+      // Capacity is enforced server-side; a full session returns a waitlist spot instead.
+      // Private slots are re-checked and reserved atomically so two students can't take the same one.
+      const { data, error } = isOneOnOne && selectedSession
+        ? await supabase.rpc('reserve_one_on_one_slot', {
+            p_instructor_id: selectedSession.instructor_id,
+            p_starts_at: selectedSession.starts_at,
+            ...bookingDetails
+          })
+        : await supabase.rpc('book_class_session', {
+            p_session_id: selectedSessionId,
+            ...bookingDetails
+          })
 
       if (error) {
+        if (isOneOnOne) {
+          setSelectedSessionId('')
+          refetchSlots()
+        }
         throw error
       }
 
+      const result: BookingResult | undefined = data?.[0]
+
+      // Paid services hold the seat while the student pays; the webhook confirms it
+      if (result?.booking_status === 'pending_payment') {
+        try {
+          await startCheckout(result.booking_id)
+        } catch (checkoutError) {
+          // The seat is already held, so let them retry from the checkout page instead of booking twice
+          console.error('Error starting checkout:', checkoutError)
+          window.location.href = `/checkout/complete?booking=${result.booking_id}&result=cancelled`
+        }
+        return
+      }
+
       // Reset form and show success
       setFormData({
         fullName: '',
         email: '',
         country: '',
-        classType: '',
         message: ''
       })
       setSelectedService('')
       setSelectedDate('')
-      setSelectedTime('')
+      setSelectedSessionId('')
+      setPromoCode('')
+      setAppliedPromo(null)
       setShowBookingForm(false)
       
-      alert('Booking confirmed! You will receive a confirmation email shortly.')
+      if (result?.booking_status === 'waitlisted') {
+        alert(`This class is full, so you have been added to the waitlist (position ${result.waitlist_position}). If a spot opens up it will be held for you automatically.`)
+      } else {
+        setConfirmedBookingId(result?.booking_id || null)
+        window.scrollTo({ top: 0, behavior: 'smooth' })
+      }
     } catch (error: any) {
       setErrors({ general: error.message || 'An error occurred while booking your class.' })
     } finally {
@@ -180,7 +286,51 @@ export function BookClass() {
     }
   }
 
-  const canProceedToBooking = selectedService && selectedDate && selectedTime
+  const handlePromoCodeChange = (value: string) => {
+    setPromoCode(value.toUpperCase())
+    setAppliedPromo(null)
+    if (errors.promoCode) {
+      setErrors((prev: any) => ({ ...prev, promoCode: '' }))
+    }
+  }
+
+  // Shows the discount up front; the code is checked again when the booking is
+  // made, which is also when a guest's per-customer limits are checked
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return
+
+    try {
+      setPromoLoading(true)
+      const { data, error } = await supabase.rpc('check_promo_code', {
+        p_code: promoCode.trim(),
+        p_service: selectedService
+      })
+
+      if (error) throw error
+      const quote = data?.[0]
+      if (quote) setAppliedPromo({ code: promoCode.trim(), ...quote })
+    } catch (error: any) {
+      setErrors((prev: any) => ({ ...prev, promoCode: error.message || 'This promo code is not valid' }))
+    } finally {
+      setPromoLoading(false)
+    }
+  }
+
+  const handleAddToCalendar = async () => {
+    if (!confirmedBookingId) return
+
+    try {
+      setCalendarLoading(true)
+      await downloadBookingCalendar(confirmedBookingId)
+    } catch (error) {
+      console.error('Error downloading calendar file:', error)
+      alert('Failed to create the calendar file')
+    } finally {
+      setCalendarLoading(false)
+    }
+  }
+
+  const canProceedToBooking = selectedService && selectedDate && selectedSessionId
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -196,6 +346,27 @@ export function BookClass() {
       </section>
 
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {confirmedBookingId && (
+          <div className="bg-green-50 border border-green-200 rounded-xl p-6 mb-12 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-start">
+              <CheckCircle className="w-6 h-6 text-green-600 mr-3 flex-shrink-0" />
+              <div>
+                <h3 className="font-semibold text-green-900">Booking confirmed!</h3>
+                <p className="text-green-800 text-sm">You will receive a confirmation email shortly.</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={handleAddToCalendar} loading={calendarLoading} className="flex items-center">
+                <CalendarPlus className="w-4 h-4 mr-1" />
+                Add to Calendar
+              </Button>
+              <button onClick={() => setConfirmedBookingId(null)} className="text-green-700 hover:text-green-900">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {!showBookingForm ? (
           <div className="space-y-12">
             {/* Service Selection */}
@@ -205,7 +376,7 @@ export function BookClass() {
                 {services.map((service) => (
                   <div
                     key={service.id}
-                    onClick={() => setSelectedService(service.id)}
+                    onClick={() => handleServiceSelect(service.id)}
                     className={`p-6 rounded-xl border-2 cursor-pointer transition-all duration-300 ${
                       selectedService === service.id
                         ? 'border-blue-500 bg-blue-50 shadow-lg'
@@ -262,12 +433,21 @@ export function BookClass() {
                   ))}
                 </div>
                 
+                {!selectedService && (
+                  <p className="text-sm text-gray-500 mb-4">Choose a service to see the days with open classes.</p>
+                )}
+                {selectedService && !sessionsLoading && sessions.length === 0 && (
+                  <p className="text-sm text-gray-500 mb-4">
+                    {isOneOnOne ? 'No open 1-on-1 slots this month. Try the next month.' : 'No open classes this month. Try the next month.'}
+                  </p>
+                )}
+
                 <div className="grid grid-cols-7 gap-2">
                   {getDaysInMonth(currentMonth).map((date, index) => (
                     <div key={index} className="aspect-square">
                       {date && (
                         <button
-                          onClick={() => isDateAvailable(date) && setSelectedDate(formatDate(date))}
+                          onClick={() => isDateAvailable(date) && handleDateSelect(date)}
                           disabled={!isDateAvailable(date)}
                           className={`w-full h-full rounded-lg text-sm font-medium transition-all duration-200 ${
                             selectedDate === formatDate(date)
@@ -290,23 +470,38 @@ export function BookClass() {
             <div>
               <h2 className="text-3xl font-bold text-gray-900 mb-8">Select Time</h2>
               <div className="bg-white rounded-xl shadow-lg p-6">
-                <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
-                  {timeSlots.map((time) => (
-                    <button
-                      key={time}
-                      onClick={() => setSelectedTime(time)}
-                      className={`p-3 rounded-lg text-sm font-medium transition-all duration-200 ${
-                        selectedTime === time
-                          ? 'bg-blue-500 text-white shadow-lg'
-                          : 'bg-gray-50 text-gray-900 hover:bg-blue-50 border border-gray-200'
-                      }`}
-                    >
-                      {time}
-                    </button>
-                  ))}
-                </div>
+                {sessionsLoading ? (
+                  <LoadingSpinner size="md" />
+                ) : sessionsForSelectedDate.length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {sessionsForSelectedDate.map((session) => (
+                      <button
+                        key={session.id}
+                        onClick={() => setSelectedSessionId(session.id)}
+                        className={`p-3 rounded-lg text-sm font-medium text-left transition-all duration-200 ${
+                          selectedSessionId === session.id
+                            ? 'bg-blue-500 text-white shadow-lg'
+                            : 'bg-gray-50 text-gray-900 hover:bg-blue-50 border border-gray-200'
+                        }`}
+                      >
+                        <div>{formatTime(session.starts_at)} - {formatTime(session.ends_at)}</div>
+                        <div className="text-xs opacity-80">{session.class_type} with {session.instructor}</div>
+                        {getInstructorTime(session) && (
+                          <div className="text-xs opacity-80">{getInstructorTime(session)} for the instructor</div>
+                        )}
+                        <div className="text-xs opacity-80">{getAvailabilityLabel(session)}</div>
+                        {session.organization_id && (
+                          <div className="text-xs opacity-80">Sponsored by {organization?.name || 'your company'}</div>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">Select an available date to see class times.</p>
+                )}
                 <p className="text-sm text-gray-500 mt-4">
-                  * All times are in your local timezone. We'll coordinate the actual session time based on your location.
+                  * All times are shown in {timeZone} ({getTimeZoneAbbreviation(new Date(), timeZone)}).
+                  {user ? ' You can change this in your profile.' : ''}
                 </p>
               </div>
             </div>
@@ -350,17 +545,35 @@ export function BookClass() {
                     <span className="font-medium">{services.find(s => s.id === selectedService)?.name}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Date:</span>
-                    <span className="font-medium">{new Date(selectedDate).toLocaleDateString()}</span>
+                    <span className="text-gray-600">Class:</span>
+                    <span className="font-medium">{selectedSession?.class_type}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Time:</span>
-                    <span className="font-medium">{selectedTime}</span>
+                    <span className="text-gray-600">Instructor:</span>
+                    <span className="font-medium">{selectedSession?.instructor}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Duration:</span>
-                    <span className="font-medium">{services.find(s => s.id === selectedService)?.duration}</span>
+                    <span className="text-gray-600">Date:</span>
+                    <span className="font-medium">{selectedSession && formatDateInZone(selectedSession.starts_at, timeZone)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Time:</span>
+                    <span className="font-medium">
+                      {selectedSession && `${formatTime(selectedSession.starts_at)} - ${formatTime(selectedSession.ends_at)} ${getTimeZoneAbbreviation(selectedSession.starts_at, timeZone)}`}
+                    </span>
                   </div>
+                  {selectedSession && getInstructorTime(selectedSession) && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Instructor's time:</span>
+                      <span className="font-medium">{getInstructorTime(selectedSession)}</span>
+                    </div>
+                  )}
+                  {isSponsored && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Paid by:</span>
+                      <span className="font-medium">{organization?.name || 'Your company'}</span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -428,27 +641,6 @@ export function BookClass() {
                   {errors.country && <p className="text-red-500 text-sm mt-1">{errors.country}</p>}
                 </div>
 
-                <div>
-                  <label htmlFor="classType" className="block text-sm font-medium text-gray-700 mb-1">
-                    Preferred Class Type *
-                  </label>
-                  <select
-                    id="classType"
-                    name="classType"
-                    value={formData.classType}
-                    onChange={handleInputChange}
-                    className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      errors.classType ? 'border-red-500' : 'border-gray-300'
-                    }`}
-                  >
-                    <option value="">Select class type</option>
-                    {classTypes.map(type => (
-                      <option key={type} value={type}>{type}</option>
-                    ))}
-                  </select>
-                  {errors.classType && <p className="text-red-500 text-sm mt-1">{errors.classType}</p>}
-                </div>
-
                 <div>
                   <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-1">
                     Optional Message
@@ -464,12 +656,45 @@ export function BookClass() {
                   />
                 </div>
 
+                {!isSponsored && (
+                  <div>
+                    <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-1">
+                      Promo Code
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        id="promoCode"
+                        value={promoCode}
+                        onChange={(e) => handlePromoCodeChange(e.target.value)}
+                        placeholder="Have a code?"
+                        className={`flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          errors.promoCode ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                      />
+                      <Button type="button" variant="outline" onClick={handleApplyPromo} loading={promoLoading} disabled={!promoCode.trim()}>
+                        Apply
+                      </Button>
+                    </div>
+                    {errors.promoCode && <p className="text-red-500 text-sm mt-1">{errors.promoCode}</p>}
+                    {appliedPromo && (
+                      <p className="text-green-600 text-sm mt-1">
+                        {appliedPromo.code} applied: {formatPrice(appliedPromo.discount_cents, appliedPromo.currency)} off,
+                        you pay {formatPrice(appliedPromo.price_cents - appliedPromo.discount_cents, appliedPromo.currency)}.
+                        {user && ' Class credits and memberships are used before promo codes.'}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <Button
                   type="submit"
                   loading={loading}
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-lg font-semibold transition-all duration-300"
                 >
-                  {loading ? 'Confirming Booking...' : 'Confirm Booking'}
+                  {loading
+                    ? 'Confirming Booking...'
+                    : selectedSession && isSessionFull(selectedSession) ? 'Join Waitlist' : 'Confirm Booking'}
                 </Button>
               </form>
             </div>
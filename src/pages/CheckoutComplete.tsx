@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { CheckCircle, XCircle, CalendarPlus } from 'lucide-react'
+import { Button } from '../components/UI/Button'
+import { LoadingSpinner } from '../components/UI/LoadingSpinner'
+import { supabase } from '../lib/supabase'
+import { useTimeZone } from '../hooks/useTimeZone'
+import { BookingPaymentStatus } from '../types/payment'
+import { downloadBookingCalendar } from '../utils/calendar'
+import { formatPrice, startCheckout } from '../utils/payments'
+import { formatDateInZone, formatTimeInZone } from '../utils/timezone'
+
+// The webhook usually lands within seconds of the redirect back
+const POLL_INTERVAL_MS = 3000
+const MAX_POLLS = 10
+
+export function CheckoutComplete() {
+  const [searchParams] = useSearchParams()
+  const bookingId = searchParams.get('booking') || ''
+  const checkoutCancelled = searchParams.get('result') === 'cancelled'
+  const timeZone = useTimeZone()
+  const [status, setStatus] = useState<BookingPaymentStatus | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [polls, setPolls] = useState(0)
+  const [actionLoading, setActionLoading] = useState(false)
+
+  useEffect(() => {
+    fetchStatus()
+  }, [bookingId])
+
+  useEffect(() => {
+    if (checkoutCancelled || status?.booking_status !== 'pending_payment' || polls >= MAX_POLLS) return
+
+    const timer = setTimeout(() => {
+      setPolls(prev => prev + 1)
+      fetchStatus()
+    }, POLL_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [status, polls, checkoutCancelled])
+
+  const fetchStatus = async () => {
+    if (!bookingId) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_booking_payment_status', { p_booking_id: bookingId })
+
+      if (error) throw error
+      setStatus(data?.[0] || null)
+    } catch (error) {
+      console.error('Error fetching payment status:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePayNow = async () => {
+    try {
+      setActionLoading(true)
+      await startCheckout(bookingId)
+    } catch (error: any) {
+      console.error('Error starting checkout:', error)
+      alert(error.message || 'Failed to start checkout')
+      setActionLoading(false)
+    }
+  }
+
+  const handleAddToCalendar = async () => {
+    try {
+      setActionLoading(true)
+      await downloadBookingCalendar(bookingId)
+    } catch (error) {
+      console.error('Error downloading calendar file:', error)
+      alert('Failed to create the calendar file')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!status) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Booking not found</h1>
+          <a href="/book-class" className="btn-primary">Book a Class</a>
+        </div>
+      </div>
+    )
+  }
+
+  const holdUntil = status.payment_expires_at
+    ? `${formatDateInZone(status.payment_expires_at, timeZone, { month: 'short' })}, ${formatTimeInZone(status.payment_expires_at, timeZone)}`
+    : ''
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4">
+      <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full text-center">
+        {status.booking_status === 'confirmed' ? (
+          <>
+            <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Booking confirmed!</h1>
+            <p className="text-gray-600 mb-6">
+              We received your payment of {formatPrice(status.amount_cents, status.currency)}.
+              You will receive a confirmation email shortly.
+            </p>
+            <div className="flex justify-center gap-3">
+              <Button onClick={handleAddToCalendar} loading={actionLoading} className="flex items-center">
+                <CalendarPlus className="w-4 h-4 mr-2" />
+                Add to Calendar
+              </Button>
+              <a href="/profile">
+                <Button variant="outline">My Bookings</Button>
+              </a>
+            </div>
+          </>
+        ) : status.booking_status === 'pending_payment' && !checkoutCancelled && polls < MAX_POLLS ? (
+          <>
+            <LoadingSpinner size="lg" />
+            <h1 className="text-2xl font-bold text-gray-900 mt-6 mb-2">Confirming your payment…</h1>
+            <p className="text-gray-600">This usually takes a few seconds.</p>
+          </>
+        ) : status.booking_status === 'pending_payment' ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              {checkoutCancelled ? 'Payment not completed' : 'Payment still processing'}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {checkoutCancelled
+                ? `Your spot is held until ${holdUntil}. Complete the payment of ${formatPrice(status.amount_cents, status.currency)} to confirm it.`
+                : 'We have not heard back from the payment provider yet. Your booking will be confirmed as soon as the payment arrives.'}
+            </p>
+            {checkoutCancelled && (
+              <Button onClick={handlePayNow} loading={actionLoading}>
+                Pay Now
+              </Button>
+            )}
+          </>
+        ) : (
+          <>
+            <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Hold expired</h1>
+            <p className="text-gray-600 mb-6">
+              The payment was not completed in time, so the spot has been released.
+            </p>
+            <a href="/book-class" className="btn-primary">Book Again</a>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,426 @@
+import { useState, useEffect } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Building2, Users, ShoppingBag, BarChart3, UserPlus } from 'lucide-react'
+import { Button } from '../components/UI/Button'
+import { LoadingSpinner } from '../components/UI/LoadingSpinner'
+import { useAuth } from '../contexts/AuthContext'
+import { useMyOrganization } from '../hooks/useMyOrganization'
+import { supabase } from '../lib/supabase'
+import { Product } from '../types/credits'
+import { OrganizationAllotmentEntry, OrganizationMember, OrganizationUsageRow } from '../types/organization'
+import { formatPrice, startProductCheckout } from '../utils/payments'
+import { getLocalDateKey } from '../utils/timezone'
+
+const HISTORY_LIMIT = 20
+
+// The webhook usually lands within seconds of the redirect back
+const PURCHASE_REFRESH_MS = 3000
+
+export function CompanyDashboard() {
+  const { user } = useAuth()
+  const { organization, isCompanyAdmin, loading: organizationLoading } = useMyOrganization()
+  const [searchParams] = useSearchParams()
+  const purchaseResult = searchParams.get('purchase')
+  const [members, setMembers] = useState<OrganizationMember[]>([])
+  const [allotment, setAllotment] = useState<OrganizationAllotmentEntry[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [usage, setUsage] = useState<OrganizationUsageRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [usageLoading, setUsageLoading] = useState(false)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [inviteEmails, setInviteEmails] = useState('')
+  const [inviting, setInviting] = useState(false)
+  const [inviteError, setInviteError] = useState('')
+  const [fromDate, setFromDate] = useState(() => {
+    const now = new Date()
+    return getLocalDateKey(new Date(now.getFullYear(), now.getMonth(), 1))
+  })
+  const [toDate, setToDate] = useState(() => getLocalDateKey(new Date()))
+
+  useEffect(() => {
+    if (organization && isCompanyAdmin) {
+      fetchDashboard()
+    } else if (!organizationLoading) {
+      setLoading(false)
+    }
+  }, [organization?.id, isCompanyAdmin, organizationLoading])
+
+  useEffect(() => {
+    if (organization && isCompanyAdmin) fetchUsage()
+  }, [organization?.id, isCompanyAdmin, fromDate, toDate])
+
+  useEffect(() => {
+    if (purchaseResult !== 'success' || !organization || !isCompanyAdmin) return
+
+    const timer = setTimeout(fetchDashboard, PURCHASE_REFRESH_MS)
+    return () => clearTimeout(timer)
+  }, [purchaseResult, organization?.id, isCompanyAdmin])
+
+  const fetchDashboard = async () => {
+    if (!organization) return
+
+    try {
+      setLoading(true)
+
+      const [membersResult, allotmentResult, productsResult] = await Promise.all([
+        supabase
+          .from('organization_members')
+          .select('*')
+          .eq('organization_id', organization.id)
+          .neq('status', 'removed')
+          .order('invited_at', { ascending: true }),
+        supabase
+          .from('organization_allotments')
+          .select('*')
+          .eq('organization_id', organization.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('products')
+          .select('*')
+          .eq('is_active', true)
+          .eq('kind', 'pack')
+          .eq('service', 'corporate')
+          .order('price_cents', { ascending: true })
+      ])
+
+      if (membersResult.error) throw membersResult.error
+      if (allotmentResult.error) throw allotmentResult.error
+      if (productsResult.error) throw productsResult.error
+
+      setMembers(membersResult.data || [])
+      setAllotment(allotmentResult.data || [])
+      setProducts(productsResult.data || [])
+    } catch (error) {
+      console.error('Error fetching company dashboard:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchUsage = async () => {
+    if (!organization) return
+
+    try {
+      setUsageLoading(true)
+      const until = new Date(`${toDate}T00:00:00`)
+      until.setDate(until.getDate() + 1)
+
+      const { data, error } = await supabase.rpc('get_organization_usage', {
+        p_organization_id: organization.id,
+        p_from: new Date(`${fromDate}T00:00:00`).toISOString(),
+        p_to: until.toISOString()
+      })
+
+      if (error) throw error
+      setUsage(data || [])
+    } catch (error) {
+      console.error('Error fetching usage report:', error)
+    } finally {
+      setUsageLoading(false)
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!organization) return
+
+    const emails = inviteEmails.split(/[\s,;]+/).filter(Boolean)
+    if (emails.length === 0) {
+      setInviteError('Enter at least one email address')
+      return
+    }
+
+    try {
+      setInviting(true)
+      setInviteError('')
+      const { data, error } = await supabase.rpc('invite_organization_members', {
+        p_organization_id: organization.id,
+        p_emails: emails
+      })
+
+      if (error) throw error
+      setInviteEmails('')
+      await fetchDashboard()
+      alert(data === 1 ? '1 person invited.' : `${data} people invited.`)
+    } catch (error: any) {
+      console.error('Error inviting members:', error)
+      setInviteError(error.message || 'Failed to invite members')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!confirm(`Remove ${member.email}? They will no longer be able to book company sessions.`)) return
+
+    try {
+      setActionLoading(member.id)
+      const { error } = await supabase.rpc('remove_organization_member', { p_member_id: member.id })
+
+      if (error) throw error
+      await Promise.all([fetchDashboard(), fetchUsage()])
+    } catch (error: any) {
+      console.error('Error removing member:', error)
+      alert(error.message || 'Failed to remove member')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleBuy = async (product: Product) => {
+    if (!organization) return
+
+    try {
+      setActionLoading(product.id)
+      await startProductCheckout(product.id, organization.id)
+    } catch (error: any) {
+      console.error('Error starting checkout:', error)
+      alert(error.message || 'Failed to start checkout')
+      setActionLoading(null)
+    }
+  }
+
+  const describeEntry = (entry: OrganizationAllotmentEntry) => {
+    switch (entry.entry_type) {
+      case 'purchase': return entry.note || 'Sessions added'
+      case 'redeem': return 'Booked by an employee'
+      case 'refund': return 'Returned for a cancelled booking'
+      default: return entry.note || 'Adjustment'
+    }
+  }
+
+  if (!user || (!organizationLoading && !isCompanyAdmin)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h1>
+          <p className="text-gray-600 mb-6">This page is only available to company admins.</p>
+          <a href={user ? '/profile' : '/login'} className="btn-primary">
+            {user ? 'Go to Profile' : 'Sign In'}
+          </a>
+        </div>
+      </div>
+    )
+  }
+
+  if (loading || organizationLoading || !organization) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  const sessionsLeft = allotment.reduce((total, entry) => total + entry.sessions, 0)
+  const seatsUsed = members.length
+  const activeCount = members.filter(member => member.status === 'active').length
+  const usageTotals = usage.reduce(
+    (totals, row) => ({
+      booked: totals.booked + row.sessions_booked,
+      attended: totals.attended + row.sessions_attended,
+      noShows: totals.noShows + row.no_shows
+    }),
+    { booked: 0, attended: 0, noShows: 0 }
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <Building2 className="w-8 h-8 mr-3" />
+            {organization.name}
+          </h1>
+          <p className="text-gray-600">
+            Invite your team and keep an eye on how your sessions are used.
+            {organization.email_domains.length > 0 &&
+              ` Anyone signing in with an ${organization.email_domains.map(domain => `@${domain}`).join(' or ')} address joins automatically.`}
+          </p>
+        </div>
+
+        {purchaseResult === 'success' && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-green-800 text-sm">Thank you! The sessions are added as soon as the payment is confirmed.</p>
+          </div>
+        )}
+        {purchaseResult === 'cancelled' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            <p className="text-yellow-800 text-sm">The payment was not completed, nothing was charged.</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <p className={`text-3xl font-bold ${sessionsLeft > 0 ? 'text-gray-900' : 'text-red-600'}`}>{sessionsLeft}</p>
+            <p className="text-sm text-gray-600">Sessions left</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <p className="text-3xl font-bold text-gray-900">
+              {seatsUsed}{organization.seat_limit ? ` / ${organization.seat_limit}` : ''}
+            </p>
+            <p className="text-sm text-gray-600">Seats used, including pending invitations</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <p className="text-3xl font-bold text-gray-900">{activeCount}</p>
+            <p className="text-sm text-gray-600">Employees signed up</p>
+          </div>
+        </div>
+
+        {products.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+              <ShoppingBag className="w-5 h-5 mr-2" />
+              Add Sessions
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {products.map(product => (
+                <div key={product.id} className="border border-gray-200 rounded-lg p-4 flex justify-between items-center">
+                  <div>
+                    <p className="font-medium text-gray-900">{product.name}</p>
+                    <p className="text-sm text-gray-600">{product.credits} sessions · {formatPrice(product.price_cents, product.currency)}</p>
+                  </div>
+                  <Button size="sm" onClick={() => handleBuy(product)} loading={actionLoading === product.id}>
+                    Buy
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+            <Users className="w-5 h-5 mr-2" />
+            Team
+          </h2>
+
+          <form onSubmit={handleInvite} className="mb-6 space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Invite by email</label>
+            <textarea
+              rows={3}
+              value={inviteEmails}
+              onChange={(e) => setInviteEmails(e.target.value)}
+              placeholder="One or more addresses, separated by commas or new lines"
+              className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                inviteError ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {inviteError && <p className="text-red-500 text-sm">{inviteError}</p>}
+            <p className="text-xs text-gray-500">Invited people join your company the next time they sign in with that address.</p>
+            <Button type="submit" size="sm" loading={inviting} className="flex items-center">
+              <UserPlus className="w-4 h-4 mr-1" />
+              Send Invitations
+            </Button>
+          </form>
+
+          <div className="divide-y divide-gray-100">
+            {members.map(member => (
+              <div key={member.id} className="flex justify-between items-center py-3">
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900">{member.email}</p>
+                  <p className="text-xs text-gray-500">
+                    {member.role === 'admin' ? 'Company admin' : 'Employee'} ·{' '}
+                    {member.status === 'active' && member.joined_at
+                      ? `joined ${new Date(member.joined_at).toLocaleDateString()}`
+                      : `invited ${new Date(member.invited_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {member.user_id !== user.id && (
+                  <button
+                    onClick={() => handleRemove(member)}
+                    disabled={actionLoading === member.id}
+                    className="text-red-600 hover:text-red-900 text-sm"
+                  >
+                    {member.status === 'invited' ? 'Withdraw' : 'Remove'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+              <BarChart3 className="w-5 h-5 mr-2" />
+              Usage Report
+            </h2>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {usageLoading ? (
+            <LoadingSpinner size="md" />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sessions used</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attended</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">No-shows</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Late cancellations</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Upcoming</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {usage.map(row => (
+                    <tr key={row.member_id}>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="text-gray-900">{row.full_name || row.email}</div>
+                        {row.full_name && <div className="text-xs text-gray-500">{row.email}</div>}
+                        {row.member_status === 'removed' && <div className="text-xs text-gray-500">Removed</div>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.sessions_booked}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.sessions_attended}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.no_shows}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.late_cancellations}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{row.upcoming}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-sm text-gray-600 mt-4">
+                {usageTotals.booked} sessions used in this period, {usageTotals.attended} attended, {usageTotals.noShows} no-shows.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Session History</h2>
+          {allotment.length > 0 ? (
+            <div className="divide-y divide-gray-100">
+              {allotment.slice(0, HISTORY_LIMIT).map(entry => (
+                <div key={entry.id} className="flex justify-between py-2 text-sm">
+                  <div>
+                    <p className="text-gray-900">{describeEntry(entry)}</p>
+                    <p className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleDateString()}</p>
+                  </div>
+                  <span className={entry.sessions > 0 ? 'text-green-700' : 'text-gray-700'}>
+                    {entry.sessions > 0 ? `+${entry.sessions}` : entry.sessions}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No sessions added yet. Buy a pack above or contact us for custom pricing.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { CreditCard } from 'lucide-react'
+import { Button } from '../components/UI/Button'
+import { formatPrice } from '../utils/payments'
+
+// Only paths on this site; anything else (another origin, `//host`,
+// `javascript:`) falls back to the home page
+function getReturnPath(value: string | null): string {
+  if (!value) return '/'
+  try {
+    const url = new URL(value, window.location.origin)
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/'
+  } catch {
+    return '/'
+  }
+}
+
+// Checkout page of the local fake payment provider. It plays the provider's
+// part: reports the result to the payment webhook, then redirects back.
+export function FakeCheckout() {
+  const [searchParams] = useSearchParams()
+  const [loading, setLoading] = useState<'paid' | 'failed' | null>(null)
+
+  const paymentId = searchParams.get('payment') || ''
+  const reference = searchParams.get('reference') || ''
+  const amount = parseInt(searchParams.get('amount') || '0')
+  const currency = searchParams.get('currency') || 'USD'
+
+  const handleResult = async (type: 'paid' | 'failed') => {
+    try {
+      setLoading(type)
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/payment-webhook`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, payment_id: paymentId, reference })
+      })
+
+      if (!response.ok) throw new Error(await response.text())
+      window.location.href = getReturnPath(searchParams.get(type === 'paid' ? 'success' : 'cancel'))
+    } catch (error: any) {
+      console.error('Error sending fake payment event:', error)
+      alert(error.message || 'Failed to send payment result')
+      setLoading(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4">
+      <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-6">
+          <p className="text-yellow-800 text-sm">Test checkout. No real payment is taken.</p>
+        </div>
+        <div className="flex items-center mb-4">
+          <CreditCard className="w-6 h-6 text-gray-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Checkout</h1>
+        </div>
+        <p className="text-gray-600">{searchParams.get('description')}</p>
+        <p className="text-3xl font-bold text-gray-900 my-6">{formatPrice(amount, currency)}</p>
+        <div className="flex gap-3">
+          <Button onClick={() => handleResult('paid')} loading={loading === 'paid'} disabled={loading !== null} className="flex-1">
+            Pay
+          </Button>
+          <Button variant="outline" onClick={() => handleResult('failed')} loading={loading === 'failed'} disabled={loading !== null} className="flex-1">
+            Decline
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { useSearchParams } from 'react-router-dom'
+import { Video } from 'lucide-react'
+
+// Room page of the local fake video provider, so the join flow can be
+// followed end to end without a video account
+export function FakeClassroom() {
+  const [searchParams] = useSearchParams()
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4">
+      <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full text-center">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-6">
+          <p className="text-yellow-800 text-sm">Test class room. No video call takes place.</p>
+        </div>
+        <Video className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{searchParams.get('topic') || 'Class room'}</h1>
+        <p className="text-sm text-gray-500 break-all">Room {searchParams.get('room')}</p>
+      </div>
+    </div>
+  )
+}
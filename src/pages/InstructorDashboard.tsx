@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react'
+import { Calendar, Users, ChevronDown, ChevronUp, CheckCircle, UserX, Clock, Timer } from 'lucide-react'
+import { CalendarFeedCard } from '../components/Calendar/CalendarFeedCard'
+import { MeetingLinkControls } from '../components/Classroom/MeetingLinkControls'
+import { AvailabilityEditor } from '../components/Instructor/AvailabilityEditor'
+import { Button } from '../components/UI/Button'
+import { LoadingSpinner } from '../components/UI/LoadingSpinner'
+import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../contexts/RoleContext'
+import { useTimeZone } from '../hooks/useTimeZone'
+import { supabase } from '../lib/supabase'
+import { Booking, ClassSession, SessionMeeting } from '../types/booking'
+import { Instructor } from '../types/instructor'
+import { formatDateInZone, formatTimeInZone, getTimeZoneAbbreviation } from '../utils/timezone'
+
+export function InstructorDashboard() {
+  const { user } = useAuth()
+  const { hasRole, loading: rolesLoading } = useRoles()
+  const timeZone = useTimeZone()
+  const [instructor, setInstructor] = useState<Instructor | null>(null)
+  const [sessions, setSessions] = useState<ClassSession[]>([])
+  const [bookings, setBookings] = useState<Booking[]>([])
+  const [meetings, setMeetings] = useState<SessionMeeting[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null)
+
+  const isInstructor = hasRole('yoga_acharya')
+
+  useEffect(() => {
+    if (user && isInstructor) {
+      fetchDashboard()
+    } else if (!rolesLoading) {
+      setLoading(false)
+    }
+  }, [user, isInstructor, rolesLoading])
+
+  const fetchDashboard = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+
+      const { data: instructorData, error: instructorError } = await supabase
+        .from('instructors')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (instructorError) throw instructorError
+      setInstructor(instructorData)
+
+      if (!instructorData) return
+
+      // Last week's classes stay listed so attendance can still be marked
+      const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+      const { data: sessionData, error: sessionsError } = await supabase
+        .from('class_sessions')
+        .select('*')
+        .eq('instructor_id', instructorData.id)
+        .neq('status', 'cancelled')
+        .gte('starts_at', since.toISOString())
+        .order('starts_at', { ascending: true })
+        .limit(100)
+
+      if (sessionsError) throw sessionsError
+
+      const sessionIds = (sessionData || []).map(session => session.id)
+      let bookingData: Booking[] = []
+      if (sessionIds.length > 0) {
+        const { data, error: bookingsError } = await supabase
+          .from('bookings')
+          .select('*')
+          .in('session_id', sessionIds)
+          .order('created_at', { ascending: true })
+
+        if (bookingsError) throw bookingsError
+        bookingData = data || []
+        await fetchMeetings(sessionIds)
+      }
+
+      setSessions(sessionData || [])
+      setBookings(bookingData)
+    } catch (error) {
+      console.error('Error fetching instructor dashboard:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchMeetings = async (sessionIds: string[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('session_meetings')
+        .select('*')
+        .in('session_id', sessionIds)
+
+      if (error) throw error
+      setMeetings(data || [])
+    } catch (error) {
+      console.error('Error fetching class links:', error)
+    }
+  }
+
+  const handleMarkAttendance = async (bookingId: string, status: 'attended' | 'late' | 'no_show') => {
+    try {
+      setActionLoading(bookingId)
+      const { error } = await supabase.rpc('mark_booking_attendance', {
+        p_booking_id: bookingId,
+        p_status: status
+      })
+
+      if (error) throw error
+      setBookings(prev => prev.map(booking =>
+        booking.id === bookingId ? { ...booking, status } : booking
+      ))
+    } catch (error: any) {
+      console.error('Error marking attendance:', error)
+      alert(error.message || 'Failed to mark attendance')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const getRoster = (sessionId: string) => {
+    return bookings.filter(booking =>
+      booking.session_id === sessionId && !['cancelled', 'waitlisted'].includes(booking.status)
+    )
+  }
+
+  const getWaitlistCount = (sessionId: string) => {
+    return bookings.filter(booking => booking.session_id === sessionId && booking.status === 'waitlisted').length
+  }
+
+  const formatSessionTime = (session: ClassSession) => {
+    return `${formatDateInZone(session.starts_at, timeZone, { weekday: 'short', month: 'short' })}, ` +
+      `${formatTimeInZone(session.starts_at, timeZone)} - ${formatTimeInZone(session.ends_at, timeZone)} ` +
+      getTimeZoneAbbreviation(session.starts_at, timeZone)
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'confirmed': return 'bg-green-100 text-green-800'
+      case 'pending': return 'bg-yellow-100 text-yellow-800'
+      case 'pending_payment': return 'bg-yellow-100 text-yellow-800'
+      case 'attended': return 'bg-blue-100 text-blue-800'
+      case 'late': return 'bg-purple-100 text-purple-800'
+      case 'no_show': return 'bg-gray-200 text-gray-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const now = new Date()
+  const upcomingSessions = sessions.filter(session => new Date(session.starts_at) > now)
+  const recentSessions = sessions.filter(session => new Date(session.starts_at) <= now).reverse()
+
+  if (!user || (!rolesLoading && !isInstructor)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h1>
+          <p className="text-gray-600 mb-6">This page is only available to Yogodaan instructors.</p>
+          <a href={user ? '/profile' : '/login'} className="btn-primary">
+            {user ? 'Go to Profile' : 'Sign In'}
+          </a>
+        </div>
+      </div>
+    )
+  }
+
+  if (loading || rolesLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!instructor) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">No instructor profile yet</h1>
+          <p className="text-gray-600">
+            Your account has not been linked to an instructor profile. Please ask an administrator to link it.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const renderSession = (session: ClassSession, markAttendance: boolean) => {
+    const roster = getRoster(session.id)
+    const waitlistCount = getWaitlistCount(session.id)
+    const isExpanded = expandedSessionId === session.id
+
+    return (
+      <div key={session.id} className="border border-gray-200 rounded-lg">
+        <button
+          onClick={() => setExpandedSessionId(isExpanded ? null : session.id)}
+          className="w-full p-4 flex justify-between items-center text-left"
+        >
+          <div>
+            <h3 className="font-semibold text-gray-900">{session.class_type}</h3>
+            <p className="text-sm text-gray-600">{formatSessionTime(session)}</p>
+            <p className="text-sm text-gray-500">
+              {roster.length} / {session.capacity} booked
+              {waitlistCount > 0 && ` · ${waitlistCount} waitlisted`}
+            </p>
+          </div>
+          {isExpanded ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+        </button>
+
+        {isExpanded && (
+          <div className="border-t border-gray-200 p-4">
+            {new Date(session.ends_at) > new Date() && (
+              <div className="mb-4">
+                <MeetingLinkControls
+                  sessionId={session.id}
+                  meeting={meetings.find(meeting => meeting.session_id === session.id)}
+                  onChange={() => fetchMeetings(sessions.map(s => s.id))}
+                />
+              </div>
+            )}
+            {roster.length === 0 ? (
+              <p className="text-sm text-gray-500">No students booked yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {roster.map((booking) => (
+                  <div key={booking.id} className="flex flex-col md:flex-row md:items-start md:justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">{booking.first_name} {booking.last_name}</p>
+                      <p className="text-gray-600 capitalize">{booking.experience_level}</p>
+                      {booking.special_requests && (
+                        <p className="text-gray-600 mt-1">"{booking.special_requests}"</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 mt-2 md:mt-0">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}>
+                        {booking.status === 'no_show' ? 'no-show' : booking.status}
+                      </span>
+                      {markAttendance && (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => handleMarkAttendance(booking.id, 'attended')}
+                            disabled={actionLoading === booking.id || booking.status === 'attended'}
+                            className="flex items-center"
+                          >
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Attended
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMarkAttendance(booking.id, 'late')}
+                            disabled={actionLoading === booking.id || booking.status === 'late'}
+                            className="flex items-center"
+                          >
+                            <Timer className="w-3 h-3 mr-1" />
+                            Late
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMarkAttendance(booking.id, 'no_show')}
+                            disabled={actionLoading === booking.id || booking.status === 'no_show'}
+                            className="flex items-center"
+                          >
+                            <UserX className="w-3 h-3 mr-1" />
+                            No-show
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Namaste, {instructor.display_name}</h1>
+          <p className="text-gray-600">Your classes and rosters. Times are shown in {timeZone}.</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+            <Calendar className="w-5 h-5 mr-2" />
+            Upcoming Sessions
+          </h2>
+          {upcomingSessions.length > 0 ? (
+            <div className="space-y-4">
+              {upcomingSessions.map(session => renderSession(session, false))}
+            </div>
+          ) : (
+            <p className="text-gray-600">No upcoming sessions scheduled.</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+            <Users className="w-5 h-5 mr-2" />
+            Mark Attendance
+          </h2>
+          {recentSessions.length > 0 ? (
+            <div className="space-y-4">
+              {recentSessions.map(session => renderSession(session, true))}
+            </div>
+          ) : (
+            <p className="text-gray-600">No classes in the last week.</p>
+          )}
+        </div>
+
+        <CalendarFeedCard description="Subscribe to see the sessions you teach and your own bookings in your calendar app." />
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+            <Clock className="w-5 h-5 mr-2" />
+            My Availability
+          </h2>
+          <AvailabilityEditor instructor={instructor} onSaved={fetchDashboard} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,44 +2,60 @@ import { useState, useEffect, useMemo } from 'react'
 import { BookOpen, TrendingUp, Award } from 'lucide-react'
 import { ArticleCard } from '../components/Learning/ArticleCard'
 import { ArticleFilters } from '../components/Learning/ArticleFilters'
+import { Button } from '../components/UI/Button'
 import { LoadingSpinner } from '../components/UI/LoadingSpinner'
 import { useArticles } from '../hooks/useArticles'
+import { ArticleSort } from '../types/article'
 
 export function Learning() {
   const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('all')
-  const [sortBy, setSortBy] = useState<'latest' | 'popular' | 'highest_rated'>('latest')
+  const [sortBy, setSortBy] = useState<ArticleSort>('latest')
   
-  const { articles, loading, error, refetch } = useArticles()
-
-  // Memoize filtered articles to prevent unnecessary re-renders
-  const filteredArticles = useMemo(() => {
-    return articles.filter(article => {
-      const matchesSearch = searchTerm === '' || 
-        article.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        article.preview_text.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        article.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
-      
-      const matchesCategory = selectedCategory === 'all' || article.category === selectedCategory
-      
-      return matchesSearch && matchesCategory
-    })
-  }, [articles, searchTerm, selectedCategory])
+  const { articles, totalCount, loading, loadingMore, error, refetch } = useArticles()
+
+  // Search on the server once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  // Starting a search sorts by best match; clearing it goes back to latest
+  const handleSearchChange = (term: string) => {
+    if (term.trim() && !searchTerm.trim()) {
+      setSortBy('relevance')
+    } else if (!term.trim() && sortBy === 'relevance') {
+      setSortBy('latest')
+    }
+    setSearchTerm(term)
+  }
+
+  const activeSort = !debouncedSearch && sortBy === 'relevance' ? 'latest' : sortBy
 
-  // Refetch when filters change (but not search term)
   useEffect(() => {
     refetch({
+      search: debouncedSearch,
       category: selectedCategory,
-      sortBy: sortBy
+      sortBy: activeSort
     })
-  }, [selectedCategory, sortBy, refetch])
+  }, [debouncedSearch, selectedCategory, activeSort, refetch])
+
+  const handleLoadMore = () => {
+    refetch({
+      search: debouncedSearch,
+      category: selectedCategory,
+      sortBy: activeSort,
+      offset: articles.length
+    })
+  }
 
   // Memoize stats to prevent recalculation
   const stats = useMemo(() => [
     {
       icon: <BookOpen className="w-8 h-8 text-blue-600" />,
       title: "Total Articles",
-      value: articles.length.toString(),
+      value: totalCount.toString(),
       description: "Comprehensive yoga guides"
     },
     {
@@ -54,7 +70,7 @@ export function Learning() {
       value: articles.length > 0 ? Math.max(...articles.map(a => a.average_rating)).toFixed(1) : "0",
       description: "Average rating"
     }
-  ], [articles])
+  ], [articles, totalCount])
 
   if (error) {
     return (
@@ -109,7 +125,7 @@ export function Learning() {
           {/* Filters */}
           <ArticleFilters
             searchTerm={searchTerm}
-            onSearchChange={setSearchTerm}
+            onSearchChange={handleSearchChange}
             selectedCategory={selectedCategory}
             onCategoryChange={setSelectedCategory}
             sortBy={sortBy}
@@ -126,7 +142,7 @@ export function Learning() {
           {/* Articles Grid */}
           {!loading && (
             <>
-              {filteredArticles.length === 0 ? (
+              {articles.length === 0 ? (
                 <div className="text-center py-12">
                   <BookOpen className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-xl font-semibold text-gray-900 mb-2">No articles found</h3>
@@ -140,18 +156,26 @@ export function Learning() {
                 <>
                   <div className="flex justify-between items-center mb-8">
                     <h2 className="text-2xl font-bold text-gray-900">
-                      {searchTerm ? `Search results for "${searchTerm}"` : 'Latest Articles'}
+                      {debouncedSearch ? `Search results for "${debouncedSearch}"` : 'Latest Articles'}
                     </h2>
                     <p className="text-gray-600">
-                      {filteredArticles.length} article{filteredArticles.length !== 1 ? 's' : ''} found
+                      {totalCount} article{totalCount !== 1 ? 's' : ''} found
                     </p>
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                    {filteredArticles.map((article) => (
+                    {articles.map((article) => (
                       <ArticleCard key={article.id} article={article} />
                     ))}
                   </div>
+
+                  {articles.length < totalCount && (
+                    <div className="flex justify-center mt-12">
+                      <Button variant="outline" onClick={handleLoadMore} loading={loadingMore}>
+                        Load More Articles
+                      </Button>
+                    </div>
+                  )}
                 </>
               )}
             </>
@@ -1,25 +1,47 @@
 import { useState, useEffect } from 'react'
-import { User, Mail, Calendar, Edit2, Save, X, Shield } from 'lucide-react'
+import { User, Mail, Calendar, Edit2, Save, X, Shield, Globe, RefreshCw, Flame, CalendarPlus, CreditCard, Video } from 'lucide-react'
 import { Button } from '../components/UI/Button'
 import { LoadingSpinner } from '../components/UI/LoadingSpinner'
 import { useAuth } from '../contexts/AuthContext'
 import { useAdmin } from '../contexts/AdminContext'
 import { supabase } from '../lib/supabase'
+import { useTimeZone } from '../hooks/useTimeZone'
+import { BookingPolicy, ClassSession, SessionSeats } from '../types/booking'
+import { YogaQuery } from '../types/query'
+import { InvoicesCard } from '../components/Billing/InvoicesCard'
+import { CalendarFeedCard } from '../components/Calendar/CalendarFeedCard'
+import { CreditsCard } from '../components/Credits/CreditsCard'
+import { QueryConversation } from '../components/Queries/QueryConversation'
+import { NotificationPreferencesCard } from '../components/Notifications/NotificationPreferencesCard'
+import { useCredits } from '../hooks/useCredits'
+import { getPracticeStats } from '../utils/attendance'
+import { downloadBookingCalendar } from '../utils/calendar'
+import { getJoinLink } from '../utils/classroom'
+import { startCheckout } from '../utils/payments'
+import { COMMON_TIME_ZONES, detectTimeZone, formatDateInZone, formatTimeInZone, getTimeZoneAbbreviation } from '../utils/timezone'
 
 export function Profile() {
   const { user } = useAuth()
   const { isAdmin } = useAdmin()
+  const timeZone = useTimeZone()
   const [loading, setLoading] = useState(false)
   const [editing, setEditing] = useState(false)
   const [userBookings, setUserBookings] = useState<any[]>([])
-  const [userQueries, setUserQueries] = useState<any[]>([])
+  const [userQueries, setUserQueries] = useState<YogaQuery[]>([])
+  const [policies, setPolicies] = useState<BookingPolicy[]>([])
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+  const [reschedulingBooking, setReschedulingBooking] = useState<any | null>(null)
+  const [rescheduleOptions, setRescheduleOptions] = useState<ClassSession[]>([])
+  const [rescheduleLoading, setRescheduleLoading] = useState(false)
   const [profileData, setProfileData] = useState({
     fullName: '',
     email: '',
     phone: '',
-    bio: ''
+    bio: '',
+    timezone: ''
   })
   const [errors, setErrors] = useState<any>({})
+  const credits = useCredits(user?.id)
 
   useEffect(() => {
     if (user) {
@@ -28,7 +50,8 @@ export function Profile() {
         fullName: user.user_metadata?.full_name || '',
         email: user.email || '',
         phone: user.user_metadata?.phone || '',
-        bio: user.user_metadata?.bio || ''
+        bio: user.user_metadata?.bio || '',
+        timezone: user.user_metadata?.timezone || ''
       })
       
       fetchUserData()
@@ -44,7 +67,7 @@ export function Profile() {
       // Fetch user's bookings
       const { data: bookings, error: bookingsError } = await supabase
         .from('bookings')
-        .select('*')
+        .select('*, class_sessions(*)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false })
 
@@ -53,14 +76,21 @@ export function Profile() {
       // Fetch user's queries
       const { data: queries, error: queriesError } = await supabase
         .from('yoga_queries')
-        .select('*')
+        .select('*, yoga_query_messages(*)')
         .eq('email', user.email)
         .order('created_at', { ascending: false })
 
       if (queriesError) throw queriesError
 
+      const { data: policyData, error: policiesError } = await supabase
+        .from('booking_policies')
+        .select('*')
+
+      if (policiesError) throw policiesError
+
       setUserBookings(bookings || [])
       setUserQueries(queries || [])
+      setPolicies(policyData || [])
     } catch (error) {
       console.error('Error fetching user data:', error)
     } finally {
@@ -68,7 +98,7 @@ export function Profile() {
     }
   }
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target
     setProfileData(prev => ({ ...prev, [name]: value }))
     if (errors[name]) {
@@ -99,7 +129,9 @@ export function Profile() {
         data: {
           full_name: profileData.fullName,
           phone: profileData.phone,
-          bio: profileData.bio
+          bio: profileData.bio,
+          // Empty means follow the browser's zone
+          timezone: profileData.timezone || null
         }
       })
 
@@ -122,10 +154,241 @@ export function Profile() {
     })
   }
 
+  const formatTime = (dateString: string) => {
+    return `${formatTimeInZone(dateString, timeZone)} ${getTimeZoneAbbreviation(dateString, timeZone)}`
+  }
+
+  const formatBookingDate = (booking: any) => {
+    if (booking.class_sessions) {
+      return formatDateInZone(booking.class_sessions.starts_at, timeZone)
+    }
+    // Legacy bookings only recorded a calendar date, so don't shift it
+    return formatDateInZone(booking.class_date, 'UTC')
+  }
+
+  // Instructor's local time alongside, when they teach from another zone
+  const formatInstructorTime = (booking: any) => {
+    const session = booking.class_sessions
+    if (!session?.timezone || session.timezone === timeZone) return null
+    return `${formatTimeInZone(session.starts_at, session.timezone)} ${getTimeZoneAbbreviation(session.starts_at, session.timezone)}`
+  }
+
+  const timeZoneOptions = COMMON_TIME_ZONES.includes(profileData.timezone) || !profileData.timezone
+    ? COMMON_TIME_ZONES
+    : [profileData.timezone, ...COMMON_TIME_ZONES]
+
+  const getPolicy = (booking: any) => {
+    return policies.find(p => p.service === booking.class_sessions?.service)
+  }
+
+  const getHoursUntilClass = (booking: any) => {
+    return (new Date(booking.class_sessions.starts_at).getTime() - Date.now()) / 3600000
+  }
+
+  // Only upcoming, still-active bookings of a real session can be changed
+  const canManageBooking = (booking: any) => {
+    return booking.class_sessions &&
+      ['pending', 'pending_payment', 'confirmed', 'waitlisted'].includes(booking.status) &&
+      getHoursUntilClass(booking) > 0
+  }
+
+  const isLateCancellation = (booking: any) => {
+    const policy = getPolicy(booking)
+    return !['waitlisted', 'pending_payment'].includes(booking.status) &&
+      getHoursUntilClass(booking) < (policy?.cancel_window_hours ?? 12)
+  }
+
+  const canCancel = (booking: any) => {
+    return !isLateCancellation(booking) || (getPolicy(booking)?.allow_late_cancellation ?? true)
+  }
+
+  // Classes can be joined until they end, so this outlives canManageBooking
+  const canJoin = (booking: any) => {
+    return booking.class_sessions &&
+      booking.class_sessions.status !== 'cancelled' &&
+      ['confirmed', 'attended', 'late'].includes(booking.status) &&
+      new Date(booking.class_sessions.ends_at).getTime() > Date.now()
+  }
+
+  const canReschedule = (booking: any) => {
+    return booking.status !== 'pending_payment' && getHoursUntilClass(booking) >= (getPolicy(booking)?.reschedule_window_hours ?? 12)
+  }
+
+  const getPolicyNote = (booking: any) => {
+    const policy = getPolicy(booking)
+    const cancelHours = policy?.cancel_window_hours ?? 12
+    if (booking.status === 'waitlisted') return 'You can leave the waitlist at any time.'
+    if (booking.status === 'pending_payment') {
+      return `Your spot is held until ${formatDateInZone(booking.payment_expires_at, timeZone, { month: 'short' })}, ${formatTime(booking.payment_expires_at)}. Complete the payment to confirm it.`
+    }
+    if (!isLateCancellation(booking)) {
+      return booking.payment_method === 'credit'
+        ? `Free cancellation up to ${cancelHours} hours before class, and your credit is returned.`
+        : `Free cancellation up to ${cancelHours} hours before class.`
+    }
+    return canCancel(booking)
+      ? `Less than ${cancelHours} hours to go: cancelling now counts as a late cancellation${booking.payment_method === 'credit' ? ' and uses up your credit' : ''}.`
+      : `Cancellations close ${cancelHours} hours before class.`
+  }
+
+  const handleCancelBooking = async (booking: any) => {
+    const message = isLateCancellation(booking)
+      ? booking.payment_method === 'credit'
+        ? 'This class starts soon, so cancelling now will be recorded as a late cancellation and the class credit will not be returned. Cancel anyway?'
+        : 'This class starts soon, so cancelling now will be recorded as a late cancellation. Cancel anyway?'
+      : 'Cancel this booking?'
+    if (!confirm(message)) return
+
+    try {
+      setActionLoading(booking.id)
+      const { error } = await supabase.rpc('cancel_my_booking', { p_booking_id: booking.id })
+
+      if (error) throw error
+      await Promise.all([fetchUserData(), credits.refetch()])
+    } catch (error: any) {
+      console.error('Error cancelling booking:', error)
+      alert(error.message || 'Failed to cancel booking')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handlePayNow = async (booking: any) => {
+    try {
+      setActionLoading(booking.id)
+      await startCheckout(booking.id)
+    } catch (error: any) {
+      console.error('Error starting checkout:', error)
+      alert(error.message || 'Failed to start checkout')
+      setActionLoading(null)
+    }
+  }
+
+  const handleAddToCalendar = async (booking: any) => {
+    try {
+      setActionLoading(booking.id)
+      await downloadBookingCalendar(booking.id)
+    } catch (error: any) {
+      console.error('Error downloading calendar file:', error)
+      alert(error.message || 'Failed to create the calendar file')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleJoinClass = async (booking: any) => {
+    try {
+      setActionLoading(booking.id)
+      const link = await getJoinLink(booking.id)
+
+      if (!link.url) {
+        alert(`The class link opens at ${formatTime(link.opens_at)}, shortly before class starts. See you then!`)
+        return
+      }
+
+      window.open(link.url, '_blank', 'noopener')
+    } catch (error: any) {
+      console.error('Error joining class:', error)
+      alert(error.message || 'Failed to get the class link')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleQueryReply = async (query: YogaQuery, body: string) => {
+    const { error } = await supabase.rpc('reply_to_query', { p_token: query.reply_token, p_body: body })
+    if (error) throw error
+
+    const { data, error: threadError } = await supabase
+      .from('yoga_queries')
+      .select('*, yoga_query_messages(*)')
+      .eq('id', query.id)
+      .single()
+
+    if (threadError) throw threadError
+    setUserQueries(prev => prev.map(existing => existing.id === query.id ? data : existing))
+  }
+
+  const handleOpenReschedule = async (booking: any) => {
+    if (reschedulingBooking?.id === booking.id) {
+      setReschedulingBooking(null)
+      return
+    }
+
+    try {
+      setReschedulingBooking(booking)
+      setRescheduleLoading(true)
+
+      const { data, error } = await supabase
+        .from('class_sessions')
+        .select('*')
+        .eq('service', booking.class_sessions.service)
+        .eq('status', 'scheduled')
+        .neq('id', booking.class_sessions.id)
+        .gt('starts_at', new Date().toISOString())
+        .order('starts_at', { ascending: true })
+        .limit(30)
+
+      if (error) throw error
+
+      const sessionIds = (data || []).map(session => session.id)
+      let seats: SessionSeats[] = []
+      if (sessionIds.length > 0) {
+        const { data: seatsData, error: seatsError } = await supabase
+          .from('class_session_seats')
+          .select('*')
+          .in('session_id', sessionIds)
+
+        if (seatsError) throw seatsError
+        seats = seatsData || []
+      }
+
+      // Rescheduling only moves into sessions that still have a free seat
+      setRescheduleOptions((data || []).filter(session => {
+        const sessionSeats = seats.find(s => s.session_id === session.id)
+        return (sessionSeats?.seats_taken || 0) < session.capacity
+      }))
+    } catch (error) {
+      console.error('Error fetching reschedule options:', error)
+      setRescheduleOptions([])
+    } finally {
+      setRescheduleLoading(false)
+    }
+  }
+
+  const handleReschedule = async (sessionId: string) => {
+    if (!reschedulingBooking) return
+
+    try {
+      setActionLoading(reschedulingBooking.id)
+      const { error } = await supabase.rpc('reschedule_my_booking', {
+        p_booking_id: reschedulingBooking.id,
+        p_new_session_id: sessionId
+      })
+
+      if (error) throw error
+      setReschedulingBooking(null)
+      await fetchUserData()
+      alert('Your booking has been moved to the new session.')
+    } catch (error: any) {
+      console.error('Error rescheduling booking:', error)
+      alert(error.message || 'Failed to reschedule booking')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const practiceStats = getPracticeStats(userBookings, timeZone)
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800'
       case 'pending': return 'bg-yellow-100 text-yellow-800'
+      case 'pending_payment': return 'bg-yellow-100 text-yellow-800'
+      case 'waitlisted': return 'bg-orange-100 text-orange-800'
+      case 'cancelled': return 'bg-red-100 text-red-800'
+      case 'attended': return 'bg-blue-100 text-blue-800'
+      case 'late': return 'bg-purple-100 text-purple-800'
       case 'responded': return 'bg-blue-100 text-blue-800'
       default: return 'bg-gray-100 text-gray-800'
     }
@@ -303,6 +566,30 @@ export function Profile() {
                   )}
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Time Zone
+                  </label>
+                  {editing ? (
+                    <select
+                      name="timezone"
+                      value={profileData.timezone}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Automatic ({detectTimeZone()})</option>
+                      {timeZoneOptions.map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-gray-900 flex items-center">
+                      <Globe className="w-4 h-4 mr-2 text-gray-500" />
+                      {profileData.timezone || `Automatic (${detectTimeZone()})`}
+                    </p>
+                  )}
+                </div>
+
                 <div className="pt-4 border-t border-gray-200">
                   <div className="flex items-center text-sm text-gray-600">
                     <Calendar className="w-4 h-4 mr-2" />
@@ -311,11 +598,57 @@ export function Profile() {
                 </div>
               </div>
             </div>
+
+            <div className="mt-8">
+              <CalendarFeedCard description="Subscribe from Google Calendar, Apple Calendar or Outlook to see your upcoming classes." />
+            </div>
+
+            <div className="mt-8">
+              <InvoicesCard />
+            </div>
+
+            <div className="mt-8">
+              <NotificationPreferencesCard />
+            </div>
           </div>
 
           {/* Activity */}
           <div className="lg:col-span-2">
             <div className="space-y-8">
+              {/* Practice */}
+              {practiceStats.totalAttended > 0 && (
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+                    <Flame className="w-5 h-5 mr-2 text-orange-500" />
+                    Your Practice
+                  </h2>
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div>
+                      <p className="text-3xl font-bold text-gray-900">{practiceStats.totalAttended}</p>
+                      <p className="text-sm text-gray-600">Sessions attended</p>
+                    </div>
+                    <div>
+                      <p className="text-3xl font-bold text-gray-900">{practiceStats.currentStreakWeeks}</p>
+                      <p className="text-sm text-gray-600">Week streak</p>
+                    </div>
+                    <div>
+                      <p className="text-3xl font-bold text-gray-900">{practiceStats.longestStreakWeeks}</p>
+                      <p className="text-sm text-gray-600">Longest streak</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <CreditsCard
+                lots={credits.lots}
+                history={credits.history}
+                memberships={credits.memberships}
+                products={credits.products}
+                balance={credits.balance}
+                loading={credits.loading}
+                onRefresh={credits.refetch}
+              />
+
               {/* Recent Bookings */}
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <h2 className="text-xl font-semibold text-gray-900 mb-6">Recent Bookings</h2>
@@ -328,16 +661,121 @@ export function Profile() {
                     {userBookings.slice(0, 5).map((booking) => (
                       <div key={booking.id} className="border border-gray-200 rounded-lg p-4">
                         <div className="flex justify-between items-start mb-2">
-                          <h3 className="font-semibold text-gray-900">{booking.class_name}</h3>
+                          <h3 className="font-semibold text-gray-900">{booking.class_sessions?.class_type || booking.class_name}</h3>
                           <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(booking.status)}`}>
-                            {booking.status}
+                            {booking.status === 'no_show' ? 'no-show' : booking.status === 'pending_payment' ? 'awaiting payment' : booking.status}
                           </span>
                         </div>
                         <div className="text-sm text-gray-600 space-y-1">
-                          <p>Instructor: {booking.instructor}</p>
-                          <p>Date: {formatDate(booking.class_date)}</p>
-                          <p>Time: {booking.class_time}</p>
+                          <p>Instructor: {booking.class_sessions?.instructor || booking.instructor}</p>
+                          <p>Date: {formatBookingDate(booking)}</p>
+                          <p>
+                            Time: {booking.class_sessions ? formatTime(booking.class_sessions.starts_at) : booking.class_time}
+                            {formatInstructorTime(booking) && (
+                              <span className="text-gray-500"> ({formatInstructorTime(booking)} for the instructor)</span>
+                            )}
+                          </p>
+                          {booking.payment_method === 'credit' && <p>Booked with a class credit</p>}
+                          {booking.payment_method === 'membership' && <p>Included in your membership</p>}
+                          {booking.payment_method === 'organization' && <p>Sponsored by your company</p>}
+                          {booking.late_cancellation && (
+                            <p className="text-orange-600">Late cancellation</p>
+                          )}
                         </div>
+
+                        {canJoin(booking) && (
+                          <div className="mt-3">
+                            <Button
+                              size="sm"
+                              onClick={() => handleJoinClass(booking)}
+                              loading={actionLoading === booking.id}
+                              className="flex items-center"
+                            >
+                              <Video className="w-3 h-3 mr-1" />
+                              Join Class
+                            </Button>
+                          </div>
+                        )}
+
+                        {canManageBooking(booking) && (
+                          <div className="mt-3 pt-3 border-t border-gray-100">
+                            <p className="text-xs text-gray-500 mb-2">{getPolicyNote(booking)}</p>
+                            <div className="flex space-x-2">
+                              {booking.status === 'pending_payment' && (
+                                <Button
+                                  size="sm"
+                                  onClick={() => handlePayNow(booking)}
+                                  loading={actionLoading === booking.id}
+                                  className="flex items-center"
+                                >
+                                  <CreditCard className="w-3 h-3 mr-1" />
+                                  Complete Payment
+                                </Button>
+                              )}
+                              {!['waitlisted', 'pending_payment'].includes(booking.status) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleAddToCalendar(booking)}
+                                  disabled={actionLoading === booking.id}
+                                  className="flex items-center"
+                                >
+                                  <CalendarPlus className="w-3 h-3 mr-1" />
+                                  Add to Calendar
+                                </Button>
+                              )}
+                              {canReschedule(booking) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleOpenReschedule(booking)}
+                                  disabled={actionLoading === booking.id}
+                                  className="flex items-center"
+                                >
+                                  <RefreshCw className="w-3 h-3 mr-1" />
+                                  Reschedule
+                                </Button>
+                              )}
+                              {canCancel(booking) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleCancelBooking(booking)}
+                                  loading={actionLoading === booking.id}
+                                  className="border-red-300 text-red-600 hover:bg-red-50"
+                                >
+                                  {booking.status === 'waitlisted' ? 'Leave Waitlist' : 'Cancel'}
+                                </Button>
+                              )}
+                            </div>
+
+                            {reschedulingBooking?.id === booking.id && (
+                              <div className="mt-3">
+                                {rescheduleLoading ? (
+                                  <LoadingSpinner size="sm" />
+                                ) : rescheduleOptions.length > 0 ? (
+                                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                    {rescheduleOptions.map((session) => (
+                                      <button
+                                        key={session.id}
+                                        onClick={() => handleReschedule(session.id)}
+                                        disabled={actionLoading === booking.id}
+                                        className="p-2 text-left text-sm rounded-lg border border-gray-200 bg-gray-50 hover:bg-blue-50"
+                                      >
+                                        <div className="font-medium text-gray-900">
+                                          {formatDateInZone(session.starts_at, timeZone, { month: 'short' })}, {formatTime(session.starts_at)}
+                                        </div>
+                                        <div className="text-xs text-gray-500">{session.class_type} with {session.instructor}</div>
+                                      </button>
+                                    ))}
+                                  </div>
+                                ) : (
+                                  <p className="text-sm text-gray-500">No other open sessions are available right now.</p>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                     {userBookings.length > 5 && (
@@ -366,35 +804,30 @@ export function Profile() {
                   </div>
                 ) : userQueries.length > 0 ? (
                   <div className="space-y-4">
-                    {userQueries.slice(0, 3).map((query) => (
+                    {userQueries.map((query) => (
                       <div key={query.id} className="border border-gray-200 rounded-lg p-4">
-                        <div className="flex justify-between items-start mb-2">
-                          <h3 className="font-semibold text-gray-900">{query.subject}</h3>
+                        <div className="flex justify-between items-start mb-3">
+                          <div>
+                            <h3 className="font-semibold text-gray-900">{query.subject}</h3>
+                            <div className="text-xs text-gray-500">Asked on {formatDate(query.created_at)}</div>
+                          </div>
                           <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(query.status)}`}>
-                            {query.status}
+                            {query.status === 'responded' ? 'answered' : query.status}
                           </span>
                         </div>
-                        <p className="text-sm text-gray-600 mb-2">{query.message}</p>
-                        <div className="text-xs text-gray-500">
-                          Asked on {formatDate(query.created_at)}
-                        </div>
-                        {query.response && (
-                          <div className="mt-3 p-3 bg-blue-50 rounded-lg">
-                            <p className="text-sm text-blue-900">{query.response}</p>
-                            {query.responded_at && (
-                              <p className="text-xs text-blue-600 mt-1">
-                                Responded on {formatDate(query.responded_at)}
-                              </p>
-                            )}
-                          </div>
-                        )}
+                        <QueryConversation
+                          askerName={query.name}
+                          question={query.message}
+                          askedAt={query.created_at}
+                          messages={[...(query.yoga_query_messages || [])].sort(
+                            (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+                          )}
+                          viewer="asker"
+                          onReply={(body) => handleQueryReply(query, body)}
+                          replyPlaceholder="Ask a follow-up question..."
+                        />
                       </div>
                     ))}
-                    {userQueries.length > 3 && (
-                      <p className="text-sm text-gray-500 text-center">
-                        And {userQueries.length - 3} more question{userQueries.length - 3 !== 1 ? 's' : ''}
-                      </p>
-                    )}
                   </div>
                 ) : (
                   <div className="text-center py-8">
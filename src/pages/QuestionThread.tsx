@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import { MessageCircle } from 'lucide-react'
+import { LoadingSpinner } from '../components/UI/LoadingSpinner'
+import { QueryConversation } from '../components/Queries/QueryConversation'
+import { supabase } from '../lib/supabase'
+import { QueryThread } from '../types/query'
+
+// Opened from the link in an answer email; the token in the URL is the only
+// thing that grants access, so the asker doesn't need an account
+export function QuestionThread() {
+  const { token } = useParams<{ token: string }>()
+  const [thread, setThread] = useState<QueryThread | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchThread()
+  }, [token])
+
+  const fetchThread = async () => {
+    if (!token) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_query_thread', { p_token: token })
+
+      if (error) throw error
+      setThread(data)
+    } catch (error) {
+      console.error('Error fetching question:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReply = async (body: string) => {
+    const { error } = await supabase.rpc('reply_to_query', { p_token: token, p_body: body })
+    if (error) throw error
+    await fetchThread()
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!thread) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Question not found</h1>
+          <p className="text-gray-600 mb-6">The link may be incomplete. You can always ask us something new.</p>
+          <a href="/contact" className="btn-primary">Ask a Question</a>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <MessageCircle className="w-6 h-6 mr-2 text-blue-600" />
+              {thread.subject}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">Asked on {new Date(thread.created_at).toLocaleDateString()}</p>
+          </div>
+          <span className={`px-2 py-1 text-xs rounded-full ${
+            thread.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-blue-100 text-blue-800'
+          }`}>
+            {thread.status === 'pending' ? 'Waiting for our reply' : 'Answered'}
+          </span>
+        </div>
+
+        <QueryConversation
+          askerName={thread.name}
+          question={thread.message}
+          askedAt={thread.created_at}
+          messages={thread.messages}
+          viewer="asker"
+          onReply={handleReply}
+          replyPlaceholder="Ask a follow-up question..."
+        />
+      </div>
+    </div>
+  )
+}
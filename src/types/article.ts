@@ -1,5 +1,8 @@
+export type ArticleStatus = 'draft' | 'scheduled' | 'published'
+
 export interface Article {
   id: string
+  slug: string
   title: string
   content: string
   preview_text: string
@@ -7,11 +10,15 @@ export interface Article {
   video_url?: string
   category: string
   tags: string[]
-  status: 'draft' | 'published'
+  status: ArticleStatus
   view_count: number
   created_at: string
   updated_at: string
   published_at?: string
+  // When a scheduled article goes live
+  publish_at?: string | null
+  // When the article goes back to draft, if ever
+  expires_at?: string | null
   average_rating?: number
   total_ratings?: number
 }
@@ -34,4 +41,31 @@ export interface ArticleView {
 export interface ArticleWithStats extends Article {
   average_rating: number
   total_ratings: number
-}
\ No newline at end of file
+}
+export type ArticleSort = 'relevance' | 'latest' | 'popular' | 'highest_rated'
+
+// A row from search_articles; the body itself is left out
+export interface ArticleSearchResult extends Omit<ArticleWithStats, 'content'> {
+  // Matching passages of the body with <mark> around the hits, when searching
+  snippet: string | null
+  rank: number
+  total_count: number
+}
+
+export interface ArticleRevision {
+  id: string
+  article_id: string
+  revision_number: number
+  title: string
+  slug: string
+  content: string
+  preview_text: string
+  image_url?: string | null
+  video_url?: string | null
+  category: string
+  tags: string[]
+  status: ArticleStatus
+  author_id?: string | null
+  restored_from?: string | null
+  created_at: string
+}
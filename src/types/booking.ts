@@ -0,0 +1,167 @@
+export type ServiceType = '1on1' | 'group' | 'corporate'
+
+export type BookingStatus = 'pending' | 'pending_payment' | 'waitlisted' | 'confirmed' | 'attended' | 'late' | 'no_show' | 'cancelled'
+
+export interface ClassSession {
+  id: string
+  service: ServiceType
+  class_type: string
+  instructor: string
+  instructor_id?: string | null
+  starts_at: string
+  ends_at: string
+  timezone: string
+  capacity: number
+  status: 'scheduled' | 'cancelled' | 'completed'
+  notes?: string
+  series_id?: string | null
+  occurrence_date?: string | null
+  organization_id?: string | null
+  created_at: string
+  updated_at: string
+  seats_taken?: number
+  waitlist_count?: number
+}
+
+export interface SessionMeeting {
+  session_id: string
+  provider: string
+  meeting_url: string
+  provider_reference?: string | null
+  updated_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ClassSeries {
+  id: string
+  service: ServiceType
+  class_type: string
+  instructor: string
+  instructor_id?: string | null
+  capacity: number
+  start_time: string
+  duration_minutes: number
+  timezone: string
+  by_weekday: number[]
+  interval_weeks: number
+  starts_on: string
+  until_date?: string | null
+  occurrence_count?: number | null
+  status: 'active' | 'ended'
+  created_at: string
+  updated_at: string
+}
+
+export interface ClassSeriesException {
+  id: string
+  series_id: string
+  occurrence_date: string
+  is_cancelled: boolean
+  new_starts_at?: string | null
+  new_instructor?: string | null
+  new_instructor_id?: string | null
+  reason?: string
+  created_at: string
+}
+
+export interface SessionSeats {
+  session_id: string
+  capacity: number
+  seats_taken: number
+  waitlist_count: number
+}
+
+export interface BookingResult {
+  booking_id: string
+  booking_status: 'confirmed' | 'pending_payment' | 'waitlisted'
+  waitlist_position: number | null
+}
+
+export interface BookingPolicy {
+  service: ServiceType
+  cancel_window_hours: number
+  allow_late_cancellation: boolean
+  reschedule_window_hours: number
+  price_cents: number
+  currency: string
+  payment_hold_minutes: number
+  created_at: string
+  updated_at: string
+}
+
+export type BookingActor = 'student' | 'instructor' | 'admin' | 'system'
+
+export interface BookingStatusTransition {
+  from_status: BookingStatus
+  to_status: BookingStatus
+  // Who may make the change
+  actors: BookingActor[]
+}
+
+export interface BookingEvent {
+  id: string
+  booking_id: string
+  event_type: string
+  from_status?: string | null
+  to_status?: string | null
+  from_session_id?: string | null
+  to_session_id?: string | null
+  actor_id?: string | null
+  note?: string
+  created_at: string
+}
+
+export interface Booking {
+  id: string
+  user_id?: string
+  session_id?: string
+  class_name?: string
+  instructor?: string
+  instructor_id?: string | null
+  class_date?: string
+  class_time?: string
+  first_name: string
+  last_name: string
+  email: string
+  phone: string
+  experience_level: string
+  special_requests?: string
+  emergency_contact: string
+  emergency_phone: string
+  timezone?: string
+  status: BookingStatus
+  late_cancellation?: boolean
+  cancelled_at?: string | null
+  payment_expires_at?: string | null
+  payment_method?: 'payment' | 'credit' | 'membership' | 'organization' | null
+  organization_id?: string | null
+  promo_code_id?: string | null
+  discount_cents?: number
+  created_at: string
+  updated_at: string
+  class_sessions?: ClassSession | null
+}
+
+export interface StudentAttendance {
+  email: string
+  student_name: string
+  classes_booked: number
+  attended: number
+  late: number
+  no_show: number
+  attendance_rate: number | null
+}
+
+export interface ClassTurnout {
+  session_id: string
+  class_type: string
+  instructor: string
+  starts_at: string
+  capacity: number
+  booked: number
+  attended: number
+  late: number
+  no_show: number
+  unmarked: number
+}
@@ -0,0 +1,36 @@
+export type ContactStatus = 'new' | 'open' | 'waiting' | 'resolved'
+
+export type ContactNoteKind = 'note' | 'reply'
+
+export interface ContactMessageNote {
+  id: string
+  contact_message_id: string
+  kind: ContactNoteKind
+  author_id?: string | null
+  body: string
+  created_at: string
+}
+
+export interface ContactMessage {
+  id: string
+  name: string
+  email: string
+  phone?: string
+  subject: string
+  message: string
+  status: ContactStatus
+  assigned_to?: string | null
+  tags: string[]
+  first_response_at?: string | null
+  resolved_at?: string | null
+  merged_into?: string | null
+  created_at: string
+  updated_at?: string
+  contact_message_notes?: ContactMessageNote[]
+}
+
+export interface StaffMember {
+  user_id: string
+  email: string
+  full_name: string
+}
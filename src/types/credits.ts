@@ -0,0 +1,53 @@
+export type ProductKind = 'pack' | 'membership'
+
+export interface Product {
+  id: string
+  name: string
+  description: string
+  kind: ProductKind
+  service: string
+  credits: number | null
+  duration_days: number
+  price_cents: number
+  currency: string
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type CreditEntryType = 'purchase' | 'redeem' | 'refund' | 'expiry' | 'adjustment'
+
+export interface CreditLedgerEntry {
+  id: string
+  user_id: string
+  lot_id: string
+  entry_type: CreditEntryType
+  credits: number
+  service: string | null
+  expires_at: string | null
+  booking_id: string | null
+  payment_id: string | null
+  note: string
+  created_at: string
+}
+
+export interface CreditLot {
+  lot_id: string
+  user_id: string
+  service: string
+  expires_at: string
+  created_at: string
+  purchased: number
+  remaining: number
+}
+
+export interface Membership {
+  id: string
+  user_id: string
+  product_id: string | null
+  payment_id: string | null
+  service: string
+  starts_at: string
+  ends_at: string
+  created_at: string
+}
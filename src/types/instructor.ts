@@ -0,0 +1,38 @@
+export interface Instructor {
+  id: string
+  user_id?: string | null
+  display_name: string
+  bio?: string
+  timezone: string
+  private_session_minutes: number
+  buffer_minutes: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface InstructorAvailability {
+  id: string
+  instructor_id: string
+  weekday: number
+  start_time: string
+  end_time: string
+  created_at: string
+}
+
+export interface InstructorBlackout {
+  id: string
+  instructor_id: string
+  starts_on: string
+  ends_on: string
+  reason?: string
+  created_at: string
+}
+
+export interface OneOnOneSlot {
+  instructor_id: string
+  instructor_name: string
+  timezone: string
+  starts_at: string
+  ends_at: string
+}
@@ -0,0 +1,57 @@
+export interface InvoiceLine {
+  id: string
+  invoice_id: string
+  position: number
+  description: string
+  quantity: number
+  unit_amount_cents: number
+  amount_cents: number
+}
+
+export interface Invoice {
+  id: string
+  invoice_number: string
+  payment_id: string | null
+  user_id: string | null
+  issued_at: string
+  currency: string
+  subtotal_cents: number
+  tax_cents: number
+  total_cents: number
+  tax_label: string
+  tax_rate: number
+  billing_name: string
+  billing_email: string
+  billing_address: string
+  billing_tax_id: string
+  seller_name: string
+  seller_address: string
+  seller_tax_id: string
+  created_at: string
+  invoice_lines?: InvoiceLine[]
+}
+
+export interface BillingAddress {
+  user_id: string
+  full_name: string
+  company: string
+  address_line1: string
+  address_line2: string
+  city: string
+  postal_code: string
+  region: string
+  country: string
+  tax_id: string
+  updated_at?: string
+}
+
+export interface InvoiceSettings {
+  seller_name: string
+  seller_address: string
+  seller_tax_id: string
+  tax_label: string
+  tax_rate: number
+  number_prefix: string
+  next_number: number
+  updated_at?: string
+}
@@ -0,0 +1,45 @@
+export type NotificationTemplate = 'booking_confirmed' | 'class_reminder' | 'booking_cancelled' | 'waitlist_promoted' | 'query_answered' | 'contact_reply'
+
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp'
+
+export type NotificationStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled' | 'skipped'
+
+export interface OutboxMessage {
+  id: string
+  channel: NotificationChannel
+  template: NotificationTemplate
+  recipient: string
+  subject: string
+  payload: Record<string, any>
+  status: NotificationStatus
+  attempts: number
+  last_error: string
+  send_after: string
+  provider?: string | null
+  provider_message_id?: string | null
+  sent_at?: string | null
+  user_id?: string | null
+  booking_id?: string | null
+  query_id?: string | null
+  contact_message_id?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface NotificationPreferences {
+  user_id: string
+  booking_updates_email: boolean
+  booking_updates_sms: boolean
+  booking_updates_whatsapp: boolean
+  reminders_email: boolean
+  reminders_sms: boolean
+  reminders_whatsapp: boolean
+  remind_day_before: boolean
+  remind_hour_before: boolean
+  phone: string
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+  timezone: string
+  created_at?: string
+  updated_at?: string
+}
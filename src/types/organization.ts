@@ -0,0 +1,56 @@
+export type OrganizationRole = 'admin' | 'member'
+
+export type OrganizationMemberStatus = 'invited' | 'active' | 'removed'
+
+export interface Organization {
+  id: string
+  name: string
+  email_domains: string[]
+  seat_limit: number | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+  organization_members?: OrganizationMember[]
+  organization_allotments?: OrganizationAllotmentEntry[]
+}
+
+export interface OrganizationMember {
+  id: string
+  organization_id: string
+  user_id: string | null
+  email: string
+  role: OrganizationRole
+  status: OrganizationMemberStatus
+  invited_by?: string | null
+  invited_at: string
+  joined_at: string | null
+  created_at: string
+  organizations?: Organization | null
+}
+
+export type AllotmentEntryType = 'purchase' | 'redeem' | 'refund' | 'adjustment'
+
+export interface OrganizationAllotmentEntry {
+  id: string
+  organization_id: string
+  entry_type: AllotmentEntryType
+  sessions: number
+  booking_id: string | null
+  payment_id: string | null
+  note: string
+  created_by?: string | null
+  created_at: string
+}
+
+export interface OrganizationUsageRow {
+  member_id: string
+  email: string
+  full_name: string
+  role: OrganizationRole
+  member_status: OrganizationMemberStatus
+  sessions_booked: number
+  sessions_attended: number
+  no_shows: number
+  late_cancellations: number
+  upcoming: number
+}
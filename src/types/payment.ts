@@ -0,0 +1,25 @@
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'expired' | 'refund_required' | 'refunded'
+
+export interface Payment {
+  id: string
+  booking_id: string | null
+  product_id?: string | null
+  user_id?: string | null
+  organization_id?: string | null
+  provider: string
+  provider_reference?: string | null
+  amount_cents: number
+  currency: string
+  status: PaymentStatus
+  checkout_url?: string | null
+  paid_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BookingPaymentStatus {
+  booking_status: string
+  payment_expires_at: string | null
+  amount_cents: number
+  currency: string
+}
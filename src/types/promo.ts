@@ -0,0 +1,38 @@
+export type DiscountType = 'percent' | 'fixed'
+
+export interface PromoCode {
+  id: string
+  code: string
+  description: string
+  discount_type: DiscountType
+  discount_value: number
+  currency: string
+  services: string[] | null
+  first_time_only: boolean
+  max_redemptions: number | null
+  max_per_customer: number | null
+  starts_at: string | null
+  ends_at: string | null
+  is_active: boolean
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+  promo_redemptions?: PromoRedemption[]
+}
+
+export interface PromoRedemption {
+  id: string
+  promo_code_id: string
+  booking_id: string
+  user_id: string | null
+  email: string
+  discount_cents: number
+  created_at: string
+}
+
+export interface PromoQuote {
+  code: string
+  discount_cents: number
+  price_cents: number
+  currency: string
+}
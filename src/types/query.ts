@@ -0,0 +1,39 @@
+export type QueryMessageSender = 'staff' | 'asker'
+
+export interface YogaQueryMessage {
+  id: string
+  query_id?: string
+  sender: QueryMessageSender
+  author_id?: string | null
+  body: string
+  created_at: string
+}
+
+export interface YogaQuery {
+  id: string
+  name: string
+  email: string
+  subject: string
+  category: string
+  message: string
+  experience_level: string
+  status: 'pending' | 'responded'
+  response?: string
+  responded_at?: string | null
+  reply_token: string
+  last_message_at?: string | null
+  created_at: string
+  yoga_query_messages?: YogaQueryMessage[]
+}
+
+// What the reply link shows; the asker's email is left out
+export interface QueryThread {
+  id: string
+  name: string
+  subject: string
+  category: string
+  message: string
+  status: 'pending' | 'responded'
+  created_at: string
+  messages: YogaQueryMessage[]
+}
@@ -0,0 +1,20 @@
+export type QueryCategory = 'general' | 'classes' | 'poses' | 'health' | 'membership' | 'schedule'
+
+export interface ReplyTemplate {
+  id: string
+  title: string
+  body: string
+  // Yoga query category it is suggested for; null fits anywhere
+  category: QueryCategory | null
+  is_active: boolean
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReplyTemplateValues {
+  name: string
+  first_name: string
+  next_class_date: string
+  booking_link: string
+}
@@ -0,0 +1,61 @@
+import { Booking } from '../types/booking'
+import { getDateKey } from './timezone'
+
+export interface PracticeStats {
+  totalAttended: number
+  currentStreakWeeks: number
+  longestStreakWeeks: number
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+export function isAttended(status: string): boolean {
+  return status === 'attended' || status === 'late'
+}
+
+// Week number (weeks start on Monday) of a YYYY-MM-DD calendar day
+function getWeekIndex(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const date = Date.UTC(year, month - 1, day)
+  const weekday = (new Date(date).getUTCDay() + 6) % 7
+  return Math.round((date - weekday * 24 * 60 * 60 * 1000) / WEEK_MS)
+}
+
+// A streak is consecutive weeks with at least one class attended. The current
+// streak survives until a full week passes without practice.
+export function getPracticeStats(
+  bookings: Pick<Booking, 'status' | 'class_date' | 'class_sessions'>[],
+  timeZone: string
+): PracticeStats {
+  const attended = bookings.filter(booking => isAttended(booking.status))
+
+  const weeks = new Set<number>()
+  attended.forEach(booking => {
+    const dateKey = booking.class_sessions
+      ? getDateKey(booking.class_sessions.starts_at, timeZone)
+      : booking.class_date
+    if (dateKey) weeks.add(getWeekIndex(dateKey))
+  })
+
+  const sortedWeeks = Array.from(weeks).sort((a, b) => a - b)
+  let longestStreakWeeks = 0
+  let run = 0
+  sortedWeeks.forEach((week, index) => {
+    run = index > 0 && sortedWeeks[index - 1] === week - 1 ? run + 1 : 1
+    longestStreakWeeks = Math.max(longestStreakWeeks, run)
+  })
+
+  const thisWeek = getWeekIndex(getDateKey(new Date(), timeZone))
+  let currentStreakWeeks = 0
+  let week = weeks.has(thisWeek) ? thisWeek : thisWeek - 1
+  while (weeks.has(week)) {
+    currentStreakWeeks++
+    week--
+  }
+
+  return {
+    totalAttended: attended.length,
+    currentStreakWeeks,
+    longestStreakWeeks
+  }
+}
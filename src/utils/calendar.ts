@@ -0,0 +1,28 @@
+import { supabase } from '../lib/supabase'
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`
+}
+
+// webcal:// opens the subscribe dialog of the user's calendar app
+export function getCalendarSubscribeUrl(token: string): string {
+  return getCalendarFeedUrl(token).replace(/^https?:\/\//, 'webcal://')
+}
+
+export async function downloadBookingCalendar(bookingId: string) {
+  const { data, error } = await supabase.rpc('get_booking_ics', {
+    p_booking_id: bookingId,
+    p_app_url: window.location.origin
+  })
+
+  if (error) throw error
+
+  const url = URL.createObjectURL(new Blob([data], { type: 'text/calendar;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'yogodaan-class.ics'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
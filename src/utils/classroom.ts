@@ -0,0 +1,34 @@
+import { supabase } from '../lib/supabase'
+
+export interface JoinLink {
+  url: string | null
+  opens_at: string
+}
+
+// url stays null until shortly before the class starts; opens_at says when
+export async function getJoinLink(bookingId: string): Promise<JoinLink> {
+  const { data, error } = await supabase.functions.invoke('session-meeting', { body: { booking_id: bookingId } })
+
+  if (error) throw error
+  if (data?.error) throw new Error(data.error)
+
+  return data
+}
+
+// Creates the session's room through the video provider, replacing the current link
+export async function createMeetingLink(sessionId: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('session-meeting', { body: { session_id: sessionId } })
+
+  if (error) throw error
+  if (!data?.url) throw new Error(data?.error || 'Failed to create the class link')
+
+  return data.url
+}
+
+export async function setMeetingLink(sessionId: string, url: string) {
+  const { error } = await supabase
+    .from('session_meetings')
+    .upsert({ session_id: sessionId, provider: 'manual', meeting_url: url, provider_reference: null })
+
+  if (error) throw error
+}
@@ -0,0 +1,74 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Past this many word pairs the texts are shown as replaced outright
+const MAX_DIFF_CELLS = 4000000
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token !== '')
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+// Word-level diff from the longest common subsequence of the two texts
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ type: 'same', text: before }] : []
+
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    const parts: DiffPart[] = []
+    if (before) parts.push({ type: 'removed', text: before })
+    if (after) parts.push({ type: 'added', text: after })
+    return parts
+  }
+
+  // lengths[i * (b.length + 1) + j] is the LCS length of a[i:] and b[j:]
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'same', a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, 'removed', a[i++])
+    } else {
+      pushPart(parts, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++])
+  while (j < b.length) pushPart(parts, 'added', b[j++])
+
+  return parts
+}
+
+// Article bodies are compared as text; block tags become line breaks
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(
+    html.replace(/<\/(p|h[1-6]|li|blockquote|pre)>|<br\s*\/?>/gi, '$&\n'),
+    'text/html'
+  )
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim()
+}
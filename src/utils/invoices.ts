@@ -0,0 +1,122 @@
+import { Invoice } from '../types/invoice'
+import { formatPrice } from './payments'
+
+const PAGE_MARGIN = 20
+const LINE_HEIGHT = 6
+
+function formatInvoiceDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// Expects the invoice with its invoice_lines. jsPDF is only loaded when
+// someone actually downloads an invoice.
+export async function downloadInvoicePdf(invoice: Invoice) {
+  const { jsPDF } = await import('jspdf')
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const right = pageWidth - PAGE_MARGIN
+  let y = PAGE_MARGIN + 5
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(20)
+  doc.text('Invoice', PAGE_MARGIN, y)
+
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'normal')
+  doc.text(`Invoice number: ${invoice.invoice_number}`, right, y - 5, { align: 'right' })
+  doc.text(`Date: ${formatInvoiceDate(invoice.issued_at)}`, right, y, { align: 'right' })
+
+  y += 15
+  doc.setFont('helvetica', 'bold')
+  doc.text('From', PAGE_MARGIN, y)
+  doc.text('Bill to', pageWidth / 2, y)
+  doc.setFont('helvetica', 'normal')
+
+  const seller = [invoice.seller_name, ...invoice.seller_address.split('\n'), invoice.seller_tax_id && `Tax ID: ${invoice.seller_tax_id}`]
+  const buyer = [invoice.billing_name, ...invoice.billing_address.split('\n'), invoice.billing_email, invoice.billing_tax_id && `Tax ID: ${invoice.billing_tax_id}`]
+  const sellerLines = seller.filter(Boolean) as string[]
+  const buyerLines = buyer.filter(Boolean) as string[]
+
+  sellerLines.forEach((line, index) => doc.text(line, PAGE_MARGIN, y + LINE_HEIGHT * (index + 1)))
+  buyerLines.forEach((line, index) => doc.text(line, pageWidth / 2, y + LINE_HEIGHT * (index + 1)))
+  y += LINE_HEIGHT * (Math.max(sellerLines.length, buyerLines.length) + 2)
+
+  // Line items
+  doc.setFont('helvetica', 'bold')
+  doc.text('Description', PAGE_MARGIN, y)
+  doc.text('Qty', right - 60, y, { align: 'right' })
+  doc.text('Unit price', right - 30, y, { align: 'right' })
+  doc.text('Amount', right, y, { align: 'right' })
+  doc.line(PAGE_MARGIN, y + 2, right, y + 2)
+  doc.setFont('helvetica', 'normal')
+  y += LINE_HEIGHT + 2
+
+  for (const line of invoice.invoice_lines || []) {
+    const description = doc.splitTextToSize(line.description, right - 75 - PAGE_MARGIN) as string[]
+    doc.text(description, PAGE_MARGIN, y)
+    doc.text(String(line.quantity), right - 60, y, { align: 'right' })
+    doc.text(formatPrice(line.unit_amount_cents, invoice.currency), right - 30, y, { align: 'right' })
+    doc.text(formatPrice(line.amount_cents, invoice.currency), right, y, { align: 'right' })
+    y += LINE_HEIGHT * description.length
+  }
+
+  doc.line(PAGE_MARGIN, y - 2, right, y - 2)
+  y += LINE_HEIGHT
+
+  const totals: [string, number][] = [
+    ['Subtotal', invoice.subtotal_cents],
+    [`${invoice.tax_label} (${Number(invoice.tax_rate)}%)`, invoice.tax_cents],
+    ['Total', invoice.total_cents]
+  ]
+  totals.forEach(([label, amount], index) => {
+    doc.setFont('helvetica', index === totals.length - 1 ? 'bold' : 'normal')
+    doc.text(label, right - 30, y, { align: 'right' })
+    doc.text(formatPrice(amount, invoice.currency), right, y, { align: 'right' })
+    y += LINE_HEIGHT
+  })
+
+  y += LINE_HEIGHT
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(9)
+  doc.text(`Paid in full on ${formatInvoiceDate(invoice.issued_at)}. Thank you for practising with us.`, PAGE_MARGIN, y)
+
+  doc.save(`${invoice.invoice_number}.pdf`)
+}
+
+// Spreadsheets run cells starting with =, +, -, @, tab or CR as formulas;
+// names and descriptions come from customers, so those get a leading quote.
+// Plain amounts such as -5.00 are left as numbers
+function csvField(value: string | number): string {
+  const raw = String(value)
+  const text = /^[=+\-@\t\r]/.test(raw) && !/^-\d+(\.\d+)?$/.test(raw) ? `'${raw}` : raw
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function exportInvoicesCsv(invoices: Invoice[], filename: string) {
+  const header = ['Invoice number', 'Date', 'Customer', 'Email', 'Description', 'Currency', 'Subtotal', 'Tax', 'Total']
+  const rows = invoices.map(invoice => [
+    invoice.invoice_number,
+    invoice.issued_at.slice(0, 10),
+    invoice.billing_name,
+    invoice.billing_email,
+    (invoice.invoice_lines || []).map(line => line.description).join('; '),
+    invoice.currency,
+    (invoice.subtotal_cents / 100).toFixed(2),
+    (invoice.tax_cents / 100).toFixed(2),
+    (invoice.total_cents / 100).toFixed(2)
+  ])
+
+  const csv = [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n')
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), filename)
+}
@@ -0,0 +1,28 @@
+import { supabase } from '../lib/supabase'
+
+export function formatPrice(amountCents: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amountCents / 100)
+}
+
+async function redirectToCheckout(body: Record<string, string>) {
+  const { data, error } = await supabase.functions.invoke('create-checkout', { body })
+
+  if (error) throw error
+  if (!data?.url) throw new Error(data?.error || 'Failed to start checkout')
+
+  window.location.href = data.url
+}
+
+// Sends the student to the payment provider; the booking stays held as
+// pending_payment until the provider's webhook confirms it
+export async function startCheckout(bookingId: string) {
+  await redirectToCheckout({ booking_id: bookingId })
+}
+
+// Credits or the membership are added once the provider's webhook confirms the payment.
+// With an organization the pack's sessions go to that company's allotment instead.
+export async function startProductCheckout(productId: string, organizationId?: string) {
+  await redirectToCheckout(organizationId
+    ? { product_id: productId, organization_id: organizationId }
+    : { product_id: productId })
+}
@@ -0,0 +1,55 @@
+import { supabase } from '../lib/supabase'
+import { QueryCategory, ReplyTemplateValues } from '../types/replyTemplate'
+import { formatDateInZone } from './timezone'
+
+// Same categories as the yoga query form
+export const queryCategoryLabels: Record<QueryCategory, string> = {
+  general: 'General Question',
+  classes: 'About Classes',
+  poses: 'Yoga Poses & Techniques',
+  health: 'Health & Wellness',
+  membership: 'Membership & Pricing',
+  schedule: 'Schedule & Booking'
+}
+
+export const replyPlaceholders: (keyof ReplyTemplateValues)[] = ['name', 'first_name', 'next_class_date', 'booking_link']
+
+// The next scheduled group class, in the time zone it is taught in
+async function getNextClassDate(): Promise<string> {
+  const { data, error } = await supabase
+    .from('class_sessions')
+    .select('starts_at, timezone')
+    .eq('service', 'group')
+    .eq('status', 'scheduled')
+    .gt('starts_at', new Date().toISOString())
+    .order('starts_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return 'our next scheduled class'
+
+  return formatDateInZone(data.starts_at, data.timezone, {
+    weekday: 'long',
+    year: undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  })
+}
+
+export async function getReplyTemplateValues(name: string): Promise<ReplyTemplateValues> {
+  return {
+    name,
+    first_name: name.trim().split(/\s+/)[0] || name,
+    next_class_date: await getNextClassDate(),
+    booking_link: `${window.location.origin}/book-class`
+  }
+}
+
+// Unknown placeholders are left as typed so they stand out before sending
+export function fillReplyTemplate(body: string, values: ReplyTemplateValues): string {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key as keyof ReplyTemplateValues] : match
+  )
+}
@@ -0,0 +1,119 @@
+// Time zone helpers. Session times are stored as timestamptz (UTC instants);
+// everything shown to a person is rendered in their zone via Intl.
+
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Toronto',
+  'America/Mexico_City',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+]
+
+export function detectTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+export function isValidTimeZone(timeZone?: string | null): timeZone is string {
+  if (!timeZone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Calendar day (YYYY-MM-DD) of an instant as seen in the given zone
+export function getDateKey(value: Date | string, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(new Date(value))
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+// Calendar day of a local Date built from year/month/day (e.g. a calendar cell)
+export function getLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function formatTimeInZone(value: Date | string, timeZone: string): string {
+  return new Date(value).toLocaleTimeString('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export function formatDateInZone(value: Date | string, timeZone: string, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    ...options
+  })
+}
+
+// Short zone name at a given instant, e.g. "EST", "GMT+5:30"
+export function getTimeZoneAbbreviation(value: Date | string, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    timeZoneName: 'short'
+  }).formatToParts(new Date(value))
+
+  return parts.find(p => p.type === 'timeZoneName')?.value || timeZone
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+  return Math.round((asUtc - date.getTime()) / 60000)
+}
+
+// Convert a wall-clock date and time in `timeZone` to the UTC instant
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // Two passes so instants near a DST transition pick up the right offset
+  let offset = getTimeZoneOffset(new Date(wallClock), timeZone)
+  offset = getTimeZoneOffset(new Date(wallClock - offset * 60000), timeZone)
+  return new Date(wallClock - offset * 60000)
+}
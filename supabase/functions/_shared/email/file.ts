@@ -0,0 +1,39 @@
+import { EmailMessage, EmailProvider, SentEmail } from './types.ts'
+
+// Local stand-in for a real provider: each email is written to a .eml file
+// in the given directory, so the outbox can be tried without sending anything.
+export class FileEmailProvider implements EmailProvider {
+  name = 'file'
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const messageId = `file_${crypto.randomUUID()}`
+    const boundary = `boundary_${messageId}`
+    const eml = [
+      `Message-ID: <${messageId}@localhost>`,
+      `Date: ${new Date().toUTCString()}`,
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${boundary}--`,
+      ''
+    ].join('\r\n')
+
+    await Deno.mkdir(this.directory, { recursive: true })
+    await Deno.writeTextFile(`${this.directory}/${messageId}.eml`, eml)
+
+    return { messageId }
+  }
+}
@@ -0,0 +1,30 @@
+import { FileEmailProvider } from './file.ts'
+import { ResendEmailProvider } from './resend.ts'
+import { SmtpEmailProvider } from './smtp.ts'
+import { EmailProvider } from './types.ts'
+
+export type { EmailMessage, EmailProvider, SentEmail } from './types.ts'
+export { renderEmail } from './templates.ts'
+export type { RenderedEmail } from './templates.ts'
+
+// EMAIL_PROVIDER picks the adapter: `resend` in production, `smtp` for the
+// local development inbox and `file` to write emails to disk
+export function getEmailProvider(): EmailProvider {
+  const provider = Deno.env.get('EMAIL_PROVIDER') || 'file'
+
+  switch (provider) {
+    case 'resend':
+      return new ResendEmailProvider(Deno.env.get('RESEND_API_KEY')!)
+    case 'smtp':
+      return new SmtpEmailProvider(
+        Deno.env.get('SMTP_HOST') || 'localhost',
+        parseInt(Deno.env.get('SMTP_PORT') || '2500'),
+        Deno.env.get('SMTP_USER'),
+        Deno.env.get('SMTP_PASS')
+      )
+    case 'file':
+      return new FileEmailProvider(Deno.env.get('EMAIL_FILE_DIR') || '/tmp/yogodyaan-emails')
+    default:
+      throw new Error(`Unknown email provider: ${provider}`)
+  }
+}
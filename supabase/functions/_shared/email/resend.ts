@@ -0,0 +1,33 @@
+import { EmailMessage, EmailProvider, SentEmail } from './types.ts'
+
+const RESEND_API = 'https://api.resend.com'
+
+export class ResendEmailProvider implements EmailProvider {
+  name = 'resend'
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const response = await fetch(`${RESEND_API}/emails`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text
+      })
+    })
+
+    const body = await response.json()
+    if (!response.ok) {
+      throw new Error(body.message || `Resend error ${response.status}`)
+    }
+
+    return { messageId: body.id }
+  }
+}
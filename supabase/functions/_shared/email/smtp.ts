@@ -0,0 +1,24 @@
+import nodemailer from 'npm:nodemailer@6'
+import { EmailMessage, EmailProvider, SentEmail } from './types.ts'
+
+// Plain SMTP, meant for the Inbucket or Mailpit inbox that comes with local
+// development; hosted edge functions can't open SMTP connections
+export class SmtpEmailProvider implements EmailProvider {
+  name = 'smtp'
+
+  private transport
+
+  constructor(host: string, port: number, user?: string, pass?: string) {
+    this.transport = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass } : undefined
+    })
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const info = await this.transport.sendMail(message)
+    return { messageId: info.messageId }
+  }
+}
@@ -0,0 +1,154 @@
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export type Payload = Record<string, any>
+
+interface EmailContent {
+  subject: string
+  greeting: string
+  paragraphs: string[]
+  action?: { label: string, url: string }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Class times are shown in the time zone the class is scheduled in
+function formatClassTime(value: string | null, timeZone: string): string {
+  if (!value) return 'the scheduled time'
+
+  return new Intl.DateTimeFormat('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short'
+  }).format(new Date(value))
+}
+
+export function describeClass(payload: Payload): string {
+  const instructor = payload.instructor ? ` with ${payload.instructor}` : ''
+  // Bookings made before the class schedule existed only have a date and time as typed in
+  const when = payload.starts_at
+    ? formatClassTime(payload.starts_at, payload.timezone || 'UTC')
+    : [payload.class_date, payload.class_time].filter(Boolean).join(' ')
+  return `${payload.class_type || 'your class'}${instructor}${when ? ` on ${when}` : ''}`
+}
+
+function buildContent(template: string, payload: Payload, appUrl: string): EmailContent {
+  const greeting = `Hi ${payload.first_name || payload.name || 'there'},`
+  const profile = { label: 'View my bookings', url: `${appUrl}/profile` }
+
+  switch (template) {
+    case 'booking_confirmed':
+      return {
+        subject: `Booking confirmed: ${payload.class_type || 'your class'}`,
+        greeting,
+        paragraphs: [
+          `Your spot in ${describeClass(payload)} is confirmed.`,
+          'The link to join the class appears on your profile 15 minutes before it starts.'
+        ],
+        action: profile
+      }
+    case 'class_reminder':
+      return {
+        subject: `Reminder: ${payload.class_type || 'your class'} ${payload.lead_hours === 1 ? 'in an hour' : 'tomorrow'}`,
+        greeting,
+        paragraphs: [
+          `This is a reminder that you're booked for ${describeClass(payload)}.`,
+          "If you can't make it, please cancel from your profile so someone on the waitlist can take your spot."
+        ],
+        action: profile
+      }
+    case 'booking_cancelled':
+      return {
+        subject: `Booking cancelled: ${payload.class_type || 'your class'}`,
+        greeting,
+        paragraphs: [
+          `Your booking for ${describeClass(payload)} has been cancelled.`,
+          ...(payload.reason ? [`Reason: ${payload.reason}.`] : []),
+          ...(payload.late_cancellation ? ['It was cancelled inside the cancellation window, so it counts as a late cancellation.'] : [])
+        ],
+        action: { label: 'Book another class', url: `${appUrl}/book-class` }
+      }
+    case 'waitlist_promoted':
+      return {
+        subject: `A spot opened up: ${payload.class_type || 'your class'}`,
+        greeting,
+        paragraphs: payload.status === 'pending_payment'
+          ? [
+              `A spot opened up in ${describeClass(payload)} and it's being held for you.`,
+              `Please complete the payment from your profile by ${formatClassTime(payload.payment_expires_at, payload.timezone || 'UTC')} or the spot goes to the next person on the waitlist.`
+            ]
+          : [`Good news! A spot opened up in ${describeClass(payload)} and your booking is now confirmed.`],
+        action: profile
+      }
+    case 'query_answered':
+      return {
+        subject: `Re: ${payload.subject || 'your question'}`,
+        greeting,
+        paragraphs: [
+          'Thank you for your question. Here is our answer:',
+          payload.response || '',
+          `You asked: "${payload.message || ''}"`,
+          'Anything else? Reply from the link below and we will pick it up from there.'
+        ],
+        ...(payload.reply_token
+          ? { action: { label: 'View and reply', url: `${appUrl}/questions/${payload.reply_token}` } }
+          : {})
+      }
+    case 'contact_reply':
+      return {
+        subject: `Re: ${payload.subject || 'your message'}`,
+        greeting,
+        paragraphs: [
+          payload.response || '',
+          `You wrote: "${payload.message || ''}"`,
+          'If you have anything to add, send us another message and we will pick it up from there.'
+        ],
+        action: { label: 'Contact us', url: `${appUrl}/contact` }
+      }
+    default:
+      throw new Error(`Unknown email template: ${template}`)
+  }
+}
+
+export function renderEmail(template: string, payload: Payload, appUrl: string): RenderedEmail {
+  const content = buildContent(template, payload, appUrl)
+  const signature = 'Namaste,\nThe Yogodyaan team'
+
+  const text = [
+    content.greeting,
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    signature
+  ].join('\n\n')
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+      <h1 style="font-size:20px;color:#2563eb;margin:0 0 24px;">Yogodyaan</h1>
+      <p>${escapeHtml(content.greeting)}</p>
+      ${content.paragraphs.map(paragraph => `<p style="white-space:pre-line;">${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      ${content.action
+        ? `<p style="margin:32px 0;"><a href="${escapeHtml(content.action.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;">${escapeHtml(content.action.label)}</a></p>`
+        : ''}
+      <p style="white-space:pre-line;color:#6b7280;">${escapeHtml(signature)}</p>
+    </div>
+  </body>
+</html>`
+
+  return { subject: content.subject, html, text }
+}
@@ -0,0 +1,17 @@
+export interface EmailMessage {
+  to: string
+  from: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface SentEmail {
+  messageId: string
+}
+
+export interface EmailProvider {
+  name: string
+  // Throws when the message wasn't accepted, so the worker can retry it
+  send(message: EmailMessage): Promise<SentEmail>
+}
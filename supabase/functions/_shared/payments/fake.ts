@@ -0,0 +1,34 @@
+import { CheckoutRequest, CheckoutSession, PaymentEvent, PaymentProvider } from './types.ts'
+
+// Local stand-in for a real provider: checkout is the app's /checkout/fake
+// page, which posts its result straight to the payment webhook. Anyone can
+// "pay" this way, so it must never be enabled in production.
+export class FakeProvider implements PaymentProvider {
+  name = 'fake'
+
+  constructor(private appUrl: string) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const reference = `fake_${request.paymentId}`
+    const params = new URLSearchParams({
+      payment: request.paymentId,
+      reference,
+      amount: String(request.amountCents),
+      currency: request.currency,
+      description: request.description,
+      success: request.successUrl,
+      cancel: request.cancelUrl
+    })
+
+    return { reference, url: `${this.appUrl}/checkout/fake?${params}` }
+  }
+
+  async parseWebhook(req: Request): Promise<PaymentEvent | null> {
+    const body = await req.json()
+    if (!['paid', 'failed', 'expired'].includes(body.type) || !body.payment_id || !body.reference) {
+      throw new Error('Invalid fake payment event')
+    }
+
+    return { type: body.type, paymentId: body.payment_id, reference: body.reference }
+  }
+}
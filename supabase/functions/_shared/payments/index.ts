@@ -0,0 +1,27 @@
+import { FakeProvider } from './fake.ts'
+import { StripeProvider } from './stripe.ts'
+import { PaymentProvider } from './types.ts'
+
+export type { PaymentEvent, PaymentProvider } from './types.ts'
+
+// PAYMENT_PROVIDER picks the adapter: `stripe` in production, `fake` locally.
+// It has no default, so a missing setting can't fall back to the fake
+// provider, whose webhook accepts unsigned events.
+export function getPaymentProvider(): PaymentProvider {
+  const provider = Deno.env.get('PAYMENT_PROVIDER')
+
+  switch (provider) {
+    case 'stripe':
+      return new StripeProvider(
+        Deno.env.get('STRIPE_SECRET_KEY')!,
+        Deno.env.get('STRIPE_WEBHOOK_SECRET')!
+      )
+    case 'fake':
+      return new FakeProvider(Deno.env.get('APP_URL') || 'http://localhost:5173')
+    case undefined:
+    case '':
+      throw new Error('PAYMENT_PROVIDER is not set')
+    default:
+      throw new Error(`Unknown payment provider: ${provider}`)
+  }
+}
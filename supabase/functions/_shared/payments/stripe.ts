@@ -0,0 +1,107 @@
+import { CheckoutRequest, CheckoutSession, PaymentEvent, PaymentProvider } from './types.ts'
+
+const STRIPE_API = 'https://api.stripe.com/v1'
+// Stripe rejects checkout sessions that expire sooner than this
+const MIN_EXPIRY_MS = 31 * 60 * 1000
+// Reject signed events older than this to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 300
+
+async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload))
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+export class StripeProvider implements PaymentProvider {
+  name = 'stripe'
+
+  constructor(private secretKey: string, private webhookSecret: string) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const expiresAt = Math.max(request.expiresAt.getTime(), Date.now() + MIN_EXPIRY_MS)
+    const form = new URLSearchParams({
+      'mode': 'payment',
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': request.currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(request.amountCents),
+      'line_items[0][price_data][product_data][name]': request.description,
+      'customer_email': request.customerEmail,
+      'client_reference_id': request.paymentId,
+      'metadata[payment_id]': request.paymentId,
+      'success_url': request.successUrl,
+      'cancel_url': request.cancelUrl,
+      'expires_at': String(Math.floor(expiresAt / 1000))
+    })
+
+    const response = await fetch(`${STRIPE_API}/checkout/sessions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Idempotency-Key': request.paymentId
+      },
+      body: form
+    })
+
+    const session = await response.json()
+    if (!response.ok) {
+      throw new Error(session.error?.message || 'Stripe checkout failed')
+    }
+
+    return { reference: session.id, url: session.url }
+  }
+
+  async parseWebhook(req: Request): Promise<PaymentEvent | null> {
+    const payload = await req.text()
+    const header = req.headers.get('stripe-signature') || ''
+    const parts = header.split(',').map(part => part.split('='))
+    const timestamp = parts.find(([key]) => key === 't')?.[1]
+    // Several v1 signatures are sent while a webhook secret is being rolled
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value)
+
+    if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error('Stale or missing Stripe signature')
+    }
+
+    const expected = await hmacSha256Hex(this.webhookSecret, `${timestamp}.${payload}`)
+    if (!signatures.some(signature => timingSafeEqual(expected, signature))) {
+      throw new Error('Invalid Stripe signature')
+    }
+
+    const event = JSON.parse(payload)
+    const session = event.data?.object
+    const paymentId = session?.metadata?.payment_id
+    if (!paymentId) return null
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed methods (bank debits) complete unpaid and report again later
+        return session.payment_status === 'paid'
+          ? { type: 'paid', paymentId, reference: session.id }
+          : null
+      case 'checkout.session.async_payment_succeeded':
+        return { type: 'paid', paymentId, reference: session.id }
+      case 'checkout.session.async_payment_failed':
+        return { type: 'failed', paymentId, reference: session.id }
+      case 'checkout.session.expired':
+        return { type: 'expired', paymentId, reference: session.id }
+      default:
+        return null
+    }
+  }
+}
@@ -0,0 +1,28 @@
+export interface CheckoutRequest {
+  paymentId: string
+  amountCents: number
+  currency: string
+  description: string
+  customerEmail: string
+  successUrl: string
+  cancelUrl: string
+  expiresAt: Date
+}
+
+export interface CheckoutSession {
+  reference: string
+  url: string
+}
+
+export interface PaymentEvent {
+  type: 'paid' | 'failed' | 'expired'
+  paymentId: string
+  reference: string
+}
+
+export interface PaymentProvider {
+  name: string
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>
+  // Returns null for events the app doesn't act on; throws when the request isn't authentic
+  parseWebhook(req: Request): Promise<PaymentEvent | null>
+}
@@ -0,0 +1,26 @@
+import { SentSms, SmsMessage, SmsProvider } from './types.ts'
+
+// Local stand-in for a real provider: each message is written to a .txt file
+// in the given directory, so SMS and WhatsApp can be tried without sending anything.
+export class FileSmsProvider implements SmsProvider {
+  name = 'file'
+
+  constructor(private directory: string) {}
+
+  async send(message: SmsMessage): Promise<SentSms> {
+    const messageId = `file_${crypto.randomUUID()}`
+    const text = [
+      `Channel: ${message.channel}`,
+      `To: ${message.to}`,
+      `Date: ${new Date().toISOString()}`,
+      '',
+      message.body,
+      ''
+    ].join('\n')
+
+    await Deno.mkdir(this.directory, { recursive: true })
+    await Deno.writeTextFile(`${this.directory}/${messageId}.txt`, text)
+
+    return { messageId }
+  }
+}
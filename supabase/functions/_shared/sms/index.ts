@@ -0,0 +1,26 @@
+import { FileSmsProvider } from './file.ts'
+import { TwilioProvider } from './twilio.ts'
+import { SmsProvider } from './types.ts'
+
+export type { SentSms, SmsChannel, SmsMessage, SmsProvider } from './types.ts'
+export { renderSms } from './templates.ts'
+
+// SMS_PROVIDER picks the adapter for SMS and WhatsApp: `twilio` in
+// production, `file` to write messages to disk
+export function getSmsProvider(): SmsProvider {
+  const provider = Deno.env.get('SMS_PROVIDER') || 'file'
+
+  switch (provider) {
+    case 'twilio':
+      return new TwilioProvider(
+        Deno.env.get('TWILIO_ACCOUNT_SID')!,
+        Deno.env.get('TWILIO_AUTH_TOKEN')!,
+        Deno.env.get('TWILIO_SMS_FROM')!,
+        Deno.env.get('TWILIO_WHATSAPP_FROM')!
+      )
+    case 'file':
+      return new FileSmsProvider(Deno.env.get('SMS_FILE_DIR') || '/tmp/yogodyaan-sms')
+    default:
+      throw new Error(`Unknown SMS provider: ${provider}`)
+  }
+}
@@ -0,0 +1,24 @@
+import { describeClass, Payload } from '../email/templates.ts'
+
+// Text messages are kept to a single SMS where possible, so they only carry
+// the essentials and point to the profile for the rest
+export function renderSms(template: string, payload: Payload, appUrl: string): string {
+  const profileUrl = `${appUrl}/profile`
+
+  switch (template) {
+    case 'booking_confirmed':
+      return `Yogodyaan: You're booked for ${describeClass(payload)}.`
+    case 'class_reminder':
+      return payload.lead_hours === 1
+        ? `Yogodyaan: ${describeClass(payload)} starts in an hour. Join from ${profileUrl}`
+        : `Yogodyaan: Reminder, you're booked for ${describeClass(payload)}. Can't make it? Cancel at ${profileUrl}`
+    case 'booking_cancelled':
+      return `Yogodyaan: Your booking for ${describeClass(payload)} has been cancelled.`
+    case 'waitlist_promoted':
+      return payload.status === 'pending_payment'
+        ? `Yogodyaan: A spot opened up in ${describeClass(payload)}. Pay at ${profileUrl} to keep it.`
+        : `Yogodyaan: A spot opened up and you're now booked for ${describeClass(payload)}.`
+    default:
+      throw new Error(`No text message for template: ${template}`)
+  }
+}
@@ -0,0 +1,40 @@
+import { SentSms, SmsMessage, SmsProvider } from './types.ts'
+
+const TWILIO_API = 'https://api.twilio.com/2010-04-01'
+
+// Twilio sends both SMS and WhatsApp; WhatsApp numbers carry a `whatsapp:` prefix
+export class TwilioProvider implements SmsProvider {
+  name = 'twilio'
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private smsFrom: string,
+    private whatsappFrom: string
+  ) {}
+
+  async send(message: SmsMessage): Promise<SentSms> {
+    const isWhatsapp = message.channel === 'whatsapp'
+    const form = new URLSearchParams({
+      From: isWhatsapp ? `whatsapp:${this.whatsappFrom}` : this.smsFrom,
+      To: isWhatsapp ? `whatsapp:${message.to}` : message.to,
+      Body: message.body
+    })
+
+    const response = await fetch(`${TWILIO_API}/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: form
+    })
+
+    const body = await response.json()
+    if (!response.ok) {
+      throw new Error(body.message || `Twilio error ${response.status}`)
+    }
+
+    return { messageId: body.sid }
+  }
+}
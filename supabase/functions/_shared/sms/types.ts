@@ -0,0 +1,18 @@
+export type SmsChannel = 'sms' | 'whatsapp'
+
+export interface SmsMessage {
+  channel: SmsChannel
+  // International format, e.g. +14155550123
+  to: string
+  body: string
+}
+
+export interface SentSms {
+  messageId: string
+}
+
+export interface SmsProvider {
+  name: string
+  // Throws when the message wasn't accepted, so the worker can retry it
+  send(message: SmsMessage): Promise<SentSms>
+}
@@ -0,0 +1,18 @@
+import { Meeting, MeetingRequest, VideoProvider } from './types.ts'
+
+// Local stand-in for a real provider: rooms are the app's /classroom/fake
+// page, so the join flow can be tried without a video account.
+export class FakeVideoProvider implements VideoProvider {
+  name = 'fake'
+
+  constructor(private appUrl: string) {}
+
+  async createMeeting(request: MeetingRequest): Promise<Meeting> {
+    const reference = `fake_${crypto.randomUUID()}`
+    const params = new URLSearchParams({ room: reference, topic: request.topic })
+
+    return { reference, url: `${this.appUrl}/classroom/fake?${params}` }
+  }
+
+  async deleteMeeting(_reference: string): Promise<void> {}
+}
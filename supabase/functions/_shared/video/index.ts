@@ -0,0 +1,19 @@
+import { FakeVideoProvider } from './fake.ts'
+import { JitsiProvider } from './jitsi.ts'
+import { VideoProvider } from './types.ts'
+
+export type { Meeting, MeetingRequest, VideoProvider } from './types.ts'
+
+// VIDEO_PROVIDER picks the adapter: `jitsi` in production, `fake` locally
+export function getVideoProvider(): VideoProvider {
+  const provider = Deno.env.get('VIDEO_PROVIDER') || 'fake'
+
+  switch (provider) {
+    case 'jitsi':
+      return new JitsiProvider(Deno.env.get('JITSI_BASE_URL') || 'https://meet.jit.si')
+    case 'fake':
+      return new FakeVideoProvider(Deno.env.get('APP_URL') || 'http://localhost:5173')
+    default:
+      throw new Error(`Unknown video provider: ${provider}`)
+  }
+}
@@ -0,0 +1,18 @@
+export interface MeetingRequest {
+  sessionId: string
+  topic: string
+  startsAt: Date
+  endsAt: Date
+}
+
+export interface Meeting {
+  reference: string
+  url: string
+}
+
+export interface VideoProvider {
+  name: string
+  createMeeting(request: MeetingRequest): Promise<Meeting>
+  // Called when a link is rotated so the old room can't be used anymore
+  deleteMeeting(reference: string): Promise<void>
+}
@@ -0,0 +1,35 @@
+// Private iCal feed: GET /functions/v1/calendar-feed?token=...
+//
+// Calendar apps can't send auth headers, so deploy with --no-verify-jwt; the
+// token in the URL is the credential and is checked by get_calendar_feed.
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_ANON_KEY')!
+)
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token')
+  if (!token) {
+    return new Response('Missing token', { status: 400 })
+  }
+
+  const { data, error } = await supabase.rpc('get_calendar_feed', {
+    p_token: token,
+    p_app_url: Deno.env.get('APP_URL') || 'http://localhost:5173'
+  })
+
+  if (error) {
+    console.error('Error building calendar feed:', error)
+    return new Response('Calendar feed not found', { status: 404 })
+  }
+
+  return new Response(data, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="yogodaan.ics"',
+      'Cache-Control': 'private, max-age=900'
+    }
+  })
+})
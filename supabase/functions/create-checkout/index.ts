@@ -0,0 +1,188 @@
+// Starts checkout for a booking held as pending_payment, or for a class
+// pack or membership bought by a signed-in student. A company admin passes
+// organization_id to buy a session pack for their company.
+// POST { booking_id } or { product_id, organization_id? } -> { url } to redirect to.
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getPaymentProvider } from '../_shared/payments/index.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+)
+
+const appUrl = Deno.env.get('APP_URL') || 'http://localhost:5173'
+
+// Products are paid for in one go, there is no seat to hold
+const PRODUCT_CHECKOUT_MINUTES = 60
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+async function getCaller(req: Request) {
+  const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+  const { data: { user } } = await supabase.auth.getUser(token)
+  return user
+}
+
+async function createProductCheckout(req: Request, productId: string, organizationId?: string) {
+  const user = await getCaller(req)
+  if (!user) {
+    return json({ error: 'Please sign in to buy a class pack or membership' }, 401)
+  }
+
+  if (organizationId) {
+    const { data: member, error: memberError } = await supabase
+      .from('organization_members')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .eq('role', 'admin')
+      .maybeSingle()
+
+    if (memberError) throw memberError
+    if (!member) {
+      return json({ error: 'Only the company admin can buy sessions for the company' }, 403)
+    }
+  }
+
+  const { data: product, error: productError } = await supabase
+    .from('products')
+    .select('*')
+    .eq('id', productId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (productError) throw productError
+  if (!product || (organizationId && product.kind !== 'pack')) {
+    return json({ error: 'Product not found' }, 404)
+  }
+
+  const returnPath = organizationId ? '/company' : '/profile'
+  const provider = getPaymentProvider()
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('payments')
+    .insert([{
+      product_id: product.id,
+      user_id: user.id,
+      organization_id: organizationId || null,
+      provider: provider.name,
+      amount_cents: product.price_cents,
+      currency: product.currency
+    }])
+    .select()
+    .single()
+
+  if (paymentError) throw paymentError
+
+  const checkout = await provider.createCheckout({
+    paymentId: payment.id,
+    amountCents: product.price_cents,
+    currency: product.currency,
+    description: product.name,
+    customerEmail: user.email || '',
+    successUrl: `${appUrl}${returnPath}?purchase=success`,
+    cancelUrl: `${appUrl}${returnPath}?purchase=cancelled`,
+    expiresAt: new Date(Date.now() + PRODUCT_CHECKOUT_MINUTES * 60 * 1000)
+  })
+
+  const { error: updateError } = await supabase
+    .from('payments')
+    .update({ provider_reference: checkout.reference, checkout_url: checkout.url })
+    .eq('id', payment.id)
+
+  if (updateError) throw updateError
+
+  return json({ url: checkout.url })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { booking_id, product_id, organization_id } = await req.json()
+
+    if (product_id) {
+      return await createProductCheckout(req, product_id, organization_id)
+    }
+
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('*, class_sessions(*)')
+      .eq('id', booking_id)
+      .maybeSingle()
+
+    if (bookingError) throw bookingError
+    if (!booking?.class_sessions) {
+      return json({ error: 'Booking not found' }, 404)
+    }
+
+    // Account bookings are paid by their owner; guest bookings by whoever holds the id
+    if (booking.user_id) {
+      const user = await getCaller(req)
+      if (user?.id !== booking.user_id) {
+        return json({ error: 'Booking not found' }, 404)
+      }
+    }
+
+    if (booking.status !== 'pending_payment' || new Date(booking.payment_expires_at) <= new Date()) {
+      return json({ error: 'This booking is no longer waiting for payment' }, 409)
+    }
+
+    const { data: policy, error: policyError } = await supabase
+      .from('booking_policies')
+      .select('*')
+      .eq('service', booking.class_sessions.service)
+      .single()
+
+    if (policyError) throw policyError
+
+    const amountCents = Math.max(policy.price_cents - (booking.discount_cents || 0), 0)
+    const provider = getPaymentProvider()
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .insert([{
+        booking_id: booking.id,
+        provider: provider.name,
+        amount_cents: amountCents,
+        currency: policy.currency
+      }])
+      .select()
+      .single()
+
+    if (paymentError) throw paymentError
+
+    const returnUrl = `${appUrl}/checkout/complete?booking=${booking.id}`
+    const checkout = await provider.createCheckout({
+      paymentId: payment.id,
+      amountCents,
+      currency: policy.currency,
+      description: `${booking.class_sessions.class_type} with ${booking.class_sessions.instructor}`,
+      customerEmail: booking.email,
+      successUrl: `${returnUrl}&result=success`,
+      cancelUrl: `${returnUrl}&result=cancelled`,
+      expiresAt: new Date(booking.payment_expires_at)
+    })
+
+    const { error: updateError } = await supabase
+      .from('payments')
+      .update({ provider_reference: checkout.reference, checkout_url: checkout.url })
+      .eq('id', payment.id)
+
+    if (updateError) throw updateError
+
+    return json({ url: checkout.url })
+  } catch (error) {
+    console.error('Error creating checkout:', error)
+    return json({ error: error.message || 'Failed to start checkout' }, 500)
+  }
+})
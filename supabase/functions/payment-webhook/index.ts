@@ -0,0 +1,48 @@
+// Receives payment results from the provider and confirms bookings.
+//
+// Providers can't send a Supabase JWT, so deploy with --no-verify-jwt; each
+// provider adapter authenticates its own requests in parseWebhook.
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getPaymentProvider } from '../_shared/payments/index.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+)
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const provider = getPaymentProvider()
+
+  let event
+  try {
+    event = await provider.parseWebhook(req)
+  } catch (error) {
+    console.error('Rejected payment webhook:', error)
+    return new Response('Invalid webhook', { status: 400, headers: corsHeaders })
+  }
+
+  if (!event) {
+    return new Response('Ignored', { headers: corsHeaders })
+  }
+
+  const { data, error } = await supabase.rpc('record_payment_event', {
+    p_payment_id: event.paymentId,
+    p_reference: event.reference,
+    p_event: event.type
+  })
+
+  // A 5xx makes the provider retry later
+  if (error) {
+    console.error('Error recording payment event:', error)
+    return new Response('Failed to record payment', { status: 500, headers: corsHeaders })
+  }
+
+  return new Response(JSON.stringify({ status: data }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+})
@@ -0,0 +1,110 @@
+// Sends the emails, text messages and WhatsApp messages that are due in the
+// outbox. Runs every minute from pg_cron; POST {} -> { sent, failed }.
+//
+// Reminders are checked against the recipient's current preferences and
+// quiet hours when they are claimed. A failed send is retried with a growing
+// delay and given up after MAX_ATTEMPTS; admins can queue it again from the
+// dashboard.
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getEmailProvider, renderEmail } from '../_shared/email/index.ts'
+import { getSmsProvider, renderSms } from '../_shared/sms/index.ts'
+
+const MAX_ATTEMPTS = 5
+const BATCH_SIZE = 20
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+)
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const emailProvider = getEmailProvider()
+    const smsProvider = getSmsProvider()
+    const appUrl = Deno.env.get('APP_URL') || 'http://localhost:5173'
+    const from = Deno.env.get('EMAIL_FROM') || 'Yogodyaan <hello@yogodyaan.com>'
+
+    const { data: messages, error } = await supabase.rpc('claim_outbox_messages', { p_limit: BATCH_SIZE })
+    if (error) throw error
+
+    let sent = 0
+    let failed = 0
+
+    for (const message of messages || []) {
+      const providerName = message.channel === 'email' ? emailProvider.name : smsProvider.name
+
+      try {
+        let subject = ''
+        let messageId: string
+
+        if (message.channel === 'email') {
+          const rendered = renderEmail(message.template, message.payload, appUrl)
+          subject = rendered.subject
+          const result = await emailProvider.send({
+            to: message.recipient,
+            from,
+            subject: rendered.subject,
+            html: rendered.html,
+            text: rendered.text
+          })
+          messageId = result.messageId
+        } else {
+          const result = await smsProvider.send({
+            channel: message.channel,
+            to: message.recipient,
+            body: renderSms(message.template, message.payload, appUrl)
+          })
+          messageId = result.messageId
+        }
+
+        const { error: updateError } = await supabase
+          .from('notification_outbox')
+          .update({
+            status: 'sent',
+            subject,
+            provider: providerName,
+            provider_message_id: messageId,
+            sent_at: new Date().toISOString(),
+            last_error: ''
+          })
+          .eq('id', message.id)
+
+        if (updateError) throw updateError
+        sent++
+      } catch (sendError) {
+        console.error(`Error sending ${message.channel} ${message.id}:`, sendError)
+        const giveUp = message.attempts >= MAX_ATTEMPTS
+        const retryMinutes = 2 ** message.attempts
+
+        await supabase
+          .from('notification_outbox')
+          .update({
+            status: giveUp ? 'failed' : 'queued',
+            provider: providerName,
+            last_error: sendError.message || String(sendError),
+            send_after: new Date(Date.now() + retryMinutes * 60 * 1000).toISOString()
+          })
+          .eq('id', message.id)
+
+        failed++
+      }
+    }
+
+    return json({ sent, failed })
+  } catch (error) {
+    console.error('Error sending notifications:', error)
+    return json({ error: error.message || 'Failed to send notifications' }, 500)
+  }
+})
@@ -0,0 +1,138 @@
+// Class room links.
+// POST { session_id } -> { url }: an admin or the session's instructor
+//   creates the room, or replaces it when the link has leaked.
+// POST { booking_id } -> { url, opens_at }: an attendee joins. url is null
+//   until the join window opens; the room is created on first join if
+//   nobody set one up beforehand.
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getVideoProvider } from '../_shared/video/index.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+)
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+// Runs RPCs as the caller so auth.uid() and the permission checks apply
+function callerClient(req: Request) {
+  return createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: req.headers.get('Authorization') || '' } } }
+  )
+}
+
+async function createRoom(sessionId: string, userId: string | null, replace: boolean) {
+  const { data: session, error: sessionError } = await supabase
+    .from('class_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single()
+
+  if (sessionError) throw sessionError
+
+  const { data: existing, error: existingError } = await supabase
+    .from('session_meetings')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle()
+
+  if (existingError) throw existingError
+  if (existing && !replace) return existing.meeting_url as string
+
+  const provider = getVideoProvider()
+  const meeting = await provider.createMeeting({
+    sessionId,
+    topic: `${session.class_type} with ${session.instructor}`,
+    startsAt: new Date(session.starts_at),
+    endsAt: new Date(session.ends_at)
+  })
+
+  // Two attendees joining at once must end up in the same room, so a
+  // first-join room never overwrites one that appeared in the meantime
+  const { error: upsertError } = await supabase
+    .from('session_meetings')
+    .upsert({
+      session_id: sessionId,
+      provider: provider.name,
+      meeting_url: meeting.url,
+      provider_reference: meeting.reference,
+      updated_by: userId
+    }, { onConflict: 'session_id', ignoreDuplicates: !replace })
+
+  if (upsertError) throw upsertError
+
+  if (!replace) {
+    const { data: stored, error: storedError } = await supabase
+      .from('session_meetings')
+      .select('meeting_url')
+      .eq('session_id', sessionId)
+      .single()
+
+    if (storedError) throw storedError
+    return stored.meeting_url as string
+  }
+
+  if (existing?.provider === provider.name && existing.provider_reference) {
+    await provider.deleteMeeting(existing.provider_reference)
+  }
+
+  return meeting.url
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { session_id, booking_id } = await req.json()
+    const caller = callerClient(req)
+    const { data: { user } } = await caller.auth.getUser()
+
+    if (!user) {
+      return json({ error: 'Please sign in to join the class' }, 401)
+    }
+
+    if (session_id) {
+      const { data: allowed, error: allowedError } = await caller.rpc('can_manage_session_meeting', {
+        p_session_id: session_id
+      })
+
+      if (allowedError) throw allowedError
+      if (!allowed) {
+        return json({ error: 'Session not found' }, 404)
+      }
+
+      return json({ url: await createRoom(session_id, user.id, true) })
+    }
+
+    const { data, error } = await caller.rpc('get_session_join_link', { p_booking_id: booking_id })
+
+    if (error) {
+      return json({ error: error.message }, 400)
+    }
+
+    const link = data?.[0]
+    if (!link) {
+      return json({ error: 'Booking not found' }, 404)
+    }
+
+    const now = new Date()
+    if (!link.join_url && new Date(link.opens_at) <= now && now < new Date(link.closes_at)) {
+      link.join_url = await createRoom(link.session_id, null, false)
+    }
+
+    return json({ url: link.join_url, opens_at: link.opens_at })
+  } catch (error) {
+    console.error('Error handling class room link:', error)
+    return json({ error: error.message || 'Failed to get the class link' }, 500)
+  }
+})
@@ -0,0 +1,116 @@
+/*
+  # Create class_sessions table for the bookable class schedule
+
+  1. New Tables
+    - `class_sessions`
+      - `id` (uuid, primary key)
+      - `service` (text, one of '1on1', 'group', 'corporate')
+      - `class_type` (text, e.g. 'Hatha Yoga')
+      - `instructor` (text)
+      - `starts_at` (timestamptz)
+      - `ends_at` (timestamptz)
+      - `capacity` (integer, default 1)
+      - `status` (text, default 'scheduled')
+      - `notes` (text)
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - `bookings.session_id` references the booked class session
+    - Free-text class columns on `bookings` are no longer required; they are
+      kept only for bookings made before sessions existed
+    - New bookings must point to a scheduled session that has not started yet
+
+  3. Security
+    - Enable RLS on `class_sessions`
+    - Anyone can read scheduled sessions
+    - Admins can manage all sessions
+*/
+
+CREATE TABLE IF NOT EXISTS class_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service text NOT NULL CHECK (service IN ('1on1', 'group', 'corporate')),
+  class_type text NOT NULL,
+  instructor text NOT NULL DEFAULT 'Yogodaan Instructor',
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  capacity integer NOT NULL DEFAULT 1 CHECK (capacity > 0),
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled', 'completed')),
+  notes text DEFAULT '',
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (ends_at > starts_at)
+);
+
+-- Enable RLS
+ALTER TABLE class_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Policy for anyone to read scheduled sessions
+CREATE POLICY "Anyone can read scheduled class sessions"
+  ON class_sessions
+  FOR SELECT
+  TO anon, authenticated
+  USING (status = 'scheduled');
+
+CREATE POLICY "Admins can manage class sessions"
+  ON class_sessions
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS class_sessions_starts_at_idx ON class_sessions(starts_at);
+CREATE INDEX IF NOT EXISTS class_sessions_service_status_idx ON class_sessions(service, status);
+
+CREATE TRIGGER update_class_sessions_updated_at
+  BEFORE UPDATE ON class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Link bookings to sessions
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS session_id uuid REFERENCES class_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS bookings_session_id_idx ON bookings(session_id);
+
+-- Legacy free-text schedule columns are only filled for pre-session bookings
+ALTER TABLE bookings ALTER COLUMN class_name DROP NOT NULL;
+ALTER TABLE bookings ALTER COLUMN instructor DROP NOT NULL;
+ALTER TABLE bookings ALTER COLUMN class_date DROP NOT NULL;
+ALTER TABLE bookings ALTER COLUMN class_date DROP DEFAULT;
+ALTER TABLE bookings ALTER COLUMN class_time DROP NOT NULL;
+
+-- Only allow new bookings against open sessions
+CREATE OR REPLACE FUNCTION validate_booking_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_record class_sessions%ROWTYPE;
+BEGIN
+  IF NEW.session_id IS NULL THEN
+    RAISE EXCEPTION 'A class session is required to create a booking';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = NEW.session_id;
+
+  IF NOT FOUND OR session_record.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This class session is not available for booking';
+  END IF;
+
+  IF session_record.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class session has already started';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_booking_session_trigger
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_booking_session();
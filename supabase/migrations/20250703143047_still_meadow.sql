@@ -0,0 +1,248 @@
+/*
+  # Enforce class session capacity and add an automatic waitlist
+
+  1. Changes
+    - Bookings that would exceed a session's capacity are stored as
+      'waitlisted' instead of 'confirmed'
+    - Confirming a booking on a full session is rejected
+    - When a seat is released (cancelled or deleted booking, or a capacity
+      increase) the earliest waitlisted booking is promoted automatically
+
+  2. Helper Functions
+    - `booking_holds_seat(status)` - Whether a booking status occupies a seat
+    - `promote_waitlisted_bookings(session_id)` - Fill free seats from the waitlist
+    - `book_class_session(...)` - Book a session and report confirmed/waitlisted
+
+  3. Views
+    - `class_session_seats` - Seats taken and waitlist length per session,
+      readable by everyone without exposing booking details
+*/
+
+CREATE OR REPLACE FUNCTION booking_holds_seat(booking_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT booking_status IN ('pending', 'confirmed', 'completed');
+$$;
+
+CREATE INDEX IF NOT EXISTS bookings_session_status_idx ON bookings(session_id, status);
+
+-- Waitlist or reject bookings that would overfill a session
+CREATE OR REPLACE FUNCTION enforce_session_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_capacity integer;
+  seats_taken integer;
+BEGIN
+  IF NEW.session_id IS NULL OR NOT booking_holds_seat(NEW.status) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Nothing to check when the booking already held a seat on this session
+  IF TG_OP = 'UPDATE' AND OLD.session_id = NEW.session_id AND booking_holds_seat(OLD.status) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the session row so concurrent bookings are counted one at a time
+  SELECT capacity INTO session_capacity
+  FROM class_sessions
+  WHERE id = NEW.session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO seats_taken
+  FROM bookings
+  WHERE session_id = NEW.session_id
+    AND booking_holds_seat(status)
+    AND id <> NEW.id;
+
+  IF seats_taken >= session_capacity THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'waitlisted';
+    ELSE
+      RAISE EXCEPTION 'This class session is full';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_session_capacity_trigger
+  BEFORE INSERT OR UPDATE OF status, session_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_session_capacity();
+
+-- Move waitlisted bookings into free seats, oldest first
+CREATE OR REPLACE FUNCTION promote_waitlisted_bookings(p_session_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_capacity integer;
+  seats_taken integer;
+  promoted integer := 0;
+  next_booking_id uuid;
+BEGIN
+  SELECT capacity INTO session_capacity
+  FROM class_sessions
+  WHERE id = p_session_id AND status = 'scheduled'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COUNT(*) INTO seats_taken
+  FROM bookings
+  WHERE session_id = p_session_id AND booking_holds_seat(status);
+
+  WHILE seats_taken < session_capacity LOOP
+    SELECT id INTO next_booking_id
+    FROM bookings
+    WHERE session_id = p_session_id AND status = 'waitlisted'
+    ORDER BY created_at ASC
+    LIMIT 1;
+
+    EXIT WHEN next_booking_id IS NULL;
+
+    UPDATE bookings SET status = 'confirmed' WHERE id = next_booking_id;
+
+    seats_taken := seats_taken + 1;
+    promoted := promoted + 1;
+    next_booking_id := NULL;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_booking_seat()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.session_id IS NOT NULL AND booking_holds_seat(OLD.status) THEN
+      PERFORM promote_waitlisted_bookings(OLD.session_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.session_id IS NOT NULL
+     AND booking_holds_seat(OLD.status)
+     AND (NOT booking_holds_seat(NEW.status) OR NEW.session_id IS DISTINCT FROM OLD.session_id) THEN
+    PERFORM promote_waitlisted_bookings(OLD.session_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_booking_seat_trigger
+  AFTER UPDATE OF status, session_id OR DELETE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION release_booking_seat();
+
+CREATE OR REPLACE FUNCTION promote_on_capacity_increase()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.capacity > OLD.capacity THEN
+    PERFORM promote_waitlisted_bookings(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER promote_on_capacity_increase_trigger
+  AFTER UPDATE OF capacity ON class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_on_capacity_increase();
+
+-- Booking entry point used by the BookClass page
+CREATE OR REPLACE FUNCTION book_class_session(
+  p_session_id uuid,
+  p_first_name text,
+  p_last_name text,
+  p_email text,
+  p_phone text DEFAULT '',
+  p_experience_level text DEFAULT 'beginner',
+  p_special_requests text DEFAULT ''
+)
+RETURNS TABLE(booking_id uuid, booking_status text, waitlist_position integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_booking bookings%ROWTYPE;
+BEGIN
+  INSERT INTO bookings (
+    user_id,
+    session_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    experience_level,
+    special_requests,
+    emergency_contact,
+    emergency_phone,
+    status
+  ) VALUES (
+    auth.uid(),
+    p_session_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    COALESCE(p_phone, ''),
+    COALESCE(p_experience_level, 'beginner'),
+    COALESCE(p_special_requests, ''),
+    '',
+    '',
+    'confirmed'
+  )
+  RETURNING * INTO new_booking;
+
+  booking_id := new_booking.id;
+  booking_status := new_booking.status;
+  waitlist_position := NULL;
+
+  IF new_booking.status = 'waitlisted' THEN
+    SELECT COUNT(*) INTO waitlist_position
+    FROM bookings
+    WHERE session_id = p_session_id
+      AND status = 'waitlisted'
+      AND created_at <= new_booking.created_at;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_class_session(uuid, text, text, text, text, text, text) TO anon, authenticated;
+
+-- Public seat counts for the booking calendar
+CREATE OR REPLACE VIEW class_session_seats AS
+SELECT
+  s.id AS session_id,
+  s.capacity,
+  COUNT(b.id) FILTER (WHERE booking_holds_seat(b.status))::integer AS seats_taken,
+  COUNT(b.id) FILTER (WHERE b.status = 'waitlisted')::integer AS waitlist_count
+FROM class_sessions s
+LEFT JOIN bookings b ON b.session_id = s.id
+WHERE s.status = 'scheduled'
+GROUP BY s.id, s.capacity;
+
+GRANT SELECT ON class_session_seats TO anon, authenticated;
@@ -0,0 +1,275 @@
+/*
+  # Recurring class series with per-occurrence exceptions
+
+  1. New Tables
+    - `class_series`
+      - `id` (uuid, primary key)
+      - `service`, `class_type`, `instructor`, `capacity` (copied to every occurrence)
+      - `start_time` (time, local to `timezone`)
+      - `duration_minutes` (integer)
+      - `timezone` (text, IANA zone the start time is expressed in)
+      - `by_weekday` (smallint[], ISO weekdays 1 = Monday ... 7 = Sunday)
+      - `interval_weeks` (integer, default 1)
+      - `starts_on` (date)
+      - `until_date` (date, optional)
+      - `occurrence_count` (integer, optional)
+      - `status` (text, 'active' or 'ended')
+
+    - `class_series_exceptions`
+      - `series_id` (uuid, references class_series)
+      - `occurrence_date` (date, the date the rule produced)
+      - `is_cancelled` (boolean)
+      - `new_starts_at` (timestamptz, optional move)
+      - `new_instructor` (text, optional substitute)
+      - `reason` (text)
+
+  2. Changes
+    - `class_sessions.series_id` and `class_sessions.occurrence_date` tie a
+      generated session to its series occurrence
+    - Saving a series or an exception re-syncs the series' future sessions;
+      sessions that already started are never modified, so past bookings
+      keep pointing at the session they attended
+    - Future occurrences are materialized up to one year ahead and rolled
+      forward nightly
+
+  3. Security
+    - Enable RLS on both tables
+    - Admins can manage series and exceptions
+*/
+
+CREATE TABLE IF NOT EXISTS class_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service text NOT NULL CHECK (service IN ('1on1', 'group', 'corporate')),
+  class_type text NOT NULL,
+  instructor text NOT NULL DEFAULT 'Yogodaan Instructor',
+  capacity integer NOT NULL DEFAULT 8 CHECK (capacity > 0),
+  start_time time NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 60 CHECK (duration_minutes > 0),
+  timezone text NOT NULL DEFAULT 'UTC',
+  by_weekday smallint[] NOT NULL CHECK (array_length(by_weekday, 1) > 0 AND by_weekday <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[]),
+  interval_weeks integer NOT NULL DEFAULT 1 CHECK (interval_weeks > 0),
+  starts_on date NOT NULL,
+  until_date date,
+  occurrence_count integer CHECK (occurrence_count > 0),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended')),
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (until_date IS NULL OR until_date >= starts_on),
+  CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS class_series_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id uuid NOT NULL REFERENCES class_series(id) ON DELETE CASCADE,
+  occurrence_date date NOT NULL,
+  is_cancelled boolean NOT NULL DEFAULT false,
+  new_starts_at timestamptz,
+  new_instructor text,
+  reason text DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(series_id, occurrence_date)
+);
+
+ALTER TABLE class_sessions
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES class_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date date;
+
+ALTER TABLE class_sessions
+  ADD CONSTRAINT class_sessions_series_occurrence_key UNIQUE (series_id, occurrence_date);
+
+-- Enable RLS
+ALTER TABLE class_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_series_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage class series"
+  ON class_series
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can manage class series exceptions"
+  ON class_series_exceptions
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE INDEX IF NOT EXISTS class_series_exceptions_series_id_idx ON class_series_exceptions(series_id);
+
+CREATE TRIGGER update_class_series_updated_at
+  BEFORE UPDATE ON class_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Dates produced by a series rule, capped one year ahead
+CREATE OR REPLACE FUNCTION class_series_occurrences(p_series_id uuid)
+RETURNS TABLE(occurrence_date date)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  series_record class_series%ROWTYPE;
+  horizon date;
+BEGIN
+  SELECT * INTO series_record FROM class_series WHERE id = p_series_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  horizon := LEAST(COALESCE(series_record.until_date, 'infinity'::date), (now() + interval '1 year')::date);
+
+  RETURN QUERY
+  SELECT d::date
+  FROM generate_series(series_record.starts_on::timestamp, horizon::timestamp, interval '1 day') AS d
+  WHERE EXTRACT(ISODOW FROM d)::smallint = ANY(series_record.by_weekday)
+    AND ((d::date - date_trunc('week', series_record.starts_on::timestamp)::date) / 7) % series_record.interval_weeks = 0
+  ORDER BY d
+  LIMIT series_record.occurrence_count;
+END;
+$$;
+
+-- Bring a series' future sessions in line with its rule and exceptions
+CREATE OR REPLACE FUNCTION sync_class_series(p_series_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  series_record class_series%ROWTYPE;
+  occurrence record;
+  exception_record class_series_exceptions%ROWTYPE;
+  occurrence_starts_at timestamptz;
+  occurrence_instructor text;
+  occurrence_status text;
+BEGIN
+  SELECT * INTO series_record FROM class_series WHERE id = p_series_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF series_record.status = 'ended' THEN
+    UPDATE class_sessions
+    SET status = 'cancelled'
+    WHERE series_id = p_series_id AND starts_at > now() AND status = 'scheduled';
+    RETURN;
+  END IF;
+
+  FOR occurrence IN SELECT * FROM class_series_occurrences(p_series_id) LOOP
+    SELECT * INTO exception_record
+    FROM class_series_exceptions
+    WHERE series_id = p_series_id AND occurrence_date = occurrence.occurrence_date;
+
+    IF FOUND THEN
+      occurrence_starts_at := COALESCE(
+        exception_record.new_starts_at,
+        (occurrence.occurrence_date + series_record.start_time) AT TIME ZONE series_record.timezone
+      );
+      occurrence_instructor := COALESCE(NULLIF(exception_record.new_instructor, ''), series_record.instructor);
+      occurrence_status := CASE WHEN exception_record.is_cancelled THEN 'cancelled' ELSE 'scheduled' END;
+    ELSE
+      occurrence_starts_at := (occurrence.occurrence_date + series_record.start_time) AT TIME ZONE series_record.timezone;
+      occurrence_instructor := series_record.instructor;
+      occurrence_status := 'scheduled';
+    END IF;
+
+    CONTINUE WHEN occurrence_starts_at <= now();
+
+    INSERT INTO class_sessions (
+      series_id,
+      occurrence_date,
+      service,
+      class_type,
+      instructor,
+      starts_at,
+      ends_at,
+      capacity,
+      status,
+      created_by
+    ) VALUES (
+      p_series_id,
+      occurrence.occurrence_date,
+      series_record.service,
+      series_record.class_type,
+      occurrence_instructor,
+      occurrence_starts_at,
+      occurrence_starts_at + make_interval(mins => series_record.duration_minutes),
+      series_record.capacity,
+      occurrence_status,
+      series_record.created_by
+    )
+    ON CONFLICT (series_id, occurrence_date) DO UPDATE SET
+      service = EXCLUDED.service,
+      class_type = EXCLUDED.class_type,
+      instructor = EXCLUDED.instructor,
+      starts_at = EXCLUDED.starts_at,
+      ends_at = EXCLUDED.ends_at,
+      capacity = EXCLUDED.capacity,
+      status = EXCLUDED.status
+    WHERE class_sessions.starts_at > now();
+  END LOOP;
+
+  -- Occurrences the rule no longer produces are cancelled, never deleted
+  UPDATE class_sessions
+  SET status = 'cancelled'
+  WHERE series_id = p_series_id
+    AND starts_at > now()
+    AND status = 'scheduled'
+    AND occurrence_date NOT IN (SELECT o.occurrence_date FROM class_series_occurrences(p_series_id) o);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_class_series_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'class_series' THEN
+    PERFORM sync_class_series(NEW.id);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM sync_class_series(OLD.series_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM sync_class_series(NEW.series_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_class_series_on_change
+  AFTER INSERT OR UPDATE ON class_series
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_class_series_trigger();
+
+CREATE TRIGGER sync_class_series_on_exception_change
+  AFTER INSERT OR UPDATE OR DELETE ON class_series_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_class_series_trigger();
+
+-- Roll every active series forward so the one-year horizon keeps moving
+CREATE OR REPLACE FUNCTION sync_all_class_series()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  series_id_var uuid;
+BEGIN
+  FOR series_id_var IN SELECT id FROM class_series WHERE status = 'active' LOOP
+    PERFORM sync_class_series(series_id_var);
+  END LOOP;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'sync-class-series',
+  '15 3 * * *',
+  $$SELECT sync_all_class_series()$$
+);
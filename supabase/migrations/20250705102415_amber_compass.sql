@@ -0,0 +1,189 @@
+/*
+  # Time zone aware sessions and bookings
+
+  1. Changes
+    - `class_sessions.timezone` (text) - IANA zone the instructor teaches in,
+      shown next to the viewer's local time
+    - `bookings.timezone` (text) - zone the booker saw the class in, so
+      confirmations and reminders can be written in their local time
+    - Series sessions copy the series' zone
+    - `book_class_session` accepts the booker's zone; a name Postgres does
+      not know falls back to the session's zone, since it would break every
+      later `AT TIME ZONE` on the booking
+
+  2. Notes
+    - `starts_at`/`ends_at` are already timestamptz; zones are display
+      metadata only and never change the stored instant
+    - Legacy text `class_date`/`class_time` columns are left as recorded
+*/
+
+ALTER TABLE class_sessions
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+UPDATE class_sessions s
+SET timezone = cs.timezone
+FROM class_series cs
+WHERE s.series_id = cs.id;
+
+-- Same as before, now copying the series' zone onto each session
+CREATE OR REPLACE FUNCTION sync_class_series(p_series_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  series_record class_series%ROWTYPE;
+  occurrence record;
+  exception_record class_series_exceptions%ROWTYPE;
+  occurrence_starts_at timestamptz;
+  occurrence_instructor text;
+  occurrence_status text;
+BEGIN
+  SELECT * INTO series_record FROM class_series WHERE id = p_series_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF series_record.status = 'ended' THEN
+    UPDATE class_sessions
+    SET status = 'cancelled'
+    WHERE series_id = p_series_id AND starts_at > now() AND status = 'scheduled';
+    RETURN;
+  END IF;
+
+  FOR occurrence IN SELECT * FROM class_series_occurrences(p_series_id) LOOP
+    SELECT * INTO exception_record
+    FROM class_series_exceptions
+    WHERE series_id = p_series_id AND occurrence_date = occurrence.occurrence_date;
+
+    IF FOUND THEN
+      occurrence_starts_at := COALESCE(
+        exception_record.new_starts_at,
+        (occurrence.occurrence_date + series_record.start_time) AT TIME ZONE series_record.timezone
+      );
+      occurrence_instructor := COALESCE(NULLIF(exception_record.new_instructor, ''), series_record.instructor);
+      occurrence_status := CASE WHEN exception_record.is_cancelled THEN 'cancelled' ELSE 'scheduled' END;
+    ELSE
+      occurrence_starts_at := (occurrence.occurrence_date + series_record.start_time) AT TIME ZONE series_record.timezone;
+      occurrence_instructor := series_record.instructor;
+      occurrence_status := 'scheduled';
+    END IF;
+
+    CONTINUE WHEN occurrence_starts_at <= now();
+
+    INSERT INTO class_sessions (
+      series_id,
+      occurrence_date,
+      service,
+      class_type,
+      instructor,
+      timezone,
+      starts_at,
+      ends_at,
+      capacity,
+      status,
+      created_by
+    ) VALUES (
+      p_series_id,
+      occurrence.occurrence_date,
+      series_record.service,
+      series_record.class_type,
+      occurrence_instructor,
+      series_record.timezone,
+      occurrence_starts_at,
+      occurrence_starts_at + make_interval(mins => series_record.duration_minutes),
+      series_record.capacity,
+      occurrence_status,
+      series_record.created_by
+    )
+    ON CONFLICT (series_id, occurrence_date) DO UPDATE SET
+      service = EXCLUDED.service,
+      class_type = EXCLUDED.class_type,
+      instructor = EXCLUDED.instructor,
+      timezone = EXCLUDED.timezone,
+      starts_at = EXCLUDED.starts_at,
+      ends_at = EXCLUDED.ends_at,
+      capacity = EXCLUDED.capacity,
+      status = EXCLUDED.status
+    WHERE class_sessions.starts_at > now();
+  END LOOP;
+
+  -- Occurrences the rule no longer produces are cancelled, never deleted
+  UPDATE class_sessions
+  SET status = 'cancelled'
+  WHERE series_id = p_series_id
+    AND starts_at > now()
+    AND status = 'scheduled'
+    AND occurrence_date NOT IN (SELECT o.occurrence_date FROM class_series_occurrences(p_series_id) o);
+END;
+$$;
+
+-- Replaced so the booker's zone is recorded with the booking
+DROP FUNCTION IF EXISTS book_class_session(uuid, text, text, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION book_class_session(
+  p_session_id uuid,
+  p_first_name text,
+  p_last_name text,
+  p_email text,
+  p_phone text DEFAULT '',
+  p_experience_level text DEFAULT 'beginner',
+  p_special_requests text DEFAULT '',
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE(booking_id uuid, booking_status text, waitlist_position integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_booking bookings%ROWTYPE;
+BEGIN
+  INSERT INTO bookings (
+    user_id,
+    session_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    experience_level,
+    special_requests,
+    emergency_contact,
+    emergency_phone,
+    timezone,
+    status
+  ) VALUES (
+    auth.uid(),
+    p_session_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    COALESCE(p_phone, ''),
+    COALESCE(p_experience_level, 'beginner'),
+    COALESCE(p_special_requests, ''),
+    '',
+    '',
+    COALESCE((SELECT name FROM pg_timezone_names WHERE name = p_timezone), (SELECT timezone FROM class_sessions WHERE id = p_session_id), 'UTC'),
+    'confirmed'
+  )
+  RETURNING * INTO new_booking;
+
+  booking_id := new_booking.id;
+  booking_status := new_booking.status;
+  waitlist_position := NULL;
+
+  IF new_booking.status = 'waitlisted' THEN
+    SELECT COUNT(*) INTO waitlist_position
+    FROM bookings
+    WHERE session_id = p_session_id
+      AND status = 'waitlisted'
+      AND created_at <= new_booking.created_at;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_class_session(uuid, text, text, text, text, text, text, text) TO anon, authenticated;
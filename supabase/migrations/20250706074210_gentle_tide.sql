@@ -0,0 +1,253 @@
+/*
+  # Student self-service cancellation and rescheduling
+
+  1. New Tables
+    - `booking_policies`
+      - `service` (text, primary key, one row per service)
+      - `cancel_window_hours` (integer) - free cancellation up to this many hours before class
+      - `allow_late_cancellation` (boolean) - whether students may still cancel inside the window
+      - `reschedule_window_hours` (integer) - rescheduling closes this many hours before class
+
+    - `booking_events`
+      - `id` (uuid, primary key)
+      - `booking_id` (uuid, references bookings)
+      - `event_type` (text, e.g. 'cancelled', 'rescheduled')
+      - `from_status`, `to_status` (text)
+      - `from_session_id`, `to_session_id` (uuid)
+      - `actor_id` (uuid, who made the change)
+      - `note` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `bookings.late_cancellation` (boolean) - cancelled inside the policy window
+    - `bookings.cancelled_at` (timestamptz)
+
+  3. Functions
+    - `cancel_my_booking(booking_id)` - Cancel one of the caller's bookings under the policy
+    - `reschedule_my_booking(booking_id, new_session_id)` - Move one of the caller's
+      bookings to another open session of the same service
+
+  4. Security
+    - Enable RLS on both tables
+    - Everyone can read the policies; admins can change them
+    - Students can read events for their own bookings; admins can read all
+*/
+
+CREATE TABLE IF NOT EXISTS booking_policies (
+  service text PRIMARY KEY CHECK (service IN ('1on1', 'group', 'corporate')),
+  cancel_window_hours integer NOT NULL DEFAULT 12 CHECK (cancel_window_hours >= 0),
+  allow_late_cancellation boolean NOT NULL DEFAULT true,
+  reschedule_window_hours integer NOT NULL DEFAULT 12 CHECK (reschedule_window_hours >= 0),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+INSERT INTO booking_policies (service) VALUES
+  ('1on1'),
+  ('group'),
+  ('corporate')
+ON CONFLICT (service) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS booking_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  from_status text,
+  to_status text,
+  from_session_id uuid REFERENCES class_sessions(id) ON DELETE SET NULL,
+  to_session_id uuid REFERENCES class_sessions(id) ON DELETE SET NULL,
+  actor_id uuid REFERENCES auth.users(id),
+  note text DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS late_cancellation boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+
+-- Enable RLS
+ALTER TABLE booking_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read booking policies"
+  ON booking_policies
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage booking policies"
+  ON booking_policies
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can read events for their own bookings"
+  ON booking_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_events.booking_id
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can read all booking events"
+  ON booking_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS booking_events_booking_id_idx ON booking_events(booking_id, created_at);
+
+CREATE TRIGGER update_booking_policies_updated_at
+  BEFORE UPDATE ON booking_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION cancel_my_booking(p_booking_id uuid)
+RETURNS TABLE(booking_status text, late_cancellation boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  is_late boolean;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR session_record.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = session_record.service;
+
+  -- A waitlist spot never held a seat, so leaving it is never late
+  is_late := booking_record.status <> 'waitlisted'
+    AND session_record.starts_at - now() < make_interval(hours => COALESCE(policy_record.cancel_window_hours, 12));
+
+  IF is_late AND NOT COALESCE(policy_record.allow_late_cancellation, true) THEN
+    RAISE EXCEPTION 'Cancellations close % hours before class', policy_record.cancel_window_hours;
+  END IF;
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      late_cancellation = is_late,
+      cancelled_at = now()
+  WHERE id = p_booking_id;
+
+  INSERT INTO booking_events (booking_id, event_type, from_status, to_status, from_session_id, actor_id, note)
+  VALUES (
+    p_booking_id,
+    'cancelled',
+    booking_record.status,
+    'cancelled',
+    booking_record.session_id,
+    auth.uid(),
+    CASE WHEN is_late THEN 'Late cancellation by student' ELSE 'Cancelled by student' END
+  );
+
+  booking_status := 'cancelled';
+  late_cancellation := is_late;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_my_booking(p_booking_id uuid, p_new_session_id uuid)
+RETURNS TABLE(booking_status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  current_session class_sessions%ROWTYPE;
+  new_session class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  new_status text;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be rescheduled';
+  END IF;
+
+  SELECT * INTO current_session FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR current_session.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = current_session.service;
+
+  IF current_session.starts_at - now() < make_interval(hours => COALESCE(policy_record.reschedule_window_hours, 12)) THEN
+    RAISE EXCEPTION 'Bookings can only be rescheduled up to % hours before class', policy_record.reschedule_window_hours;
+  END IF;
+
+  SELECT * INTO new_session FROM class_sessions WHERE id = p_new_session_id;
+  IF NOT FOUND
+     OR new_session.id = current_session.id
+     OR new_session.status <> 'scheduled'
+     OR new_session.starts_at <= now()
+     OR new_session.service <> current_session.service THEN
+    RAISE EXCEPTION 'Please choose another upcoming session of the same service';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE session_id = p_new_session_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'confirmed', 'waitlisted')
+  ) THEN
+    RAISE EXCEPTION 'You already have a booking for that session';
+  END IF;
+
+  -- A waitlisted booking moved into an open session takes a seat there.
+  -- The capacity trigger rejects the move if the new session is full.
+  new_status := CASE WHEN booking_record.status = 'waitlisted' THEN 'confirmed' ELSE booking_record.status END;
+
+  UPDATE bookings
+  SET session_id = p_new_session_id,
+      status = new_status
+  WHERE id = p_booking_id;
+
+  INSERT INTO booking_events (booking_id, event_type, from_status, to_status, from_session_id, to_session_id, actor_id, note)
+  VALUES (
+    p_booking_id,
+    'rescheduled',
+    booking_record.status,
+    new_status,
+    booking_record.session_id,
+    p_new_session_id,
+    auth.uid(),
+    'Rescheduled by student'
+  );
+
+  booking_status := new_status;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_my_booking(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_my_booking(uuid, uuid) TO authenticated;
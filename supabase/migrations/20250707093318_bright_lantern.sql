@@ -0,0 +1,276 @@
+/*
+  # Booking lifecycle state machine and event log
+
+  1. New Tables
+    - `booking_status_transitions`
+      - `from_status`, `to_status` (text, composite primary key)
+      - Every status change a booking is allowed to make
+
+  2. Changes
+    - `completed` bookings become `attended`; `bookings.status` is limited to
+      pending, waitlisted, confirmed, attended, no_show and cancelled
+    - Status updates that are not listed in `booking_status_transitions`
+      are rejected
+    - Every insert, status change and session move is written to
+      `booking_events` by trigger, with the acting user and an optional
+      note passed through the `app.booking_event_note` setting
+    - `cancel_my_booking` and `reschedule_my_booking` now rely on the
+      trigger instead of writing events themselves
+
+  3. Security
+    - Enable RLS on `booking_status_transitions`; everyone can read it
+*/
+
+CREATE TABLE IF NOT EXISTS booking_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO booking_status_transitions (from_status, to_status) VALUES
+  ('pending', 'confirmed'),
+  ('pending', 'waitlisted'),
+  ('pending', 'cancelled'),
+  ('waitlisted', 'confirmed'),
+  ('waitlisted', 'pending'),
+  ('waitlisted', 'cancelled'),
+  ('confirmed', 'attended'),
+  ('confirmed', 'no_show'),
+  ('confirmed', 'cancelled'),
+  -- Attendance corrections
+  ('attended', 'no_show'),
+  ('no_show', 'attended')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE booking_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read booking status transitions"
+  ON booking_status_transitions
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+UPDATE bookings SET status = 'attended' WHERE status = 'completed';
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'waitlisted', 'confirmed', 'attended', 'no_show', 'cancelled'));
+
+-- Attended and no-show bookings still used their seat
+CREATE OR REPLACE FUNCTION booking_holds_seat(booking_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT booking_status IN ('pending', 'confirmed', 'attended', 'no_show');
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_booking_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM booking_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Cannot change a booking from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_booking_transition_trigger
+  BEFORE UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_transition();
+
+-- Record who changed what. Named to fire before release_booking_seat_trigger,
+-- so a cancellation is logged before any waitlist promotion it causes.
+CREATE OR REPLACE FUNCTION log_booking_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  event_note text := COALESCE(current_setting('app.booking_event_note', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO booking_events (booking_id, event_type, to_status, to_session_id, actor_id, note)
+    VALUES (NEW.id, 'created', NEW.status, NEW.session_id, auth.uid(), '');
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.session_id IS NOT DISTINCT FROM OLD.session_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'waitlisted' AND NEW.status = 'confirmed' AND NEW.session_id IS NOT DISTINCT FROM OLD.session_id THEN
+    event_note := 'Promoted from the waitlist';
+  END IF;
+
+  INSERT INTO booking_events (
+    booking_id,
+    event_type,
+    from_status,
+    to_status,
+    from_session_id,
+    to_session_id,
+    actor_id,
+    note
+  ) VALUES (
+    NEW.id,
+    CASE WHEN NEW.session_id IS DISTINCT FROM OLD.session_id THEN 'rescheduled' ELSE 'status_changed' END,
+    OLD.status,
+    NEW.status,
+    OLD.session_id,
+    NEW.session_id,
+    auth.uid(),
+    event_note
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_booking_event_trigger
+  AFTER INSERT OR UPDATE OF status, session_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION log_booking_event();
+
+-- Give existing bookings a starting point on their timeline
+INSERT INTO booking_events (booking_id, event_type, to_status, to_session_id, actor_id, created_at)
+SELECT b.id, 'created', b.status, b.session_id, b.user_id, b.created_at
+FROM bookings b
+WHERE NOT EXISTS (
+  SELECT 1 FROM booking_events e WHERE e.booking_id = b.id
+);
+
+-- Events are now written by log_booking_event
+CREATE OR REPLACE FUNCTION cancel_my_booking(p_booking_id uuid)
+RETURNS TABLE(booking_status text, late_cancellation boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  is_late boolean;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR session_record.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = session_record.service;
+
+  -- A waitlist spot never held a seat, so leaving it is never late
+  is_late := booking_record.status <> 'waitlisted'
+    AND session_record.starts_at - now() < make_interval(hours => COALESCE(policy_record.cancel_window_hours, 12));
+
+  IF is_late AND NOT COALESCE(policy_record.allow_late_cancellation, true) THEN
+    RAISE EXCEPTION 'Cancellations close % hours before class', policy_record.cancel_window_hours;
+  END IF;
+
+  PERFORM set_config(
+    'app.booking_event_note',
+    CASE WHEN is_late THEN 'Late cancellation by student' ELSE 'Cancelled by student' END,
+    true
+  );
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      late_cancellation = is_late,
+      cancelled_at = now()
+  WHERE id = p_booking_id;
+
+  booking_status := 'cancelled';
+  late_cancellation := is_late;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_my_booking(p_booking_id uuid, p_new_session_id uuid)
+RETURNS TABLE(booking_status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  current_session class_sessions%ROWTYPE;
+  new_session class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  new_status text;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be rescheduled';
+  END IF;
+
+  SELECT * INTO current_session FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR current_session.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = current_session.service;
+
+  IF current_session.starts_at - now() < make_interval(hours => COALESCE(policy_record.reschedule_window_hours, 12)) THEN
+    RAISE EXCEPTION 'Bookings can only be rescheduled up to % hours before class', policy_record.reschedule_window_hours;
+  END IF;
+
+  SELECT * INTO new_session FROM class_sessions WHERE id = p_new_session_id;
+  IF NOT FOUND
+     OR new_session.id = current_session.id
+     OR new_session.status <> 'scheduled'
+     OR new_session.starts_at <= now()
+     OR new_session.service <> current_session.service THEN
+    RAISE EXCEPTION 'Please choose another upcoming session of the same service';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE session_id = p_new_session_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'confirmed', 'waitlisted')
+  ) THEN
+    RAISE EXCEPTION 'You already have a booking for that session';
+  END IF;
+
+  -- A waitlisted booking moved into an open session takes a seat there.
+  -- The capacity trigger rejects the move if the new session is full.
+  new_status := CASE WHEN booking_record.status = 'waitlisted' THEN 'confirmed' ELSE booking_record.status END;
+
+  PERFORM set_config('app.booking_event_note', 'Rescheduled by student', true);
+
+  UPDATE bookings
+  SET session_id = p_new_session_id,
+      status = new_status
+  WHERE id = p_booking_id;
+
+  booking_status := new_status;
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,429 @@
+/*
+  # Instructors
+
+  1. New Tables
+    - `instructors`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, optional link to the instructor's auth user)
+      - `display_name` (text)
+      - `bio` (text)
+      - `timezone` (text, the zone they usually teach in)
+      - `is_active` (boolean)
+
+  2. Changes
+    - `instructor_id` on `class_sessions`, `class_series` and `bookings`;
+      `class_series_exceptions.new_instructor_id` for substitutes
+    - The text `instructor` column on sessions and series follows the
+      linked instructor's display name
+    - A booking copies its session's instructor
+    - Existing instructor names are turned into instructor rows
+
+  3. Functions
+    - `current_instructor_id()` - Instructor row of the signed-in user
+    - `link_instructor_user(instructor_id, email)` - Admins link an instructor
+      to an account and grant it the yoga_acharya role
+    - `mark_booking_attendance(booking_id, status)` - Instructors (or admins)
+      mark attended / no_show for their own sessions
+
+  4. Security
+    - Enable RLS on `instructors`
+    - Anyone can read active instructors; admins manage them; instructors
+      can update their own bio and zone. A trigger keeps their account link,
+      name and active flag to admins
+    - Instructors can read their own sessions and the bookings on them
+*/
+
+CREATE TABLE IF NOT EXISTS instructors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL,
+  display_name text NOT NULL,
+  bio text DEFAULT '',
+  timezone text NOT NULL DEFAULT 'UTC',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE class_sessions
+  ADD COLUMN IF NOT EXISTS instructor_id uuid REFERENCES instructors(id) ON DELETE SET NULL;
+
+ALTER TABLE class_series
+  ADD COLUMN IF NOT EXISTS instructor_id uuid REFERENCES instructors(id) ON DELETE SET NULL;
+
+ALTER TABLE class_series_exceptions
+  ADD COLUMN IF NOT EXISTS new_instructor_id uuid REFERENCES instructors(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS instructor_id uuid REFERENCES instructors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS class_sessions_instructor_id_idx ON class_sessions(instructor_id, starts_at);
+CREATE INDEX IF NOT EXISTS bookings_instructor_id_idx ON bookings(instructor_id);
+
+-- Backfill: one instructor per distinct name already in use
+INSERT INTO instructors (display_name)
+SELECT DISTINCT name
+FROM (
+  SELECT instructor AS name FROM class_sessions
+  UNION
+  SELECT instructor FROM class_series
+  UNION
+  SELECT 'Yogodaan Instructor'
+) names
+WHERE name IS NOT NULL AND name <> '';
+
+UPDATE class_sessions s
+SET instructor_id = i.id
+FROM instructors i
+WHERE s.instructor_id IS NULL AND s.instructor = i.display_name;
+
+UPDATE class_series s
+SET instructor_id = i.id
+FROM instructors i
+WHERE s.instructor_id IS NULL AND s.instructor = i.display_name;
+
+UPDATE bookings b
+SET instructor_id = s.instructor_id
+FROM class_sessions s
+WHERE b.session_id = s.id AND b.instructor_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE instructors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read active instructors"
+  ON instructors
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true OR user_id = auth.uid() OR is_admin());
+
+CREATE POLICY "Admins can manage instructors"
+  ON instructors
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Instructors can update their own profile"
+  ON instructors
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Not SECURITY DEFINER: current_user is an API role only for direct writes.
+-- The policy above can't limit columns, so the account link, name and active
+-- flag stay with admins
+CREATE OR REPLACE FUNCTION guard_instructor_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id
+     OR NEW.display_name IS DISTINCT FROM OLD.display_name
+     OR NEW.is_active IS DISTINCT FROM OLD.is_active
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only admins can change an instructor''s name, account or status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_instructor_columns_trigger
+  BEFORE UPDATE ON instructors
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_instructor_columns();
+
+CREATE TRIGGER update_instructors_updated_at
+  BEFORE UPDATE ON instructors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION current_instructor_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT id FROM instructors WHERE user_id = auth.uid();
+$$;
+
+CREATE POLICY "Instructors can read their own sessions"
+  ON class_sessions
+  FOR SELECT
+  TO authenticated
+  USING (instructor_id IS NOT NULL AND instructor_id = current_instructor_id());
+
+CREATE POLICY "Instructors can read bookings for their sessions"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (instructor_id IS NOT NULL AND instructor_id = current_instructor_id());
+
+CREATE POLICY "Instructors can read events for their bookings"
+  ON booking_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_events.booking_id
+        AND bookings.instructor_id = current_instructor_id()
+    )
+  );
+
+-- Keep the display name on sessions and series in step with the instructor
+CREATE OR REPLACE FUNCTION apply_instructor_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.instructor_id IS NOT NULL THEN
+    SELECT display_name INTO NEW.instructor FROM instructors WHERE id = NEW.instructor_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_instructor_name_on_session
+  BEFORE INSERT OR UPDATE OF instructor_id, instructor ON class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_instructor_name();
+
+CREATE TRIGGER apply_instructor_name_on_series
+  BEFORE INSERT OR UPDATE OF instructor_id, instructor ON class_series
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_instructor_name();
+
+CREATE OR REPLACE FUNCTION propagate_instructor_rename()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.display_name IS DISTINCT FROM OLD.display_name THEN
+    UPDATE class_sessions SET instructor = NEW.display_name WHERE instructor_id = NEW.id;
+    UPDATE class_series SET instructor = NEW.display_name WHERE instructor_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER propagate_instructor_rename_trigger
+  AFTER UPDATE OF display_name ON instructors
+  FOR EACH ROW
+  EXECUTE FUNCTION propagate_instructor_rename();
+
+-- Bookings follow their session's instructor, including after a reschedule
+CREATE OR REPLACE FUNCTION set_booking_instructor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.session_id IS NOT NULL THEN
+    SELECT instructor_id INTO NEW.instructor_id FROM class_sessions WHERE id = NEW.session_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_booking_instructor_trigger
+  BEFORE INSERT OR UPDATE OF session_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_instructor();
+
+CREATE OR REPLACE FUNCTION sync_session_booking_instructor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.instructor_id IS DISTINCT FROM OLD.instructor_id THEN
+    UPDATE bookings SET instructor_id = NEW.instructor_id WHERE session_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_session_booking_instructor_trigger
+  AFTER UPDATE OF instructor_id ON class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_session_booking_instructor();
+
+CREATE OR REPLACE FUNCTION link_instructor_user(p_instructor_id uuid, p_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_user_id uuid;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can link instructor accounts';
+  END IF;
+
+  SELECT id INTO target_user_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account found for %', p_email;
+  END IF;
+
+  UPDATE instructors SET user_id = target_user_id WHERE id = p_instructor_id;
+
+  INSERT INTO user_roles (user_id, role_id, assigned_by)
+  SELECT target_user_id, r.id, auth.uid()
+  FROM roles r
+  WHERE r.name = 'yoga_acharya'
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_booking_attendance(p_booking_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('attended', 'no_show') THEN
+    RAISE EXCEPTION 'Attendance must be attended or no_show';
+  END IF;
+
+  SELECT * INTO booking_record FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR NOT (is_admin() OR session_record.instructor_id = current_instructor_id()) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF session_record.starts_at > now() THEN
+    RAISE EXCEPTION 'Attendance can be marked once the class has started';
+  END IF;
+
+  IF booking_record.status = p_status THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.booking_event_note', 'Attendance marked', true);
+
+  UPDATE bookings SET status = p_status WHERE id = p_booking_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION current_instructor_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION link_instructor_user(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_booking_attendance(uuid, text) TO authenticated;
+
+-- Same as before, now carrying the instructor id onto each session
+CREATE OR REPLACE FUNCTION sync_class_series(p_series_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  series_record class_series%ROWTYPE;
+  occurrence record;
+  exception_record class_series_exceptions%ROWTYPE;
+  occurrence_starts_at timestamptz;
+  occurrence_instructor text;
+  occurrence_instructor_id uuid;
+  occurrence_status text;
+BEGIN
+  SELECT * INTO series_record FROM class_series WHERE id = p_series_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF series_record.status = 'ended' THEN
+    UPDATE class_sessions
+    SET status = 'cancelled'
+    WHERE series_id = p_series_id AND starts_at > now() AND status = 'scheduled';
+    RETURN;
+  END IF;
+
+  FOR occurrence IN SELECT * FROM class_series_occurrences(p_series_id) LOOP
+    SELECT * INTO exception_record
+    FROM class_series_exceptions
+    WHERE series_id = p_series_id AND occurrence_date = occurrence.occurrence_date;
+
+    IF FOUND THEN
+      occurrence_starts_at := COALESCE(
+        exception_record.new_starts_at,
+        (occurrence.occurrence_date + series_record.start_time) AT TIME ZONE series_record.timezone
+      );
+      occurrence_instructor := COALESCE(NULLIF(exception_record.new_instructor, ''), series_record.instructor);
+      -- A free-text substitute without an instructor row clears the link
+      occurrence_instructor_id := CASE
+        WHEN exception_record.new_instructor_id IS NOT NULL THEN exception_record.new_instructor_id
+        WHEN NULLIF(exception_record.new_instructor, '') IS NOT NULL THEN NULL
+        ELSE series_record.instructor_id
+      END;
+      occurrence_status := CASE WHEN exception_record.is_cancelled THEN 'cancelled' ELSE 'scheduled' END;
+    ELSE
+      occurrence_starts_at := (occurrence.occurrence_date + series_record.start_time) AT TIME ZONE series_record.timezone;
+      occurrence_instructor := series_record.instructor;
+      occurrence_instructor_id := series_record.instructor_id;
+      occurrence_status := 'scheduled';
+    END IF;
+
+    CONTINUE WHEN occurrence_starts_at <= now();
+
+    INSERT INTO class_sessions (
+      series_id,
+      occurrence_date,
+      service,
+      class_type,
+      instructor,
+      instructor_id,
+      timezone,
+      starts_at,
+      ends_at,
+      capacity,
+      status,
+      created_by
+    ) VALUES (
+      p_series_id,
+      occurrence.occurrence_date,
+      series_record.service,
+      series_record.class_type,
+      occurrence_instructor,
+      occurrence_instructor_id,
+      series_record.timezone,
+      occurrence_starts_at,
+      occurrence_starts_at + make_interval(mins => series_record.duration_minutes),
+      series_record.capacity,
+      occurrence_status,
+      series_record.created_by
+    )
+    ON CONFLICT (series_id, occurrence_date) DO UPDATE SET
+      service = EXCLUDED.service,
+      class_type = EXCLUDED.class_type,
+      instructor = EXCLUDED.instructor,
+      instructor_id = EXCLUDED.instructor_id,
+      timezone = EXCLUDED.timezone,
+      starts_at = EXCLUDED.starts_at,
+      ends_at = EXCLUDED.ends_at,
+      capacity = EXCLUDED.capacity,
+      status = EXCLUDED.status
+    WHERE class_sessions.starts_at > now();
+  END LOOP;
+
+  -- Occurrences the rule no longer produces are cancelled, never deleted
+  UPDATE class_sessions
+  SET status = 'cancelled'
+  WHERE series_id = p_series_id
+    AND starts_at > now()
+    AND status = 'scheduled'
+    AND occurrence_date NOT IN (SELECT o.occurrence_date FROM class_series_occurrences(p_series_id) o);
+END;
+$$;
@@ -0,0 +1,227 @@
+/*
+  # Instructor availability and 1-on-1 slot generation
+
+  1. New Tables
+    - `instructor_availability`
+      - `instructor_id` (uuid, references instructors)
+      - `weekday` (smallint, ISO 1 = Monday ... 7 = Sunday)
+      - `start_time`, `end_time` (time, in the instructor's zone)
+
+    - `instructor_blackouts`
+      - `instructor_id` (uuid, references instructors)
+      - `starts_on`, `ends_on` (date, inclusive, in the instructor's zone)
+      - `reason` (text)
+
+  2. Changes
+    - `instructors.private_session_minutes` (integer, default 60)
+    - `instructors.buffer_minutes` (integer, default 15) - kept free before
+      and after every class the instructor teaches
+    - 1-on-1 sessions of one instructor can never overlap (exclusion constraint)
+
+  3. Functions
+    - `get_one_on_one_slots(from, to, instructor_id)` - Open private slots:
+      weekly availability minus blackouts, minus scheduled classes plus buffer
+    - `reserve_one_on_one_slot(...)` - Re-checks the slot under a
+      per-instructor lock, then creates the session and its booking in one
+      transaction
+
+  4. Security
+    - Enable RLS on both tables
+    - Instructors manage their own availability; admins manage everyone's
+    - Slots are only exposed through `get_one_on_one_slots`
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE instructors
+  ADD COLUMN IF NOT EXISTS private_session_minutes integer NOT NULL DEFAULT 60 CHECK (private_session_minutes > 0),
+  ADD COLUMN IF NOT EXISTS buffer_minutes integer NOT NULL DEFAULT 15 CHECK (buffer_minutes >= 0);
+
+CREATE TABLE IF NOT EXISTS instructor_availability (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id uuid NOT NULL REFERENCES instructors(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 1 AND 7),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE IF NOT EXISTS instructor_blackouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id uuid NOT NULL REFERENCES instructors(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  reason text DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS instructor_availability_instructor_id_idx ON instructor_availability(instructor_id, weekday);
+CREATE INDEX IF NOT EXISTS instructor_blackouts_instructor_id_idx ON instructor_blackouts(instructor_id, starts_on);
+
+ALTER TABLE class_sessions
+  ADD CONSTRAINT class_sessions_private_no_overlap
+  EXCLUDE USING gist (
+    instructor_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+  )
+  WHERE (service = '1on1' AND status = 'scheduled');
+
+-- Enable RLS
+ALTER TABLE instructor_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE instructor_blackouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage their own availability"
+  ON instructor_availability
+  FOR ALL
+  TO authenticated
+  USING (instructor_id = current_instructor_id() OR is_admin())
+  WITH CHECK (instructor_id = current_instructor_id() OR is_admin());
+
+CREATE POLICY "Instructors can manage their own blackouts"
+  ON instructor_blackouts
+  FOR ALL
+  TO authenticated
+  USING (instructor_id = current_instructor_id() OR is_admin())
+  WITH CHECK (instructor_id = current_instructor_id() OR is_admin());
+
+CREATE OR REPLACE FUNCTION get_one_on_one_slots(
+  p_from date,
+  p_to date,
+  p_instructor_id uuid DEFAULT NULL
+)
+RETURNS TABLE(
+  instructor_id uuid,
+  instructor_name text,
+  timezone text,
+  starts_at timestamptz,
+  ends_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH candidate_slots AS (
+    SELECT
+      i.id AS instructor_id,
+      i.display_name AS instructor_name,
+      i.timezone,
+      i.buffer_minutes,
+      slot_start AS starts_at,
+      slot_start + make_interval(mins => i.private_session_minutes) AS ends_at
+    FROM instructors i
+    JOIN instructor_availability a ON a.instructor_id = i.id
+    -- Pad the range by a day: the caller's calendar day may straddle two of the instructor's
+    CROSS JOIN generate_series((p_from - 1)::timestamp, (LEAST(p_to, p_from + 62) + 1)::timestamp, interval '1 day') AS d
+    CROSS JOIN LATERAL generate_series(
+      (d::date + a.start_time) AT TIME ZONE i.timezone,
+      ((d::date + a.end_time) AT TIME ZONE i.timezone) - make_interval(mins => i.private_session_minutes),
+      make_interval(mins => i.private_session_minutes + i.buffer_minutes)
+    ) AS slot_start
+    WHERE i.is_active
+      AND (p_instructor_id IS NULL OR i.id = p_instructor_id)
+      AND EXTRACT(ISODOW FROM d)::smallint = a.weekday
+      AND NOT EXISTS (
+        SELECT 1 FROM instructor_blackouts bo
+        WHERE bo.instructor_id = i.id
+          AND d::date BETWEEN bo.starts_on AND bo.ends_on
+      )
+  )
+  SELECT c.instructor_id, c.instructor_name, c.timezone, c.starts_at, c.ends_at
+  FROM candidate_slots c
+  WHERE c.starts_at > now() + interval '2 hours'
+    AND c.starts_at >= (p_from - 1)::timestamptz
+    AND c.starts_at < (p_to + 2)::timestamptz
+    AND NOT EXISTS (
+      SELECT 1 FROM class_sessions s
+      WHERE s.instructor_id = c.instructor_id
+        AND s.status = 'scheduled'
+        AND tstzrange(
+          s.starts_at - make_interval(mins => c.buffer_minutes),
+          s.ends_at + make_interval(mins => c.buffer_minutes)
+        ) && tstzrange(c.starts_at, c.ends_at)
+    )
+  ORDER BY c.starts_at, c.instructor_name;
+$$;
+
+CREATE OR REPLACE FUNCTION reserve_one_on_one_slot(
+  p_instructor_id uuid,
+  p_starts_at timestamptz,
+  p_first_name text,
+  p_last_name text,
+  p_email text,
+  p_phone text DEFAULT '',
+  p_experience_level text DEFAULT 'beginner',
+  p_special_requests text DEFAULT '',
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE(booking_id uuid, booking_status text, session_id uuid)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  slot record;
+  slot_date date;
+  new_session_id uuid;
+  instructor_zone text;
+BEGIN
+  -- One reservation per instructor at a time; the loser re-checks after the winner commits
+  PERFORM pg_advisory_xact_lock(hashtext('one_on_one:' || p_instructor_id::text));
+
+  SELECT i.timezone INTO instructor_zone FROM instructors i WHERE i.id = p_instructor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Instructor not found';
+  END IF;
+
+  slot_date := (p_starts_at AT TIME ZONE instructor_zone)::date;
+
+  SELECT * INTO slot
+  FROM get_one_on_one_slots(slot_date, slot_date, p_instructor_id) s
+  WHERE s.starts_at = p_starts_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This time slot is no longer available';
+  END IF;
+
+  INSERT INTO class_sessions (
+    service,
+    class_type,
+    instructor_id,
+    timezone,
+    starts_at,
+    ends_at,
+    capacity,
+    created_by
+  ) VALUES (
+    '1on1',
+    '1-on-1 Coaching',
+    p_instructor_id,
+    slot.timezone,
+    slot.starts_at,
+    slot.ends_at,
+    1,
+    auth.uid()
+  )
+  RETURNING id INTO new_session_id;
+
+  SELECT b.booking_id, b.booking_status
+  INTO booking_id, booking_status
+  FROM book_class_session(
+    new_session_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    p_experience_level,
+    p_special_requests,
+    p_timezone
+  ) b;
+
+  session_id := new_session_id;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_one_on_one_slots(date, date, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_one_on_one_slot(uuid, timestamptz, text, text, text, text, text, text, text) TO anon, authenticated;
@@ -0,0 +1,172 @@
+/*
+  # Late attendance and attendance reporting
+
+  1. Changes
+    - New booking status `late`: the student came, but after the class started
+    - `late` bookings keep their seat, like `attended` and `no_show`
+    - Attendance can be corrected between attended, late and no_show
+    - `mark_booking_attendance` accepts `late`
+
+  2. Functions
+    - `get_student_attendance(from, to)` - Per student: classes held,
+      attended, late, no-shows and attendance rate
+    - `get_class_turnout(from, to)` - Per class session: booked, attended,
+      late and no-shows
+
+  3. Security
+    - Both report functions are admin-only
+*/
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'waitlisted', 'confirmed', 'attended', 'late', 'no_show', 'cancelled'));
+
+INSERT INTO booking_status_transitions (from_status, to_status) VALUES
+  ('confirmed', 'late'),
+  -- Attendance corrections
+  ('attended', 'late'),
+  ('late', 'attended'),
+  ('late', 'no_show'),
+  ('no_show', 'late')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION booking_holds_seat(booking_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT booking_status IN ('pending', 'confirmed', 'attended', 'late', 'no_show');
+$$;
+
+CREATE OR REPLACE FUNCTION mark_booking_attendance(p_booking_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('attended', 'late', 'no_show') THEN
+    RAISE EXCEPTION 'Attendance must be attended, late or no_show';
+  END IF;
+
+  SELECT * INTO booking_record FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR NOT (is_admin() OR session_record.instructor_id = current_instructor_id()) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF session_record.starts_at > now() THEN
+    RAISE EXCEPTION 'Attendance can be marked once the class has started';
+  END IF;
+
+  IF booking_record.status = p_status THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.booking_event_note', 'Attendance marked', true);
+
+  UPDATE bookings SET status = p_status WHERE id = p_booking_id;
+END;
+$$;
+
+-- Only classes that have already started count; students are grouped by email
+-- so guest bookings and account bookings of the same person add up
+CREATE OR REPLACE FUNCTION get_student_attendance(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE(
+  email text,
+  student_name text,
+  classes_booked integer,
+  attended integer,
+  late integer,
+  no_show integer,
+  attendance_rate numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view attendance reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lower(b.email) AS email,
+    max(trim(b.first_name || ' ' || b.last_name)) AS student_name,
+    COUNT(*)::integer AS classes_booked,
+    COUNT(*) FILTER (WHERE b.status = 'attended')::integer AS attended,
+    COUNT(*) FILTER (WHERE b.status = 'late')::integer AS late,
+    COUNT(*) FILTER (WHERE b.status = 'no_show')::integer AS no_show,
+    round(
+      COUNT(*) FILTER (WHERE b.status IN ('attended', 'late'))::numeric
+        / NULLIF(COUNT(*) FILTER (WHERE b.status IN ('attended', 'late', 'no_show')), 0) * 100,
+      1
+    ) AS attendance_rate
+  FROM bookings b
+  JOIN class_sessions s ON s.id = b.session_id
+  WHERE s.starts_at >= p_from
+    AND s.starts_at < p_to
+    AND s.starts_at <= now()
+    AND s.status <> 'cancelled'
+    AND b.status IN ('confirmed', 'attended', 'late', 'no_show')
+  GROUP BY lower(b.email)
+  ORDER BY 3 DESC, 2;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_class_turnout(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE(
+  session_id uuid,
+  class_type text,
+  instructor text,
+  starts_at timestamptz,
+  capacity integer,
+  booked integer,
+  attended integer,
+  late integer,
+  no_show integer,
+  unmarked integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view attendance reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id AS session_id,
+    s.class_type,
+    s.instructor,
+    s.starts_at,
+    s.capacity,
+    COUNT(b.id) FILTER (WHERE b.status IN ('confirmed', 'attended', 'late', 'no_show'))::integer AS booked,
+    COUNT(b.id) FILTER (WHERE b.status = 'attended')::integer AS attended,
+    COUNT(b.id) FILTER (WHERE b.status = 'late')::integer AS late,
+    COUNT(b.id) FILTER (WHERE b.status = 'no_show')::integer AS no_show,
+    COUNT(b.id) FILTER (WHERE b.status = 'confirmed')::integer AS unmarked
+  FROM class_sessions s
+  LEFT JOIN bookings b ON b.session_id = s.id
+  WHERE s.starts_at >= p_from
+    AND s.starts_at < p_to
+    AND s.starts_at <= now()
+    AND s.status <> 'cancelled'
+  GROUP BY s.id
+  ORDER BY s.starts_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_student_attendance(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_class_turnout(timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,282 @@
+/*
+  # Calendar export
+
+  1. New Tables
+    - `calendar_feeds`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `token` (text, unique) - Secret part of the private feed URL
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `ics_escape`, `ics_fold`, `ics_timestamp`, `ics_event`, `ics_calendar` -
+      RFC 5545 text helpers. Times are written in UTC so every calendar app
+      places them correctly, whatever zone it runs in
+    - `booking_ics_event(booking, session)` - One booking as a VEVENT. The UID
+      is stable per booking, so reschedules update the event in place and
+      cancellations mark it STATUS:CANCELLED instead of leaving a stale copy
+    - `get_booking_ics(booking_id)` - .ics file for a single booking
+    - `get_my_calendar_feed_token()` / `reset_my_calendar_feed_token()`
+    - `get_calendar_feed(token)` - Feed of the user's upcoming bookings and,
+      for instructors, the sessions they teach
+
+  3. Security
+    - Enable RLS on `calendar_feeds`; users can read only their own token
+    - The feed is served by the `calendar-feed` edge function; the token is
+      the only credential, since calendar apps can't send auth headers
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own calendar feed"
+  ON calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION ics_escape(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(replace(replace(replace(replace(
+    coalesce(value, ''),
+    '\', '\\'),
+    ';', '\;'),
+    ',', '\,'),
+    E'\r\n', '\n'),
+    E'\n', '\n');
+$$;
+
+-- Content lines are limited to 75 octets; longer ones continue after CRLF + space
+CREATE OR REPLACE FUNCTION ics_fold(line text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  folded text := '';
+  line_octets integer := 0;
+  ch text;
+BEGIN
+  FOREACH ch IN ARRAY regexp_split_to_array(line, '') LOOP
+    IF line_octets + octet_length(ch) > 75 THEN
+      folded := folded || E'\r\n ';
+      line_octets := 1;
+    END IF;
+    folded := folded || ch;
+    line_octets := line_octets + octet_length(ch);
+  END LOOP;
+
+  RETURN folded || E'\r\n';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ics_timestamp(value timestamptz)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(value AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+$$;
+
+CREATE OR REPLACE FUNCTION ics_event(
+  p_uid text,
+  p_sequence integer,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_summary text,
+  p_description text,
+  p_location text,
+  p_cancelled boolean
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    ics_fold('BEGIN:VEVENT') ||
+    ics_fold('UID:' || p_uid) ||
+    ics_fold('DTSTAMP:' || ics_timestamp(now())) ||
+    ics_fold('SEQUENCE:' || p_sequence) ||
+    ics_fold('DTSTART:' || ics_timestamp(p_starts_at)) ||
+    ics_fold('DTEND:' || ics_timestamp(p_ends_at)) ||
+    ics_fold('SUMMARY:' || ics_escape(p_summary)) ||
+    ics_fold('DESCRIPTION:' || ics_escape(p_description)) ||
+    CASE WHEN coalesce(p_location, '') <> '' THEN ics_fold('LOCATION:' || ics_escape(p_location)) ELSE '' END ||
+    ics_fold('STATUS:' || CASE WHEN p_cancelled THEN 'CANCELLED' ELSE 'CONFIRMED' END) ||
+    ics_fold('END:VEVENT');
+$$;
+
+CREATE OR REPLACE FUNCTION ics_calendar(p_name text, p_events text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    ics_fold('BEGIN:VCALENDAR') ||
+    ics_fold('VERSION:2.0') ||
+    ics_fold('PRODID:-//Yogodaan//Classes//EN') ||
+    ics_fold('CALSCALE:GREGORIAN') ||
+    ics_fold('METHOD:PUBLISH') ||
+    ics_fold('X-WR-CALNAME:' || ics_escape(p_name)) ||
+    coalesce(p_events, '') ||
+    ics_fold('END:VCALENDAR');
+$$;
+
+-- SEQUENCE must grow whenever the event changes; minutes since the epoch of the
+-- latest booking or session update does that without tracking a counter
+CREATE OR REPLACE FUNCTION booking_ics_event(b bookings, s class_sessions)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ics_event(
+    'booking-' || b.id || '@yogodaan.com',
+    floor(extract(epoch FROM greatest(coalesce(b.updated_at, b.created_at), s.updated_at)) / 60)::integer,
+    s.starts_at,
+    s.ends_at,
+    s.class_type || ' with ' || s.instructor,
+    'Your Yogodaan class with ' || s.instructor || '.' || E'\n' ||
+      'Instructor''s time: ' || to_char(s.starts_at AT TIME ZONE s.timezone, 'Dy DD Mon HH24:MI') || ' (' || s.timezone || ')',
+    'Online',
+    b.status = 'cancelled' OR s.status = 'cancelled'
+  );
+$$;
+
+-- Guest bookings have no owner to check, so their id (only ever returned to
+-- the person who booked) is enough to fetch the file
+CREATE OR REPLACE FUNCTION get_booking_ics(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO booking_record FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND OR NOT (
+    booking_record.user_id IS NULL
+    OR booking_record.user_id = auth.uid()
+    OR is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking has no scheduled session';
+  END IF;
+
+  RETURN ics_calendar('Yogodaan', booking_ics_event(booking_record, session_record));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_my_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  feed_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use a calendar feed';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id) VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT token INTO feed_token FROM calendar_feeds WHERE user_id = auth.uid();
+  RETURN feed_token;
+END;
+$$;
+
+-- Invalidates the old URL, e.g. after it was shared by mistake
+CREATE OR REPLACE FUNCTION reset_my_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  feed_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use a calendar feed';
+  END IF;
+
+  DELETE FROM calendar_feeds WHERE user_id = auth.uid();
+  INSERT INTO calendar_feeds (user_id) VALUES (auth.uid())
+  RETURNING token INTO feed_token;
+
+  RETURN feed_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_calendar_feed(p_token text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  feed_user_id uuid;
+  feed_instructor_id uuid;
+  booking_events_ics text;
+  teaching_events_ics text;
+BEGIN
+  SELECT user_id INTO feed_user_id FROM calendar_feeds WHERE token = p_token;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar feed not found';
+  END IF;
+
+  SELECT id INTO feed_instructor_id FROM instructors WHERE user_id = feed_user_id;
+
+  -- Cancelled bookings stay in the feed so subscribed calendars mark them cancelled
+  SELECT string_agg(booking_ics_event(b, s), '' ORDER BY s.starts_at)
+  INTO booking_events_ics
+  FROM bookings b
+  JOIN class_sessions s ON s.id = b.session_id
+  WHERE b.user_id = feed_user_id
+    AND b.status <> 'waitlisted'
+    AND s.ends_at > now() - interval '1 day';
+
+  IF feed_instructor_id IS NOT NULL THEN
+    SELECT string_agg(
+      ics_event(
+        'session-' || s.id || '@yogodaan.com',
+        floor(extract(epoch FROM s.updated_at) / 60)::integer,
+        s.starts_at,
+        s.ends_at,
+        'Teaching: ' || s.class_type,
+        coalesce(seats.seats_taken, 0) || ' of ' || s.capacity || ' seats booked',
+        'Online',
+        s.status = 'cancelled'
+      ),
+      '' ORDER BY s.starts_at
+    )
+    INTO teaching_events_ics
+    FROM class_sessions s
+    LEFT JOIN class_session_seats seats ON seats.session_id = s.id
+    WHERE s.instructor_id = feed_instructor_id
+      AND s.ends_at > now() - interval '1 day';
+  END IF;
+
+  RETURN ics_calendar(
+    'Yogodaan',
+    coalesce(booking_events_ics, '') || coalesce(teaching_events_ics, '')
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booking_ics(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_my_calendar_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_my_calendar_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_calendar_feed(text) TO anon, authenticated;
@@ -0,0 +1,594 @@
+/*
+  # Payments for bookings
+
+  1. New Tables
+    - `payments`
+      - `booking_id` (uuid, references bookings)
+      - `provider` (text) - `stripe` or `fake`
+      - `provider_reference` (text) - Checkout session id at the provider
+      - `amount_cents`, `currency`
+      - `status` (text) - pending, paid, failed, expired, refund_required, refunded
+      - `checkout_url` (text)
+      - `paid_at` (timestamptz)
+
+  2. Changes
+    - `booking_policies.price_cents`, `currency` and `payment_hold_minutes`;
+      1-on-1 is $75 and group classes $25, corporate stays free to book
+    - New booking status `pending_payment`: the seat is held until
+      `bookings.payment_expires_at`, then released
+    - Bookings of priced services start as `pending_payment`; waitlist
+      promotions of priced services also wait for payment, with a 12 hour hold
+    - Students can cancel a booking that is still waiting for payment
+    - A waitlisted booking rescheduled into a priced class waits for payment
+    - A cancelled 1-on-1 booking cancels its private session, freeing the slot
+
+  3. Functions
+    - `record_payment_event(payment_id, reference, event)` - Called by the
+      payment webhook; confirms the booking when paid. A payment that arrives
+      after the hold was released is flagged `refund_required`
+    - `release_expired_payment_holds()` - Cancels unpaid holds, every minute
+    - `get_booking_payment_status(booking_id)` - For the checkout return page
+
+  4. Security
+    - Enable RLS on `payments`; users read payments of their own bookings,
+      admins read all. Payments are written only by the edge functions
+      with the service role
+*/
+
+ALTER TABLE booking_policies
+  ADD COLUMN IF NOT EXISTS price_cents integer NOT NULL DEFAULT 0 CHECK (price_cents >= 0),
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS payment_hold_minutes integer NOT NULL DEFAULT 30 CHECK (payment_hold_minutes > 0);
+
+UPDATE booking_policies SET price_cents = 7500 WHERE service = '1on1';
+UPDATE booking_policies SET price_cents = 2500 WHERE service = 'group';
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS payment_expires_at timestamptz;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'pending_payment', 'waitlisted', 'confirmed', 'attended', 'late', 'no_show', 'cancelled'));
+
+INSERT INTO booking_status_transitions (from_status, to_status) VALUES
+  ('pending_payment', 'confirmed'),
+  ('pending_payment', 'cancelled'),
+  ('waitlisted', 'pending_payment')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION booking_holds_seat(booking_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT booking_status IN ('pending', 'pending_payment', 'confirmed', 'attended', 'late', 'no_show');
+$$;
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  provider_reference text,
+  amount_cents integer NOT NULL CHECK (amount_cents >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'expired', 'refund_required', 'refunded')),
+  checkout_url text,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (provider, provider_reference)
+);
+
+CREATE INDEX IF NOT EXISTS payments_booking_id_idx ON payments(booking_id);
+CREATE INDEX IF NOT EXISTS bookings_payment_expires_at_idx ON bookings(payment_expires_at) WHERE status = 'pending_payment';
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read payments for their own bookings"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = payments.booking_id
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage payments"
+  ON payments
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION service_price_cents(p_session_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(p.price_cents, 0)
+  FROM class_sessions s
+  LEFT JOIN booking_policies p ON p.service = s.service
+  WHERE s.id = p_session_id;
+$$;
+
+-- Runs after the capacity check, so a full class has already turned the
+-- booking into a waitlist spot and gets no payment hold
+CREATE OR REPLACE FUNCTION set_payment_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  hold_minutes integer;
+BEGIN
+  IF NEW.status <> 'pending_payment' THEN
+    NEW.payment_expires_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'pending_payment' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.payment_hold_minutes INTO hold_minutes
+  FROM class_sessions s
+  JOIN booking_policies p ON p.service = s.service
+  WHERE s.id = NEW.session_id;
+
+  -- Promoted students may not be online, so give them longer to pay
+  IF TG_OP = 'UPDATE' AND OLD.status = 'waitlisted' THEN
+    hold_minutes := GREATEST(COALESCE(hold_minutes, 30), 12 * 60);
+  END IF;
+
+  NEW.payment_expires_at := now() + make_interval(mins => COALESCE(hold_minutes, 30));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payment_expiry_trigger
+  BEFORE INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_payment_expiry();
+
+CREATE OR REPLACE FUNCTION book_class_session(
+  p_session_id uuid,
+  p_first_name text,
+  p_last_name text,
+  p_email text,
+  p_phone text DEFAULT '',
+  p_experience_level text DEFAULT 'beginner',
+  p_special_requests text DEFAULT '',
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE(booking_id uuid, booking_status text, waitlist_position integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_booking bookings%ROWTYPE;
+BEGIN
+  INSERT INTO bookings (
+    user_id,
+    session_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    experience_level,
+    special_requests,
+    emergency_contact,
+    emergency_phone,
+    timezone,
+    status
+  ) VALUES (
+    auth.uid(),
+    p_session_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    COALESCE(p_phone, ''),
+    COALESCE(p_experience_level, 'beginner'),
+    COALESCE(p_special_requests, ''),
+    '',
+    '',
+    COALESCE((SELECT name FROM pg_timezone_names WHERE name = p_timezone), (SELECT timezone FROM class_sessions WHERE id = p_session_id), 'UTC'),
+    CASE WHEN COALESCE(service_price_cents(p_session_id), 0) > 0 THEN 'pending_payment' ELSE 'confirmed' END
+  )
+  RETURNING * INTO new_booking;
+
+  booking_id := new_booking.id;
+  booking_status := new_booking.status;
+  waitlist_position := NULL;
+
+  IF new_booking.status = 'waitlisted' THEN
+    SELECT COUNT(*) INTO waitlist_position
+    FROM bookings
+    WHERE session_id = p_session_id
+      AND status = 'waitlisted'
+      AND created_at <= new_booking.created_at;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Same as before, but promotions into a priced class wait for payment
+CREATE OR REPLACE FUNCTION promote_waitlisted_bookings(p_session_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_capacity integer;
+  seats_taken integer;
+  promoted integer := 0;
+  next_booking_id uuid;
+  promoted_status text;
+BEGIN
+  SELECT capacity INTO session_capacity
+  FROM class_sessions
+  WHERE id = p_session_id AND status = 'scheduled'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  promoted_status := CASE WHEN COALESCE(service_price_cents(p_session_id), 0) > 0 THEN 'pending_payment' ELSE 'confirmed' END;
+
+  SELECT COUNT(*) INTO seats_taken
+  FROM bookings
+  WHERE session_id = p_session_id AND booking_holds_seat(status);
+
+  WHILE seats_taken < session_capacity LOOP
+    SELECT id INTO next_booking_id
+    FROM bookings
+    WHERE session_id = p_session_id AND status = 'waitlisted'
+    ORDER BY created_at ASC
+    LIMIT 1;
+
+    EXIT WHEN next_booking_id IS NULL;
+
+    UPDATE bookings SET status = promoted_status WHERE id = next_booking_id;
+
+    seats_taken := seats_taken + 1;
+    promoted := promoted + 1;
+    next_booking_id := NULL;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_booking_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  event_note text := COALESCE(current_setting('app.booking_event_note', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO booking_events (booking_id, event_type, to_status, to_session_id, actor_id, note)
+    VALUES (NEW.id, 'created', NEW.status, NEW.session_id, auth.uid(), '');
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.session_id IS NOT DISTINCT FROM OLD.session_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'waitlisted' AND NEW.status IN ('confirmed', 'pending_payment') AND NEW.session_id IS NOT DISTINCT FROM OLD.session_id THEN
+    event_note := 'Promoted from the waitlist';
+  END IF;
+
+  INSERT INTO booking_events (
+    booking_id,
+    event_type,
+    from_status,
+    to_status,
+    from_session_id,
+    to_session_id,
+    actor_id,
+    note
+  ) VALUES (
+    NEW.id,
+    CASE WHEN NEW.session_id IS DISTINCT FROM OLD.session_id THEN 'rescheduled' ELSE 'status_changed' END,
+    OLD.status,
+    NEW.status,
+    OLD.session_id,
+    NEW.session_id,
+    auth.uid(),
+    event_note
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_my_booking(p_booking_id uuid)
+RETURNS TABLE(booking_status text, late_cancellation boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  is_late boolean;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'pending_payment', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR session_record.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = session_record.service;
+
+  -- Waitlist spots and unpaid holds were never really taken, so leaving them is never late
+  is_late := booking_record.status NOT IN ('waitlisted', 'pending_payment')
+    AND session_record.starts_at - now() < make_interval(hours => COALESCE(policy_record.cancel_window_hours, 12));
+
+  IF is_late AND NOT COALESCE(policy_record.allow_late_cancellation, true) THEN
+    RAISE EXCEPTION 'Cancellations close % hours before class', policy_record.cancel_window_hours;
+  END IF;
+
+  PERFORM set_config(
+    'app.booking_event_note',
+    CASE WHEN is_late THEN 'Late cancellation by student' ELSE 'Cancelled by student' END,
+    true
+  );
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      late_cancellation = is_late,
+      cancelled_at = now()
+  WHERE id = p_booking_id;
+
+  booking_status := 'cancelled';
+  late_cancellation := is_late;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_my_booking(p_booking_id uuid, p_new_session_id uuid)
+RETURNS TABLE(booking_status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  current_session class_sessions%ROWTYPE;
+  new_session class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  new_status text;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be rescheduled';
+  END IF;
+
+  SELECT * INTO current_session FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR current_session.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = current_session.service;
+
+  IF current_session.starts_at - now() < make_interval(hours => COALESCE(policy_record.reschedule_window_hours, 12)) THEN
+    RAISE EXCEPTION 'Bookings can only be rescheduled up to % hours before class', policy_record.reschedule_window_hours;
+  END IF;
+
+  SELECT * INTO new_session FROM class_sessions WHERE id = p_new_session_id;
+  IF NOT FOUND
+     OR new_session.id = current_session.id
+     OR new_session.status <> 'scheduled'
+     OR new_session.starts_at <= now()
+     OR new_session.service <> current_session.service THEN
+    RAISE EXCEPTION 'Please choose another upcoming session of the same service';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE session_id = p_new_session_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'pending_payment', 'confirmed', 'waitlisted')
+  ) THEN
+    RAISE EXCEPTION 'You already have a booking for that session';
+  END IF;
+
+  -- A waitlisted booking moved into an open session takes a seat there, and
+  -- has to be paid for first in a priced class.
+  -- The capacity trigger rejects the move if the new session is full.
+  new_status := CASE
+    WHEN booking_record.status <> 'waitlisted' THEN booking_record.status
+    WHEN COALESCE(service_price_cents(p_new_session_id), 0) > 0 THEN 'pending_payment'
+    ELSE 'confirmed'
+  END;
+
+  PERFORM set_config('app.booking_event_note', 'Rescheduled by student', true);
+
+  UPDATE bookings
+  SET session_id = p_new_session_id,
+      status = new_status
+  WHERE id = p_booking_id;
+
+  booking_status := new_status;
+  RETURN NEXT;
+END;
+$$;
+
+-- Private sessions only exist for their one booking
+CREATE OR REPLACE FUNCTION release_private_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF booking_holds_seat(OLD.status) AND NOT booking_holds_seat(NEW.status) THEN
+    UPDATE class_sessions s
+    SET status = 'cancelled'
+    WHERE s.id = NEW.session_id
+      AND s.service = '1on1'
+      AND s.status = 'scheduled'
+      AND NOT EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.session_id = s.id AND booking_holds_seat(b.status)
+      );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_private_session_trigger
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION release_private_session();
+
+CREATE OR REPLACE FUNCTION release_expired_payment_holds()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  expired_booking_id uuid;
+  released integer := 0;
+BEGIN
+  FOR expired_booking_id IN
+    SELECT id FROM bookings
+    WHERE status = 'pending_payment'
+      AND payment_expires_at < now()
+    ORDER BY payment_expires_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM set_config('app.booking_event_note', 'Payment not completed in time', true);
+
+    UPDATE bookings
+    SET status = 'cancelled',
+        cancelled_at = now()
+    WHERE id = expired_booking_id;
+
+    UPDATE payments
+    SET status = 'expired'
+    WHERE booking_id = expired_booking_id AND status = 'pending';
+
+    released := released + 1;
+  END LOOP;
+
+  RETURN released;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_payment_id uuid,
+  p_reference text,
+  p_event text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  payment_record payments%ROWTYPE;
+  booking_record bookings%ROWTYPE;
+BEGIN
+  IF p_event NOT IN ('paid', 'failed', 'expired') THEN
+    RAISE EXCEPTION 'Unknown payment event %', p_event;
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR payment_record.provider_reference IS DISTINCT FROM p_reference THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Providers retry webhooks, so repeated events are a no-op
+  IF payment_record.status <> 'pending' THEN
+    RETURN payment_record.status;
+  END IF;
+
+  IF p_event <> 'paid' THEN
+    UPDATE payments SET status = p_event WHERE id = p_payment_id;
+    RETURN p_event;
+  END IF;
+
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = payment_record.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.status <> 'pending_payment' THEN
+    UPDATE payments SET status = 'refund_required', paid_at = now() WHERE id = p_payment_id;
+    RETURN 'refund_required';
+  END IF;
+
+  UPDATE payments SET status = 'paid', paid_at = now() WHERE id = p_payment_id;
+
+  PERFORM set_config('app.booking_event_note', 'Payment received', true);
+  UPDATE bookings SET status = 'confirmed' WHERE id = booking_record.id;
+
+  RETURN 'paid';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_booking_payment_status(p_booking_id uuid)
+RETURNS TABLE(
+  booking_status text,
+  payment_expires_at timestamptz,
+  amount_cents integer,
+  currency text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT b.status, b.payment_expires_at, COALESCE(p.price_cents, 0), COALESCE(p.currency, 'USD')
+  FROM bookings b
+  LEFT JOIN class_sessions s ON s.id = b.session_id
+  LEFT JOIN booking_policies p ON p.service = s.service
+  WHERE b.id = p_booking_id
+    AND (b.user_id IS NULL OR b.user_id = auth.uid() OR is_admin());
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_payment_event(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment_event(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_booking_payment_status(uuid) TO anon, authenticated;
+
+SELECT cron.schedule(
+  'release-payment-holds',
+  '* * * * *',
+  $$SELECT release_expired_payment_holds()$$
+);
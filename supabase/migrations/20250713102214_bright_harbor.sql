@@ -0,0 +1,441 @@
+/*
+  # Class packs, memberships and credits
+
+  1. New Tables
+    - `products`
+      - `name`, `description`
+      - `kind` (text) - `pack` (a number of class credits) or `membership`
+        (unlimited classes for a period)
+      - `service` (text) - Service the credits or membership cover
+      - `credits` (integer) - Credits in a pack
+      - `duration_days` (integer) - How long pack credits stay valid, or how
+        long a membership runs
+      - `price_cents`, `currency`
+      - `is_active` (boolean) - Offered for sale
+    - `credit_ledger`
+      - `user_id` (uuid, references auth.users)
+      - `lot_id` (uuid) - The purchase entry the credits belong to; a purchase
+        is its own lot
+      - `entry_type` (text) - purchase, redeem, refund, expiry, adjustment
+      - `credits` (integer) - Positive for credits added, negative for used
+      - `service`, `expires_at` - Set on purchase entries
+      - `booking_id`, `payment_id`, `note`
+    - `memberships`
+      - `user_id`, `product_id`, `payment_id`
+      - `service`, `starts_at`, `ends_at`
+
+  2. Changes
+    - `payments.product_id` and `payments.user_id` for purchases of products;
+      `booking_id` stays empty on those
+    - `bookings.payment_method` (text) - `payment`, `credit` or `membership`
+    - A booking that would wait for payment is confirmed straight away when
+      the student has an active membership or an unexpired credit for the
+      service; this covers new bookings, waitlist promotions and reschedules
+    - View `credit_lots` with the remaining credits of each purchase
+
+  3. Functions
+    - `grant_product(user_id, product_id, payment_id)` - Adds a pack's
+      credits or starts/extends a membership, called when a purchase is paid
+    - `record_payment_event` now handles product purchases
+    - Credits are redeemed when a booking takes its seat and refunded when it
+      is cancelled on time; late cancellations forfeit the credit
+    - `expire_credit_lots()` - Writes off unused expired credits, daily
+
+  4. Security
+    - Enable RLS on the new tables; everyone reads active products, users
+      read their own ledger and memberships, admins manage everything
+*/
+
+CREATE TABLE IF NOT EXISTS products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  kind text NOT NULL CHECK (kind IN ('pack', 'membership')),
+  service text NOT NULL DEFAULT 'group',
+  credits integer CHECK (credits > 0),
+  duration_days integer NOT NULL CHECK (duration_days > 0),
+  price_cents integer NOT NULL CHECK (price_cents >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK ((kind = 'pack') = (credits IS NOT NULL))
+);
+
+INSERT INTO products (name, description, kind, service, credits, duration_days, price_cents) VALUES
+  ('10-Class Pack', 'Ten group classes, valid for 90 days', 'pack', 'group', 10, 90, 20000),
+  ('Monthly Unlimited', 'Unlimited group classes for 30 days', 'membership', 'group', NULL, 30, 12000);
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS payment_method text CHECK (payment_method IN ('payment', 'credit', 'membership'));
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lot_id uuid NOT NULL REFERENCES credit_ledger(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN ('purchase', 'redeem', 'refund', 'expiry', 'adjustment')),
+  credits integer NOT NULL,
+  service text,
+  expires_at timestamptz,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  note text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (entry_type <> 'purchase' OR (lot_id = id AND service IS NOT NULL AND expires_at IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  service text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS credit_ledger_user_id_idx ON credit_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS credit_ledger_lot_id_idx ON credit_ledger(lot_id);
+CREATE INDEX IF NOT EXISTS credit_ledger_booking_id_idx ON credit_ledger(booking_id);
+CREATE INDEX IF NOT EXISTS memberships_user_id_idx ON memberships(user_id, ends_at);
+CREATE INDEX IF NOT EXISTS payments_user_id_idx ON payments(user_id);
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read active products"
+  ON products
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active OR is_admin());
+
+CREATE POLICY "Admins can manage products"
+  ON products
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can read their own credit ledger"
+  ON credit_ledger
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage the credit ledger"
+  ON credit_ledger
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can read their own memberships"
+  ON memberships
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage memberships"
+  ON memberships
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can read their own purchases"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE VIEW credit_lots
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS lot_id,
+  p.user_id,
+  p.service,
+  p.expires_at,
+  p.created_at,
+  p.credits AS purchased,
+  SUM(e.credits)::integer AS remaining
+FROM credit_ledger p
+JOIN credit_ledger e ON e.lot_id = p.id
+WHERE p.entry_type = 'purchase'
+GROUP BY p.id;
+
+GRANT SELECT ON credit_lots TO authenticated;
+
+CREATE OR REPLACE FUNCTION has_active_membership(p_user_id uuid, p_service text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE user_id = p_user_id
+      AND service = p_service
+      AND starts_at <= now()
+      AND ends_at > now()
+  );
+$$;
+
+-- The lot that expires first is used first
+CREATE OR REPLACE FUNCTION next_credit_lot(p_user_id uuid, p_service text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT lot_id FROM credit_lots
+  WHERE user_id = p_user_id
+    AND service = p_service
+    AND expires_at > now()
+    AND remaining > 0
+  ORDER BY expires_at, created_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION grant_product(p_user_id uuid, p_product_id uuid, p_payment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  product_record products%ROWTYPE;
+  new_lot_id uuid := gen_random_uuid();
+  membership_start timestamptz;
+BEGIN
+  SELECT * INTO product_record FROM products WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF product_record.kind = 'pack' THEN
+    INSERT INTO credit_ledger (id, user_id, lot_id, entry_type, credits, service, expires_at, payment_id, note)
+    VALUES (
+      new_lot_id,
+      p_user_id,
+      new_lot_id,
+      'purchase',
+      product_record.credits,
+      product_record.service,
+      now() + make_interval(days => product_record.duration_days),
+      p_payment_id,
+      product_record.name
+    );
+    RETURN;
+  END IF;
+
+  -- Renewing before the current membership ends extends it
+  SELECT GREATEST(now(), MAX(ends_at)) INTO membership_start
+  FROM memberships
+  WHERE user_id = p_user_id AND service = product_record.service;
+
+  INSERT INTO memberships (user_id, product_id, payment_id, service, starts_at, ends_at)
+  VALUES (
+    p_user_id,
+    product_record.id,
+    p_payment_id,
+    product_record.service,
+    COALESCE(membership_start, now()),
+    COALESCE(membership_start, now()) + make_interval(days => product_record.duration_days)
+  );
+END;
+$$;
+
+-- Runs before the capacity check; if the class is full the booking becomes a
+-- waitlist spot and nothing is redeemed until it is promoted
+CREATE OR REPLACE FUNCTION apply_booking_entitlement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_service text;
+BEGIN
+  IF NEW.user_id IS NULL OR NEW.status <> 'pending_payment' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'pending_payment' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT service INTO session_service FROM class_sessions WHERE id = NEW.session_id;
+
+  -- Serialises a student's bookings so two of them can't both take the last credit
+  PERFORM pg_advisory_xact_lock(hashtext('credits:' || NEW.user_id::text));
+
+  IF has_active_membership(NEW.user_id, session_service) THEN
+    NEW.status := 'confirmed';
+    NEW.payment_method := 'membership';
+  ELSIF next_credit_lot(NEW.user_id, session_service) IS NOT NULL THEN
+    NEW.status := 'confirmed';
+    NEW.payment_method := 'credit';
+  ELSE
+    NEW.payment_method := 'payment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_booking_entitlement_trigger
+  BEFORE INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_booking_entitlement();
+
+CREATE OR REPLACE FUNCTION settle_booking_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_service text;
+  credit_lot uuid;
+BEGIN
+  IF NEW.payment_method IS DISTINCT FROM 'credit' THEN
+    RETURN NEW;
+  END IF;
+
+  IF booking_holds_seat(NEW.status) AND (TG_OP = 'INSERT' OR NOT booking_holds_seat(OLD.status)) THEN
+    SELECT service INTO session_service FROM class_sessions WHERE id = NEW.session_id;
+    credit_lot := next_credit_lot(NEW.user_id, session_service);
+
+    IF credit_lot IS NULL THEN
+      RAISE EXCEPTION 'You have no class credits left';
+    END IF;
+
+    INSERT INTO credit_ledger (user_id, lot_id, entry_type, credits, booking_id)
+    VALUES (NEW.user_id, credit_lot, 'redeem', -1, NEW.id);
+  ELSIF TG_OP = 'UPDATE'
+     AND booking_holds_seat(OLD.status)
+     AND NEW.status = 'cancelled'
+     AND NOT COALESCE(NEW.late_cancellation, false) THEN
+    SELECT lot_id INTO credit_lot
+    FROM credit_ledger
+    WHERE booking_id = NEW.id AND entry_type = 'redeem'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF credit_lot IS NOT NULL THEN
+      INSERT INTO credit_ledger (user_id, lot_id, entry_type, credits, booking_id, note)
+      VALUES (NEW.user_id, credit_lot, 'refund', 1, NEW.id, 'Cancelled in time');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_booking_credit_trigger
+  AFTER INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION settle_booking_credit();
+
+CREATE OR REPLACE FUNCTION expire_credit_lots()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  lot_record record;
+  expired integer := 0;
+BEGIN
+  FOR lot_record IN
+    SELECT lot_id, user_id, remaining FROM credit_lots
+    WHERE expires_at <= now() AND remaining > 0
+  LOOP
+    INSERT INTO credit_ledger (user_id, lot_id, entry_type, credits, note)
+    VALUES (lot_record.user_id, lot_record.lot_id, 'expiry', -lot_record.remaining, 'Credits expired');
+
+    expired := expired + lot_record.remaining;
+  END LOOP;
+
+  RETURN expired;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_payment_id uuid,
+  p_reference text,
+  p_event text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  payment_record payments%ROWTYPE;
+  booking_record bookings%ROWTYPE;
+BEGIN
+  IF p_event NOT IN ('paid', 'failed', 'expired') THEN
+    RAISE EXCEPTION 'Unknown payment event %', p_event;
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR payment_record.provider_reference IS DISTINCT FROM p_reference THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Providers retry webhooks, so repeated events are a no-op
+  IF payment_record.status <> 'pending' THEN
+    RETURN payment_record.status;
+  END IF;
+
+  IF p_event <> 'paid' THEN
+    UPDATE payments SET status = p_event WHERE id = p_payment_id;
+    RETURN p_event;
+  END IF;
+
+  IF payment_record.product_id IS NOT NULL THEN
+    UPDATE payments SET status = 'paid', paid_at = now() WHERE id = p_payment_id;
+    PERFORM grant_product(payment_record.user_id, payment_record.product_id, p_payment_id);
+    RETURN 'paid';
+  END IF;
+
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = payment_record.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.status <> 'pending_payment' THEN
+    UPDATE payments SET status = 'refund_required', paid_at = now() WHERE id = p_payment_id;
+    RETURN 'refund_required';
+  END IF;
+
+  UPDATE payments SET status = 'paid', paid_at = now() WHERE id = p_payment_id;
+
+  PERFORM set_config('app.booking_event_note', 'Payment received', true);
+  UPDATE bookings SET status = 'confirmed' WHERE id = booking_record.id;
+
+  RETURN 'paid';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_product(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_credit_lots() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-credit-lots',
+  '15 0 * * *',
+  $$SELECT expire_credit_lots()$$
+);
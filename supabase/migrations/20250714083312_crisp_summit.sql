@@ -0,0 +1,312 @@
+/*
+  # Invoices
+
+  1. New Tables
+    - `invoice_settings` (single row)
+      - `seller_name`, `seller_address`, `seller_tax_id` - Printed on invoices
+      - `tax_label`, `tax_rate` (numeric, percent) - Prices already include tax;
+        invoices show the tax part separately
+      - `number_prefix`, `next_number` - Invoice numbers run without gaps
+    - `billing_addresses`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `full_name`, `company`, `address_line1`, `address_line2`, `city`,
+        `postal_code`, `region`, `country`, `tax_id`
+    - `invoices`
+      - `invoice_number` (text, unique), `payment_id` (one invoice per payment)
+      - `user_id`, `issued_at`, `currency`
+      - `subtotal_cents`, `tax_cents`, `total_cents`, `tax_label`, `tax_rate`
+      - `billing_name`, `billing_email`, `billing_address`, `billing_tax_id` -
+        Copied when the invoice is issued, later address changes don't alter it
+      - `seller_name`, `seller_address`, `seller_tax_id` - Copied as well
+    - `invoice_lines`
+      - `invoice_id`, `position`, `description`, `quantity`,
+        `unit_amount_cents`, `amount_cents`
+
+  2. Functions
+    - `issue_invoice(payment_id)` - Issues the invoice for a paid payment, if
+      it doesn't have one yet. Runs when a payment is marked paid, for class
+      bookings as well as packs, memberships and corporate packages
+    - Existing paid payments are invoiced once, in the order they were paid
+
+  3. Security
+    - Enable RLS on all new tables; users manage their own billing address
+      and read their own invoices, admins read everything and manage the
+      invoice settings. Invoices are only written by `issue_invoice`
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  seller_name text NOT NULL DEFAULT 'Yogodyaan',
+  seller_address text NOT NULL DEFAULT '',
+  seller_tax_id text NOT NULL DEFAULT '',
+  tax_label text NOT NULL DEFAULT 'Tax',
+  tax_rate numeric(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate < 100),
+  number_prefix text NOT NULL DEFAULT 'YD-',
+  next_number integer NOT NULL DEFAULT 1 CHECK (next_number > 0),
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+INSERT INTO invoice_settings (id) VALUES (true) ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS billing_addresses (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name text NOT NULL DEFAULT '',
+  company text NOT NULL DEFAULT '',
+  address_line1 text NOT NULL DEFAULT '',
+  address_line2 text NOT NULL DEFAULT '',
+  city text NOT NULL DEFAULT '',
+  postal_code text NOT NULL DEFAULT '',
+  region text NOT NULL DEFAULT '',
+  country text NOT NULL DEFAULT '',
+  tax_id text NOT NULL DEFAULT '',
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text UNIQUE NOT NULL,
+  payment_id uuid UNIQUE REFERENCES payments(id) ON DELETE RESTRICT,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  currency text NOT NULL,
+  subtotal_cents integer NOT NULL,
+  tax_cents integer NOT NULL,
+  total_cents integer NOT NULL,
+  tax_label text NOT NULL,
+  tax_rate numeric(5,2) NOT NULL,
+  billing_name text NOT NULL DEFAULT '',
+  billing_email text NOT NULL DEFAULT '',
+  billing_address text NOT NULL DEFAULT '',
+  billing_tax_id text NOT NULL DEFAULT '',
+  seller_name text NOT NULL,
+  seller_address text NOT NULL,
+  seller_tax_id text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (subtotal_cents + tax_cents = total_cents)
+);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 1,
+  description text NOT NULL,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_amount_cents integer NOT NULL,
+  amount_cents integer NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS invoices_user_id_idx ON invoices(user_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS invoices_issued_at_idx ON invoices(issued_at DESC);
+CREATE INDEX IF NOT EXISTS invoice_lines_invoice_id_idx ON invoice_lines(invoice_id, position);
+
+ALTER TABLE invoice_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_addresses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage invoice settings"
+  ON invoice_settings
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can manage their own billing address"
+  ON billing_addresses
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can read billing addresses"
+  ON billing_addresses
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can read their own invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin());
+
+CREATE POLICY "Users can read their own invoice lines"
+  ON invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_lines.invoice_id
+        AND (invoices.user_id = auth.uid() OR is_admin())
+    )
+  );
+
+CREATE TRIGGER update_invoice_settings_updated_at
+  BEFORE UPDATE ON invoice_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_billing_addresses_updated_at
+  BEFORE UPDATE ON billing_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION format_billing_address(a billing_addresses)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT concat_ws(E'\n',
+    NULLIF(a.company, ''),
+    NULLIF(a.address_line1, ''),
+    NULLIF(a.address_line2, ''),
+    NULLIF(concat_ws(' ', NULLIF(a.postal_code, ''), NULLIF(a.city, '')), ''),
+    NULLIF(a.region, ''),
+    NULLIF(a.country, '')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION issue_invoice(p_payment_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  payment_record payments%ROWTYPE;
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+  product_record products%ROWTYPE;
+  settings_record invoice_settings%ROWTYPE;
+  address_record billing_addresses%ROWTYPE;
+  invoice_user_id uuid;
+  line_description text;
+  customer_name text := '';
+  customer_email text := '';
+  tax_amount integer;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO payment_record FROM payments WHERE id = p_payment_id;
+
+  IF NOT FOUND OR payment_record.status <> 'paid' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO new_invoice_id FROM invoices WHERE payment_id = p_payment_id;
+  IF FOUND THEN
+    RETURN new_invoice_id;
+  END IF;
+
+  invoice_user_id := payment_record.user_id;
+
+  IF payment_record.product_id IS NOT NULL THEN
+    SELECT * INTO product_record FROM products WHERE id = payment_record.product_id;
+    line_description := COALESCE(product_record.name, 'Class pack')
+      || CASE WHEN product_record.kind = 'pack' THEN ' (' || product_record.credits || ' classes)' ELSE '' END;
+  ELSE
+    SELECT * INTO booking_record FROM bookings WHERE id = payment_record.booking_id;
+    SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+
+    invoice_user_id := COALESCE(invoice_user_id, booking_record.user_id);
+    customer_name := trim(COALESCE(booking_record.first_name, '') || ' ' || COALESCE(booking_record.last_name, ''));
+    customer_email := COALESCE(booking_record.email, '');
+    line_description := COALESCE(session_record.class_type, 'Yoga class')
+      || COALESCE(' with ' || session_record.instructor, '')
+      || COALESCE(', ' || to_char(session_record.starts_at AT TIME ZONE COALESCE(booking_record.timezone, 'UTC'), 'Mon DD, YYYY HH24:MI'), '');
+  END IF;
+
+  IF invoice_user_id IS NOT NULL THEN
+    SELECT * INTO address_record FROM billing_addresses WHERE user_id = invoice_user_id;
+
+    SELECT
+      COALESCE(NULLIF(customer_name, ''), raw_user_meta_data->>'full_name', ''),
+      COALESCE(NULLIF(customer_email, ''), email, '')
+    INTO customer_name, customer_email
+    FROM auth.users
+    WHERE id = invoice_user_id;
+  END IF;
+
+  -- Locking the settings row hands out numbers one at a time, without gaps
+  SELECT * INTO settings_record FROM invoice_settings WHERE id FOR UPDATE;
+
+  UPDATE invoice_settings SET next_number = next_number + 1 WHERE id;
+
+  tax_amount := payment_record.amount_cents - round(payment_record.amount_cents / (1 + settings_record.tax_rate / 100))::integer;
+
+  INSERT INTO invoices (
+    invoice_number,
+    payment_id,
+    user_id,
+    issued_at,
+    currency,
+    subtotal_cents,
+    tax_cents,
+    total_cents,
+    tax_label,
+    tax_rate,
+    billing_name,
+    billing_email,
+    billing_address,
+    billing_tax_id,
+    seller_name,
+    seller_address,
+    seller_tax_id
+  ) VALUES (
+    settings_record.number_prefix || to_char(COALESCE(payment_record.paid_at, now()), 'YYYY') || '-' || lpad(settings_record.next_number::text, 5, '0'),
+    p_payment_id,
+    invoice_user_id,
+    COALESCE(payment_record.paid_at, now()),
+    payment_record.currency,
+    payment_record.amount_cents - tax_amount,
+    tax_amount,
+    payment_record.amount_cents,
+    settings_record.tax_label,
+    settings_record.tax_rate,
+    COALESCE(NULLIF(address_record.full_name, ''), customer_name, ''),
+    COALESCE(customer_email, ''),
+    COALESCE(format_billing_address(address_record), ''),
+    COALESCE(address_record.tax_id, ''),
+    settings_record.seller_name,
+    settings_record.seller_address,
+    settings_record.seller_tax_id
+  )
+  RETURNING id INTO new_invoice_id;
+
+  INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_amount_cents, amount_cents)
+  VALUES (new_invoice_id, 1, line_description, 1, payment_record.amount_cents, payment_record.amount_cents);
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_invoice_for_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    PERFORM issue_invoice(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER issue_invoice_for_payment_trigger
+  AFTER UPDATE OF status ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_invoice_for_payment();
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(uuid) FROM PUBLIC, anon, authenticated;
+
+DO $$
+DECLARE
+  paid_payment_id uuid;
+BEGIN
+  FOR paid_payment_id IN
+    SELECT id FROM payments WHERE status = 'paid' ORDER BY paid_at, created_at
+  LOOP
+    PERFORM issue_invoice(paid_payment_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,579 @@
+/*
+  # Promo codes
+
+  1. New Tables
+    - `promo_codes`
+      - `code` (text, unique) - Stored upper case, matched case-insensitively
+      - `description` (text)
+      - `discount_type` (text) - `percent` or `fixed`
+      - `discount_value` (integer) - Percent off, or amount off in cents
+      - `currency` (text) - Currency of fixed discounts
+      - `services` (text[]) - Services the code applies to, NULL for all
+      - `first_time_only` (boolean) - Only for students without an earlier
+        booking
+      - `max_redemptions` (integer) - Overall limit, NULL for unlimited
+      - `max_per_customer` (integer) - Per student (account or email)
+      - `starts_at`, `ends_at` (timestamptz) - Validity window, both optional
+      - `is_active` (boolean)
+    - `promo_redemptions`
+      - `promo_code_id`, `booking_id` (unique), `user_id`, `email`
+      - `discount_cents` (integer)
+
+  2. Changes
+    - `bookings.promo_code_id` and `bookings.discount_cents`; the amount to
+      pay is the service price minus the discount
+    - A booking whose discount covers the whole price is confirmed without
+      payment
+    - A booking covered by a membership or class credit doesn't use the code
+    - A redemption is released when its booking is cancelled before it was
+      paid (e.g. the payment hold expired or the student left the waitlist),
+      so the code can be used again
+    - Invoices show the discount as a separate line
+
+  3. Functions
+    - `resolve_promo_code(code, service, email, user_id)` - Validates a code
+      and works out the discount; raises with a message the student can read
+    - `check_promo_code(code, service, email)` - Lets the booking form show
+      the discount before booking
+    - `book_class_session` and `reserve_one_on_one_slot` take an optional
+      `p_promo_code`, validated again when the booking is made
+    - `get_booking_payment_status` returns the discounted amount
+
+  4. Security
+    - Enable RLS on the new tables; admins manage codes and read
+      redemptions. Students never read codes directly, only through
+      `check_promo_code`
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]+$'),
+  description text NOT NULL DEFAULT '',
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value integer NOT NULL CHECK (discount_value > 0),
+  currency text NOT NULL DEFAULT 'USD',
+  services text[],
+  first_time_only boolean NOT NULL DEFAULT false,
+  max_redemptions integer CHECK (max_redemptions > 0),
+  max_per_customer integer DEFAULT 1 CHECK (max_per_customer > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_cents integer NOT NULL DEFAULT 0 CHECK (discount_cents >= 0);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id uuid NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+  booking_id uuid UNIQUE NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  email text NOT NULL,
+  discount_cents integer NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_promo_code_id_idx ON promo_redemptions(promo_code_id);
+CREATE INDEX IF NOT EXISTS promo_redemptions_email_idx ON promo_redemptions(promo_code_id, lower(email));
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can read promo redemptions"
+  ON promo_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION resolve_promo_code(
+  p_code text,
+  p_service text,
+  p_email text,
+  p_user_id uuid
+)
+RETURNS TABLE(promo_code_id uuid, discount_cents integer, price_cents integer, currency text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  promo promo_codes%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  used integer;
+BEGIN
+  -- Locked so concurrent bookings can't both take the last redemption
+  SELECT * INTO promo
+  FROM promo_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT promo.is_active THEN
+    RAISE EXCEPTION 'This promo code is not valid';
+  END IF;
+
+  IF (promo.starts_at IS NOT NULL AND promo.starts_at > now())
+     OR (promo.ends_at IS NOT NULL AND promo.ends_at <= now()) THEN
+    RAISE EXCEPTION 'This promo code is not valid at the moment';
+  END IF;
+
+  IF promo.services IS NOT NULL AND NOT (p_service = ANY(promo.services)) THEN
+    RAISE EXCEPTION 'This promo code does not apply to this service';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = p_service;
+  IF COALESCE(policy_record.price_cents, 0) = 0 THEN
+    RAISE EXCEPTION 'This service is free to book, no promo code needed';
+  END IF;
+
+  IF promo.discount_type = 'fixed' AND promo.currency <> policy_record.currency THEN
+    RAISE EXCEPTION 'This promo code does not apply to this service';
+  END IF;
+
+  IF promo.max_redemptions IS NOT NULL THEN
+    SELECT COUNT(*) INTO used FROM promo_redemptions r WHERE r.promo_code_id = promo.id;
+    IF used >= promo.max_redemptions THEN
+      RAISE EXCEPTION 'This promo code has been fully redeemed';
+    END IF;
+  END IF;
+
+  IF promo.max_per_customer IS NOT NULL THEN
+    SELECT COUNT(*) INTO used
+    FROM promo_redemptions r
+    WHERE r.promo_code_id = promo.id
+      AND (r.user_id = p_user_id OR lower(r.email) = lower(trim(p_email)));
+    IF used >= promo.max_per_customer THEN
+      RAISE EXCEPTION 'You have already used this promo code';
+    END IF;
+  END IF;
+
+  IF promo.first_time_only AND EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE (b.user_id = p_user_id OR lower(b.email) = lower(trim(p_email)))
+      AND b.status IN ('pending', 'pending_payment', 'confirmed', 'attended', 'late', 'no_show')
+  ) THEN
+    RAISE EXCEPTION 'This promo code is only for your first class with us';
+  END IF;
+
+  promo_code_id := promo.id;
+  price_cents := policy_record.price_cents;
+  currency := policy_record.currency;
+  discount_cents := CASE
+    WHEN promo.discount_type = 'percent' THEN round(policy_record.price_cents * promo.discount_value / 100.0)::integer
+    ELSE LEAST(promo.discount_value, policy_record.price_cents)
+  END;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_promo_code(p_code text, p_service text, p_email text)
+RETURNS TABLE(discount_cents integer, price_cents integer, currency text)
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT r.discount_cents, r.price_cents, r.currency
+  FROM resolve_promo_code(p_code, p_service, p_email, auth.uid()) r;
+$$;
+
+DROP FUNCTION IF EXISTS book_class_session(uuid, text, text, text, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION book_class_session(
+  p_session_id uuid,
+  p_first_name text,
+  p_last_name text,
+  p_email text,
+  p_phone text DEFAULT '',
+  p_experience_level text DEFAULT 'beginner',
+  p_special_requests text DEFAULT '',
+  p_timezone text DEFAULT 'UTC',
+  p_promo_code text DEFAULT NULL
+)
+RETURNS TABLE(booking_id uuid, booking_status text, waitlist_position integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_booking bookings%ROWTYPE;
+  promo_id uuid;
+  promo_discount integer := 0;
+BEGIN
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    SELECT r.promo_code_id, r.discount_cents INTO promo_id, promo_discount
+    FROM resolve_promo_code(
+      p_promo_code,
+      (SELECT service FROM class_sessions WHERE id = p_session_id),
+      p_email,
+      auth.uid()
+    ) r;
+  END IF;
+
+  INSERT INTO bookings (
+    user_id,
+    session_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    experience_level,
+    special_requests,
+    emergency_contact,
+    emergency_phone,
+    timezone,
+    promo_code_id,
+    discount_cents,
+    status
+  ) VALUES (
+    auth.uid(),
+    p_session_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    COALESCE(p_phone, ''),
+    COALESCE(p_experience_level, 'beginner'),
+    COALESCE(p_special_requests, ''),
+    '',
+    '',
+    COALESCE((SELECT name FROM pg_timezone_names WHERE name = p_timezone), (SELECT timezone FROM class_sessions WHERE id = p_session_id), 'UTC'),
+    promo_id,
+    COALESCE(promo_discount, 0),
+    CASE WHEN COALESCE(service_price_cents(p_session_id), 0) > 0 THEN 'pending_payment' ELSE 'confirmed' END
+  )
+  RETURNING * INTO new_booking;
+
+  -- A membership or credit may have covered the booking instead, leaving the code unused
+  IF new_booking.promo_code_id IS NOT NULL THEN
+    INSERT INTO promo_redemptions (promo_code_id, booking_id, user_id, email, discount_cents)
+    VALUES (new_booking.promo_code_id, new_booking.id, new_booking.user_id, new_booking.email, new_booking.discount_cents);
+  END IF;
+
+  booking_id := new_booking.id;
+  booking_status := new_booking.status;
+  waitlist_position := NULL;
+
+  IF new_booking.status = 'waitlisted' THEN
+    SELECT COUNT(*) INTO waitlist_position
+    FROM bookings
+    WHERE session_id = p_session_id
+      AND status = 'waitlisted'
+      AND created_at <= new_booking.created_at;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS reserve_one_on_one_slot(uuid, timestamptz, text, text, text, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION reserve_one_on_one_slot(
+  p_instructor_id uuid,
+  p_starts_at timestamptz,
+  p_first_name text,
+  p_last_name text,
+  p_email text,
+  p_phone text DEFAULT '',
+  p_experience_level text DEFAULT 'beginner',
+  p_special_requests text DEFAULT '',
+  p_timezone text DEFAULT 'UTC',
+  p_promo_code text DEFAULT NULL
+)
+RETURNS TABLE(booking_id uuid, booking_status text, session_id uuid)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  slot record;
+  slot_date date;
+  new_session_id uuid;
+  instructor_zone text;
+BEGIN
+  -- One reservation per instructor at a time; the loser re-checks after the winner commits
+  PERFORM pg_advisory_xact_lock(hashtext('one_on_one:' || p_instructor_id::text));
+
+  SELECT i.timezone INTO instructor_zone FROM instructors i WHERE i.id = p_instructor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Instructor not found';
+  END IF;
+
+  slot_date := (p_starts_at AT TIME ZONE instructor_zone)::date;
+
+  SELECT * INTO slot
+  FROM get_one_on_one_slots(slot_date, slot_date, p_instructor_id) s
+  WHERE s.starts_at = p_starts_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This time slot is no longer available';
+  END IF;
+
+  INSERT INTO class_sessions (
+    service,
+    class_type,
+    instructor_id,
+    timezone,
+    starts_at,
+    ends_at,
+    capacity,
+    created_by
+  ) VALUES (
+    '1on1',
+    '1-on-1 Coaching',
+    p_instructor_id,
+    slot.timezone,
+    slot.starts_at,
+    slot.ends_at,
+    1,
+    auth.uid()
+  )
+  RETURNING id INTO new_session_id;
+
+  SELECT b.booking_id, b.booking_status
+  INTO booking_id, booking_status
+  FROM book_class_session(
+    new_session_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    p_experience_level,
+    p_special_requests,
+    p_timezone,
+    p_promo_code
+  ) b;
+
+  session_id := new_session_id;
+  RETURN NEXT;
+END;
+$$;
+
+-- Runs before the capacity check; if the class is full the booking becomes a
+-- waitlist spot and nothing is redeemed until it is promoted
+CREATE OR REPLACE FUNCTION apply_booking_entitlement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_service text;
+BEGIN
+  IF NEW.status <> 'pending_payment' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'pending_payment' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Nothing left to pay after the discount
+  IF NEW.discount_cents > 0 AND COALESCE(service_price_cents(NEW.session_id), 0) <= NEW.discount_cents THEN
+    NEW.status := 'confirmed';
+    NEW.payment_method := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT service INTO session_service FROM class_sessions WHERE id = NEW.session_id;
+
+  -- Serialises a student's bookings so two of them can't both take the last credit
+  PERFORM pg_advisory_xact_lock(hashtext('credits:' || NEW.user_id::text));
+
+  IF has_active_membership(NEW.user_id, session_service) THEN
+    NEW.status := 'confirmed';
+    NEW.payment_method := 'membership';
+  ELSIF next_credit_lot(NEW.user_id, session_service) IS NOT NULL THEN
+    NEW.status := 'confirmed';
+    NEW.payment_method := 'credit';
+  ELSE
+    NEW.payment_method := 'payment';
+    RETURN NEW;
+  END IF;
+
+  NEW.promo_code_id := NULL;
+  NEW.discount_cents := 0;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_promo_redemption()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.promo_code_id IS NOT NULL
+     AND (NEW.promo_code_id IS NULL
+       OR (NEW.status = 'cancelled' AND OLD.status IN ('pending', 'pending_payment', 'waitlisted'))) THEN
+    DELETE FROM promo_redemptions WHERE booking_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_promo_redemption_trigger
+  AFTER UPDATE OF status, promo_code_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION release_promo_redemption();
+
+CREATE OR REPLACE FUNCTION get_booking_payment_status(p_booking_id uuid)
+RETURNS TABLE(
+  booking_status text,
+  payment_expires_at timestamptz,
+  amount_cents integer,
+  currency text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT b.status, b.payment_expires_at, GREATEST(COALESCE(p.price_cents, 0) - b.discount_cents, 0), COALESCE(p.currency, 'USD')
+  FROM bookings b
+  LEFT JOIN class_sessions s ON s.id = b.session_id
+  LEFT JOIN booking_policies p ON p.service = s.service
+  WHERE b.id = p_booking_id
+    AND (b.user_id IS NULL OR b.user_id = auth.uid() OR is_admin());
+$$;
+
+-- Same as before, with the discount as its own line
+CREATE OR REPLACE FUNCTION issue_invoice(p_payment_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  payment_record payments%ROWTYPE;
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+  product_record products%ROWTYPE;
+  settings_record invoice_settings%ROWTYPE;
+  address_record billing_addresses%ROWTYPE;
+  invoice_user_id uuid;
+  line_description text;
+  customer_name text := '';
+  customer_email text := '';
+  tax_amount integer;
+  promo_code text;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO payment_record FROM payments WHERE id = p_payment_id;
+
+  IF NOT FOUND OR payment_record.status <> 'paid' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO new_invoice_id FROM invoices WHERE payment_id = p_payment_id;
+  IF FOUND THEN
+    RETURN new_invoice_id;
+  END IF;
+
+  invoice_user_id := payment_record.user_id;
+
+  IF payment_record.product_id IS NOT NULL THEN
+    SELECT * INTO product_record FROM products WHERE id = payment_record.product_id;
+    line_description := COALESCE(product_record.name, 'Class pack')
+      || CASE WHEN product_record.kind = 'pack' THEN ' (' || product_record.credits || ' classes)' ELSE '' END;
+  ELSE
+    SELECT * INTO booking_record FROM bookings WHERE id = payment_record.booking_id;
+    SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+
+    invoice_user_id := COALESCE(invoice_user_id, booking_record.user_id);
+    customer_name := trim(COALESCE(booking_record.first_name, '') || ' ' || COALESCE(booking_record.last_name, ''));
+    customer_email := COALESCE(booking_record.email, '');
+    line_description := COALESCE(session_record.class_type, 'Yoga class')
+      || COALESCE(' with ' || session_record.instructor, '')
+      || COALESCE(', ' || to_char(session_record.starts_at AT TIME ZONE COALESCE(booking_record.timezone, 'UTC'), 'Mon DD, YYYY HH24:MI'), '');
+
+    SELECT code INTO promo_code FROM promo_codes WHERE id = booking_record.promo_code_id;
+  END IF;
+
+  IF invoice_user_id IS NOT NULL THEN
+    SELECT * INTO address_record FROM billing_addresses WHERE user_id = invoice_user_id;
+
+    SELECT
+      COALESCE(NULLIF(customer_name, ''), raw_user_meta_data->>'full_name', ''),
+      COALESCE(NULLIF(customer_email, ''), email, '')
+    INTO customer_name, customer_email
+    FROM auth.users
+    WHERE id = invoice_user_id;
+  END IF;
+
+  -- Locking the settings row hands out numbers one at a time, without gaps
+  SELECT * INTO settings_record FROM invoice_settings WHERE id FOR UPDATE;
+
+  UPDATE invoice_settings SET next_number = next_number + 1 WHERE id;
+
+  tax_amount := payment_record.amount_cents - round(payment_record.amount_cents / (1 + settings_record.tax_rate / 100))::integer;
+
+  INSERT INTO invoices (
+    invoice_number,
+    payment_id,
+    user_id,
+    issued_at,
+    currency,
+    subtotal_cents,
+    tax_cents,
+    total_cents,
+    tax_label,
+    tax_rate,
+    billing_name,
+    billing_email,
+    billing_address,
+    billing_tax_id,
+    seller_name,
+    seller_address,
+    seller_tax_id
+  ) VALUES (
+    settings_record.number_prefix || to_char(COALESCE(payment_record.paid_at, now()), 'YYYY') || '-' || lpad(settings_record.next_number::text, 5, '0'),
+    p_payment_id,
+    invoice_user_id,
+    COALESCE(payment_record.paid_at, now()),
+    payment_record.currency,
+    payment_record.amount_cents - tax_amount,
+    tax_amount,
+    payment_record.amount_cents,
+    settings_record.tax_label,
+    settings_record.tax_rate,
+    COALESCE(NULLIF(address_record.full_name, ''), customer_name, ''),
+    COALESCE(customer_email, ''),
+    COALESCE(format_billing_address(address_record), ''),
+    COALESCE(address_record.tax_id, ''),
+    settings_record.seller_name,
+    settings_record.seller_address,
+    settings_record.seller_tax_id
+  )
+  RETURNING id INTO new_invoice_id;
+
+  IF COALESCE(booking_record.discount_cents, 0) > 0 THEN
+    INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_amount_cents, amount_cents) VALUES
+      (new_invoice_id, 1, line_description, 1, payment_record.amount_cents + booking_record.discount_cents, payment_record.amount_cents + booking_record.discount_cents),
+      (new_invoice_id, 2, 'Discount' || COALESCE(' (' || promo_code || ')', ''), 1, -booking_record.discount_cents, -booking_record.discount_cents);
+  ELSE
+    INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_amount_cents, amount_cents)
+    VALUES (new_invoice_id, 1, line_description, 1, payment_record.amount_cents, payment_record.amount_cents);
+  END IF;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_promo_code(text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_promo_code(text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION book_class_session(uuid, text, text, text, text, text, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_one_on_one_slot(uuid, timestamptz, text, text, text, text, text, text, text, text) TO anon, authenticated;
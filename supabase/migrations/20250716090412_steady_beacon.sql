@@ -0,0 +1,592 @@
+/*
+  # Corporate accounts
+
+  1. New Tables
+    - `organizations`
+      - `name`
+      - `email_domains` (text[]) - Employees who sign in with a confirmed
+        address on one of these domains join automatically
+      - `seat_limit` (integer) - Invited and active members allowed; empty
+        for no limit
+      - `is_active` (boolean)
+    - `organization_members`
+      - `organization_id`, `email` (lower case, unique per organization)
+      - `user_id` (uuid) - Set once the invitee signs in
+      - `role` (text) - `admin` (the company admin) or `member`
+      - `status` (text) - `invited`, `active` or `removed`
+      - `invited_by`, `invited_at`, `joined_at`
+    - `organization_allotments` - Ledger of the company's sessions
+      - `entry_type` (text) - purchase, redeem, refund, adjustment
+      - `sessions` (integer) - Positive for sessions added, negative for used
+      - `booking_id`, `payment_id`, `note`, `created_by`
+
+  2. Changes
+    - `class_sessions.organization_id` - A company-sponsored session, only
+      visible to and bookable by that company's members
+    - `bookings.organization_id` and payment method `organization`; a
+      sponsored booking is confirmed without payment and draws one session
+      from the allotment, which is returned when it is cancelled on time
+    - `payments.organization_id` for session packs bought by a company admin
+    - A user belongs to at most one organization at a time
+
+  3. Functions
+    - `is_organization_member(org)`, `is_organization_admin(org)`
+    - `organization_sessions_left(org)`
+    - `join_my_organization()` - Accepts a pending invitation or joins by
+      email domain; called when a user signs in
+    - `invite_organization_members(org, emails, role)`,
+      `remove_organization_member(member)` - For company admins
+    - `get_organization_usage(org, from, to)` - Per-employee usage report
+    - `grant_product` adds a pack's sessions to the company allotment when
+      the purchase was made for an organization
+
+  4. Security
+    - Enable RLS on the new tables; members read their organization, company
+      admins read their members and allotment, admins manage everything
+    - Scheduled sessions of an organization are hidden from everyone else
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  email_domains text[] NOT NULL DEFAULT '{}',
+  seat_limit integer CHECK (seat_limit > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  email text NOT NULL CHECK (email = lower(email)),
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  status text NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'active', 'removed')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  invited_at timestamptz DEFAULT now() NOT NULL,
+  joined_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (organization_id, email),
+  CHECK (status <> 'active' OR user_id IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS organization_allotments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN ('purchase', 'redeem', 'refund', 'adjustment')),
+  sessions integer NOT NULL,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  note text NOT NULL DEFAULT '',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE class_sessions
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_method_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_payment_method_check
+  CHECK (payment_method IN ('payment', 'credit', 'membership', 'organization'));
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS organization_members_one_active_idx
+  ON organization_members(user_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS organization_members_email_idx ON organization_members(email);
+CREATE INDEX IF NOT EXISTS organization_allotments_organization_id_idx ON organization_allotments(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS organization_allotments_booking_id_idx ON organization_allotments(booking_id);
+CREATE INDEX IF NOT EXISTS class_sessions_organization_id_idx ON class_sessions(organization_id);
+CREATE INDEX IF NOT EXISTS bookings_organization_id_idx ON bookings(organization_id);
+
+CREATE OR REPLACE FUNCTION is_organization_member(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND status = 'active'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_admin(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND status = 'active'
+      AND role = 'admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION organization_sessions_left(p_organization_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(SUM(sessions), 0)::integer
+  FROM organization_allotments
+  WHERE organization_id = p_organization_id;
+$$;
+
+-- Invitations count against the seat limit until they are withdrawn
+CREATE OR REPLACE FUNCTION organization_seats_left(p_organization_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE
+    WHEN o.seat_limit IS NULL THEN NULL
+    ELSE o.seat_limit - (
+      SELECT COUNT(*)::integer FROM organization_members m
+      WHERE m.organization_id = o.id AND m.status IN ('invited', 'active')
+    )
+  END
+  FROM organizations o
+  WHERE o.id = p_organization_id;
+$$;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_allotments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(id));
+
+CREATE POLICY "Admins can manage organizations"
+  ON organizations
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can read their own membership"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Company admins can read their members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_admin(organization_id));
+
+CREATE POLICY "Admins can manage organization members"
+  ON organization_members
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Company admins can read their allotment"
+  ON organization_allotments
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_admin(organization_id));
+
+CREATE POLICY "Admins can manage organization allotments"
+  ON organization_allotments
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Anyone can read scheduled class sessions" ON class_sessions;
+
+CREATE POLICY "Anyone can read scheduled class sessions"
+  ON class_sessions
+  FOR SELECT
+  TO anon, authenticated
+  USING (status = 'scheduled' AND (organization_id IS NULL OR is_organization_member(organization_id)));
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only confirmed addresses are matched, so nobody can claim a seat with an
+-- address they don't own
+CREATE OR REPLACE FUNCTION join_my_organization()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  caller_email text;
+  joined_organization uuid;
+  domain_organization uuid;
+BEGIN
+  SELECT organization_id INTO joined_organization
+  FROM organization_members
+  WHERE user_id = auth.uid() AND status = 'active';
+
+  IF FOUND THEN
+    RETURN joined_organization;
+  END IF;
+
+  SELECT lower(email) INTO caller_email
+  FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+
+  IF caller_email IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- An invitation takes precedence over a domain match
+  UPDATE organization_members
+  SET user_id = auth.uid(), status = 'active', joined_at = now()
+  WHERE id = (
+    SELECT m.id
+    FROM organization_members m
+    JOIN organizations o ON o.id = m.organization_id
+    WHERE m.email = caller_email AND m.status = 'invited' AND o.is_active
+    ORDER BY m.invited_at
+    LIMIT 1
+  )
+  RETURNING organization_id INTO joined_organization;
+
+  IF joined_organization IS NOT NULL THEN
+    RETURN joined_organization;
+  END IF;
+
+  -- Someone the company removed doesn't rejoin through the domain
+  SELECT o.id INTO domain_organization
+  FROM organizations o
+  WHERE o.is_active
+    AND split_part(caller_email, '@', 2) = ANY(o.email_domains)
+    AND NOT EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.organization_id = o.id AND m.email = caller_email
+    )
+  ORDER BY o.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF domain_organization IS NULL OR COALESCE(organization_seats_left(domain_organization), 1) < 1 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, email, status, joined_at)
+  VALUES (domain_organization, auth.uid(), caller_email, 'active', now());
+
+  RETURN domain_organization;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION invite_organization_members(
+  p_organization_id uuid,
+  p_emails text[],
+  p_role text DEFAULT 'member'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  invite_email text;
+  invited integer := 0;
+  seats_left integer;
+BEGIN
+  IF NOT (is_organization_admin(p_organization_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Only the company admin can invite members';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Unknown member role %', p_role;
+  END IF;
+
+  PERFORM 1 FROM organizations WHERE id = p_organization_id FOR UPDATE;
+
+  FOR invite_email IN
+    SELECT DISTINCT lower(trim(e)) FROM unnest(p_emails) AS e
+    WHERE trim(e) <> ''
+  LOOP
+    IF invite_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+      RAISE EXCEPTION '% is not a valid email address', invite_email;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = p_organization_id
+        AND email = invite_email
+        AND status IN ('invited', 'active')
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    seats_left := organization_seats_left(p_organization_id);
+    IF seats_left IS NOT NULL AND seats_left < 1 THEN
+      RAISE EXCEPTION 'All seats are taken. Ask us to add seats before inviting more people.';
+    END IF;
+
+    -- Removed members can be invited again
+    INSERT INTO organization_members (organization_id, email, role, status, invited_by)
+    VALUES (p_organization_id, invite_email, p_role, 'invited', auth.uid())
+    ON CONFLICT (organization_id, email) DO UPDATE
+    SET role = EXCLUDED.role,
+        status = 'invited',
+        user_id = NULL,
+        invited_by = EXCLUDED.invited_by,
+        invited_at = now(),
+        joined_at = NULL;
+
+    invited := invited + 1;
+  END LOOP;
+
+  RETURN invited;
+END;
+$$;
+
+-- Existing bookings stay; the member just can't book company sessions anymore
+CREATE OR REPLACE FUNCTION remove_organization_member(p_member_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  member_record organization_members%ROWTYPE;
+BEGIN
+  SELECT * INTO member_record FROM organization_members WHERE id = p_member_id;
+
+  IF NOT FOUND OR NOT (is_organization_admin(member_record.organization_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF member_record.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t remove yourself from your company';
+  END IF;
+
+  UPDATE organization_members SET status = 'removed' WHERE id = p_member_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_organization_usage(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE(
+  member_id uuid,
+  email text,
+  full_name text,
+  role text,
+  member_status text,
+  sessions_booked integer,
+  sessions_attended integer,
+  no_shows integer,
+  late_cancellations integer,
+  upcoming integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    m.id,
+    m.email,
+    COALESCE(u.raw_user_meta_data->>'full_name', ''),
+    m.role,
+    m.status,
+    COUNT(b.id) FILTER (WHERE b.status <> 'cancelled' OR b.late_cancellation)::integer,
+    COUNT(b.id) FILTER (WHERE b.status IN ('attended', 'late'))::integer,
+    COUNT(b.id) FILTER (WHERE b.status = 'no_show')::integer,
+    COUNT(b.id) FILTER (WHERE b.status = 'cancelled' AND b.late_cancellation)::integer,
+    COUNT(b.id) FILTER (WHERE b.status IN ('confirmed', 'waitlisted') AND s.starts_at > now())::integer
+  FROM organization_members m
+  LEFT JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN (
+    bookings b
+    JOIN class_sessions s ON s.id = b.session_id
+  )
+    ON b.organization_id = m.organization_id
+   AND b.user_id = m.user_id
+   AND s.starts_at >= p_from
+   AND s.starts_at < p_to
+  WHERE m.organization_id = p_organization_id
+    AND (is_organization_admin(p_organization_id) OR is_admin())
+  GROUP BY m.id, u.id
+  ORDER BY m.status, m.email;
+$$;
+
+-- Runs before the entitlement and capacity checks. A sponsored booking
+-- skips payment; a waitlisted one keeps its allotment session until it is
+-- promoted or cancelled.
+CREATE OR REPLACE FUNCTION apply_booking_allotment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_organization uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.session_id IS DISTINCT FROM OLD.session_id THEN
+      SELECT organization_id INTO session_organization FROM class_sessions WHERE id = NEW.session_id;
+
+      IF session_organization IS DISTINCT FROM OLD.organization_id THEN
+        RAISE EXCEPTION 'Company sessions can only be moved to another session of the same company';
+      END IF;
+    END IF;
+
+    IF NEW.organization_id IS NOT NULL AND NEW.status = 'pending_payment' THEN
+      NEW.status := 'confirmed';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT organization_id INTO session_organization FROM class_sessions WHERE id = NEW.session_id;
+
+  IF session_organization IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = session_organization
+      AND user_id = NEW.user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'This session is reserved for members of the company that booked it';
+  END IF;
+
+  -- Serialises the company's bookings so two employees can't both take the last session
+  PERFORM 1 FROM organizations WHERE id = session_organization FOR UPDATE;
+
+  IF organization_sessions_left(session_organization) < 1 THEN
+    RAISE EXCEPTION 'Your company has used all of its sessions. Please ask your company admin to add more.';
+  END IF;
+
+  NEW.organization_id := session_organization;
+  NEW.payment_method := 'organization';
+  NEW.promo_code_id := NULL;
+  NEW.discount_cents := 0;
+
+  IF NEW.status = 'pending_payment' THEN
+    NEW.status := 'confirmed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_booking_allotment_trigger
+  BEFORE INSERT OR UPDATE OF session_id, status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_booking_allotment();
+
+CREATE OR REPLACE FUNCTION settle_booking_allotment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'cancelled' THEN
+    INSERT INTO organization_allotments (organization_id, entry_type, sessions, booking_id, created_by)
+    VALUES (NEW.organization_id, 'redeem', -1, NEW.id, NEW.user_id);
+  ELSIF TG_OP = 'UPDATE'
+     AND OLD.status <> 'cancelled'
+     AND NEW.status = 'cancelled'
+     AND NOT COALESCE(NEW.late_cancellation, false) THEN
+    INSERT INTO organization_allotments (organization_id, entry_type, sessions, booking_id, note)
+    VALUES (NEW.organization_id, 'refund', 1, NEW.id, 'Cancelled in time');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_booking_allotment_trigger
+  AFTER INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION settle_booking_allotment();
+
+CREATE OR REPLACE FUNCTION grant_product(p_user_id uuid, p_product_id uuid, p_payment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  product_record products%ROWTYPE;
+  new_lot_id uuid := gen_random_uuid();
+  membership_start timestamptz;
+  payment_organization uuid;
+BEGIN
+  SELECT * INTO product_record FROM products WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Packs bought by a company admin top up the company's sessions
+  SELECT organization_id INTO payment_organization FROM payments WHERE id = p_payment_id;
+
+  IF payment_organization IS NOT NULL THEN
+    IF product_record.kind <> 'pack' THEN
+      RAISE EXCEPTION 'Only session packs can be bought for a company';
+    END IF;
+
+    INSERT INTO organization_allotments (organization_id, entry_type, sessions, payment_id, note, created_by)
+    VALUES (payment_organization, 'purchase', product_record.credits, p_payment_id, product_record.name, p_user_id);
+    RETURN;
+  END IF;
+
+  IF product_record.kind = 'pack' THEN
+    INSERT INTO credit_ledger (id, user_id, lot_id, entry_type, credits, service, expires_at, payment_id, note)
+    VALUES (
+      new_lot_id,
+      p_user_id,
+      new_lot_id,
+      'purchase',
+      product_record.credits,
+      product_record.service,
+      now() + make_interval(days => product_record.duration_days),
+      p_payment_id,
+      product_record.name
+    );
+    RETURN;
+  END IF;
+
+  -- Renewing before the current membership ends extends it
+  SELECT GREATEST(now(), MAX(ends_at)) INTO membership_start
+  FROM memberships
+  WHERE user_id = p_user_id AND service = product_record.service;
+
+  INSERT INTO memberships (user_id, product_id, payment_id, service, starts_at, ends_at)
+  VALUES (
+    p_user_id,
+    product_record.id,
+    p_payment_id,
+    product_record.service,
+    COALESCE(membership_start, now()),
+    COALESCE(membership_start, now()) + make_interval(days => product_record.duration_days)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_product(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,111 @@
+/*
+  # Class room links
+
+  1. New Tables
+    - `session_meetings` - The video room of a class session, kept apart from
+      `class_sessions` because scheduled sessions are readable by anyone
+      - `session_id` (uuid, primary key, references class_sessions)
+      - `provider` (text) - `manual` for a link pasted by staff, otherwise
+        the video provider that created the room
+      - `meeting_url` (text)
+      - `provider_reference` (text) - The provider's id for the room
+      - `updated_by` (uuid)
+
+  2. Changes
+    - Attendees get the link from 15 minutes before the start until the
+      class ends; before that only the time it opens is revealed
+    - Replacing the row rotates the link; the old one is no longer handed out
+
+  3. Functions
+    - `can_manage_session_meeting(session_id)` - Admins and the session's
+      instructor
+    - `get_session_join_link(booking_id)` - The link for the caller's own
+      confirmed booking, once the join window has opened
+
+  4. Security
+    - Enable RLS on `session_meetings`; only admins and the session's
+      instructor can read or change it
+*/
+
+CREATE TABLE IF NOT EXISTS session_meetings (
+  session_id uuid PRIMARY KEY REFERENCES class_sessions(id) ON DELETE CASCADE,
+  provider text NOT NULL DEFAULT 'manual',
+  meeting_url text NOT NULL CHECK (meeting_url ~ '^https?://'),
+  provider_reference text,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE OR REPLACE FUNCTION can_manage_session_meeting(p_session_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT is_admin() OR EXISTS (
+    SELECT 1 FROM class_sessions
+    WHERE id = p_session_id
+      AND instructor_id IS NOT NULL
+      AND instructor_id = current_instructor_id()
+  );
+$$;
+
+ALTER TABLE session_meetings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage class room links"
+  ON session_meetings
+  FOR ALL
+  TO authenticated
+  USING (can_manage_session_meeting(session_id))
+  WITH CHECK (can_manage_session_meeting(session_id));
+
+CREATE TRIGGER update_session_meetings_updated_at
+  BEFORE UPDATE ON session_meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION get_session_join_link(p_booking_id uuid)
+RETURNS TABLE(session_id uuid, join_url text, opens_at timestamptz, closes_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('confirmed', 'attended', 'late') THEN
+    RAISE EXCEPTION 'Only confirmed bookings can join the class';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+
+  IF NOT FOUND OR session_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This class has been cancelled';
+  END IF;
+
+  session_id := session_record.id;
+  opens_at := session_record.starts_at - interval '15 minutes';
+  closes_at := session_record.ends_at;
+
+  IF now() >= opens_at AND now() < closes_at THEN
+    SELECT m.meeting_url INTO join_url
+    FROM session_meetings m
+    WHERE m.session_id = session_record.id;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_manage_session_meeting(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_session_join_link(uuid) TO authenticated;
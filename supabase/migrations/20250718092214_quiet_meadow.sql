@@ -0,0 +1,303 @@
+/*
+  # Transactional email outbox
+
+  1. New Tables
+    - `email_outbox` - Emails waiting to be sent, and the delivery record of
+      the ones that were
+      - `template` (text) - `booking_confirmed`, `class_reminder`,
+        `booking_cancelled`, `waitlist_promoted` or `query_answered`
+      - `to_email` (text), `payload` (jsonb) - What the template is rendered
+        with, copied when the email is queued
+      - `subject` (text) - Filled in once the email is rendered
+      - `status` (text) - `queued`, `sending`, `sent` or `failed`
+      - `attempts` (integer), `last_error` (text), `send_after` (timestamptz)
+      - `provider`, `provider_message_id` (text), `sent_at` (timestamptz)
+      - `booking_id`, `query_id` - What the email is about
+      - `dedupe_key` (text, unique) - Stops the same reminder being queued twice
+
+  2. Changes
+    - Bookings queue a confirmation when they are confirmed, a waitlist
+      email when a spot opens up, and a cancellation email when cancelled
+    - Answering a yoga query queues the answer for the person who asked
+    - Reminders are queued a day before class by a cron job
+
+  3. Functions
+    - `enqueue_email(...)` - Adds an email to the outbox
+    - `enqueue_class_reminders()` - Queues reminders for classes starting
+      in 23 to 24 hours
+    - `claim_outbox_emails(limit)` - Hands the `send-emails` worker a batch
+      of due emails; emails stuck in `sending` for 10 minutes are retried
+    - `resend_email(email_id)` - Queues an email again, for admins
+
+  4. Security
+    - Enable RLS on `email_outbox`; only admins can read it. Emails are
+      written by the triggers and the worker
+    - The worker runs every minute through pg_net; it needs the `project_url`
+      and `service_role_key` secrets in the vault
+*/
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template text NOT NULL CHECK (template IN ('booking_confirmed', 'class_reminder', 'booking_cancelled', 'waitlist_promoted', 'query_answered')),
+  to_email text NOT NULL,
+  subject text NOT NULL DEFAULT '',
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text NOT NULL DEFAULT '',
+  send_after timestamptz DEFAULT now() NOT NULL,
+  provider text,
+  provider_message_id text,
+  sent_at timestamptz,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  query_id uuid REFERENCES yoga_queries(id) ON DELETE SET NULL,
+  dedupe_key text UNIQUE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx ON email_outbox(send_after) WHERE status IN ('queued', 'sending');
+CREATE INDEX IF NOT EXISTS email_outbox_booking_idx ON email_outbox(booking_id);
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read the email outbox"
+  ON email_outbox
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION enqueue_email(
+  p_template text,
+  p_to_email text,
+  p_payload jsonb,
+  p_booking_id uuid DEFAULT NULL,
+  p_query_id uuid DEFAULT NULL,
+  p_dedupe_key text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF COALESCE(trim(p_to_email), '') = '' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO email_outbox (template, to_email, payload, booking_id, query_id, dedupe_key)
+  VALUES (p_template, lower(trim(p_to_email)), p_payload, p_booking_id, p_query_id, p_dedupe_key)
+  ON CONFLICT (dedupe_key) DO NOTHING;
+END;
+$$;
+
+-- Everything the booking templates show, as it is when the email is queued
+CREATE OR REPLACE FUNCTION booking_email_payload(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'first_name', p_booking.first_name,
+    'class_type', COALESCE(s.class_type, p_booking.class_name),
+    'instructor', COALESCE(s.instructor, p_booking.instructor),
+    'starts_at', s.starts_at,
+    'ends_at', s.ends_at,
+    'timezone', COALESCE(s.timezone, p_booking.timezone, 'UTC'),
+    'class_date', p_booking.class_date,
+    'class_time', p_booking.class_time,
+    'status', p_booking.status,
+    'payment_expires_at', p_booking.payment_expires_at,
+    'late_cancellation', COALESCE(p_booking.late_cancellation, false)
+  )
+  FROM (SELECT p_booking.session_id) AS b(session_id)
+  LEFT JOIN class_sessions s ON s.id = b.session_id;
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_booking_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  email_template text;
+  payload jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'confirmed' THEN
+      email_template := 'booking_confirmed';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'waitlisted' AND NEW.status IN ('confirmed', 'pending_payment') THEN
+      email_template := 'waitlist_promoted';
+    ELSIF NEW.status = 'confirmed' AND OLD.status IN ('pending', 'pending_payment') THEN
+      email_template := 'booking_confirmed';
+    ELSIF NEW.status = 'cancelled' THEN
+      email_template := 'booking_cancelled';
+    END IF;
+  ELSIF NEW.session_id IS DISTINCT FROM OLD.session_id AND NEW.status = 'confirmed' THEN
+    -- Rescheduled, the confirmation carries the new class time
+    email_template := 'booking_confirmed';
+  END IF;
+
+  IF email_template IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  payload := booking_email_payload(NEW);
+
+  IF email_template = 'booking_cancelled' THEN
+    payload := payload || jsonb_build_object(
+      'reason', COALESCE(current_setting('app.booking_event_note', true), '')
+    );
+  END IF;
+
+  PERFORM enqueue_email(email_template, NEW.email, payload, NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_booking_email_trigger
+  AFTER INSERT OR UPDATE OF status, session_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_booking_email();
+
+CREATE OR REPLACE FUNCTION enqueue_query_answer_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF COALESCE(trim(NEW.response), '') = '' OR NEW.response IS NOT DISTINCT FROM OLD.response THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_email(
+    'query_answered',
+    NEW.email,
+    jsonb_build_object(
+      'name', NEW.name,
+      'subject', NEW.subject,
+      'message', NEW.message,
+      'response', NEW.response
+    ),
+    NULL,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_query_answer_email_trigger
+  AFTER UPDATE OF response ON yoga_queries
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_query_answer_email();
+
+-- Bookings made within a day of class already carry the time in their
+-- confirmation, so only the hour before the one-day mark is looked at
+CREATE OR REPLACE FUNCTION enqueue_class_reminders()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+BEGIN
+  FOR booking_record IN
+    SELECT b.*
+    FROM bookings b
+    JOIN class_sessions s ON s.id = b.session_id
+    WHERE b.status = 'confirmed'
+      AND s.status = 'scheduled'
+      AND s.starts_at >= now() + interval '23 hours'
+      AND s.starts_at < now() + interval '24 hours'
+  LOOP
+    PERFORM enqueue_email(
+      'class_reminder',
+      booking_record.email,
+      booking_email_payload(booking_record),
+      booking_record.id,
+      NULL,
+      'class_reminder:' || booking_record.id || ':' || booking_record.session_id
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_outbox_emails(p_limit integer DEFAULT 20)
+RETURNS SETOF email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE email_outbox
+  SET status = 'sending', attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM email_outbox
+    WHERE (status = 'queued' AND send_after <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY send_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+CREATE OR REPLACE FUNCTION resend_email(p_email_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resend emails';
+  END IF;
+
+  UPDATE email_outbox
+  SET status = 'queued', attempts = 0, last_error = '', send_after = now()
+  WHERE id = p_email_id AND status IN ('sent', 'failed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This email is already waiting to be sent';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_email(text, text, jsonb, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION booking_email_payload(bookings) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_class_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_outbox_emails(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_outbox_emails(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION resend_email(uuid) TO authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'enqueue-class-reminders',
+  '*/15 * * * *',
+  $$SELECT enqueue_class_reminders()$$
+);
+
+SELECT cron.schedule(
+  'send-emails',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM email_outbox WHERE status IN ('queued', 'sending') AND send_after <= now()
+  )
+  $$
+);
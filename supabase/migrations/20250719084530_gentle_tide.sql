@@ -0,0 +1,545 @@
+/*
+  # Class reminders and notification preferences
+
+  1. New Tables
+    - `notification_preferences`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `booking_updates_email`, `booking_updates_sms`,
+        `booking_updates_whatsapp` (boolean) - Confirmations, cancellations
+        and waitlist spots, per channel
+      - `reminders_email`, `reminders_sms`, `reminders_whatsapp` (boolean)
+      - `remind_day_before`, `remind_hour_before` (boolean)
+      - `phone` (text) - For SMS and WhatsApp, in international format
+      - `quiet_hours_start`, `quiet_hours_end` (time), `timezone` (text) -
+        No reminders are sent in between; the window may span midnight
+
+  2. Changes
+    - `email_outbox` becomes `notification_outbox`, with a `channel`
+      (`email`, `sms` or `whatsapp`), `to_email` renamed to `recipient`,
+      and the user the message is for
+    - New statuses `cancelled` (the booking was cancelled or rescheduled)
+      and `skipped` (the user turned the channel off, or quiet hours last
+      until the class starts)
+    - Reminders are scheduled when a booking is confirmed, 24 hours and
+      1 hour before class, instead of being picked up by a cron job.
+      Cancelling or rescheduling a booking cancels its pending reminders
+    - Users without preferences get emails only, as before
+    - Upcoming confirmed bookings get their reminders scheduled
+
+  3. Functions
+    - `notification_channel_enabled(user_id, kind, channel)`
+    - `quiet_hours_end(user_id, at)` - When the quiet hours `at` falls in
+      end, or null
+    - `enqueue_notification(...)` replaces `enqueue_email(...)`
+    - `enqueue_booking_notification(booking, template, ...)` - One message
+      per channel the user wants
+    - `schedule_booking_reminders(booking)`, `cancel_booking_reminders(booking_id)`
+    - `claim_outbox_messages(limit)` replaces `claim_outbox_emails`, and
+      applies the recipient's current preferences to due reminders first
+    - `resend_notification(id)` replaces `resend_email`
+
+  4. Security
+    - Enable RLS on `notification_preferences`; users manage their own
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_updates_email boolean NOT NULL DEFAULT true,
+  booking_updates_sms boolean NOT NULL DEFAULT false,
+  booking_updates_whatsapp boolean NOT NULL DEFAULT false,
+  reminders_email boolean NOT NULL DEFAULT true,
+  reminders_sms boolean NOT NULL DEFAULT false,
+  reminders_whatsapp boolean NOT NULL DEFAULT false,
+  remind_day_before boolean NOT NULL DEFAULT true,
+  remind_hour_before boolean NOT NULL DEFAULT true,
+  phone text NOT NULL DEFAULT '',
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text NOT NULL DEFAULT 'UTC',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (phone = '' OR phone ~ '^\+[1-9][0-9]{6,14}$'),
+  CHECK (phone <> '' OR NOT (booking_updates_sms OR booking_updates_whatsapp OR reminders_sms OR reminders_whatsapp)),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The outbox now carries SMS and WhatsApp messages as well
+SELECT cron.unschedule('enqueue-class-reminders');
+SELECT cron.unschedule('send-emails');
+
+DROP TRIGGER IF EXISTS enqueue_booking_email_trigger ON bookings;
+DROP FUNCTION IF EXISTS enqueue_booking_email();
+DROP FUNCTION IF EXISTS enqueue_class_reminders();
+DROP FUNCTION IF EXISTS claim_outbox_emails(integer);
+DROP FUNCTION IF EXISTS resend_email(uuid);
+
+ALTER TABLE email_outbox RENAME TO notification_outbox;
+ALTER TABLE notification_outbox RENAME COLUMN to_email TO recipient;
+ALTER TABLE notification_outbox ADD COLUMN IF NOT EXISTS channel text NOT NULL DEFAULT 'email' CHECK (channel IN ('email', 'sms', 'whatsapp'));
+ALTER TABLE notification_outbox ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE notification_outbox DROP CONSTRAINT IF EXISTS email_outbox_status_check;
+ALTER TABLE notification_outbox ADD CONSTRAINT notification_outbox_status_check
+  CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'cancelled', 'skipped'));
+
+ALTER INDEX email_outbox_due_idx RENAME TO notification_outbox_due_idx;
+ALTER INDEX email_outbox_booking_idx RENAME TO notification_outbox_booking_idx;
+ALTER POLICY "Admins can read the email outbox" ON notification_outbox RENAME TO "Admins can read the notification outbox";
+ALTER TRIGGER update_email_outbox_updated_at ON notification_outbox RENAME TO update_notification_outbox_updated_at;
+
+UPDATE notification_outbox o
+SET user_id = b.user_id
+FROM bookings b
+WHERE b.id = o.booking_id;
+
+CREATE OR REPLACE FUNCTION notification_channel_enabled(p_user_id uuid, p_kind text, p_channel text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE p_kind || ':' || p_channel
+        WHEN 'booking_updates:email' THEN booking_updates_email
+        WHEN 'booking_updates:sms' THEN booking_updates_sms
+        WHEN 'booking_updates:whatsapp' THEN booking_updates_whatsapp
+        WHEN 'reminders:email' THEN reminders_email
+        WHEN 'reminders:sms' THEN reminders_sms
+        WHEN 'reminders:whatsapp' THEN reminders_whatsapp
+        ELSE false
+      END
+      FROM notification_preferences
+      WHERE user_id = p_user_id
+    ),
+    p_channel = 'email'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION quiet_hours_end(p_user_id uuid, p_at timestamptz)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  prefs notification_preferences%ROWTYPE;
+  local_at timestamp;
+  end_at timestamp;
+BEGIN
+  SELECT * INTO prefs FROM notification_preferences WHERE user_id = p_user_id;
+
+  IF NOT FOUND OR prefs.quiet_hours_start IS NULL OR prefs.quiet_hours_start = prefs.quiet_hours_end THEN
+    RETURN NULL;
+  END IF;
+
+  local_at := p_at AT TIME ZONE prefs.timezone;
+
+  IF prefs.quiet_hours_start < prefs.quiet_hours_end THEN
+    IF local_at::time < prefs.quiet_hours_start OR local_at::time >= prefs.quiet_hours_end THEN
+      RETURN NULL;
+    END IF;
+  ELSIF local_at::time < prefs.quiet_hours_start AND local_at::time >= prefs.quiet_hours_end THEN
+    RETURN NULL;
+  END IF;
+
+  end_at := local_at::date + prefs.quiet_hours_end;
+  IF end_at <= local_at THEN
+    end_at := end_at + interval '1 day';
+  END IF;
+
+  RETURN end_at AT TIME ZONE prefs.timezone;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS enqueue_email(text, text, jsonb, uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_channel text,
+  p_template text,
+  p_recipient text,
+  p_payload jsonb,
+  p_user_id uuid DEFAULT NULL,
+  p_booking_id uuid DEFAULT NULL,
+  p_query_id uuid DEFAULT NULL,
+  p_send_after timestamptz DEFAULT now(),
+  p_dedupe_key text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF COALESCE(trim(p_recipient), '') = '' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notification_outbox (
+    channel, template, recipient, payload, user_id, booking_id, query_id, send_after, dedupe_key
+  ) VALUES (
+    p_channel,
+    p_template,
+    CASE WHEN p_channel = 'email' THEN lower(trim(p_recipient)) ELSE trim(p_recipient) END,
+    p_payload,
+    p_user_id,
+    p_booking_id,
+    p_query_id,
+    p_send_after,
+    p_dedupe_key
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS booking_email_payload(bookings);
+
+-- Everything the booking templates show, as it is when the message is queued
+CREATE OR REPLACE FUNCTION booking_notification_payload(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'first_name', p_booking.first_name,
+    'class_type', COALESCE(s.class_type, p_booking.class_name),
+    'instructor', COALESCE(s.instructor, p_booking.instructor),
+    'starts_at', s.starts_at,
+    'ends_at', s.ends_at,
+    'timezone', COALESCE(s.timezone, p_booking.timezone, 'UTC'),
+    'class_date', p_booking.class_date,
+    'class_time', p_booking.class_time,
+    'status', p_booking.status,
+    'payment_expires_at', p_booking.payment_expires_at,
+    'late_cancellation', COALESCE(p_booking.late_cancellation, false)
+  )
+  FROM (SELECT p_booking.session_id) AS b(session_id)
+  LEFT JOIN class_sessions s ON s.id = b.session_id;
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_booking_notification(
+  p_booking bookings,
+  p_template text,
+  p_payload jsonb,
+  p_send_after timestamptz DEFAULT now(),
+  p_dedupe_key text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  notification_kind text := CASE WHEN p_template = 'class_reminder' THEN 'reminders' ELSE 'booking_updates' END;
+  user_phone text;
+  channel_name text;
+BEGIN
+  SELECT phone INTO user_phone FROM notification_preferences WHERE user_id = p_booking.user_id;
+
+  FOREACH channel_name IN ARRAY ARRAY['email', 'sms', 'whatsapp'] LOOP
+    IF notification_channel_enabled(p_booking.user_id, notification_kind, channel_name) THEN
+      PERFORM enqueue_notification(
+        channel_name,
+        p_template,
+        CASE WHEN channel_name = 'email' THEN p_booking.email ELSE user_phone END,
+        p_payload,
+        p_booking.user_id,
+        p_booking.id,
+        NULL,
+        p_send_after,
+        CASE WHEN p_dedupe_key IS NOT NULL THEN p_dedupe_key || ':' || channel_name END
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION schedule_booking_reminders(p_booking bookings)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_record class_sessions%ROWTYPE;
+  prefs notification_preferences%ROWTYPE;
+  lead_hours integer;
+  send_at timestamptz;
+BEGIN
+  SELECT * INTO session_record FROM class_sessions WHERE id = p_booking.session_id;
+
+  IF NOT FOUND OR session_record.status <> 'scheduled' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO prefs FROM notification_preferences WHERE user_id = p_booking.user_id;
+
+  FOREACH lead_hours IN ARRAY ARRAY[24, 1] LOOP
+    CONTINUE WHEN lead_hours = 24 AND NOT COALESCE(prefs.remind_day_before, true);
+    CONTINUE WHEN lead_hours = 1 AND NOT COALESCE(prefs.remind_hour_before, true);
+
+    send_at := session_record.starts_at - make_interval(hours => lead_hours);
+    -- Booked too late for this one; the confirmation already has the time
+    CONTINUE WHEN send_at <= now();
+
+    PERFORM enqueue_booking_notification(
+      p_booking,
+      'class_reminder',
+      booking_notification_payload(p_booking) || jsonb_build_object('lead_hours', lead_hours),
+      send_at,
+      'class_reminder:' || p_booking.id || ':' || p_booking.session_id || ':' || lead_hours
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_booking_reminders(p_booking_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  -- Clearing the key lets the same reminder be scheduled again if the
+  -- booking moves back to this session
+  UPDATE notification_outbox
+  SET status = 'cancelled', dedupe_key = NULL
+  WHERE booking_id = p_booking_id
+    AND template = 'class_reminder'
+    AND status = 'queued';
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_booking_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  notification_template text;
+  payload jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'confirmed' THEN
+      notification_template := 'booking_confirmed';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'waitlisted' AND NEW.status IN ('confirmed', 'pending_payment') THEN
+      notification_template := 'waitlist_promoted';
+    ELSIF NEW.status = 'confirmed' AND OLD.status IN ('pending', 'pending_payment') THEN
+      notification_template := 'booking_confirmed';
+    ELSIF NEW.status = 'cancelled' THEN
+      notification_template := 'booking_cancelled';
+    END IF;
+  ELSIF NEW.session_id IS DISTINCT FROM OLD.session_id AND NEW.status = 'confirmed' THEN
+    -- Rescheduled, the confirmation carries the new class time
+    notification_template := 'booking_confirmed';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'confirmed'
+     AND (NEW.status <> 'confirmed' OR NEW.session_id IS DISTINCT FROM OLD.session_id) THEN
+    PERFORM cancel_booking_reminders(NEW.id);
+  END IF;
+
+  IF NEW.status = 'confirmed'
+     AND (TG_OP = 'INSERT' OR OLD.status <> 'confirmed' OR NEW.session_id IS DISTINCT FROM OLD.session_id) THEN
+    PERFORM schedule_booking_reminders(NEW);
+  END IF;
+
+  IF notification_template IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  payload := booking_notification_payload(NEW);
+
+  IF notification_template = 'booking_cancelled' THEN
+    payload := payload || jsonb_build_object(
+      'reason', COALESCE(current_setting('app.booking_event_note', true), '')
+    );
+  END IF;
+
+  PERFORM enqueue_booking_notification(NEW, notification_template, payload);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_booking_notifications_trigger
+  AFTER INSERT OR UPDATE OF status, session_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_booking_notifications();
+
+-- Query answers go to the address the question came from, which may not
+-- belong to an account
+CREATE OR REPLACE FUNCTION enqueue_query_answer_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF COALESCE(trim(NEW.response), '') = '' OR NEW.response IS NOT DISTINCT FROM OLD.response THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_notification(
+    'email',
+    'query_answered',
+    NEW.email,
+    jsonb_build_object(
+      'name', NEW.name,
+      'subject', NEW.subject,
+      'message', NEW.message,
+      'response', NEW.response
+    ),
+    NULL,
+    NULL,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_outbox_messages(p_limit integer DEFAULT 20)
+RETURNS SETOF notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  reminder record;
+  quiet_until timestamptz;
+BEGIN
+  -- Preferences may have changed since the reminder was scheduled, and a
+  -- cancelled session doesn't cancel its bookings
+  FOR reminder IN
+    SELECT
+      o.id,
+      o.user_id,
+      o.channel,
+      s.starts_at,
+      s.status = 'scheduled' AND b.status = 'confirmed' AS still_booked,
+      CASE (o.payload->>'lead_hours')::integer
+        WHEN 24 THEN COALESCE(p.remind_day_before, true)
+        ELSE COALESCE(p.remind_hour_before, true)
+      END AS lead_wanted
+    FROM notification_outbox o
+    JOIN bookings b ON b.id = o.booking_id
+    JOIN class_sessions s ON s.id = b.session_id
+    LEFT JOIN notification_preferences p ON p.user_id = o.user_id
+    WHERE o.template = 'class_reminder'
+      AND o.status = 'queued'
+      AND o.send_after <= now()
+    FOR UPDATE OF o SKIP LOCKED
+  LOOP
+    IF NOT reminder.still_booked THEN
+      UPDATE notification_outbox SET status = 'cancelled' WHERE id = reminder.id;
+      CONTINUE;
+    END IF;
+
+    IF NOT reminder.lead_wanted OR NOT notification_channel_enabled(reminder.user_id, 'reminders', reminder.channel) THEN
+      UPDATE notification_outbox
+      SET status = 'skipped', last_error = 'Turned off in notification preferences'
+      WHERE id = reminder.id;
+      CONTINUE;
+    END IF;
+
+    quiet_until := quiet_hours_end(reminder.user_id, now());
+    CONTINUE WHEN quiet_until IS NULL;
+
+    IF quiet_until >= reminder.starts_at THEN
+      UPDATE notification_outbox
+      SET status = 'skipped', last_error = 'Quiet hours last until the class starts'
+      WHERE id = reminder.id;
+    ELSE
+      UPDATE notification_outbox SET send_after = quiet_until WHERE id = reminder.id;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE notification_outbox
+  SET status = 'sending', attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM notification_outbox
+    WHERE (status = 'queued' AND send_after <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY send_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resend_notification(p_notification_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resend notifications';
+  END IF;
+
+  UPDATE notification_outbox
+  SET status = 'queued', attempts = 0, last_error = '', send_after = now()
+  WHERE id = p_notification_id AND status IN ('sent', 'failed', 'skipped');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This message is already waiting to be sent';
+  END IF;
+END;
+$$;
+
+DO $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+BEGIN
+  FOR booking_record IN
+    SELECT b.*
+    FROM bookings b
+    JOIN class_sessions s ON s.id = b.session_id
+    WHERE b.status = 'confirmed'
+      AND s.status = 'scheduled'
+      AND s.starts_at > now()
+  LOOP
+    PERFORM schedule_booking_reminders(booking_record);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notification_channel_enabled(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION quiet_hours_end(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_notification(text, text, text, jsonb, uuid, uuid, uuid, timestamptz, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION booking_notification_payload(bookings) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_booking_notification(bookings, text, jsonb, timestamptz, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION schedule_booking_reminders(bookings) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_booking_reminders(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_outbox_messages(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_outbox_messages(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION resend_notification(uuid) TO authenticated;
+
+SELECT cron.schedule(
+  'send-notifications',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM notification_outbox WHERE status IN ('queued', 'sending') AND send_after <= now()
+  )
+  $$
+);
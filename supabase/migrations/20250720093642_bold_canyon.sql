@@ -0,0 +1,188 @@
+/*
+  # Yoga query conversations
+
+  1. New Tables
+    - `yoga_query_messages` - Replies under a yoga query; the question
+      itself stays on `yoga_queries`
+      - `query_id` (uuid, references yoga_queries)
+      - `sender` (text) - `staff` or `asker`
+      - `author_id` (uuid) - The signed-in author, if any
+      - `body` (text)
+
+  2. Changes
+    - `yoga_queries.reply_token` - Secret for the reply link in the answer
+      email, so the asker can follow up without an account
+    - `yoga_queries.last_message_at` - For sorting the inbox
+    - A staff reply marks the query `responded`, keeps `response` and
+      `responded_at` up to date with the latest answer, and emails it to the
+      asker. A follow-up from the asker sets the query back to `pending`
+    - Existing responses become the first staff message of their query
+    - Answers are no longer emailed when `response` is changed directly
+
+  3. Functions
+    - `get_query_thread(token)` - The question and its messages, for the
+      reply link
+    - `reply_to_query(token, body)` - A follow-up from the asker
+
+  4. Security
+    - Enable RLS on `yoga_query_messages`; admins read and write staff
+      replies, askers read the messages of their own queries. Askers only
+      write through `reply_to_query`
+*/
+
+ALTER TABLE yoga_queries ADD COLUMN IF NOT EXISTS reply_token uuid NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE yoga_queries ADD COLUMN IF NOT EXISTS last_message_at timestamptz DEFAULT now() NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS yoga_queries_reply_token_idx ON yoga_queries(reply_token);
+
+CREATE TABLE IF NOT EXISTS yoga_query_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  query_id uuid NOT NULL REFERENCES yoga_queries(id) ON DELETE CASCADE,
+  sender text NOT NULL CHECK (sender IN ('staff', 'asker')),
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  body text NOT NULL CHECK (length(trim(body)) > 0 AND length(body) <= 5000),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS yoga_query_messages_query_idx ON yoga_query_messages(query_id, created_at);
+
+INSERT INTO yoga_query_messages (query_id, sender, body, created_at)
+SELECT id, 'staff', response, COALESCE(responded_at, created_at)
+FROM yoga_queries
+WHERE COALESCE(trim(response), '') <> '';
+
+UPDATE yoga_queries
+SET last_message_at = COALESCE(responded_at, created_at);
+
+ALTER TABLE yoga_query_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read query messages"
+  ON yoga_query_messages
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can reply to queries"
+  ON yoga_query_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin() AND sender = 'staff' AND author_id = auth.uid());
+
+CREATE POLICY "Users can read messages on their own queries"
+  ON yoga_query_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM yoga_queries q
+      WHERE q.id = query_id AND q.email = auth.email()
+    )
+  );
+
+DROP TRIGGER IF EXISTS enqueue_query_answer_email_trigger ON yoga_queries;
+DROP FUNCTION IF EXISTS enqueue_query_answer_email();
+
+CREATE OR REPLACE FUNCTION handle_query_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  query_record yoga_queries%ROWTYPE;
+BEGIN
+  IF NEW.sender = 'asker' THEN
+    UPDATE yoga_queries
+    SET status = 'pending', last_message_at = NEW.created_at
+    WHERE id = NEW.query_id;
+
+    RETURN NEW;
+  END IF;
+
+  UPDATE yoga_queries
+  SET status = 'responded',
+      response = NEW.body,
+      responded_at = NEW.created_at,
+      last_message_at = NEW.created_at
+  WHERE id = NEW.query_id
+  RETURNING * INTO query_record;
+
+  PERFORM enqueue_notification(
+    'email',
+    'query_answered',
+    query_record.email,
+    jsonb_build_object(
+      'name', query_record.name,
+      'subject', query_record.subject,
+      'message', query_record.message,
+      'response', NEW.body,
+      'reply_token', query_record.reply_token
+    ),
+    NULL,
+    NULL,
+    query_record.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_query_message_trigger
+  AFTER INSERT ON yoga_query_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_query_message();
+
+CREATE OR REPLACE FUNCTION get_query_thread(p_token uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'id', q.id,
+    'name', q.name,
+    'subject', q.subject,
+    'category', q.category,
+    'message', q.message,
+    'status', q.status,
+    'created_at', q.created_at,
+    'messages', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', m.id, 'sender', m.sender, 'body', m.body, 'created_at', m.created_at)
+          ORDER BY m.created_at
+        )
+        FROM yoga_query_messages m
+        WHERE m.query_id = q.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  FROM yoga_queries q
+  WHERE q.reply_token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION reply_to_query(p_token uuid, p_body text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  query_id_var uuid;
+BEGIN
+  SELECT id INTO query_id_var FROM yoga_queries WHERE reply_token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF COALESCE(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Please write a message';
+  END IF;
+
+  INSERT INTO yoga_query_messages (query_id, sender, author_id, body)
+  VALUES (query_id_var, 'asker', auth.uid(), trim(p_body));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_query_thread(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reply_to_query(uuid, text) TO anon, authenticated;
@@ -0,0 +1,228 @@
+/*
+  # Contact inbox
+
+  1. New Tables
+    - `contact_message_notes` - Activity under a contact message
+      - `contact_message_id` (uuid, references contact_messages)
+      - `kind` (text) - `note` for staff only, `reply` for an answer that is
+        emailed to the sender
+      - `author_id` (uuid), `body` (text)
+
+  2. Changes
+    - `contact_messages.status` is now `new`, `open`, `waiting` (on the
+      sender) or `resolved`; messages marked `read` become `open`
+    - `contact_messages.assigned_to` - The staff member handling it
+    - `contact_messages.tags` (text[])
+    - `contact_messages.first_response_at` - Stops the 48 hour response
+      clock; set by the first reply, or when the message is resolved
+    - `contact_messages.resolved_at`
+    - `contact_messages.merged_into` - Duplicates from the same sender are
+      merged into one message and drop out of the inbox
+    - Replying moves the message to `waiting`
+
+  3. Functions
+    - `get_staff_members()` - Who messages can be assigned to
+    - `merge_contact_messages(primary_id, duplicate_ids)`
+
+  4. Security
+    - Enable RLS on `contact_message_notes`; admins only
+*/
+
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS first_response_at timestamptz;
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES contact_messages(id) ON DELETE SET NULL;
+ALTER TABLE contact_messages ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now() NOT NULL;
+
+UPDATE contact_messages SET status = 'open' WHERE status NOT IN ('new', 'open', 'waiting', 'resolved');
+
+ALTER TABLE contact_messages ADD CONSTRAINT contact_messages_status_check
+  CHECK (status IN ('new', 'open', 'waiting', 'resolved'));
+
+CREATE INDEX IF NOT EXISTS contact_messages_inbox_idx ON contact_messages(status, created_at) WHERE merged_into IS NULL;
+CREATE INDEX IF NOT EXISTS contact_messages_email_idx ON contact_messages(lower(email));
+
+CREATE TRIGGER update_contact_messages_updated_at
+  BEFORE UPDATE ON contact_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION track_contact_message_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'resolved' AND OLD.status <> 'resolved' THEN
+    NEW.resolved_at := now();
+    NEW.first_response_at := COALESCE(NEW.first_response_at, now());
+  ELSIF NEW.status <> 'resolved' THEN
+    NEW.resolved_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_contact_message_status_trigger
+  BEFORE UPDATE OF status ON contact_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION track_contact_message_status();
+
+CREATE TABLE IF NOT EXISTS contact_message_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_message_id uuid NOT NULL REFERENCES contact_messages(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'note' CHECK (kind IN ('note', 'reply')),
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  body text NOT NULL CHECK (length(trim(body)) > 0 AND length(body) <= 5000),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS contact_message_notes_message_idx ON contact_message_notes(contact_message_id, created_at);
+
+ALTER TABLE contact_message_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read contact message notes"
+  ON contact_message_notes
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can add contact message notes"
+  ON contact_message_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin() AND author_id = auth.uid());
+
+ALTER TABLE notification_outbox ADD COLUMN IF NOT EXISTS contact_message_id uuid REFERENCES contact_messages(id) ON DELETE SET NULL;
+ALTER TABLE notification_outbox DROP CONSTRAINT IF EXISTS email_outbox_template_check;
+ALTER TABLE notification_outbox ADD CONSTRAINT notification_outbox_template_check
+  CHECK (template IN ('booking_confirmed', 'class_reminder', 'booking_cancelled', 'waitlist_promoted', 'query_answered', 'contact_reply'));
+
+CREATE OR REPLACE FUNCTION handle_contact_message_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  contact_record contact_messages%ROWTYPE;
+BEGIN
+  IF NEW.kind <> 'reply' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE contact_messages
+  SET status = 'waiting',
+      first_response_at = COALESCE(first_response_at, NEW.created_at)
+  WHERE id = NEW.contact_message_id
+  RETURNING * INTO contact_record;
+
+  INSERT INTO notification_outbox (channel, template, recipient, payload, contact_message_id)
+  VALUES (
+    'email',
+    'contact_reply',
+    lower(trim(contact_record.email)),
+    jsonb_build_object(
+      'name', contact_record.name,
+      'subject', contact_record.subject,
+      'message', contact_record.message,
+      'response', NEW.body
+    ),
+    contact_record.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_contact_message_note_trigger
+  AFTER INSERT ON contact_message_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_contact_message_note();
+
+CREATE OR REPLACE FUNCTION get_staff_members()
+RETURNS TABLE(user_id uuid, email text, full_name text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list staff members';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT u.id, u.email::text, COALESCE(u.raw_user_meta_data->>'full_name', '')
+  FROM auth.users u
+  WHERE EXISTS (
+      SELECT 1
+      FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = u.id AND r.name IN ('admin', 'super_admin')
+    )
+    OR EXISTS (
+      SELECT 1 FROM admin_users a
+      WHERE a.email = u.email AND a.role IN ('admin', 'super_admin')
+    )
+  ORDER BY 2;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_contact_messages(p_primary_id uuid, p_duplicate_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  primary_record contact_messages%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge contact messages';
+  END IF;
+
+  SELECT * INTO primary_record FROM contact_messages WHERE id = p_primary_id FOR UPDATE;
+
+  IF NOT FOUND OR primary_record.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF p_primary_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'A message cannot be merged into itself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM contact_messages
+    WHERE id = ANY(p_duplicate_ids)
+      AND (lower(email) <> lower(primary_record.email) OR merged_into IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Only messages from the same email address can be merged';
+  END IF;
+
+  -- Keep each duplicate's text as a note so nothing the sender wrote is lost
+  INSERT INTO contact_message_notes (contact_message_id, kind, author_id, body, created_at)
+  SELECT p_primary_id, 'note', auth.uid(), 'Merged message "' || subject || '": ' || left(message, 4900), created_at
+  FROM contact_messages
+  WHERE id = ANY(p_duplicate_ids);
+
+  UPDATE contact_message_notes
+  SET contact_message_id = p_primary_id
+  WHERE contact_message_id = ANY(p_duplicate_ids);
+
+  UPDATE contact_messages
+  SET tags = ARRAY(
+        SELECT DISTINCT tag
+        FROM contact_messages, unnest(tags) AS tag
+        WHERE id = p_primary_id OR id = ANY(p_duplicate_ids)
+      ),
+      status = CASE WHEN status = 'resolved' THEN 'open' ELSE status END
+  WHERE id = p_primary_id;
+
+  UPDATE contact_messages
+  SET merged_into = p_primary_id, status = 'resolved'
+  WHERE id = ANY(p_duplicate_ids);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_contact_messages(uuid, uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_staff_members() TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_contact_messages(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,70 @@
+/*
+  # Reply templates
+
+  1. New Tables
+    - `reply_templates` - Canned answers staff insert into query and contact
+      replies
+      - `title` (text)
+      - `body` (text) - May use the placeholders `{{name}}`, `{{first_name}}`,
+        `{{next_class_date}}` and `{{booking_link}}`, filled in when inserted
+      - `category` (text) - Yoga query category the template is suggested
+        for; null for templates that fit anywhere
+      - `is_active` (boolean)
+
+  2. Security
+    - Enable RLS on `reply_templates`; admins only
+*/
+
+CREATE TABLE IF NOT EXISTS reply_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  body text NOT NULL CHECK (length(trim(body)) > 0 AND length(body) <= 5000),
+  category text CHECK (category IN ('general', 'classes', 'poses', 'health', 'membership', 'schedule')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS reply_templates_category_idx ON reply_templates(category) WHERE is_active;
+
+ALTER TABLE reply_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage reply templates"
+  ON reply_templates
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_reply_templates_updated_at
+  BEFORE UPDATE ON reply_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO reply_templates (title, category, body) VALUES
+  (
+    'Pose needs a teacher''s eye',
+    'poses',
+    E'Hi {{first_name}},\n\nThanks for asking. Alignment is much easier to fix when a teacher can see you, so the best next step is to bring this to a class and ask the instructor to watch you in the pose. Our next class is on {{next_class_date}}, and you can book a spot here: {{booking_link}}\n\nUntil then, move slowly, use props such as a block or a strap, and never push through pain.'
+  ),
+  (
+    'Check with your doctor first',
+    'health',
+    E'Hi {{first_name}},\n\nThank you for telling us. We are not able to give medical advice, so please check with your doctor or physiotherapist before starting or changing your practice. Once you have the all-clear, let your instructor know before class and they will offer modifications.\n\nWhen you are ready, you can book a class here: {{booking_link}}'
+  ),
+  (
+    'Packs and memberships',
+    'membership',
+    E'Hi {{first_name}},\n\nWe offer single classes, class packs and monthly memberships. Packs and memberships are the better value if you plan to come regularly, and you can see the current options and prices when you book: {{booking_link}}\n\nLet us know if you have any other questions.'
+  ),
+  (
+    'Next available class',
+    'schedule',
+    E'Hi {{first_name}},\n\nOur next class is on {{next_class_date}}. You can see the full schedule and book a spot here: {{booking_link}}\n\nIf a class is full you can join the waitlist and we will let you know as soon as a spot opens up.'
+  ),
+  (
+    'Thanks for getting in touch',
+    NULL,
+    E'Hi {{first_name}},\n\nThank you for reaching out to Yogodyaan. '
+  );
@@ -0,0 +1,178 @@
+/*
+  # Article search
+
+  1. Changes
+    - `articles.search_vector` (tsvector) - Title, tags, preview and the
+      article body with its HTML stripped, weighted in that order
+    - `articles.search_text` (text) - Title, tags and preview in lower case,
+      trigram indexed so misspelled terms ("pranayam", "asanna") still match
+    - Both are kept up to date by a trigger and backfilled for existing
+      articles
+
+  2. Functions
+    - `strip_html(text)` - Article content as plain text
+    - `search_articles(query, category, sort, limit, offset)` - One page of
+      published articles with ratings, a highlighted snippet and the total
+      number of matches. An empty query lists every article in the category;
+      sort is `relevance`, `latest`, `popular` or `highest_rated`
+
+  3. Security
+    - `search_articles` runs with the caller's rights, so only published
+      articles are returned
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS search_text text NOT NULL DEFAULT '';
+
+CREATE OR REPLACE FUNCTION strip_html(p_html text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    replace(replace(replace(replace(replace(
+      regexp_replace(COALESCE(p_html, ''), '<[^>]*>', ' ', 'g'),
+      '&nbsp;', ' '), '&quot;', '"'), '&#39;', ''''), '&lt;', '<'), '&gt;', '>'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION update_article_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(COALESCE(NEW.tags, '{}'), ' ')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.preview_text, '')), 'C') ||
+    setweight(to_tsvector('english', strip_html(NEW.content)), 'D');
+  NEW.search_text := lower(concat_ws(' ', NEW.title, array_to_string(COALESCE(NEW.tags, '{}'), ' '), NEW.preview_text));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_article_search_trigger
+  BEFORE INSERT OR UPDATE OF title, tags, preview_text, content ON articles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_article_search();
+
+-- Backfill through the trigger without touching updated_at
+ALTER TABLE articles DISABLE TRIGGER update_articles_updated_at;
+UPDATE articles SET title = title;
+ALTER TABLE articles ENABLE TRIGGER update_articles_updated_at;
+
+CREATE INDEX IF NOT EXISTS articles_search_vector_idx ON articles USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS articles_search_text_idx ON articles USING gin(search_text gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION search_articles(
+  p_query text DEFAULT '',
+  p_category text DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE(
+  id uuid,
+  title text,
+  preview_text text,
+  image_url text,
+  video_url text,
+  category text,
+  tags text[],
+  status text,
+  view_count integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  published_at timestamptz,
+  average_rating numeric,
+  total_ratings integer,
+  snippet text,
+  rank real,
+  total_count integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT
+      NULLIF(trim(COALESCE(p_query, '')), '') AS term,
+      websearch_to_tsquery('english', COALESCE(p_query, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      a.*,
+      CASE
+        WHEN s.term IS NULL THEN 0
+        ELSE ts_rank_cd(a.search_vector, s.query) + word_similarity(lower(s.term), a.search_text) * 0.5
+      END::real AS match_rank,
+      s.term,
+      s.query
+    FROM articles a, search s
+    WHERE a.status = 'published'
+      AND (p_category IS NULL OR p_category = 'all' OR a.category = p_category)
+      AND (
+        s.term IS NULL
+        OR a.search_vector @@ s.query
+        OR lower(s.term) <% a.search_text
+      )
+  ),
+  rated AS (
+    SELECT
+      m.*,
+      stats.rating_average,
+      stats.rating_count,
+      count(*) OVER ()::integer AS match_count
+    FROM matches m
+    CROSS JOIN LATERAL (
+      SELECT
+        COALESCE(round(avg(rt.rating), 1), 0) AS rating_average,
+        count(*)::integer AS rating_count
+      FROM ratings rt
+      WHERE rt.article_id = m.id
+    ) stats
+  )
+  SELECT
+    r.id,
+    r.title,
+    r.preview_text,
+    r.image_url,
+    r.video_url,
+    r.category,
+    r.tags,
+    r.status,
+    r.view_count,
+    r.created_at,
+    r.updated_at,
+    r.published_at,
+    r.rating_average,
+    r.rating_count,
+    CASE
+      WHEN r.term IS NULL THEN NULL
+      -- Body matches are shown in context; fuzzy matches fall back to the preview
+      WHEN r.search_vector @@ r.query THEN ts_headline(
+        'english',
+        strip_html(r.content),
+        r.query,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      ELSE NULL
+    END,
+    r.match_rank,
+    r.match_count
+  FROM rated r
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' AND r.term IS NOT NULL THEN r.match_rank END DESC NULLS LAST,
+    CASE WHEN p_sort = 'popular' THEN r.view_count END DESC NULLS LAST,
+    CASE WHEN p_sort = 'highest_rated' THEN r.rating_average END DESC NULLS LAST,
+    CASE WHEN p_sort = 'highest_rated' THEN r.rating_count END DESC NULLS LAST,
+    r.published_at DESC NULLS LAST,
+    r.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_articles(text, text, text, integer, integer) TO anon, authenticated;
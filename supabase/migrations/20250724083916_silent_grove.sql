@@ -0,0 +1,259 @@
+/*
+  # Article slugs
+
+  1. New Tables
+    - `article_slug_redirects` - Slugs an article used before it was renamed,
+      so old links keep working
+      - `old_slug` (text, primary key)
+      - `article_id` (uuid, references articles)
+
+  2. Changes
+    - `articles.slug` (text, unique) - Used in `/learning/:slug`. Existing
+      articles get one from their title; new articles without one do too
+    - Changing an article's slug records the old one as a redirect. A slug
+      that is taken over by another article stops redirecting
+    - `search_articles` also returns the slug
+
+  3. Functions
+    - `slugify(text)`
+    - `unique_article_slug(text, article_id)` - The slug for a title,
+      numbered if another article already has it
+
+  4. Security
+    - Enable RLS on `article_slug_redirects`; anyone can read redirects to
+      published articles, admins manage them
+*/
+
+CREATE OR REPLACE FUNCTION slugify(p_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(BOTH '-' FROM left(
+    trim(BOTH '-' FROM regexp_replace(lower(COALESCE(p_value, '')), '[^a-z0-9]+', '-', 'g')),
+    80
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION unique_article_slug(p_title text, p_article_id uuid DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  base_slug text := slugify(p_title);
+  candidate text;
+  suffix integer := 1;
+BEGIN
+  IF base_slug = '' THEN
+    base_slug := 'article';
+  END IF;
+
+  candidate := base_slug;
+
+  WHILE EXISTS (
+    SELECT 1 FROM articles
+    WHERE slug = candidate AND id IS DISTINCT FROM p_article_id
+  ) LOOP
+    suffix := suffix + 1;
+    candidate := base_slug || '-' || suffix;
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS slug text;
+
+-- Oldest article keeps the plain slug when titles repeat
+ALTER TABLE articles DISABLE TRIGGER update_articles_updated_at;
+
+DO $$
+DECLARE
+  article_record record;
+BEGIN
+  FOR article_record IN
+    SELECT id, title FROM articles WHERE slug IS NULL ORDER BY created_at, id
+  LOOP
+    UPDATE articles
+    SET slug = unique_article_slug(article_record.title, article_record.id)
+    WHERE id = article_record.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE articles ENABLE TRIGGER update_articles_updated_at;
+
+ALTER TABLE articles ALTER COLUMN slug SET NOT NULL;
+ALTER TABLE articles ADD CONSTRAINT articles_slug_key UNIQUE (slug);
+ALTER TABLE articles ADD CONSTRAINT articles_slug_format_check
+  CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND length(slug) <= 100);
+
+CREATE TABLE IF NOT EXISTS article_slug_redirects (
+  old_slug text PRIMARY KEY,
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS article_slug_redirects_article_idx ON article_slug_redirects(article_id);
+
+ALTER TABLE article_slug_redirects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read redirects to published articles"
+  ON article_slug_redirects
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM articles a
+      WHERE a.id = article_id AND a.status = 'published'
+    )
+  );
+
+CREATE POLICY "Admins can manage article redirects"
+  ON article_slug_redirects
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION set_article_slug()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF COALESCE(trim(NEW.slug), '') = '' THEN
+    NEW.slug := unique_article_slug(NEW.title, NEW.id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.slug IS DISTINCT FROM OLD.slug THEN
+    INSERT INTO article_slug_redirects (old_slug, article_id)
+    VALUES (OLD.slug, NEW.id)
+    ON CONFLICT (old_slug) DO UPDATE SET article_id = EXCLUDED.article_id, created_at = now();
+  END IF;
+
+  DELETE FROM article_slug_redirects WHERE old_slug = NEW.slug;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_article_slug_trigger
+  BEFORE INSERT OR UPDATE OF slug ON articles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_article_slug();
+
+-- The return type changes, so the function is recreated rather than replaced
+DROP FUNCTION IF EXISTS search_articles(text, text, text, integer, integer);
+
+CREATE FUNCTION search_articles(
+  p_query text DEFAULT '',
+  p_category text DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE(
+  id uuid,
+  slug text,
+  title text,
+  preview_text text,
+  image_url text,
+  video_url text,
+  category text,
+  tags text[],
+  status text,
+  view_count integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  published_at timestamptz,
+  average_rating numeric,
+  total_ratings integer,
+  snippet text,
+  rank real,
+  total_count integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT
+      NULLIF(trim(COALESCE(p_query, '')), '') AS term,
+      websearch_to_tsquery('english', COALESCE(p_query, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      a.*,
+      CASE
+        WHEN s.term IS NULL THEN 0
+        ELSE ts_rank_cd(a.search_vector, s.query) + word_similarity(lower(s.term), a.search_text) * 0.5
+      END::real AS match_rank,
+      s.term,
+      s.query
+    FROM articles a, search s
+    WHERE a.status = 'published'
+      AND (p_category IS NULL OR p_category = 'all' OR a.category = p_category)
+      AND (
+        s.term IS NULL
+        OR a.search_vector @@ s.query
+        OR lower(s.term) <% a.search_text
+      )
+  ),
+  rated AS (
+    SELECT
+      m.*,
+      stats.rating_average,
+      stats.rating_count,
+      count(*) OVER ()::integer AS match_count
+    FROM matches m
+    CROSS JOIN LATERAL (
+      SELECT
+        COALESCE(round(avg(rt.rating), 1), 0) AS rating_average,
+        count(*)::integer AS rating_count
+      FROM ratings rt
+      WHERE rt.article_id = m.id
+    ) stats
+  )
+  SELECT
+    r.id,
+    r.slug,
+    r.title,
+    r.preview_text,
+    r.image_url,
+    r.video_url,
+    r.category,
+    r.tags,
+    r.status,
+    r.view_count,
+    r.created_at,
+    r.updated_at,
+    r.published_at,
+    r.rating_average,
+    r.rating_count,
+    CASE
+      WHEN r.term IS NULL THEN NULL
+      -- Body matches are shown in context; fuzzy matches fall back to the preview
+      WHEN r.search_vector @@ r.query THEN ts_headline(
+        'english',
+        strip_html(r.content),
+        r.query,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      ELSE NULL
+    END,
+    r.match_rank,
+    r.match_count
+  FROM rated r
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' AND r.term IS NOT NULL THEN r.match_rank END DESC NULLS LAST,
+    CASE WHEN p_sort = 'popular' THEN r.view_count END DESC NULLS LAST,
+    CASE WHEN p_sort = 'highest_rated' THEN r.rating_average END DESC NULLS LAST,
+    CASE WHEN p_sort = 'highest_rated' THEN r.rating_count END DESC NULLS LAST,
+    r.published_at DESC NULLS LAST,
+    r.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_articles(text, text, text, integer, integer) TO anon, authenticated;
@@ -0,0 +1,156 @@
+/*
+  # Article revisions
+
+  1. New Tables
+    - `article_revisions` - A snapshot of an article after every save that
+      changed it
+      - `article_id` (uuid, references articles)
+      - `revision_number` (integer) - Counts up from 1 per article
+      - `title`, `slug`, `content`, `preview_text`, `image_url`, `video_url`,
+        `category`, `tags`, `status` - The article as saved
+      - `author_id` (uuid) - Who saved it
+      - `restored_from` (uuid) - The revision that was restored, if the save
+        was a restore
+
+  2. Changes
+    - Existing articles get their current state as revision 1
+    - Updates that only touch counters such as `view_count` are not revisions
+
+  3. Functions
+    - `restore_article_revision(revision_id)` - Puts the revision's title,
+      content, preview, media, category and tags back on the article. The
+      status and slug stay as they are, so a restore never unpublishes an
+      article or moves its URL. The restore is recorded as a new revision
+
+  4. Security
+    - Enable RLS on `article_revisions`; admins read them, revisions are only
+      written by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS article_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  title text NOT NULL,
+  slug text NOT NULL,
+  content text NOT NULL,
+  preview_text text NOT NULL,
+  image_url text,
+  video_url text,
+  category text NOT NULL,
+  tags text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL,
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  restored_from uuid REFERENCES article_revisions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (article_id, revision_number)
+);
+
+ALTER TABLE article_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read article revisions"
+  ON article_revisions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO article_revisions (
+  article_id, revision_number, title, slug, content, preview_text, image_url, video_url, category, tags, status, created_at
+)
+SELECT id, 1, title, slug, content, preview_text, image_url, video_url, category, COALESCE(tags, '{}'), status, updated_at
+FROM articles;
+
+CREATE OR REPLACE FUNCTION record_article_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.slug IS NOT DISTINCT FROM OLD.slug
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.preview_text IS NOT DISTINCT FROM OLD.preview_text
+    AND NEW.image_url IS NOT DISTINCT FROM OLD.image_url
+    AND NEW.video_url IS NOT DISTINCT FROM OLD.video_url
+    AND NEW.category IS NOT DISTINCT FROM OLD.category
+    AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO article_revisions (
+    article_id, revision_number, title, slug, content, preview_text, image_url, video_url,
+    category, tags, status, author_id, restored_from
+  )
+  SELECT
+    NEW.id,
+    COALESCE(max(revision_number), 0) + 1,
+    NEW.title,
+    NEW.slug,
+    NEW.content,
+    NEW.preview_text,
+    NEW.image_url,
+    NEW.video_url,
+    NEW.category,
+    COALESCE(NEW.tags, '{}'),
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.article_restored_from', true), '')::uuid
+  FROM article_revisions
+  WHERE article_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_article_revision_trigger
+  AFTER INSERT OR UPDATE ON articles
+  FOR EACH ROW
+  EXECUTE FUNCTION record_article_revision();
+
+CREATE OR REPLACE FUNCTION restore_article_revision(p_revision_id uuid)
+RETURNS articles
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  revision_record article_revisions%ROWTYPE;
+  article_record articles%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore article revisions';
+  END IF;
+
+  SELECT * INTO revision_record FROM article_revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('app.article_restored_from', p_revision_id::text, true);
+
+  UPDATE articles
+  SET title = revision_record.title,
+      content = revision_record.content,
+      preview_text = revision_record.preview_text,
+      image_url = revision_record.image_url,
+      video_url = revision_record.video_url,
+      category = revision_record.category,
+      tags = revision_record.tags
+  WHERE id = revision_record.article_id
+  RETURNING * INTO article_record;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Article not found';
+  END IF;
+
+  PERFORM set_config('app.article_restored_from', '', true);
+
+  RETURN article_record;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION restore_article_revision(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restore_article_revision(uuid) TO authenticated;
@@ -0,0 +1,92 @@
+/*
+  # Scheduled article publishing
+
+  1. Changes
+    - `articles.status` can now also be `scheduled`
+    - `articles.publish_at` - When a scheduled article goes live
+    - `articles.expires_at` - Optional; when the article is taken down
+      again. It goes back to `draft` and keeps the time so it is clear why
+    - A scheduled time that has already passed publishes straight away
+    - `published_at` is set when an article goes live if it has none yet:
+      the scheduled time, or the moment it was published
+
+  2. Functions
+    - `publish_scheduled_articles()` - Publishes articles whose time has
+      come and unpublishes expired ones; run every minute by pg_cron
+*/
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+UPDATE articles SET status = 'draft' WHERE status NOT IN ('draft', 'published');
+
+ALTER TABLE articles ADD CONSTRAINT articles_status_check
+  CHECK (status IN ('draft', 'scheduled', 'published'));
+
+CREATE INDEX IF NOT EXISTS articles_publish_at_idx ON articles(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS articles_expires_at_idx ON articles(expires_at) WHERE status = 'published';
+
+CREATE OR REPLACE FUNCTION apply_article_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'scheduled' THEN
+    IF NEW.publish_at IS NULL THEN
+      RAISE EXCEPTION 'Scheduled articles need a publish time';
+    END IF;
+
+    IF NEW.publish_at <= now() THEN
+      NEW.status := 'published';
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('scheduled', 'published')
+    AND NEW.expires_at IS NOT NULL
+    AND NEW.expires_at <= COALESCE(CASE WHEN NEW.status = 'scheduled' THEN NEW.publish_at END, now())
+  THEN
+    RAISE EXCEPTION 'The expiry time must be after the article goes live';
+  END IF;
+
+  IF NEW.status = 'published' AND NEW.published_at IS NULL THEN
+    NEW.published_at := LEAST(COALESCE(NEW.publish_at, now()), now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_article_schedule_trigger
+  BEFORE INSERT OR UPDATE OF status, publish_at, expires_at ON articles
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_article_schedule();
+
+CREATE OR REPLACE FUNCTION publish_scheduled_articles()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Missed runs can leave articles whose whole window has passed
+  UPDATE articles
+  SET status = 'draft'
+  WHERE status = 'scheduled' AND expires_at <= now();
+
+  UPDATE articles
+  SET status = 'published'
+  WHERE status = 'scheduled' AND publish_at <= now();
+
+  UPDATE articles
+  SET status = 'draft'
+  WHERE status = 'published' AND expires_at <= now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_scheduled_articles() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_scheduled_articles() TO service_role;
+
+SELECT cron.schedule(
+  'publish-scheduled-articles',
+  '* * * * *',
+  $$SELECT publish_scheduled_articles()$$
+);
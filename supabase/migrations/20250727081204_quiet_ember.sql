@@ -0,0 +1,63 @@
+/*
+  # Cancel bookings of cancelled sessions
+
+  1. Changes
+    - When a class session is cancelled (a series occurrence that was
+      cancelled or dropped, an ended series, or a session cancelled by an
+      admin), its bookings that still hold or wait for a seat are cancelled
+      through the normal status change. Students get the cancellation
+      notification, their reminders are dropped and credits or company
+      sessions are refunded, as the studio cancelled in time
+    - Pending payments for those bookings expire; payments already made are
+      flagged `refund_required`
+
+  2. Security
+    - `sync_class_series` and `sync_all_class_series` are no longer callable
+      through the API; they run from the series triggers and pg_cron
+*/
+
+CREATE OR REPLACE FUNCTION cancel_session_bookings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+BEGIN
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.booking_event_note', 'The class was cancelled by the studio', true);
+
+  FOR booking_record IN
+    SELECT * FROM bookings
+    WHERE session_id = NEW.id
+      AND status IN ('pending', 'pending_payment', 'confirmed', 'waitlisted')
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    UPDATE bookings
+    SET status = 'cancelled',
+        late_cancellation = false,
+        cancelled_at = now()
+    WHERE id = booking_record.id;
+
+    UPDATE payments
+    SET status = CASE WHEN status = 'paid' THEN 'refund_required' ELSE 'expired' END
+    WHERE booking_id = booking_record.id AND status IN ('pending', 'paid');
+  END LOOP;
+
+  PERFORM set_config('app.booking_event_note', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancel_session_bookings_trigger
+  AFTER UPDATE OF status ON class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION cancel_session_bookings();
+
+REVOKE EXECUTE ON FUNCTION sync_class_series(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_all_class_series() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,239 @@
+/*
+  # Who may make each booking status change
+
+  1. Changes
+    - `booking_status_transitions.actors` (text[]) - Who may make the change:
+      `student`, `instructor`, `admin` or `system` (payments, waitlist
+      promotions, expiring holds and other automatic changes)
+    - Students only cancel, and move off the waitlist by rescheduling;
+      attendance is marked by instructors and admins only
+    - `enforce_booking_transition` works out the actor: admins changing a
+      booking directly act as `admin`, functions say who they act for through
+      the `app.booking_actor` setting and are `system` otherwise. Other
+      direct status changes through the API are rejected, so students go
+      through `cancel_my_booking` and `reschedule_my_booking`, which keep
+      the cancellation window and late-cancellation marking
+    - `cancel_my_booking`, `reschedule_my_booking` and
+      `mark_booking_attendance` set the actor
+*/
+
+ALTER TABLE booking_status_transitions
+  ADD COLUMN IF NOT EXISTS actors text[] NOT NULL DEFAULT '{admin,system}'
+  CHECK (actors <@ ARRAY['student', 'instructor', 'admin', 'system']);
+
+UPDATE booking_status_transitions
+SET actors = '{student,admin,system}'
+WHERE to_status = 'cancelled'
+   OR (from_status = 'waitlisted' AND to_status IN ('confirmed', 'pending_payment'));
+
+UPDATE booking_status_transitions
+SET actors = '{instructor,admin}'
+WHERE to_status IN ('attended', 'late', 'no_show');
+
+CREATE OR REPLACE FUNCTION enforce_booking_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  actor text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Not SECURITY DEFINER: current_user is an API role only for direct writes
+  IF current_user IN ('anon', 'authenticated') THEN
+    actor := CASE WHEN is_admin() THEN 'admin' END;
+  ELSE
+    actor := COALESCE(NULLIF(current_setting('app.booking_actor', true), ''), 'system');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM booking_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Cannot change a booking from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF actor IS NULL OR NOT EXISTS (
+    SELECT 1 FROM booking_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status AND actor = ANY(actors)
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to change this booking from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_my_booking(p_booking_id uuid)
+RETURNS TABLE(booking_status text, late_cancellation boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  is_late boolean;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'pending_payment', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be cancelled';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR session_record.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = session_record.service;
+
+  -- Waitlist spots and unpaid holds were never really taken, so leaving them is never late
+  is_late := booking_record.status NOT IN ('waitlisted', 'pending_payment')
+    AND session_record.starts_at - now() < make_interval(hours => COALESCE(policy_record.cancel_window_hours, 12));
+
+  IF is_late AND NOT COALESCE(policy_record.allow_late_cancellation, true) THEN
+    RAISE EXCEPTION 'Cancellations close % hours before class', policy_record.cancel_window_hours;
+  END IF;
+
+  PERFORM set_config('app.booking_actor', 'student', true);
+  PERFORM set_config(
+    'app.booking_event_note',
+    CASE WHEN is_late THEN 'Late cancellation by student' ELSE 'Cancelled by student' END,
+    true
+  );
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      late_cancellation = is_late,
+      cancelled_at = now()
+  WHERE id = p_booking_id;
+
+  booking_status := 'cancelled';
+  late_cancellation := is_late;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_my_booking(p_booking_id uuid, p_new_session_id uuid)
+RETURNS TABLE(booking_status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  current_session class_sessions%ROWTYPE;
+  new_session class_sessions%ROWTYPE;
+  policy_record booking_policies%ROWTYPE;
+  new_status text;
+BEGIN
+  SELECT * INTO booking_record
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR booking_record.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking_record.status NOT IN ('pending', 'confirmed', 'waitlisted') THEN
+    RAISE EXCEPTION 'This booking can no longer be rescheduled';
+  END IF;
+
+  SELECT * INTO current_session FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR current_session.starts_at <= now() THEN
+    RAISE EXCEPTION 'This class has already started';
+  END IF;
+
+  SELECT * INTO policy_record FROM booking_policies WHERE service = current_session.service;
+
+  IF current_session.starts_at - now() < make_interval(hours => COALESCE(policy_record.reschedule_window_hours, 12)) THEN
+    RAISE EXCEPTION 'Bookings can only be rescheduled up to % hours before class', policy_record.reschedule_window_hours;
+  END IF;
+
+  SELECT * INTO new_session FROM class_sessions WHERE id = p_new_session_id;
+  IF NOT FOUND
+     OR new_session.id = current_session.id
+     OR new_session.status <> 'scheduled'
+     OR new_session.starts_at <= now()
+     OR new_session.service <> current_session.service THEN
+    RAISE EXCEPTION 'Please choose another upcoming session of the same service';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE session_id = p_new_session_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'pending_payment', 'confirmed', 'waitlisted')
+  ) THEN
+    RAISE EXCEPTION 'You already have a booking for that session';
+  END IF;
+
+  -- A waitlisted booking moved into an open session takes a seat there, and
+  -- has to be paid for first in a priced class.
+  -- The capacity trigger rejects the move if the new session is full.
+  new_status := CASE
+    WHEN booking_record.status <> 'waitlisted' THEN booking_record.status
+    WHEN COALESCE(service_price_cents(p_new_session_id), 0) > 0 THEN 'pending_payment'
+    ELSE 'confirmed'
+  END;
+
+  PERFORM set_config('app.booking_actor', 'student', true);
+  PERFORM set_config('app.booking_event_note', 'Rescheduled by student', true);
+
+  UPDATE bookings
+  SET session_id = p_new_session_id,
+      status = new_status
+  WHERE id = p_booking_id;
+
+  booking_status := new_status;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_booking_attendance(p_booking_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('attended', 'late', 'no_show') THEN
+    RAISE EXCEPTION 'Attendance must be attended, late or no_show';
+  END IF;
+
+  SELECT * INTO booking_record FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND OR NOT (is_admin() OR session_record.instructor_id = current_instructor_id()) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF session_record.starts_at > now() THEN
+    RAISE EXCEPTION 'Attendance can be marked once the class has started';
+  END IF;
+
+  IF booking_record.status = p_status THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.booking_actor', CASE WHEN is_admin() THEN 'admin' ELSE 'instructor' END, true);
+  PERFORM set_config('app.booking_event_note', 'Attendance marked', true);
+
+  UPDATE bookings SET status = p_status WHERE id = p_booking_id;
+END;
+$$;
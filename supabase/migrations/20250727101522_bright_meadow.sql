@@ -0,0 +1,190 @@
+/*
+  # Calendar entries with a join link
+
+  1. Changes
+    - Booking events link to the bookings page of the profile, where the
+      class room opens 15 minutes before the start. The link is the event URL
+      and LOCATION, and is repeated in the description for calendar apps that
+      show neither. The room link itself is not put in the file, since it is
+      only handed out once the join window opens
+    - Bookings still waiting for payment are exported as STATUS:TENTATIVE
+    - Teaching events in the feed link to the instructor dashboard
+
+  2. Functions
+    - `ics_event` takes the event status (`CONFIRMED`, `TENTATIVE` or
+      `CANCELLED`) and an optional URL
+    - `get_booking_ics(booking_id, app_url)` and
+      `get_calendar_feed(token, app_url)` take the site's base URL to build
+      the links from; without it the location stays `Online`
+*/
+
+DROP FUNCTION IF EXISTS get_booking_ics(uuid);
+DROP FUNCTION IF EXISTS get_calendar_feed(text);
+DROP FUNCTION IF EXISTS booking_ics_event(bookings, class_sessions);
+DROP FUNCTION IF EXISTS ics_event(text, integer, timestamptz, timestamptz, text, text, text, boolean);
+
+CREATE FUNCTION ics_event(
+  p_uid text,
+  p_sequence integer,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_summary text,
+  p_description text,
+  p_location text,
+  p_status text,
+  p_url text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    ics_fold('BEGIN:VEVENT') ||
+    ics_fold('UID:' || p_uid) ||
+    ics_fold('DTSTAMP:' || ics_timestamp(now())) ||
+    ics_fold('SEQUENCE:' || p_sequence) ||
+    ics_fold('DTSTART:' || ics_timestamp(p_starts_at)) ||
+    ics_fold('DTEND:' || ics_timestamp(p_ends_at)) ||
+    ics_fold('SUMMARY:' || ics_escape(p_summary)) ||
+    ics_fold('DESCRIPTION:' || ics_escape(p_description)) ||
+    CASE WHEN coalesce(p_location, '') <> '' THEN ics_fold('LOCATION:' || ics_escape(p_location)) ELSE '' END ||
+    -- URL is a URI value, so it is not text-escaped
+    CASE WHEN coalesce(p_url, '') <> '' THEN ics_fold('URL:' || p_url) ELSE '' END ||
+    ics_fold('STATUS:' || p_status) ||
+    ics_fold('END:VEVENT');
+$$;
+
+-- Only absolute http(s) URLs without spaces or control characters are used
+CREATE OR REPLACE FUNCTION ics_app_url(p_app_url text, p_path text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_app_url ~ '^https?://[^\s"<>]+$' THEN rtrim(p_app_url, '/') || p_path
+  END;
+$$;
+
+-- SEQUENCE must grow whenever the event changes; minutes since the epoch of the
+-- latest booking or session update does that without tracking a counter
+CREATE FUNCTION booking_ics_event(b bookings, s class_sessions, p_app_url text DEFAULT NULL)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ics_event(
+    'booking-' || b.id || '@yogodaan.com',
+    floor(extract(epoch FROM greatest(coalesce(b.updated_at, b.created_at), s.updated_at)) / 60)::integer,
+    s.starts_at,
+    s.ends_at,
+    s.class_type || ' with ' || s.instructor,
+    'Your Yogodaan class with ' || s.instructor || '.' || E'\n' ||
+      'Instructor''s time: ' || to_char(s.starts_at AT TIME ZONE s.timezone, 'Dy DD Mon HH24:MI') || ' (' || s.timezone || ')' ||
+      CASE
+        WHEN b.status = 'pending_payment' THEN E'\n' || 'Your seat is held until payment is complete.'
+        ELSE ''
+      END ||
+      CASE
+        WHEN ics_app_url(p_app_url, '/profile') IS NOT NULL
+          THEN E'\n' || 'Join from your bookings, from 15 minutes before the start: ' || ics_app_url(p_app_url, '/profile')
+        ELSE ''
+      END,
+    coalesce(ics_app_url(p_app_url, '/profile'), 'Online'),
+    CASE
+      WHEN b.status = 'cancelled' OR s.status = 'cancelled' THEN 'CANCELLED'
+      WHEN b.status IN ('pending', 'pending_payment') THEN 'TENTATIVE'
+      ELSE 'CONFIRMED'
+    END,
+    ics_app_url(p_app_url, '/profile')
+  );
+$$;
+
+-- Guest bookings have no owner to check, so their id (only ever returned to
+-- the person who booked) is enough to fetch the file
+CREATE FUNCTION get_booking_ics(p_booking_id uuid, p_app_url text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  booking_record bookings%ROWTYPE;
+  session_record class_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO booking_record FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND OR NOT (
+    booking_record.user_id IS NULL
+    OR booking_record.user_id = auth.uid()
+    OR is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO session_record FROM class_sessions WHERE id = booking_record.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking has no scheduled session';
+  END IF;
+
+  RETURN ics_calendar('Yogodaan', booking_ics_event(booking_record, session_record, p_app_url));
+END;
+$$;
+
+CREATE FUNCTION get_calendar_feed(p_token text, p_app_url text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  feed_user_id uuid;
+  feed_instructor_id uuid;
+  booking_events_ics text;
+  teaching_events_ics text;
+BEGIN
+  SELECT user_id INTO feed_user_id FROM calendar_feeds WHERE token = p_token;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar feed not found';
+  END IF;
+
+  SELECT id INTO feed_instructor_id FROM instructors WHERE user_id = feed_user_id;
+
+  -- Cancelled bookings stay in the feed so subscribed calendars mark them cancelled
+  SELECT string_agg(booking_ics_event(b, s, p_app_url), '' ORDER BY s.starts_at)
+  INTO booking_events_ics
+  FROM bookings b
+  JOIN class_sessions s ON s.id = b.session_id
+  WHERE b.user_id = feed_user_id
+    AND b.status <> 'waitlisted'
+    AND s.ends_at > now() - interval '1 day';
+
+  IF feed_instructor_id IS NOT NULL THEN
+    SELECT string_agg(
+      ics_event(
+        'session-' || s.id || '@yogodaan.com',
+        floor(extract(epoch FROM s.updated_at) / 60)::integer,
+        s.starts_at,
+        s.ends_at,
+        'Teaching: ' || s.class_type,
+        coalesce(seats.seats_taken, 0) || ' of ' || s.capacity || ' seats booked',
+        coalesce(ics_app_url(p_app_url, '/instructor'), 'Online'),
+        CASE WHEN s.status = 'cancelled' THEN 'CANCELLED' ELSE 'CONFIRMED' END,
+        ics_app_url(p_app_url, '/instructor')
+      ),
+      '' ORDER BY s.starts_at
+    )
+    INTO teaching_events_ics
+    FROM class_sessions s
+    LEFT JOIN class_session_seats seats ON seats.session_id = s.id
+    WHERE s.instructor_id = feed_instructor_id
+      AND s.ends_at > now() - interval '1 day';
+  END IF;
+
+  RETURN ics_calendar(
+    'Yogodaan',
+    coalesce(booking_events_ics, '') || coalesce(teaching_events_ics, '')
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booking_ics(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_calendar_feed(text, text) TO anon, authenticated;
@@ -0,0 +1,62 @@
+/*
+  # Bookings are only written through the booking functions
+
+  1. Changes
+    - Students and guests no longer insert or update `bookings` directly.
+      Bookings are made with `book_class_session` and
+      `reserve_one_on_one_slot`, confirmed by `record_payment_event`, and
+      cancelled or moved with `cancel_my_booking` and `reschedule_my_booking`.
+      Those run as the definer and keep their checks (payment, capacity,
+      promo codes, cancellation window)
+    - A trigger rejects direct writes through the API that set a booking's
+      owner, session, status, payment, discount, company or cancellation
+      columns, unless the caller is an admin. This holds even if a write
+      policy is added again later
+
+  2. Security
+    - Dropped the policies "Users can create their own bookings", "Users can
+      update their own bookings" and "Anonymous users can create bookings".
+      Admins keep their own policies
+*/
+
+DROP POLICY IF EXISTS "Users can create their own bookings" ON bookings;
+DROP POLICY IF EXISTS "Users can update their own bookings" ON bookings;
+DROP POLICY IF EXISTS "Anonymous users can create bookings" ON bookings;
+
+-- Not SECURITY DEFINER: current_user is an API role only for direct writes,
+-- the booking functions run as their owner
+CREATE OR REPLACE FUNCTION guard_booking_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Please book through the booking page';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+     OR NEW.session_id IS DISTINCT FROM OLD.session_id
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.payment_expires_at IS DISTINCT FROM OLD.payment_expires_at
+     OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+     OR NEW.promo_code_id IS DISTINCT FROM OLD.promo_code_id
+     OR NEW.discount_cents IS DISTINCT FROM OLD.discount_cents
+     OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+     OR NEW.instructor_id IS DISTINCT FROM OLD.instructor_id
+     OR NEW.late_cancellation IS DISTINCT FROM OLD.late_cancellation
+     OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at THEN
+    RAISE EXCEPTION 'This booking can only be changed from your bookings page';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_booking_columns_trigger
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_booking_columns();
@@ -0,0 +1,12 @@
+/*
+  # Keep membership and credit lookups internal
+
+  1. Security
+    - `has_active_membership(user_id, service)` and
+      `next_credit_lot(user_id, service)` take any user id and run as the
+      definer, so they are no longer callable through the API. Only the
+      booking triggers use them
+*/
+
+REVOKE EXECUTE ON FUNCTION has_active_membership(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION next_credit_lot(uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,132 @@
+/*
+  # Promo discounts are only set by the booking function
+
+  1. Changes
+    - A booking's `promo_code_id` and `discount_cents` can only be set by
+      `book_class_session`, after it validated the code. Any other insert
+      or update that sets them is rejected, admins and the service role
+      included. Clearing them (a membership or credit covered the booking,
+      or the code was deleted) is still allowed. Checkout, invoices and
+      redemptions can rely on the booking's discount
+
+  2. Functions
+    - `book_class_session` passes the code and discount it resolved to the
+      trigger through the `app.booking_promo_code_id` and
+      `app.booking_discount_cents` settings
+*/
+
+CREATE OR REPLACE FUNCTION guard_booking_discount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF (NEW.promo_code_id IS NOT NULL OR NEW.discount_cents <> 0)
+       AND (NEW.promo_code_id IS DISTINCT FROM NULLIF(current_setting('app.booking_promo_code_id', true), '')::uuid
+         OR NEW.discount_cents <> COALESCE(NULLIF(current_setting('app.booking_discount_cents', true), '')::integer, 0)) THEN
+      RAISE EXCEPTION 'Promo codes are applied when booking';
+    END IF;
+  ELSIF (NEW.promo_code_id IS NOT NULL AND NEW.promo_code_id IS DISTINCT FROM OLD.promo_code_id)
+     OR (NEW.discount_cents <> 0 AND NEW.discount_cents <> OLD.discount_cents) THEN
+    RAISE EXCEPTION 'The discount of a booking can''t be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_booking_discount_trigger
+  BEFORE INSERT OR UPDATE OF promo_code_id, discount_cents ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_booking_discount();
+
+CREATE OR REPLACE FUNCTION book_class_session(
+  p_session_id uuid,
+  p_first_name text,
+  p_last_name text,
+  p_email text,
+  p_phone text DEFAULT '',
+  p_experience_level text DEFAULT 'beginner',
+  p_special_requests text DEFAULT '',
+  p_timezone text DEFAULT 'UTC',
+  p_promo_code text DEFAULT NULL
+)
+RETURNS TABLE(booking_id uuid, booking_status text, waitlist_position integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_booking bookings%ROWTYPE;
+  promo_id uuid;
+  promo_discount integer := 0;
+BEGIN
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    SELECT r.promo_code_id, r.discount_cents INTO promo_id, promo_discount
+    FROM resolve_promo_code(
+      p_promo_code,
+      (SELECT service FROM class_sessions WHERE id = p_session_id),
+      p_email,
+      auth.uid()
+    ) r;
+  END IF;
+
+  PERFORM set_config('app.booking_promo_code_id', COALESCE(promo_id::text, ''), true);
+  PERFORM set_config('app.booking_discount_cents', COALESCE(promo_discount, 0)::text, true);
+
+  INSERT INTO bookings (
+    user_id,
+    session_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    experience_level,
+    special_requests,
+    emergency_contact,
+    emergency_phone,
+    timezone,
+    promo_code_id,
+    discount_cents,
+    status
+  ) VALUES (
+    auth.uid(),
+    p_session_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    COALESCE(p_phone, ''),
+    COALESCE(p_experience_level, 'beginner'),
+    COALESCE(p_special_requests, ''),
+    '',
+    '',
+    COALESCE((SELECT name FROM pg_timezone_names WHERE name = p_timezone), (SELECT timezone FROM class_sessions WHERE id = p_session_id), 'UTC'),
+    promo_id,
+    COALESCE(promo_discount, 0),
+    CASE WHEN COALESCE(service_price_cents(p_session_id), 0) > 0 THEN 'pending_payment' ELSE 'confirmed' END
+  )
+  RETURNING * INTO new_booking;
+
+  PERFORM set_config('app.booking_promo_code_id', '', true);
+  PERFORM set_config('app.booking_discount_cents', '', true);
+
+  -- A membership or credit may have covered the booking instead, leaving the code unused
+  IF new_booking.promo_code_id IS NOT NULL THEN
+    INSERT INTO promo_redemptions (promo_code_id, booking_id, user_id, email, discount_cents)
+    VALUES (new_booking.promo_code_id, new_booking.id, new_booking.user_id, new_booking.email, new_booking.discount_cents);
+  END IF;
+
+  booking_id := new_booking.id;
+  booking_status := new_booking.status;
+  waitlist_position := NULL;
+
+  IF new_booking.status = 'waitlisted' THEN
+    SELECT COUNT(*) INTO waitlist_position
+    FROM bookings
+    WHERE session_id = p_session_id
+      AND status = 'waitlisted'
+      AND created_at <= new_booking.created_at;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
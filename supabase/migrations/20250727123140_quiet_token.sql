@@ -0,0 +1,25 @@
+/*
+  # Promo code check without an email
+
+  1. Functions
+    - `check_promo_code(code, service)` no longer takes an email. Signed-in
+      students are checked against their own account and email, including
+      the per-customer limit and first-class-only codes. Guests only learn
+      whether the code itself is valid for the service; their limits are
+      checked when the booking is made. Before, anyone could pass another
+      person's email and find out whether they had booked or used a code
+*/
+
+DROP FUNCTION IF EXISTS check_promo_code(text, text, text);
+
+CREATE FUNCTION check_promo_code(p_code text, p_service text)
+RETURNS TABLE(discount_cents integer, price_cents integer, currency text)
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT r.discount_cents, r.price_cents, r.currency
+  FROM resolve_promo_code(p_code, p_service, auth.email(), auth.uid()) r;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_promo_code(text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION check_promo_code(text, text) TO anon, authenticated;
@@ -0,0 +1,96 @@
+/*
+  # Contact form fields set by the inbox
+
+  1. Changes
+    - Messages sent through the contact form always start as `new`, dated
+      now, without an assignee, tags, merge or response times, whatever the
+      form sent. Only admins can set those
+    - Merged messages are cut to the 5000 characters a note can hold,
+      subject included; a long subject made the merge fail before
+
+  2. Functions
+    - `merge_contact_messages` shortens the whole note instead of only the
+      message
+*/
+
+-- Not SECURITY DEFINER: current_user is an API role only for direct inserts
+CREATE OR REPLACE FUNCTION reset_contact_message_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'new';
+  NEW.assigned_to := NULL;
+  NEW.merged_into := NULL;
+  NEW.first_response_at := NULL;
+  NEW.resolved_at := NULL;
+  NEW.tags := '{}';
+  NEW.created_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_contact_message_fields_trigger
+  BEFORE INSERT ON contact_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_contact_message_fields();
+
+CREATE OR REPLACE FUNCTION merge_contact_messages(p_primary_id uuid, p_duplicate_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  primary_record contact_messages%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge contact messages';
+  END IF;
+
+  SELECT * INTO primary_record FROM contact_messages WHERE id = p_primary_id FOR UPDATE;
+
+  IF NOT FOUND OR primary_record.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF p_primary_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'A message cannot be merged into itself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM contact_messages
+    WHERE id = ANY(p_duplicate_ids)
+      AND (lower(email) <> lower(primary_record.email) OR merged_into IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Only messages from the same email address can be merged';
+  END IF;
+
+  -- Keep each duplicate's text as a note so nothing the sender wrote is lost
+  INSERT INTO contact_message_notes (contact_message_id, kind, author_id, body, created_at)
+  SELECT p_primary_id, 'note', auth.uid(), left('Merged message "' || subject || '": ' || message, 5000), created_at
+  FROM contact_messages
+  WHERE id = ANY(p_duplicate_ids);
+
+  UPDATE contact_message_notes
+  SET contact_message_id = p_primary_id
+  WHERE contact_message_id = ANY(p_duplicate_ids);
+
+  UPDATE contact_messages
+  SET tags = ARRAY(
+        SELECT DISTINCT tag
+        FROM contact_messages, unnest(tags) AS tag
+        WHERE id = p_primary_id OR id = ANY(p_duplicate_ids)
+      ),
+      status = CASE WHEN status = 'resolved' THEN 'open' ELSE status END
+  WHERE id = p_primary_id;
+
+  UPDATE contact_messages
+  SET merged_into = p_primary_id, status = 'resolved'
+  WHERE id = ANY(p_duplicate_ids);
+END;
+$$;
@@ -0,0 +1,29 @@
+/*
+  # Ampersands in article search
+
+  1. Changes
+    - `&amp;` in article content is indexed as `&`. It is decoded last, so
+      text such as `&amp;lt;` stays literal instead of turning into `<`
+    - Search fields of existing articles are rebuilt
+
+  2. Functions
+    - `strip_html(text)` decodes `&amp;`
+*/
+
+CREATE OR REPLACE FUNCTION strip_html(p_html text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    replace(replace(replace(replace(replace(replace(
+      regexp_replace(COALESCE(p_html, ''), '<[^>]*>', ' ', 'g'),
+      '&nbsp;', ' '), '&quot;', '"'), '&#39;', ''''), '&lt;', '<'), '&gt;', '>'), '&amp;', '&'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- Backfill through the trigger without touching updated_at
+ALTER TABLE articles DISABLE TRIGGER update_articles_updated_at;
+UPDATE articles SET title = title;
+ALTER TABLE articles ENABLE TRIGGER update_articles_updated_at;
@@ -0,0 +1,56 @@
+/*
+  # Article revision numbers under concurrent saves
+
+  1. Functions
+    - `record_article_revision` takes a lock per article before numbering
+      the revision, so two saves at the same moment no longer pick the same
+      number and fail on the unique constraint
+*/
+
+CREATE OR REPLACE FUNCTION record_article_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.slug IS NOT DISTINCT FROM OLD.slug
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.preview_text IS NOT DISTINCT FROM OLD.preview_text
+    AND NEW.image_url IS NOT DISTINCT FROM OLD.image_url
+    AND NEW.video_url IS NOT DISTINCT FROM OLD.video_url
+    AND NEW.category IS NOT DISTINCT FROM OLD.category
+    AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Two saves of the same article must not both take the next number
+  PERFORM pg_advisory_xact_lock(hashtext('article_revision:' || NEW.id::text));
+
+  INSERT INTO article_revisions (
+    article_id, revision_number, title, slug, content, preview_text, image_url, video_url,
+    category, tags, status, author_id, restored_from
+  )
+  SELECT
+    NEW.id,
+    COALESCE(max(revision_number), 0) + 1,
+    NEW.title,
+    NEW.slug,
+    NEW.content,
+    NEW.preview_text,
+    NEW.image_url,
+    NEW.video_url,
+    NEW.category,
+    COALESCE(NEW.tags, '{}'),
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.article_restored_from', true), '')::uuid
+  FROM article_revisions
+  WHERE article_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;